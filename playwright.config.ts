@@ -0,0 +1,31 @@
+import { defineConfig, devices } from '@playwright/test'
+
+// https://playwright.dev/docs/test-configuration
+export default defineConfig({
+  testDir: './test',
+  fullyParallel: true,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 2 : 0,
+  reporter: 'list',
+  use: {
+    baseURL: 'http://localhost:3000',
+    trace: 'on-first-retry',
+  },
+  projects: [
+    {
+      // Pure logic tests: no browser or dev server needed
+      name: 'unit',
+      testDir: './test/unit',
+    },
+    {
+      name: 'e2e',
+      testDir: './test/e2e',
+      use: { ...devices['Desktop Chrome'] },
+    },
+  ],
+  webServer: {
+    command: 'npm run dev -- --port 3000 --strictPort',
+    url: 'http://localhost:3000',
+    reuseExistingServer: !process.env.CI,
+  },
+})
@@ -1,6 +1,34 @@
-import { useState } from 'react'
-import { formatArea, getFeatureBounds } from '../../utils/mapUtils'
-import type { AOIListProps, AOIFeature, FeatureType } from '../../types'
+import { Fragment, useState, useRef } from 'react'
+import { formatArea, formatLength, getFeatureBounds } from '../../utils/mapUtils'
+import { IMPORT_ACCEPT } from '../../utils/fileImport'
+import { getFeaturesExtent } from '../../utils/importUtils'
+import { formatAttributeValue } from '../../utils/attributes'
+import {
+  DEFAULT_SORT,
+  EMPTY_LIST_FILTERS,
+  EXPORT_FORMATS,
+  SORT_LABELS,
+  countActiveFilters,
+  filterAOIs,
+  getAllTags,
+  selectRange,
+  sortAOIs
+} from '../../utils/aoiList'
+import TextExchangeDialog from './TextExchangeDialog'
+import BufferPanel from './BufferPanel'
+import PropertyEditor from './PropertyEditor'
+import AOIListFilterPanel from './AOIListFilterPanel'
+import SelectionToolbar from './SelectionToolbar'
+import type {
+  AOIListProps,
+  AOIFeature,
+  AOIListFilters,
+  AOISort,
+  AOISortKey,
+  AttributeField,
+  FeatureType,
+  GeometryOperation
+} from '../../types'
 
 const featureIcons: Record<FeatureType, { path: string; color: string }> = {
   polygon: {
@@ -18,6 +46,14 @@ const featureIcons: Record<FeatureType, { path: string; color: string }> = {
   marker: {
     path: 'M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z M15 11a3 3 0 11-6 0 3 3 0 016 0z',
     color: 'text-red-400'
+  },
+  multipolygon: {
+    path: 'M3 7l6-4 6 4v6l-6 4-6-4V7zm12 4l6-2v8l-6 4',
+    color: 'text-sky-400'
+  },
+  polyline: {
+    path: 'M3 17l6-6 4 4 8-8',
+    color: 'text-amber-400'
   }
 }
 
@@ -32,11 +68,20 @@ function FeatureIcon({ type }: { type: FeatureType }) {
 
 function AOIItem({
   feature,
+  schema,
+  selected,
+  onToggleSelect,
+  onBuffer,
   onRemove,
   onUpdate,
   onZoom
 }: {
   feature: AOIFeature
+  schema: AttributeField[]
+  selected: boolean
+  // Shift extends the selection from the last AOI picked
+  onToggleSelect: (extend: boolean) => void
+  onBuffer: () => void
   onRemove: () => void
   onUpdate: (updates: Partial<AOIFeature>) => void
   onZoom: () => void
@@ -44,6 +89,13 @@ function AOIItem({
   const [isEditing, setIsEditing] = useState(false)
   const [name, setName] = useState(feature.name)
 
+  // Attribute values in schema order, skipping the ones not filled in
+  const attributeSummary = schema
+    .map(field => [field.label, formatAttributeValue(field, feature.properties?.[field.key])])
+    .filter(([, value]) => value !== '')
+    .map(([label, value]) => `${label}: ${value}`)
+    .join(' • ')
+
   const handleSaveName = () => {
     onUpdate({ name })
     setIsEditing(false)
@@ -60,9 +112,22 @@ function AOIItem({
   }
 
   return (
-    <div className="aoi-item bg-slate-700/50 rounded-lg p-3" data-testid={`aoi-item-${feature.id}`}>
+    <div
+      className={`aoi-item rounded-lg p-3 ${selected ? 'bg-blue-500/20 ring-1 ring-blue-500/50' : 'bg-slate-700/50'}`}
+      data-testid={`aoi-item-${feature.id}`}
+    >
       <div className="flex items-start justify-between">
         <div className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            checked={selected}
+            // Click rather than change, which does not tell whether Shift was held
+            onClick={(e) => onToggleSelect(e.shiftKey)}
+            readOnly
+            className="accent-blue-500"
+            aria-label={`Select ${feature.name}`}
+            data-testid={`aoi-select-${feature.id}`}
+          />
           <div 
             className="w-8 h-8 rounded flex items-center justify-center"
             style={{ background: `${feature.color}20` }}
@@ -91,7 +156,20 @@ function AOIItem({
             <p className="text-xs text-slate-400 mt-0.5">
               {feature.type}
               {feature.area && ` • ${formatArea(feature.area)}`}
+              {feature.length && ` • ${formatLength(feature.length)}`}
             </p>
+            {feature.tags && feature.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1" data-testid={`aoi-tags-${feature.id}`}>
+                {feature.tags.map(tag => (
+                  <span key={tag} className="px-1.5 rounded bg-slate-600 text-[10px] text-slate-200">{tag}</span>
+                ))}
+              </div>
+            )}
+            {attributeSummary && (
+              <p className="text-xs text-slate-500 mt-0.5 max-w-44 truncate" title={attributeSummary} data-testid={`aoi-attributes-${feature.id}`}>
+                {attributeSummary}
+              </p>
+            )}
           </div>
         </div>
         
@@ -106,6 +184,18 @@ function AOIItem({
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7" />
             </svg>
           </button>
+          <button
+            onClick={onBuffer}
+            className="p-1.5 hover:bg-slate-600 rounded transition-colors"
+            title="Buffer feature"
+            aria-label="Buffer feature"
+            data-testid={`buffer-btn-${feature.id}`}
+          >
+            <svg className="w-4 h-4 text-slate-400 hover:text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <circle cx="12" cy="12" r="3" strokeWidth={2} />
+              <circle cx="12" cy="12" r="8" strokeWidth={2} strokeDasharray="3 3" />
+            </svg>
+          </button>
           <button
             onClick={onRemove}
             className="p-1.5 hover:bg-red-500/20 rounded transition-colors"
@@ -126,9 +216,73 @@ export default function AOIList({
   features,
   onFeatureRemove,
   onFeatureUpdate,
+  onFeaturesRemove,
+  onBulkEdit,
+  selectedIds,
+  onSelectionChange,
   onExport,
-  mapRef
+  onImport,
+  onImportResult,
+  onGeometryOperation,
+  onBuffer,
+  showToast,
+  mapRef,
+  attributeSchema
 }: AOIListProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [showExportMenu, setShowExportMenu] = useState(false)
+  const [showTextDialog, setShowTextDialog] = useState(false)
+  const [bufferId, setBufferId] = useState<string | null>(null)
+  const [showFilters, setShowFilters] = useState(false)
+  const [filters, setFilters] = useState<AOIListFilters>(EMPTY_LIST_FILTERS)
+  const [sort, setSort] = useState<AOISort>(DEFAULT_SORT)
+  // AOI picked last without Shift, where a shift-click range starts
+  const [anchorId, setAnchorId] = useState<string | null>(null)
+
+  const tags = getAllTags(features)
+  const activeFilterCount = countActiveFilters(filters, attributeSchema)
+  const visibleFeatures = sortAOIs(filterAOIs(features, filters, attributeSchema), sort)
+  const visibleIds = visibleFeatures.map(f => f.id)
+  const allVisibleSelected = visibleIds.length > 0 && visibleIds.every(id => selectedIds.includes(id))
+
+  // Selection order matters for subtract, so features are looked up per id; deleted ones drop out
+  const selected = selectedIds
+    .map(id => features.find(f => f.id === id))
+    .filter((f): f is AOIFeature => f !== undefined)
+  const selectedIdsInList = selected.map(f => f.id)
+  const editedFeature = selected.length === 1 ? selected[0] : null
+
+  const toggleSelected = (id: string, extend: boolean) => {
+    if (extend) {
+      onSelectionChange(selectRange(visibleIds, selectedIdsInList, anchorId, id))
+    } else {
+      onSelectionChange(selectedIdsInList.includes(id) ? selectedIdsInList.filter(x => x !== id) : [...selectedIdsInList, id])
+    }
+    setAnchorId(id)
+  }
+
+  const toggleAllVisible = () => {
+    onSelectionChange(allVisibleSelected
+      ? selectedIdsInList.filter(id => !visibleIds.includes(id))
+      : [...selectedIdsInList, ...visibleIds.filter(id => !selectedIdsInList.includes(id))])
+  }
+
+  const runOperation = (operation: GeometryOperation) => {
+    onGeometryOperation(operation, selectedIdsInList)
+    onSelectionChange([])
+  }
+
+  const zoomToSelection = () => {
+    if (selected.length === 1) {
+      handleZoomToFeature(selected[0])
+      return
+    }
+    const extent = getFeaturesExtent(selected)
+    if (!mapRef || !extent) return
+    const [west, south, east, north] = extent
+    mapRef.fitBounds([[south, west], [north, east]], { padding: [50, 50], maxZoom: 15 })
+  }
+
   const handleZoomToFeature = (feature: AOIFeature) => {
     if (!mapRef) return
 
@@ -151,15 +305,201 @@ export default function AOIList({
           <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
             Areas of Interest
           </h3>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+              title="Import features (or drop files on the map)"
+              data-testid="import-btn"
+            >
+              Import
+            </button>
+            <button
+              onClick={() => setShowTextDialog(true)}
+              className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+              title="Import or export WKT and CSV"
+              data-testid="wkt-csv-btn"
+            >
+              WKT/CSV
+            </button>
+            <div className="relative flex items-center gap-1">
+              <button
+                onClick={() => onExport('geojson')}
+                className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+                data-testid="export-btn"
+              >
+                Export GeoJSON
+              </button>
+              <button
+                onClick={() => setShowExportMenu(!showExportMenu)}
+                className="text-blue-400 hover:text-blue-300 transition-colors"
+                title="More export formats"
+                aria-label="More export formats"
+                aria-expanded={showExportMenu}
+                data-testid="export-menu-btn"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+
+              {showExportMenu && (
+                <>
+                  <div className="fixed inset-0 z-10" onClick={() => setShowExportMenu(false)} />
+                  <div className="absolute right-0 top-full mt-1 w-44 bg-slate-700 border border-slate-600 rounded-lg shadow-lg py-1 z-20" data-testid="export-menu">
+                    {EXPORT_FORMATS.map(format => (
+                      <button
+                        key={format.id}
+                        onClick={() => {
+                          onExport(format.id)
+                          setShowExportMenu(false)
+                        }}
+                        className="w-full text-left px-3 py-1.5 text-xs text-slate-200 hover:bg-slate-600 transition-colors"
+                        data-testid={`export-${format.id}`}
+                      >
+                        {format.name}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_ACCEPT}
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              const files = Array.from(e.target.files ?? [])
+              // Reset so picking the same file again still triggers a change
+              e.target.value = ''
+              if (files.length > 0) onImport(files)
+            }}
+            data-testid="import-input"
+          />
+        </div>
+      </div>
+
+      {showTextDialog && (
+        <TextExchangeDialog
+          features={features}
+          onImportResult={onImportResult}
+          onExport={onExport}
+          showToast={showToast}
+          attributeSchema={attributeSchema}
+          onClose={() => setShowTextDialog(false)}
+        />
+      )}
+
+      {/* Search, sort and filters */}
+      {features.length > 0 && (
+        <div className="px-4 pb-2 space-y-2">
+          <div className="flex items-center gap-1">
+            <input
+              type="search"
+              value={filters.text}
+              onChange={(e) => setFilters({ ...filters, text: e.target.value })}
+              placeholder="Search AOIs"
+              className="flex-1 min-w-0 bg-slate-700 border border-slate-600 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-500"
+              aria-label="Search AOIs"
+              data-testid="aoi-search"
+            />
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`px-2 py-1 rounded-lg text-xs transition-colors ${
+                showFilters || activeFilterCount > 0 ? 'bg-blue-500/20 text-blue-300' : 'text-slate-400 hover:text-white'
+              }`}
+              title="Filter by type, area, date, tag and attributes"
+              aria-expanded={showFilters}
+              data-testid="aoi-filter-btn"
+            >
+              Filter{activeFilterCount > 0 && ` (${activeFilterCount})`}
+            </button>
+          </div>
+          <div className="flex items-center gap-2 text-xs text-slate-400">
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={allVisibleSelected}
+                onChange={toggleAllVisible}
+                disabled={visibleIds.length === 0}
+                className="accent-blue-500"
+                data-testid="aoi-select-all"
+              />
+              All
+            </label>
+            <span className="ml-auto">Sort</span>
+            <select
+              value={sort.key}
+              onChange={(e) => setSort({ ...sort, key: e.target.value as AOISortKey })}
+              className="bg-slate-700 border border-slate-600 rounded-lg px-1.5 py-0.5 text-xs text-white focus:outline-none focus:border-blue-500"
+              aria-label="Sort AOIs by"
+              data-testid="aoi-sort"
+            >
+              {(Object.keys(SORT_LABELS) as AOISortKey[]).map(key => (
+                <option key={key} value={key}>{SORT_LABELS[key]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setSort({ ...sort, descending: !sort.descending })}
+              className="p-1 hover:text-white transition-colors"
+              title={sort.descending ? 'Descending' : 'Ascending'}
+              aria-label={sort.descending ? 'Sort descending' : 'Sort ascending'}
+              data-testid="aoi-sort-direction"
+            >
+              <svg className={`w-3.5 h-3.5 transition-transform ${sort.descending ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      )}
+      {showFilters && features.length > 0 && (
+        <AOIListFilterPanel filters={filters} onChange={setFilters} tags={tags} schema={attributeSchema} />
+      )}
+      {activeFilterCount > 0 && (
+        <div className="mx-4 mb-2 flex items-center justify-between text-xs text-slate-400">
+          <span data-testid="aoi-filter-count">{visibleFeatures.length} of {features.length} shown</span>
           <button
-            onClick={onExport}
-            className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
-            data-testid="export-btn"
+            onClick={() => setFilters(EMPTY_LIST_FILTERS)}
+            className="hover:text-white transition-colors"
+            data-testid="aoi-filter-clear"
           >
-            Export GeoJSON
+            Clear filters
           </button>
         </div>
-      </div>
+      )}
+
+      {/* Geometry and bulk actions on the selection */}
+      {selected.length > 0 && (
+        <SelectionToolbar
+          selected={selected}
+          tags={tags}
+          onClear={() => onSelectionChange([])}
+          onGeometryOperation={runOperation}
+          onBulkEdit={(edit) => onBulkEdit(selectedIdsInList, edit)}
+          onDelete={() => onFeaturesRemove(selectedIdsInList)}
+          onExport={(format) => onExport(format, selectedIdsInList)}
+          onZoom={zoomToSelection}
+        />
+      )}
+
+      {editedFeature && (
+        <div className="mx-4 mb-2">
+          <PropertyEditor
+            key={`${editedFeature.id}-${JSON.stringify(editedFeature.properties ?? {})}`}
+            feature={editedFeature}
+            schema={attributeSchema}
+            onSave={(properties) => {
+              onFeatureUpdate(editedFeature.id, { properties })
+              showToast('Attributes saved', 'success')
+            }}
+            onClose={() => onSelectionChange([])}
+          />
+        </div>
+      )}
 
       {/* Feature List */}
       <div 
@@ -172,17 +512,37 @@ export default function AOIList({
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7"/>
             </svg>
             <p>No areas defined yet</p>
-            <p className="text-xs mt-1">Use drawing tools to create AOI</p>
+            <p className="text-xs mt-1">Use drawing tools or import a file to create AOI</p>
+          </div>
+        ) : visibleFeatures.length === 0 ? (
+          <div className="text-center py-8 text-slate-500 text-sm">
+            <p>No AOIs match the search and filters</p>
           </div>
         ) : (
-          features.map(feature => (
-            <AOIItem
-              key={feature.id}
-              feature={feature}
-              onRemove={() => onFeatureRemove(feature.id)}
-              onUpdate={(updates) => onFeatureUpdate(feature.id, updates)}
-              onZoom={() => handleZoomToFeature(feature)}
-            />
+          visibleFeatures.map(feature => (
+            <Fragment key={feature.id}>
+              <AOIItem
+                feature={feature}
+                schema={attributeSchema}
+                selected={selectedIds.includes(feature.id)}
+                onToggleSelect={(extend) => toggleSelected(feature.id, extend)}
+                onBuffer={() => setBufferId(bufferId === feature.id ? null : feature.id)}
+                onRemove={() => onFeatureRemove(feature.id)}
+                onUpdate={(updates) => onFeatureUpdate(feature.id, updates)}
+                onZoom={() => handleZoomToFeature(feature)}
+              />
+              {bufferId === feature.id && (
+                <BufferPanel
+                  feature={feature}
+                  onApply={(distance, unit) => {
+                    onBuffer(feature.id, distance, unit)
+                    setBufferId(null)
+                  }}
+                  onClose={() => setBufferId(null)}
+                  mapRef={mapRef}
+                />
+              )}
+            </Fragment>
           ))
         )}
       </div>
@@ -0,0 +1,107 @@
+import AttributeFilterBar from './AttributeFilterBar'
+import type { AOIListFilterPanelProps, FeatureType } from '../../types'
+
+const INPUT_CLASS = 'bg-slate-700 border border-slate-600 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-500'
+
+const featureTypes: FeatureType[] = ['polygon', 'rectangle', 'circle', 'marker', 'multipolygon', 'polyline']
+
+export default function AOIListFilterPanel({ filters, onChange, tags, schema }: AOIListFilterPanelProps) {
+  const toggleType = (type: FeatureType) => {
+    const types = filters.types.includes(type) ? filters.types.filter(t => t !== type) : [...filters.types, type]
+    onChange({ ...filters, types })
+  }
+
+  return (
+    <div className="mx-4 mb-2 p-2 bg-slate-700/50 border border-slate-600 rounded-lg space-y-2" data-testid="aoi-filter-panel">
+      <div className="flex flex-wrap gap-1" role="group" aria-label="Filter by type">
+        {featureTypes.map(type => (
+          <button
+            key={type}
+            onClick={() => toggleType(type)}
+            aria-pressed={filters.types.includes(type)}
+            className={`px-2 py-0.5 rounded text-xs transition-colors ${
+              filters.types.includes(type) ? 'bg-blue-500 text-white' : 'bg-slate-600 text-slate-300 hover:bg-slate-500'
+            }`}
+            data-testid={`filter-type-${type}`}
+          >
+            {type}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1 text-xs text-slate-400">
+        <span className="w-10">Area</span>
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={filters.minArea}
+          onChange={(e) => onChange({ ...filters, minArea: e.target.value })}
+          placeholder="Min"
+          className={`${INPUT_CLASS} w-20`}
+          aria-label="Minimum area in hectares"
+          data-testid="filter-min-area"
+        />
+        <span>–</span>
+        <input
+          type="number"
+          min={0}
+          step="any"
+          value={filters.maxArea}
+          onChange={(e) => onChange({ ...filters, maxArea: e.target.value })}
+          placeholder="Max"
+          className={`${INPUT_CLASS} w-20`}
+          aria-label="Maximum area in hectares"
+          data-testid="filter-max-area"
+        />
+        <span>ha</span>
+      </div>
+
+      <div className="flex items-center gap-1 text-xs text-slate-400">
+        <span className="w-10">Created</span>
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(e) => onChange({ ...filters, from: e.target.value })}
+          className={`${INPUT_CLASS} flex-1 min-w-0`}
+          aria-label="Created on or after"
+          data-testid="filter-from"
+        />
+        <span>–</span>
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(e) => onChange({ ...filters, to: e.target.value })}
+          className={`${INPUT_CLASS} flex-1 min-w-0`}
+          aria-label="Created on or before"
+          data-testid="filter-to"
+        />
+      </div>
+
+      <div className="flex items-center gap-1 text-xs text-slate-400">
+        <span className="w-10">Tag</span>
+        <select
+          value={filters.tag}
+          onChange={(e) => onChange({ ...filters, tag: e.target.value })}
+          disabled={tags.length === 0}
+          className={`${INPUT_CLASS} flex-1 disabled:opacity-50`}
+          aria-label="Filter by tag"
+          data-testid="filter-tag"
+        >
+          <option value="">{tags.length === 0 ? 'No tags yet' : 'Any tag'}</option>
+          {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+        </select>
+      </div>
+
+      {schema.length > 0 && (
+        <div className="pt-2 border-t border-slate-600">
+          <AttributeFilterBar
+            schema={schema}
+            filters={filters.attributes}
+            onChange={(attributes) => onChange({ ...filters, attributes })}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
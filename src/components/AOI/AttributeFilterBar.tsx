@@ -0,0 +1,117 @@
+import { generateId } from '../../utils/mapUtils'
+import { FILTER_OPERATORS, FILTER_OPERATOR_LABELS } from '../../utils/attributes'
+import type { AttributeField, AttributeFilter, AttributeFilterBarProps, AttributeFilterOperator } from '../../types'
+
+const CONTROL_CLASS = 'bg-slate-700 border border-slate-600 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-500'
+
+// A new filter starts on the field's first operator, with booleans defaulting to "yes"
+function createFilter(field: AttributeField): AttributeFilter {
+  return {
+    id: generateId(),
+    key: field.key,
+    operator: FILTER_OPERATORS[field.type][0],
+    value: field.type === 'boolean' ? 'true' : ''
+  }
+}
+
+function FilterValue({ field, filter, onChange }: {
+  field: AttributeField
+  filter: AttributeFilter
+  onChange: (value: string) => void
+}) {
+  const common = {
+    value: filter.value,
+    className: `${CONTROL_CLASS} flex-1 min-w-0`,
+    'aria-label': `${field.label} value`,
+    'data-testid': `attribute-filter-value-${filter.id}`
+  }
+
+  if (field.type === 'enum' || field.type === 'boolean') {
+    const options = field.type === 'boolean'
+      ? [{ value: 'true', label: 'Yes' }, { value: 'false', label: 'No' }]
+      : (field.options ?? []).map(option => ({ value: option, label: option }))
+    return (
+      <select {...common} onChange={(e) => onChange(e.target.value)}>
+        {field.type === 'enum' && <option value="">Any</option>}
+        {options.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+      </select>
+    )
+  }
+
+  return (
+    <input
+      {...common}
+      type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+      step={field.type === 'number' ? 'any' : undefined}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder="Value"
+    />
+  )
+}
+
+export default function AttributeFilterBar({ schema, filters, onChange }: AttributeFilterBarProps) {
+  const updateFilter = (id: string, changes: Partial<AttributeFilter>) => {
+    onChange(filters.map(f => f.id === id ? { ...f, ...changes } : f))
+  }
+
+  // Changing the field starts the filter over, since operators and values depend on its type
+  const changeField = (id: string, key: string) => {
+    const field = schema.find(f => f.key === key)
+    if (field) onChange(filters.map(f => f.id === id ? { ...createFilter(field), id } : f))
+  }
+
+  return (
+    <div className="space-y-1.5" data-testid="attribute-filters">
+      {filters.map(filter => {
+        const field = schema.find(f => f.key === filter.key)
+        if (!field) return null
+        const needsValue = filter.operator !== 'empty' && filter.operator !== 'not-empty'
+        return (
+          <div key={filter.id} className="flex items-center gap-1">
+            <select
+              value={filter.key}
+              onChange={(e) => changeField(filter.id, e.target.value)}
+              className={`${CONTROL_CLASS} w-24`}
+              aria-label="Filter attribute"
+              data-testid={`attribute-filter-field-${filter.id}`}
+            >
+              {schema.map(f => <option key={f.key} value={f.key}>{f.label}</option>)}
+            </select>
+            <select
+              value={filter.operator}
+              onChange={(e) => updateFilter(filter.id, { operator: e.target.value as AttributeFilterOperator })}
+              className={`${CONTROL_CLASS} w-20`}
+              aria-label="Filter comparison"
+              data-testid={`attribute-filter-operator-${filter.id}`}
+            >
+              {FILTER_OPERATORS[field.type].map(operator => (
+                <option key={operator} value={operator}>{FILTER_OPERATOR_LABELS[operator]}</option>
+              ))}
+            </select>
+            {needsValue && (
+              <FilterValue field={field} filter={filter} onChange={(value) => updateFilter(filter.id, { value })} />
+            )}
+            <button
+              onClick={() => onChange(filters.filter(f => f.id !== filter.id))}
+              className="ml-auto p-1 text-slate-400 hover:text-white transition-colors"
+              title="Remove filter"
+              aria-label="Remove filter"
+              data-testid={`attribute-filter-remove-${filter.id}`}
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        )
+      })}
+      <button
+        onClick={() => onChange([...filters, createFilter(schema[0])])}
+        className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+        data-testid="attribute-filter-add"
+      >
+        + Add attribute filter
+      </button>
+    </div>
+  )
+}
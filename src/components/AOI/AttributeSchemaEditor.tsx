@@ -0,0 +1,186 @@
+import { useState } from 'react'
+import { ATTRIBUTE_TYPE_LABELS, toAttributeKey } from '../../utils/attributes'
+import type { AttributeField, AttributeSchemaEditorProps, AttributeType } from '../../types'
+
+const INPUT_CLASS = 'bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500'
+
+const parseBound = (text: string) => {
+  const value = parseFloat(text)
+  return Number.isFinite(value) ? value : undefined
+}
+
+function FieldRow({ field, onChange, onRemove }: {
+  field: AttributeField
+  onChange: (changes: Partial<AttributeField>) => void
+  onRemove: () => void
+}) {
+  const [patternError, setPatternError] = useState<string | null>(null)
+
+  // Rules are committed when the input loses focus, so half-typed values are not applied
+  const commitPattern = (pattern: string) => {
+    try {
+      if (pattern) new RegExp(pattern)
+      setPatternError(null)
+      onChange({ pattern: pattern || undefined })
+    } catch {
+      setPatternError('Not a valid regular expression')
+    }
+  }
+
+  return (
+    <div className="p-4 space-y-3" data-testid={`attribute-field-${field.key}`}>
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          value={field.label}
+          onChange={(e) => onChange({ label: e.target.value })}
+          className={`${INPUT_CLASS} flex-1`}
+          aria-label="Attribute label"
+        />
+        <span className="text-xs text-slate-400 w-16">{ATTRIBUTE_TYPE_LABELS[field.type]}</span>
+        <label className="flex items-center gap-1.5 text-sm text-slate-300">
+          <input
+            type="checkbox"
+            checked={field.required}
+            onChange={(e) => onChange({ required: e.target.checked })}
+            className="accent-blue-500"
+            data-testid={`attribute-required-${field.key}`}
+          />
+          Required
+        </label>
+        <button
+          onClick={onRemove}
+          className="p-1.5 hover:bg-red-500/20 rounded transition-colors"
+          title="Remove attribute (values already entered stay on the AOIs)"
+          aria-label={`Remove ${field.label}`}
+          data-testid={`attribute-remove-${field.key}`}
+        >
+          <svg className="w-4 h-4 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+          </svg>
+        </button>
+      </div>
+      <p className="text-xs text-slate-500">Exported as <span className="font-mono">{field.key}</span></p>
+
+      {field.type === 'enum' && (
+        <input
+          key={(field.options ?? []).join(',')}
+          type="text"
+          defaultValue={(field.options ?? []).join(', ')}
+          onBlur={(e) => onChange({ options: [...new Set(e.target.value.split(',').map(o => o.trim()).filter(Boolean))] })}
+          placeholder="Choices, separated by commas"
+          className={`${INPUT_CLASS} w-full`}
+          aria-label="Choices"
+          data-testid={`attribute-options-${field.key}`}
+        />
+      )}
+
+      {field.type === 'number' && (
+        <div className="flex gap-3">
+          <input
+            key={`min-${field.min}`}
+            type="number"
+            step="any"
+            defaultValue={field.min ?? ''}
+            onBlur={(e) => onChange({ min: parseBound(e.target.value) })}
+            placeholder="Minimum"
+            className={`${INPUT_CLASS} w-32`}
+            aria-label="Minimum"
+            data-testid={`attribute-min-${field.key}`}
+          />
+          <input
+            key={`max-${field.max}`}
+            type="number"
+            step="any"
+            defaultValue={field.max ?? ''}
+            onBlur={(e) => onChange({ max: parseBound(e.target.value) })}
+            placeholder="Maximum"
+            className={`${INPUT_CLASS} w-32`}
+            aria-label="Maximum"
+            data-testid={`attribute-max-${field.key}`}
+          />
+        </div>
+      )}
+
+      {field.type === 'text' && (
+        <div>
+          <input
+            type="text"
+            defaultValue={field.pattern ?? ''}
+            onBlur={(e) => commitPattern(e.target.value.trim())}
+            placeholder="Format as a regular expression, e.g. [A-Z]{2}-\d+"
+            className={`${INPUT_CLASS} w-full font-mono`}
+            aria-label="Format"
+            data-testid={`attribute-pattern-${field.key}`}
+          />
+          {patternError && <p className="text-xs text-red-400 mt-1">{patternError}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function AttributeSchemaEditor({ schema, onChange }: AttributeSchemaEditorProps) {
+  const [label, setLabel] = useState('')
+  const [type, setType] = useState<AttributeType>('text')
+
+  const addField = () => {
+    if (!label.trim()) return
+    const field: AttributeField = { key: toAttributeKey(label, schema), label: label.trim(), type, required: false }
+    if (type === 'enum') field.options = []
+    onChange([...schema, field])
+    setLabel('')
+  }
+
+  const updateField = (key: string, changes: Partial<AttributeField>) => {
+    onChange(schema.map(f => f.key === key ? { ...f, ...changes } : f))
+  }
+
+  return (
+    <div className="divide-y divide-slate-700" data-testid="attribute-schema">
+      {schema.length === 0 && (
+        <p className="p-4 text-sm text-slate-400">No custom attributes yet. AOIs only carry their name, type and measurements.</p>
+      )}
+      {schema.map(field => (
+        <FieldRow
+          key={field.key}
+          field={field}
+          onChange={(changes) => updateField(field.key, changes)}
+          onRemove={() => onChange(schema.filter(f => f.key !== field.key))}
+        />
+      ))}
+
+      <div className="p-4 flex items-center gap-3">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addField()}
+          placeholder="New attribute, e.g. Owner"
+          className={`${INPUT_CLASS} flex-1`}
+          aria-label="New attribute name"
+          data-testid="attribute-label-input"
+        />
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as AttributeType)}
+          className={INPUT_CLASS}
+          aria-label="New attribute type"
+          data-testid="attribute-type-select"
+        >
+          {(Object.keys(ATTRIBUTE_TYPE_LABELS) as AttributeType[]).map(t => (
+            <option key={t} value={t}>{ATTRIBUTE_TYPE_LABELS[t]}</option>
+          ))}
+        </select>
+        <button
+          onClick={addField}
+          disabled={!label.trim()}
+          className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium transition-colors"
+          data-testid="attribute-add-btn"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  )
+}
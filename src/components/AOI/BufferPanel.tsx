@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react'
+import type L from 'leaflet'
+import { DISTANCE_UNIT_LABELS, formatArea, isPolygonal } from '../../utils/mapUtils'
+import { createFeatureLayer } from '../../utils/layerFactory'
+import type { BufferPanelProps, DistanceUnit } from '../../types'
+
+// Outcome of the latest preview, tagged with the inputs it was computed for
+interface BufferPreview {
+  key: string
+  area?: number
+  error?: string
+}
+
+const PREVIEW_STYLE: L.PathOptions = { color: '#f97316', weight: 2, dashArray: '6, 6', fillOpacity: 0.15 }
+
+export default function BufferPanel({ feature, onApply, onClose, mapRef }: BufferPanelProps) {
+  const [distance, setDistance] = useState('1')
+  const [unit, setUnit] = useState<DistanceUnit>('kilometers')
+  const [preview, setPreview] = useState<BufferPreview | null>(null)
+
+  const value = Number(distance.replace(',', '.'))
+  const inputError = distance.trim() === '' || !Number.isFinite(value) || value === 0
+    ? 'Enter a distance other than 0'
+    : value < 0 && !isPolygonal(feature) ? 'Markers and lines can only be buffered outwards'
+    : null
+  const key = `${value}|${unit}`
+  const current = preview?.key === key ? preview : null
+  const error = inputError ?? current?.error ?? null
+
+  // Draw the buffered shape on the map while the inputs change; turf is loaded on first use
+  useEffect(() => {
+    if (inputError) return
+    let cancelled = false
+    let layer: L.Layer | null = null
+
+    import('../../utils/booleanOps').then(({ bufferFeature }) => {
+      if (cancelled) return
+      try {
+        const buffered = bufferFeature(feature, value, unit)
+        setPreview({ key, area: buffered.area })
+        if (mapRef) {
+          layer = createFeatureLayer(buffered)
+          ;(layer as L.Path).setStyle(PREVIEW_STYLE)
+          layer.addTo(mapRef)
+        }
+      } catch (err) {
+        setPreview({ key, error: err instanceof Error ? err.message : 'Buffer failed' })
+      }
+    })
+
+    return () => {
+      cancelled = true
+      layer?.remove()
+    }
+  }, [feature, value, unit, key, inputError, mapRef])
+
+  return (
+    <div className="bg-slate-700/30 border border-slate-600 rounded-lg p-3 space-y-2" data-testid="buffer-panel">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-slate-300">Buffer {feature.name}</span>
+        <button
+          onClick={onClose}
+          className="text-slate-400 hover:text-white transition-colors"
+          aria-label="Close buffer"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="number"
+          step="any"
+          value={distance}
+          onChange={(e) => setDistance(e.target.value)}
+          className="w-full bg-slate-700 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+          aria-label="Buffer distance"
+          data-testid="buffer-distance"
+        />
+        <select
+          value={unit}
+          onChange={(e) => setUnit(e.target.value as DistanceUnit)}
+          className="bg-slate-700 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+          aria-label="Buffer unit"
+          data-testid="buffer-unit"
+        >
+          {(Object.keys(DISTANCE_UNIT_LABELS) as DistanceUnit[]).map(u => (
+            <option key={u} value={u}>{DISTANCE_UNIT_LABELS[u]}</option>
+          ))}
+        </select>
+      </div>
+
+      {isPolygonal(feature) && (
+        <p className="text-xs text-slate-500">Use a negative distance to shrink the AOI</p>
+      )}
+
+      {error ? (
+        <p className="text-xs text-red-400" data-testid="buffer-error">{error}</p>
+      ) : (
+        <p className="text-xs text-slate-400" data-testid="buffer-area">
+          {current?.area ? `Area ${formatArea(current.area)}` : 'Calculating…'}
+        </p>
+      )}
+
+      <button
+        onClick={() => onApply(value, unit)}
+        disabled={error !== null || !current}
+        className="w-full px-3 py-1.5 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium transition-colors"
+        data-testid="buffer-apply"
+      >
+        Create buffer AOI
+      </button>
+    </div>
+  )
+}
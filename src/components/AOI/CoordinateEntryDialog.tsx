@@ -0,0 +1,258 @@
+import { useEffect, useMemo, useState } from 'react'
+import type L from 'leaflet'
+import { DISTANCE_UNIT_LABELS, formatArea, getFeatureBounds } from '../../utils/mapUtils'
+import { createCoordinateFeature, parseCoordinate } from '../../utils/coordinates'
+import { createFeatureLayer } from '../../utils/layerFactory'
+import type { AOIFeature, CoordinateEntryDialogProps, CoordinateShape, DistanceUnit } from '../../types'
+
+// A typed position and what it was read as
+interface ParsedInput {
+  label: string
+  point?: [number, number]
+  error?: string
+}
+
+const SHAPES: { id: CoordinateShape; name: string }[] = [
+  { id: 'marker', name: 'Marker' },
+  { id: 'rectangle', name: 'Rectangle' },
+  { id: 'polygon', name: 'Polygon' },
+  { id: 'circle', name: 'Circle' }
+]
+
+const PREVIEW_STYLE: L.PathOptions = { color: '#f97316', weight: 2, dashArray: '6, 6', fillOpacity: 0.15 }
+
+const inputClass = 'w-full bg-slate-700 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500'
+const coordinateInputClass = `${inputClass} font-mono`
+
+function parseInput(text: string, label: string): ParsedInput {
+  try {
+    return { label, point: parseCoordinate(text) }
+  } catch (err) {
+    return { label, error: (err as Error).message }
+  }
+}
+
+export default function CoordinateEntryDialog({ featureCount, onCreate, onClose, mapRef }: CoordinateEntryDialogProps) {
+  const [shape, setShape] = useState<CoordinateShape>('marker')
+  const [name, setName] = useState('')
+  const [center, setCenter] = useState('')
+  const [corners, setCorners] = useState<[string, string]>(['', ''])
+  const [vertices, setVertices] = useState('')
+  const [radius, setRadius] = useState('1')
+  const [unit, setUnit] = useState<DistanceUnit>('kilometers')
+
+  // Empty fields are left out; the AOI is only built once every required position reads cleanly
+  const { inputs, feature, shapeError } = useMemo(() => {
+    const typed = shape === 'polygon'
+      ? vertices.split('\n').map((line, i) => ({ text: line, label: `Line ${i + 1}` })).filter(l => l.text.trim())
+      : shape === 'rectangle'
+      ? corners.map((text, i) => ({ text, label: `Corner ${i + 1}` })).filter(c => c.text.trim())
+      : center.trim() ? [{ text: center, label: shape === 'circle' ? 'Center' : 'Position' }] : []
+    const inputs = typed.map(({ text, label }) => parseInput(text, label))
+
+    const required = shape === 'polygon' ? 3 : shape === 'rectangle' ? 2 : 1
+    let feature: AOIFeature | null = null
+    let shapeError: string | null = null
+    if (inputs.length >= required && inputs.every(input => input.point)) {
+      try {
+        feature = createCoordinateFeature(
+          shape,
+          inputs.map(input => input.point as [number, number]),
+          name.trim() || `AOI ${featureCount + 1}`,
+          { value: Number(radius.replace(',', '.')), unit }
+        )
+      } catch (err) {
+        shapeError = (err as Error).message
+      }
+    }
+    return { inputs, feature, shapeError }
+  }, [shape, name, center, corners, vertices, radius, unit, featureCount])
+
+  const errors = inputs.filter(input => input.error)
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  // Preview the shape on the map and bring it into view
+  useEffect(() => {
+    if (!mapRef || !feature) return
+    const layer = createFeatureLayer(feature)
+    if ('setStyle' in layer) (layer as L.Path).setStyle(PREVIEW_STYLE)
+    layer.addTo(mapRef)
+    const bounds = getFeatureBounds(feature)
+    if (bounds) mapRef.fitBounds(bounds, { padding: [40, 40], maxZoom: 15 })
+
+    return () => {
+      layer.remove()
+    }
+  }, [mapRef, feature])
+
+  const handleCreate = () => {
+    if (!feature) return
+    onCreate(feature)
+    onClose()
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-[1800] bg-black/20 flex items-center justify-end p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="coordinate-entry-title"
+        className="w-full max-w-md max-h-[85vh] bg-slate-800 border border-slate-700 rounded-xl shadow-xl flex flex-col fade-in"
+        onClick={(e) => e.stopPropagation()}
+        data-testid="coordinate-dialog"
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <div>
+            <h2 id="coordinate-entry-title" className="font-semibold text-lg">Create from coordinates</h2>
+            <p className="text-xs text-slate-400 mt-0.5">Decimal degrees, DMS, UTM or MGRS</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-700 rounded transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          <div className="flex gap-3 text-sm">
+            {SHAPES.map(s => (
+              <label key={s.id} className="flex items-center gap-1.5 text-slate-300">
+                <input
+                  type="radio"
+                  name="coordinate-shape"
+                  checked={shape === s.id}
+                  onChange={() => setShape(s.id)}
+                  data-testid={`coordinate-shape-${s.id}`}
+                />
+                {s.name}
+              </label>
+            ))}
+          </div>
+
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={`AOI ${featureCount + 1}`}
+            className={inputClass}
+            aria-label="AOI name"
+            data-testid="coordinate-name"
+          />
+
+          {(shape === 'marker' || shape === 'circle') && (
+            <input
+              type="text"
+              value={center}
+              onChange={(e) => setCenter(e.target.value)}
+              placeholder={shape === 'circle' ? 'Center, e.g. 28.6139, 77.2090' : 'e.g. 28°36\'50"N 77°12\'32"E'}
+              className={coordinateInputClass}
+              aria-label={shape === 'circle' ? 'Center' : 'Position'}
+              data-testid="coordinate-input-0"
+            />
+          )}
+
+          {shape === 'rectangle' && corners.map((corner, i) => (
+            <input
+              key={i}
+              type="text"
+              value={corner}
+              onChange={(e) => setCorners(prev => i === 0 ? [e.target.value, prev[1]] : [prev[0], e.target.value])}
+              placeholder={i === 0 ? 'First corner, e.g. 43R 715980 3167204' : 'Opposite corner'}
+              className={coordinateInputClass}
+              aria-label={`Corner ${i + 1}`}
+              data-testid={`coordinate-input-${i}`}
+            />
+          ))}
+
+          {shape === 'polygon' && (
+            <textarea
+              value={vertices}
+              onChange={(e) => setVertices(e.target.value)}
+              rows={6}
+              placeholder={'One vertex per line, e.g.\n28.61, 77.20\n43RGM1598067204\n28°36\'N 77°14\'E'}
+              className={`${coordinateInputClass} resize-y`}
+              aria-label="Vertices"
+              spellCheck={false}
+              data-testid="coordinate-vertices"
+            />
+          )}
+
+          {shape === 'circle' && (
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={radius}
+                onChange={(e) => setRadius(e.target.value)}
+                className={inputClass}
+                aria-label="Radius"
+                data-testid="coordinate-radius"
+              />
+              <select
+                value={unit}
+                onChange={(e) => setUnit(e.target.value as DistanceUnit)}
+                className="bg-slate-700 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+                aria-label="Radius unit"
+                data-testid="coordinate-radius-unit"
+              >
+                {(Object.keys(DISTANCE_UNIT_LABELS) as DistanceUnit[]).map(u => (
+                  <option key={u} value={u}>{DISTANCE_UNIT_LABELS[u]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {(errors.length > 0 || shapeError) && (
+            <ul className="text-xs text-red-400 space-y-0.5" data-testid="coordinate-error">
+              {errors.map(input => (
+                <li key={input.label}>{input.label}: {input.error}</li>
+              ))}
+              {shapeError && <li>{shapeError}</li>}
+            </ul>
+          )}
+
+          {feature && (
+            <p className="text-xs text-slate-400" data-testid="coordinate-summary">
+              {SHAPES.find(s => s.id === shape)?.name} from {inputs.length} position{inputs.length === 1 ? '' : 's'}
+              {feature.area ? ` · ${formatArea(feature.area)}` : ''}
+            </p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm text-slate-300 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={!feature}
+            className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium transition-colors"
+            data-testid="coordinate-add"
+          >
+            Add AOI
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
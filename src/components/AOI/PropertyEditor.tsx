@@ -0,0 +1,152 @@
+import { Fragment, useState } from 'react'
+import { parseAttributeInput, validateAttributes } from '../../utils/attributes'
+import type { AttributeField, PropertyEditorProps } from '../../types'
+
+// Form state per attribute: checkboxes hold booleans, every other input its text
+type Draft = Record<string, string | boolean>
+
+const INPUT_CLASS = 'w-full bg-slate-700 border rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500'
+
+function toDraft(schema: AttributeField[], properties: Record<string, unknown> = {}): Draft {
+  return Object.fromEntries(schema.map(field => {
+    const value = properties[field.key]
+    return [field.key, field.type === 'boolean' ? value === true : value === undefined || value === null ? '' : String(value)]
+  }))
+}
+
+export default function PropertyEditor({ feature, schema, onSave, onClose }: PropertyEditorProps) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(schema, feature.properties))
+  // Shown once saving has been attempted, then kept up to date while editing
+  const [showErrors, setShowErrors] = useState(false)
+
+  const values = Object.fromEntries(schema.map(field => {
+    const input = draft[field.key] ?? ''
+    return [field.key, typeof input === 'boolean' ? input : parseAttributeInput(field, input)]
+  }))
+  const errors = validateAttributes(schema, values)
+  const hasErrors = Object.keys(errors).length > 0
+
+  // Attributes from imported files that the project schema does not cover
+  const otherProperties = Object.entries(feature.properties ?? {})
+    .filter(([key]) => !schema.some(field => field.key === key))
+
+  const setValue = (key: string, value: string | boolean) => {
+    setDraft(prev => ({ ...prev, [key]: value }))
+  }
+
+  const handleSave = () => {
+    if (hasErrors) {
+      setShowErrors(true)
+      return
+    }
+    const properties: Record<string, unknown> = { ...feature.properties }
+    schema.forEach(field => {
+      if (values[field.key] === undefined) delete properties[field.key]
+      else properties[field.key] = values[field.key]
+    })
+    onSave(properties)
+  }
+
+  const renderInput = (field: AttributeField) => {
+    const value = draft[field.key]
+    const invalid = showErrors && errors[field.key]
+    const common = {
+      id: `property-${field.key}`,
+      className: `${INPUT_CLASS} ${invalid ? 'border-red-500' : 'border-slate-600'}`,
+      'aria-invalid': invalid ? true : undefined,
+      'data-testid': `property-input-${field.key}`
+    }
+
+    switch (field.type) {
+      case 'boolean':
+        return (
+          <input
+            id={common.id}
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => setValue(field.key, e.target.checked)}
+            className="accent-blue-500"
+            data-testid={common['data-testid']}
+          />
+        )
+      case 'enum':
+        return (
+          <select {...common} value={String(value)} onChange={(e) => setValue(field.key, e.target.value)}>
+            <option value="">—</option>
+            {(field.options ?? []).map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        )
+      default:
+        return (
+          <input
+            {...common}
+            type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+            step={field.type === 'number' ? 'any' : undefined}
+            min={field.type === 'number' ? field.min : undefined}
+            max={field.type === 'number' ? field.max : undefined}
+            value={String(value)}
+            onChange={(e) => setValue(field.key, e.target.value)}
+          />
+        )
+    }
+  }
+
+  return (
+    <div className="bg-slate-700/30 border border-slate-600 rounded-lg p-3 space-y-2 max-h-80 overflow-y-auto" data-testid="property-editor">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-slate-300">Attributes of {feature.name}</span>
+        <button
+          onClick={onClose}
+          className="text-slate-400 hover:text-white transition-colors"
+          aria-label="Close attributes"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {schema.length === 0 ? (
+        <p className="text-xs text-slate-500">This project has no custom attributes yet; add them in Settings.</p>
+      ) : (
+        <>
+          {schema.map(field => (
+            <div key={field.key} className={field.type === 'boolean' ? 'flex items-center gap-2' : 'space-y-1'}>
+              {field.type === 'boolean' && renderInput(field)}
+              <label htmlFor={`property-${field.key}`} className="block text-xs text-slate-400">
+                {field.label}
+                {field.required && <span className="text-red-400"> *</span>}
+              </label>
+              {field.type !== 'boolean' && renderInput(field)}
+              {showErrors && errors[field.key] && (
+                <p className="text-xs text-red-400" data-testid={`property-error-${field.key}`}>{errors[field.key]}</p>
+              )}
+            </div>
+          ))}
+          <button
+            onClick={handleSave}
+            disabled={showErrors && hasErrors}
+            className="w-full px-3 py-1.5 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium transition-colors"
+            data-testid="property-save"
+          >
+            Save attributes
+          </button>
+        </>
+      )}
+
+      {otherProperties.length > 0 && (
+        <div className="pt-2 border-t border-slate-600">
+          <p className="text-xs text-slate-500 mb-1">Other properties</p>
+          <dl className="text-xs grid grid-cols-[auto,1fr] gap-x-2 gap-y-0.5">
+            {otherProperties.map(([key, value]) => (
+              <Fragment key={key}>
+                <dt className="text-slate-400 truncate">{key}</dt>
+                <dd className="text-slate-300 truncate">{typeof value === 'object' ? JSON.stringify(value) : String(value)}</dd>
+              </Fragment>
+            ))}
+          </dl>
+        </div>
+      )}
+    </div>
+  )
+}
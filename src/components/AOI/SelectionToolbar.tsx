@@ -0,0 +1,198 @@
+import { useState } from 'react'
+import { FEATURE_COLORS, isPolygonal } from '../../utils/mapUtils'
+import { EXPORT_FORMATS, normalizeTag } from '../../utils/aoiList'
+import type { GeometryOperation, SelectionToolbarProps } from '../../types'
+
+// Geometry actions on the selected AOIs, with the selection sizes they accept
+const geometryOperations: { id: GeometryOperation; name: string; title: string; min: number; max: number }[] = [
+  { id: 'union', name: 'Union', title: 'Merge the selected AOIs into one', min: 2, max: Infinity },
+  { id: 'intersect', name: 'Intersect', title: 'Keep the area shared by all selected AOIs', min: 2, max: Infinity },
+  { id: 'difference', name: 'Subtract', title: 'Subtract the other selected AOIs from the first one selected', min: 2, max: Infinity },
+  { id: 'split', name: 'Split', title: 'Split the selected AOI along a line drawn on the map', min: 1, max: 1 }
+]
+
+// The drawing colours plus a few neutral ones
+const bulkColors = [...new Set([...Object.values(FEATURE_COLORS), '#ec4899', '#84cc16', '#64748b'])]
+
+type BulkMenu = 'color' | 'tag' | 'export'
+
+const ACTION_CLASS = 'px-1 py-1 text-xs rounded bg-slate-600 text-slate-200 hover:bg-slate-500 transition-colors'
+
+export default function SelectionToolbar({
+  selected,
+  tags,
+  onClear,
+  onGeometryOperation,
+  onBulkEdit,
+  onDelete,
+  onExport,
+  onZoom
+}: SelectionToolbarProps) {
+  const [menu, setMenu] = useState<BulkMenu | null>(null)
+  const [tag, setTag] = useState('')
+  const selectionHasArea = selected.every(isPolygonal)
+  const selectedTags = [...new Set(selected.flatMap(f => f.tags ?? []))]
+
+  const toggleMenu = (name: BulkMenu) => setMenu(menu === name ? null : name)
+
+  const applyTag = (kind: 'tag' | 'untag', value: string) => {
+    const normalized = normalizeTag(value)
+    if (!normalized) return
+    onBulkEdit({ kind, tag: normalized })
+    setTag('')
+  }
+
+  return (
+    <div className="mx-4 mb-2 p-2 bg-slate-700/50 border border-slate-600 rounded-lg" data-testid="selection-toolbar">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-slate-300" data-testid="selection-count">
+          {selected.length} selected
+        </span>
+        <button
+          onClick={onClear}
+          className="text-xs text-slate-400 hover:text-white transition-colors"
+          data-testid="selection-clear"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-1">
+        {geometryOperations.map(op => (
+          <button
+            key={op.id}
+            onClick={() => onGeometryOperation(op.id)}
+            disabled={!selectionHasArea || selected.length < op.min || selected.length > op.max}
+            className={`${ACTION_CLASS} disabled:opacity-40 disabled:hover:bg-slate-600`}
+            title={selectionHasArea ? op.title : 'Markers and lines have no area'}
+            data-testid={`geometry-${op.id}`}
+          >
+            {op.name}
+          </button>
+        ))}
+      </div>
+
+      {/* Bulk actions */}
+      <div className="grid grid-cols-5 gap-1 mt-1">
+        <button onClick={onZoom} className={ACTION_CLASS} title="Zoom to the selected AOIs" data-testid="bulk-zoom">
+          Zoom
+        </button>
+        <button
+          onClick={() => toggleMenu('color')}
+          className={ACTION_CLASS}
+          aria-expanded={menu === 'color'}
+          title="Change the colour of the selected AOIs"
+          data-testid="bulk-color"
+        >
+          Color
+        </button>
+        <button
+          onClick={() => toggleMenu('tag')}
+          className={ACTION_CLASS}
+          aria-expanded={menu === 'tag'}
+          title="Add or remove a tag on the selected AOIs"
+          data-testid="bulk-tag"
+        >
+          Tag
+        </button>
+        <button
+          onClick={() => toggleMenu('export')}
+          className={ACTION_CLASS}
+          aria-expanded={menu === 'export'}
+          title="Export only the selected AOIs"
+          data-testid="bulk-export"
+        >
+          Export
+        </button>
+        <button
+          onClick={onDelete}
+          className="px-1 py-1 text-xs rounded bg-red-500/20 text-red-300 hover:bg-red-500/30 transition-colors"
+          title="Delete the selected AOIs"
+          data-testid="bulk-delete"
+        >
+          Delete
+        </button>
+      </div>
+
+      {menu === 'color' && (
+        <div className="flex flex-wrap gap-1.5 mt-2" data-testid="bulk-color-menu">
+          {bulkColors.map(color => (
+            <button
+              key={color}
+              onClick={() => {
+                onBulkEdit({ kind: 'color', color })
+                setMenu(null)
+              }}
+              className="w-5 h-5 rounded-full ring-1 ring-slate-500 hover:ring-2 hover:ring-white transition-shadow"
+              style={{ background: color }}
+              aria-label={`Colour ${color}`}
+              data-testid={`bulk-color-${color.slice(1)}`}
+            />
+          ))}
+        </div>
+      )}
+
+      {menu === 'tag' && (
+        <div className="mt-2 space-y-1.5" data-testid="bulk-tag-menu">
+          <div className="flex gap-1">
+            <input
+              type="text"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && applyTag('tag', tag)}
+              list="aoi-tag-suggestions"
+              placeholder="Tag, e.g. phase 1"
+              className="flex-1 min-w-0 bg-slate-700 border border-slate-600 rounded-lg px-2 py-1 text-xs text-white focus:outline-none focus:border-blue-500"
+              aria-label="Tag"
+              data-testid="bulk-tag-input"
+            />
+            <datalist id="aoi-tag-suggestions">
+              {tags.map(t => <option key={t} value={t} />)}
+            </datalist>
+            <button
+              onClick={() => applyTag('tag', tag)}
+              disabled={!normalizeTag(tag)}
+              className="px-2 py-1 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-xs font-medium transition-colors"
+              data-testid="bulk-tag-add"
+            >
+              Add
+            </button>
+          </div>
+          {selectedTags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {selectedTags.map(t => (
+                <button
+                  key={t}
+                  onClick={() => applyTag('untag', t)}
+                  className="px-1.5 py-0.5 rounded bg-slate-600 text-xs text-slate-200 hover:bg-red-500/30 transition-colors"
+                  title={`Remove ${t} from the selected AOIs`}
+                  data-testid={`bulk-untag-${t}`}
+                >
+                  {t} ×
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {menu === 'export' && (
+        <div className="mt-2 grid grid-cols-2 gap-1" data-testid="bulk-export-menu">
+          {[{ id: 'geojson' as const, name: 'GeoJSON' }, ...EXPORT_FORMATS].map(format => (
+            <button
+              key={format.id}
+              onClick={() => {
+                onExport(format.id)
+                setMenu(null)
+              }}
+              className="text-left px-2 py-1 text-xs text-slate-200 rounded hover:bg-slate-600 transition-colors"
+              data-testid={`bulk-export-${format.id}`}
+            >
+              {format.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,381 @@
+import { useEffect, useMemo, useState } from 'react'
+import { parseWKTFeatures, buildWKT, looksLikeWKT } from '../../utils/wkt'
+import { parseCSV, guessCsvMapping, isCsvMappingComplete, readCSV, buildCSV } from '../../utils/csv'
+import type { CsvColumnMapping, CsvTable, TextExchangeDialogProps } from '../../types'
+
+type TextFormat = 'wkt' | 'csv'
+
+// Rows shown in the column mapping preview
+const PREVIEW_ROWS = 5
+
+function ColumnSelect({
+  label,
+  value,
+  headers,
+  optional,
+  onChange,
+  testId
+}: {
+  label: string
+  value: number | null
+  headers: string[]
+  optional?: boolean
+  onChange: (value: number | null) => void
+  testId: string
+}) {
+  return (
+    <label className="block">
+      <span className="text-xs text-slate-400">{label}</span>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        className="mt-1 w-full bg-slate-700 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500"
+        data-testid={testId}
+      >
+        <option value="">{optional ? 'None' : 'Choose column…'}</option>
+        {headers.map((header, i) => (
+          <option key={i} value={i}>{header || `Column ${i + 1}`}</option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
+export default function TextExchangeDialog({
+  features,
+  attributeSchema,
+  onImportResult,
+  onExport,
+  showToast,
+  onClose
+}: TextExchangeDialogProps) {
+  const [tab, setTab] = useState<'import' | 'export'>('import')
+  const [text, setText] = useState('')
+  const [sourceName, setSourceName] = useState('Pasted text')
+  const [format, setFormat] = useState<TextFormat>('wkt')
+  const [table, setTable] = useState<CsvTable | null>(null)
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [exportFormat, setExportFormat] = useState<TextFormat>('wkt')
+
+  const exportText = useMemo(
+    () => tab === 'export' ? (exportFormat === 'wkt' ? buildWKT(features) : buildCSV(features, attributeSchema)) : '',
+    [tab, exportFormat, features, attributeSchema]
+  )
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const updateText = (value: string, name: string, detected?: TextFormat) => {
+    setText(value)
+    setSourceName(name)
+    setFormat(detected ?? (looksLikeWKT(value) ? 'wkt' : 'csv'))
+    setError(null)
+  }
+
+  const handleFile = async (file: File) => {
+    const extension = file.name.toLowerCase().split('.').pop()
+    const content = await file.text()
+    updateText(content, file.name, extension === 'csv' ? 'csv' : extension === 'wkt' ? 'wkt' : undefined)
+  }
+
+  const handleContinue = () => {
+    try {
+      if (format === 'wkt') {
+        onImportResult(parseWKTFeatures(text, features.length), sourceName)
+        onClose()
+        return
+      }
+      const parsed = parseCSV(text)
+      setTable(parsed)
+      setMapping(guessCsvMapping(parsed.headers))
+      setError(null)
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  const handleCsvImport = () => {
+    if (!table || !mapping) return
+    try {
+      onImportResult(readCSV(table, mapping, features.length), sourceName)
+      onClose()
+    } catch (err) {
+      setError((err as Error).message)
+    }
+  }
+
+  const updateMapping = (updates: Partial<CsvColumnMapping>) => {
+    setMapping(prev => prev && { ...prev, ...updates })
+    setError(null)
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(exportText)
+      showToast(`${exportFormat.toUpperCase()} copied to clipboard`, 'success')
+    } catch {
+      showToast('Could not copy to clipboard', 'error')
+    }
+  }
+
+  const mappedColumns = mapping
+    ? mapping.geometry === 'wkt' ? [mapping.wkt, mapping.name] : [mapping.lat, mapping.lon, mapping.name]
+    : []
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1.5 text-sm rounded-lg transition-colors ${active ? 'bg-blue-500 text-white' : 'text-slate-300 hover:bg-slate-700'}`
+
+  return (
+    <div
+      className="fixed inset-0 z-[1800] bg-black/50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="text-exchange-title"
+        className="w-full max-w-2xl max-h-[85vh] bg-slate-800 border border-slate-700 rounded-xl shadow-xl flex flex-col fade-in"
+        onClick={(e) => e.stopPropagation()}
+        data-testid="wkt-csv-dialog"
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <div>
+            <h2 id="text-exchange-title" className="font-semibold text-lg">WKT / CSV</h2>
+            <p className="text-xs text-slate-400 mt-0.5">Well-Known Text geometries or CSV with lat/lon or WKT columns</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-700 rounded transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-4 pt-3 flex gap-2">
+          <button onClick={() => setTab('import')} className={tabClass(tab === 'import')} data-testid="wkt-csv-tab-import">
+            Import
+          </button>
+          <button onClick={() => setTab('export')} className={tabClass(tab === 'export')} data-testid="wkt-csv-tab-export">
+            Export
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {tab === 'import' && !table && (
+            <>
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex gap-3 text-sm">
+                  {(['wkt', 'csv'] as const).map(f => (
+                    <label key={f} className="flex items-center gap-1.5 text-slate-300">
+                      <input
+                        type="radio"
+                        name="text-format"
+                        checked={format === f}
+                        onChange={() => setFormat(f)}
+                        data-testid={`wkt-csv-format-${f}`}
+                      />
+                      {f.toUpperCase()}
+                    </label>
+                  ))}
+                </div>
+                <label className="text-xs text-blue-400 hover:text-blue-300 cursor-pointer">
+                  Choose file…
+                  <input
+                    type="file"
+                    accept=".wkt,.csv,.txt"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      e.target.value = ''
+                      if (file) void handleFile(file)
+                    }}
+                    data-testid="wkt-csv-file"
+                  />
+                </label>
+              </div>
+              <textarea
+                value={text}
+                onChange={(e) => updateText(e.target.value, 'Pasted text')}
+                placeholder={'POLYGON ((-0.1 51.5, -0.09 51.5, -0.09 51.51, -0.1 51.5))\n\nor CSV with a header row:\nname,lat,lon'}
+                rows={10}
+                spellCheck={false}
+                className="w-full bg-slate-900 border border-slate-600 rounded-lg p-2 text-xs font-mono text-slate-200 focus:outline-none focus:border-blue-500"
+                data-testid="wkt-csv-text"
+              />
+              <p className="text-xs text-slate-500">
+                {format === 'wkt'
+                  ? 'One POINT, POLYGON or MULTIPOLYGON per line, in longitude/latitude order.'
+                  : 'The first row must be a header; columns are mapped in the next step.'}
+              </p>
+            </>
+          )}
+
+          {tab === 'import' && table && mapping && (
+            <div className="space-y-3" data-testid="csv-mapping">
+              <p className="text-sm text-slate-300">
+                {table.rows.length} row{table.rows.length !== 1 ? 's' : ''} in <span className="text-white">{sourceName}</span>
+              </p>
+              <div className="flex gap-3 text-sm">
+                <label className="flex items-center gap-1.5 text-slate-300">
+                  <input
+                    type="radio"
+                    name="csv-geometry"
+                    checked={mapping.geometry === 'latlon'}
+                    onChange={() => updateMapping({ geometry: 'latlon' })}
+                    data-testid="csv-map-geometry-latlon"
+                  />
+                  Latitude / longitude columns
+                </label>
+                <label className="flex items-center gap-1.5 text-slate-300">
+                  <input
+                    type="radio"
+                    name="csv-geometry"
+                    checked={mapping.geometry === 'wkt'}
+                    onChange={() => updateMapping({ geometry: 'wkt' })}
+                    data-testid="csv-map-geometry-wkt"
+                  />
+                  WKT column
+                </label>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                {mapping.geometry === 'latlon' ? (
+                  <>
+                    <ColumnSelect label="Latitude" value={mapping.lat} headers={table.headers} onChange={lat => updateMapping({ lat })} testId="csv-map-lat" />
+                    <ColumnSelect label="Longitude" value={mapping.lon} headers={table.headers} onChange={lon => updateMapping({ lon })} testId="csv-map-lon" />
+                  </>
+                ) : (
+                  <ColumnSelect label="Geometry (WKT)" value={mapping.wkt} headers={table.headers} onChange={wkt => updateMapping({ wkt })} testId="csv-map-wkt" />
+                )}
+                <ColumnSelect label="Name" value={mapping.name} headers={table.headers} optional onChange={name => updateMapping({ name })} testId="csv-map-name" />
+              </div>
+
+              <div className="overflow-x-auto border border-slate-700 rounded-lg">
+                <table className="w-full text-xs" data-testid="csv-preview">
+                  <thead className="bg-slate-700/50">
+                    <tr>
+                      {table.headers.map((header, i) => (
+                        <th
+                          key={i}
+                          className={`px-2 py-1 text-left font-medium whitespace-nowrap ${mappedColumns.includes(i) ? 'text-blue-400' : 'text-slate-400'}`}
+                        >
+                          {header || `Column ${i + 1}`}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                      <tr key={r} className="border-t border-slate-700">
+                        {row.map((cell, i) => (
+                          <td key={i} className="px-2 py-1 text-slate-300 max-w-[12rem] truncate" title={cell}>{cell}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-slate-500">Other non-empty columns are kept as AOI attributes; a "radius" column turns points into circles.</p>
+            </div>
+          )}
+
+          {tab === 'export' && (
+            <>
+              <div className="flex gap-3 text-sm">
+                {(['wkt', 'csv'] as const).map(f => (
+                  <label key={f} className="flex items-center gap-1.5 text-slate-300">
+                    <input
+                      type="radio"
+                      name="export-format"
+                      checked={exportFormat === f}
+                      onChange={() => setExportFormat(f)}
+                      data-testid={`wkt-csv-export-${f}`}
+                    />
+                    {f.toUpperCase()}
+                  </label>
+                ))}
+              </div>
+              {features.length === 0 ? (
+                <p className="text-sm text-slate-500">No features to export</p>
+              ) : (
+                <textarea
+                  value={exportText}
+                  readOnly
+                  rows={10}
+                  spellCheck={false}
+                  className="w-full bg-slate-900 border border-slate-600 rounded-lg p-2 text-xs font-mono text-slate-200 focus:outline-none"
+                  data-testid="wkt-csv-export-text"
+                />
+              )}
+            </>
+          )}
+
+          {error && <p className="text-xs text-red-400" data-testid="wkt-csv-error">{error}</p>}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-700 flex justify-end gap-2">
+          {tab === 'import' && !table && (
+            <button
+              onClick={handleContinue}
+              disabled={!text.trim()}
+              className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium transition-colors"
+              data-testid="wkt-csv-next"
+            >
+              {format === 'wkt' ? 'Import' : 'Map columns'}
+            </button>
+          )}
+          {tab === 'import' && table && mapping && (
+            <>
+              <button
+                onClick={() => { setTable(null); setMapping(null); setError(null) }}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm transition-colors"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleCsvImport}
+                disabled={!isCsvMappingComplete(mapping)}
+                className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium transition-colors"
+                data-testid="wkt-csv-import"
+              >
+                Import {table.rows.length} row{table.rows.length !== 1 ? 's' : ''}
+              </button>
+            </>
+          )}
+          {tab === 'export' && (
+            <>
+              <button
+                onClick={handleCopy}
+                disabled={features.length === 0}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm transition-colors"
+                data-testid="wkt-csv-copy"
+              >
+                Copy
+              </button>
+              <button
+                onClick={() => onExport(exportFormat)}
+                disabled={features.length === 0}
+                className="px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-sm font-medium transition-colors"
+                data-testid="wkt-csv-download"
+              >
+                Download
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,7 @@
 import SearchBar from '../Search/SearchBar'
+import ProjectSwitcher from './ProjectSwitcher'
 import type { ViewType } from '../../App'
+import type { AOIFeature, Geocoder, ProjectSwitcherProps } from '../../types'
 
 interface HeaderProps {
   activeView: ViewType
@@ -8,6 +10,9 @@ interface HeaderProps {
   onNotificationClick: () => void
   onProfileClick: () => void
   mapRef?: L.Map | null
+  geocoder: Geocoder
+  onFeatureAdd: (feature: AOIFeature) => void
+  projectControls: ProjectSwitcherProps
 }
 
 export default function Header({ 
@@ -16,7 +21,10 @@ export default function Header({
   unreadCount,
   onNotificationClick,
   onProfileClick,
-  mapRef 
+  mapRef,
+  geocoder,
+  onFeatureAdd,
+  projectControls
 }: HeaderProps) {
   const navItems: { id: ViewType; label: string }[] = [
     { id: 'map', label: 'Map View' },
@@ -37,6 +45,11 @@ export default function Header({
           <span className="font-semibold text-lg">AOI Creation</span>
         </div>
         
+        <div className="h-6 w-px bg-slate-600" />
+
+        {/* Project */}
+        <ProjectSwitcher {...projectControls} />
+        
         <div className="h-6 w-px bg-slate-600" />
         
         {/* Navigation */}
@@ -58,7 +71,7 @@ export default function Header({
       </div>
       
       {/* Search Bar - Only show on map view */}
-      {activeView === 'map' && <SearchBar mapRef={mapRef || null} />}
+      {activeView === 'map' && <SearchBar mapRef={mapRef || null} geocoder={geocoder} onFeatureAdd={onFeatureAdd} />}
       
       {/* Spacer for non-map views */}
       {activeView !== 'map' && <div className="flex-1" />}
@@ -0,0 +1,185 @@
+import { useRef, useState } from 'react'
+import { PROJECT_FILE_EXTENSION } from '../../utils/projects'
+import type { ProjectSwitcherProps } from '../../types'
+
+type NameMode = 'create' | 'rename'
+
+export default function ProjectSwitcher({
+  project,
+  projects,
+  onSwitch,
+  onCreate,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onExport,
+  onImport
+}: ProjectSwitcherProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [open, setOpen] = useState(false)
+  // Set while the name field for a new or renamed project is shown
+  const [nameMode, setNameMode] = useState<NameMode | null>(null)
+  const [name, setName] = useState('')
+
+  const close = () => {
+    setOpen(false)
+    setNameMode(null)
+  }
+
+  const startNaming = (mode: NameMode) => {
+    setNameMode(mode)
+    setName(mode === 'rename' ? project.name : '')
+  }
+
+  const submitName = () => {
+    const trimmed = name.trim()
+    if (!trimmed) return
+    if (nameMode === 'create') onCreate(trimmed)
+    else onRename(trimmed)
+    close()
+  }
+
+  const runAction = (action: () => void) => {
+    action()
+    close()
+  }
+
+  const actions = [
+    { id: 'new', label: 'New project', onClick: () => startNaming('create') },
+    { id: 'rename', label: 'Rename', onClick: () => startNaming('rename') },
+    { id: 'duplicate', label: 'Duplicate', onClick: () => runAction(onDuplicate) },
+    { id: 'export', label: 'Export project', onClick: () => runAction(onExport) }
+  ]
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (open ? close() : setOpen(true))}
+        className="flex items-center gap-2 max-w-[12rem] px-2.5 py-1.5 text-sm rounded-md bg-slate-700/60 hover:bg-slate-700 text-slate-200 transition-colors"
+        title="Switch project"
+        aria-haspopup="menu"
+        aria-expanded={open}
+        data-testid="project-switcher"
+      >
+        <svg className="w-4 h-4 flex-shrink-0 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+        </svg>
+        <span className="truncate" data-testid="project-name">{project.name}</span>
+        <svg className="w-3.5 h-3.5 flex-shrink-0 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-[1500]" onClick={close} />
+          <div
+            className="absolute left-0 top-full mt-1 w-64 bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-[1600] overflow-hidden"
+            role="menu"
+            data-testid="project-menu"
+          >
+            <div className="px-3 pt-2 pb-1 text-xs font-semibold text-slate-400 uppercase tracking-wider">Projects</div>
+            <div className="max-h-60 overflow-y-auto py-1">
+              {projects.map(p => (
+                <button
+                  key={p.id}
+                  role="menuitemradio"
+                  aria-checked={p.id === project.id}
+                  onClick={() => runAction(() => onSwitch(p.id))}
+                  className={`w-full flex items-center gap-2 text-left px-3 py-1.5 text-sm transition-colors ${
+                    p.id === project.id ? 'text-blue-400 bg-blue-500/10' : 'text-slate-200 hover:bg-slate-700'
+                  }`}
+                  data-testid={`project-option-${p.id}`}
+                >
+                  <span className="w-4 flex-shrink-0">{p.id === project.id && '✓'}</span>
+                  <span className="truncate">{p.name}</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="border-t border-slate-700 py-1">
+              {nameMode ? (
+                <form
+                  className="flex items-center gap-2 px-3 py-1.5"
+                  onSubmit={(e) => {
+                    e.preventDefault()
+                    submitName()
+                  }}
+                >
+                  <input
+                    autoFocus
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') setNameMode(null)
+                    }}
+                    placeholder={nameMode === 'create' ? 'New project name' : 'Project name'}
+                    aria-label={nameMode === 'create' ? 'New project name' : 'Project name'}
+                    className="flex-1 min-w-0 px-2 py-1 text-sm bg-slate-900 border border-slate-600 rounded focus:outline-none focus:border-blue-500"
+                    data-testid="project-name-input"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!name.trim()}
+                    className="px-2 py-1 text-xs rounded bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                    data-testid="project-name-save"
+                  >
+                    {nameMode === 'create' ? 'Create' : 'Save'}
+                  </button>
+                </form>
+              ) : (
+                <>
+                  {actions.map(action => (
+                    <button
+                      key={action.id}
+                      role="menuitem"
+                      onClick={action.onClick}
+                      className="w-full text-left px-3 py-1.5 text-sm text-slate-200 hover:bg-slate-700 transition-colors"
+                      data-testid={`project-${action.id}`}
+                    >
+                      {action.label}
+                    </button>
+                  ))}
+                  <button
+                    role="menuitem"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="w-full text-left px-3 py-1.5 text-sm text-slate-200 hover:bg-slate-700 transition-colors"
+                    data-testid="project-import"
+                  >
+                    Import project…
+                  </button>
+                  <button
+                    role="menuitem"
+                    onClick={() => {
+                      if (confirm(`Delete the project "${project.name}" and all of its AOIs?`)) runAction(onDelete)
+                    }}
+                    disabled={projects.length < 2}
+                    title={projects.length < 2 ? 'The only project cannot be deleted' : undefined}
+                    className="w-full text-left px-3 py-1.5 text-sm text-red-400 hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent transition-colors"
+                    data-testid="project-delete"
+                  >
+                    Delete project
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={`${PROJECT_FILE_EXTENSION},.json,application/json`}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          // Reset so picking the same file again still triggers a change
+          e.target.value = ''
+          if (file) runAction(() => onImport(file))
+        }}
+        data-testid="project-import-input"
+      />
+    </div>
+  )
+}
@@ -1,42 +1,66 @@
 import DrawingTools from '../Map/DrawingTools'
 import LayerManager from '../Map/LayerManager'
+import WmsCatalog from '../Map/WmsCatalog'
 import AOIList from '../AOI/AOIList'
 import type { SidebarProps } from '../../types'
 
 export default function Sidebar({
   features,
   activeTool,
-  wmsVisible,
-  aoiVisible,
-  wmsOpacity,
+  layers,
+  layerActions,
   onToolChange,
-  onWmsToggle,
-  onAoiToggle,
-  onOpacityChange,
+  onFeatureAdd,
   onFeatureRemove,
   onFeatureUpdate,
+  onFeaturesRemove,
+  onBulkEdit,
+  selectedIds,
+  onSelectionChange,
   onClearAll,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
   onExport,
-  mapRef
+  onImport,
+  onImportResult,
+  onGeometryOperation,
+  onBuffer,
+  showToast,
+  mapRef,
+  attributeSchema
 }: SidebarProps) {
   return (
     <aside className="w-80 bg-slate-800 border-r border-slate-700 flex flex-col" data-testid="sidebar">
       {/* Drawing Tools */}
       <DrawingTools
         activeTool={activeTool}
+        featureCount={features.length}
         onToolChange={onToolChange}
+        onFeatureAdd={onFeatureAdd}
         onClearAll={onClearAll}
+        undoLabel={undoLabel}
+        redoLabel={redoLabel}
+        onUndo={onUndo}
+        onRedo={onRedo}
+        mapRef={mapRef}
       />
       
       {/* Layer Management */}
       <LayerManager
-        wmsVisible={wmsVisible}
-        aoiVisible={aoiVisible}
-        wmsOpacity={wmsOpacity}
-        featureCount={features.length}
-        onWmsToggle={onWmsToggle}
-        onAoiToggle={onAoiToggle}
-        onOpacityChange={onOpacityChange}
+        layers={layers}
+        layerActions={layerActions}
+        features={features}
+        mapRef={mapRef}
+      />
+
+      {/* WMS Layer Catalog */}
+      <WmsCatalog
+        layers={layers}
+        layerActions={layerActions}
+        showToast={showToast}
+        mapRef={mapRef}
       />
       
       {/* AOI List */}
@@ -44,8 +68,18 @@ export default function Sidebar({
         features={features}
         onFeatureRemove={onFeatureRemove}
         onFeatureUpdate={onFeatureUpdate}
+        onFeaturesRemove={onFeaturesRemove}
+        onBulkEdit={onBulkEdit}
+        selectedIds={selectedIds}
+        onSelectionChange={onSelectionChange}
         onExport={onExport}
+        onImport={onImport}
+        onImportResult={onImportResult}
+        onGeometryOperation={onGeometryOperation}
+        onBuffer={onBuffer}
+        showToast={showToast}
         mapRef={mapRef}
+        attributeSchema={attributeSchema}
       />
     </aside>
   )
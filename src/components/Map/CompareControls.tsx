@@ -0,0 +1,81 @@
+import { getCompareCandidates } from '../../utils/compare'
+import type { CompareControlsProps, CompareMode } from '../../types'
+
+const modes: { id: Exclude<CompareMode, 'off'>; name: string }[] = [
+  { id: 'swipe', name: 'Swipe' },
+  { id: 'split', name: 'Split' }
+]
+
+export default function CompareControls({
+  mode,
+  layers,
+  selection,
+  onModeChange,
+  onSelectionChange
+}: CompareControlsProps) {
+  const candidates = getCompareCandidates(layers)
+  const isActive = mode !== 'off'
+
+  const selectClass = "min-w-0 max-w-40 bg-slate-700 border border-slate-600 rounded px-2 py-1 text-xs focus:outline-none focus:border-blue-500"
+
+  return (
+    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000] flex items-center gap-2 bg-slate-800/90 border border-slate-700 rounded-lg shadow-lg px-2 py-1.5">
+      <button
+        onClick={() => onModeChange(isActive ? 'off' : 'swipe')}
+        disabled={!selection}
+        className={`px-3 py-1 rounded text-xs font-medium transition-colors disabled:opacity-50 ${
+          isActive ? 'bg-blue-500 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'
+        }`}
+        title={selection ? 'Compare two layers' : 'Add at least two imagery layers to compare'}
+        aria-pressed={isActive}
+        data-testid="compare-toggle"
+      >
+        Compare
+      </button>
+
+      {isActive && selection && (
+        <>
+          <div className="flex rounded overflow-hidden border border-slate-600" role="group" aria-label="Compare mode">
+            {modes.map(m => (
+              <button
+                key={m.id}
+                onClick={() => onModeChange(m.id)}
+                className={`px-2 py-1 text-xs transition-colors ${
+                  mode === m.id ? 'bg-slate-600 text-white' : 'text-slate-400 hover:bg-slate-700'
+                }`}
+                aria-pressed={mode === m.id}
+                data-testid={`compare-mode-${m.id}`}
+              >
+                {m.name}
+              </button>
+            ))}
+          </div>
+
+          <select
+            value={selection.leftId}
+            onChange={(e) => onSelectionChange('left', e.target.value)}
+            className={selectClass}
+            aria-label="Left layer"
+            data-testid="compare-left-select"
+          >
+            {candidates.map(l => (
+              <option key={l.id} value={l.id}>{l.name}</option>
+            ))}
+          </select>
+          <span className="text-xs text-slate-500">vs</span>
+          <select
+            value={selection.rightId}
+            onChange={(e) => onSelectionChange('right', e.target.value)}
+            className={selectClass}
+            aria-label="Right layer"
+            data-testid="compare-right-select"
+          >
+            {candidates.map(l => (
+              <option key={l.id} value={l.id}>{l.name}</option>
+            ))}
+          </select>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,3 +1,5 @@
+import { useState } from 'react'
+import CoordinateEntryDialog from '../AOI/CoordinateEntryDialog'
 import type { DrawingToolsProps } from '../../types'
 
 const tools = [
@@ -28,6 +30,15 @@ const tools = [
       </svg>
     )
   },
+  {
+    id: 'polyline',
+    name: 'Line',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 17l6-6 4 4 8-8"/>
+      </svg>
+    )
+  },
   {
     id: 'marker',
     name: 'Marker',
@@ -40,7 +51,20 @@ const tools = [
   }
 ]
 
-export default function DrawingTools({ activeTool, onToolChange, onClearAll }: DrawingToolsProps) {
+export default function DrawingTools({
+  activeTool,
+  featureCount,
+  onToolChange,
+  onFeatureAdd,
+  onClearAll,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
+  mapRef
+}: DrawingToolsProps) {
+  const [showCoordinateDialog, setShowCoordinateDialog] = useState(false)
+
   const handleToolClick = (toolId: string) => {
     if (activeTool === toolId) {
       onToolChange(null)
@@ -51,16 +75,58 @@ export default function DrawingTools({ activeTool, onToolChange, onClearAll }: D
 
   return (
     <div className="p-4 border-b border-slate-700">
-      <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">
-        Drawing Tools
-      </h3>
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+          Drawing Tools
+        </h3>
+        <div className="flex gap-1">
+          <button
+            onClick={() => {
+              onToolChange(null)
+              setShowCoordinateDialog(true)
+            }}
+            className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+            title="Create from coordinates"
+            aria-label="Create from coordinates"
+            data-testid="coordinate-entry-btn"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v4m0 10v4M3 12h4m10 0h4M12 15a3 3 0 100-6 3 3 0 000 6z" />
+            </svg>
+          </button>
+          <button
+            onClick={onUndo}
+            disabled={!undoLabel}
+            className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-400 transition-colors"
+            title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+            aria-label="Undo"
+            data-testid="undo-btn"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+            </svg>
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!redoLabel}
+            className="p-1 rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-transparent disabled:hover:text-slate-400 transition-colors"
+            title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            aria-label="Redo"
+            data-testid="redo-btn"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+            </svg>
+          </button>
+        </div>
+      </div>
       
-      <div className="grid grid-cols-4 gap-2">
+      <div className="grid grid-cols-5 gap-1.5">
         {tools.map(tool => (
           <button
             key={tool.id}
             onClick={() => handleToolClick(tool.id)}
-            className={`map-control-btn p-3 rounded-lg flex flex-col items-center gap-1 group transition-all ${
+            className={`map-control-btn px-1 py-3 rounded-lg flex flex-col items-center gap-1 group transition-all ${
               activeTool === tool.id 
                 ? 'tool-active text-white pulse-ring' 
                 : 'bg-slate-700 hover:bg-slate-600 text-slate-300 hover:text-white'
@@ -77,7 +143,20 @@ export default function DrawingTools({ activeTool, onToolChange, onClearAll }: D
       </div>
       
       <div className="flex gap-2 mt-3">
-        {activeTool && (
+        <button
+          onClick={() => handleToolClick('edit')}
+          className={`flex-1 px-3 py-2 rounded-lg text-sm transition-colors ${
+            activeTool === 'edit'
+              ? 'tool-active text-white'
+              : 'bg-slate-700 hover:bg-slate-600 text-slate-300'
+          }`}
+          title="Drag vertices, move shapes and resize circles"
+          aria-pressed={activeTool === 'edit'}
+          data-testid="edit-shapes-btn"
+        >
+          {activeTool === 'edit' ? 'Done' : 'Edit'}
+        </button>
+        {activeTool && activeTool !== 'edit' && (
           <button
             onClick={() => onToolChange(null)}
             className="flex-1 px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm text-slate-300 transition-colors"
@@ -98,6 +177,15 @@ export default function DrawingTools({ activeTool, onToolChange, onClearAll }: D
           Clear All
         </button>
       </div>
+
+      {showCoordinateDialog && (
+        <CoordinateEntryDialog
+          featureCount={featureCount}
+          onCreate={onFeatureAdd}
+          onClose={() => setShowCoordinateDialog(false)}
+          mapRef={mapRef}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
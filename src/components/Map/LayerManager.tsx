@@ -1,90 +1,363 @@
-import type { LayerManagerProps } from '../../types'
+import { useState } from 'react'
+import L from 'leaflet'
+import { generateId, getFeatureBounds } from '../../utils/mapUtils'
+import { AOI_LAYER_ID } from '../../utils/layerStack'
+import type { LayerManagerProps, LayerInfo, LayerSource, AOIFeature } from '../../types'
 
-export default function LayerManager({
-  wmsVisible,
-  aoiVisible,
-  wmsOpacity,
-  featureCount,
-  onWmsToggle,
-  onAoiToggle,
-  onOpacityChange
-}: LayerManagerProps) {
+const sourceIcons: Record<LayerSource['type'], { path: string; gradient: string }> = {
+  aoi: {
+    path: 'M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7',
+    gradient: 'from-purple-500 to-pink-500'
+  },
+  wms: {
+    path: 'M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z',
+    gradient: 'from-green-500 to-blue-500'
+  },
+  wmts: {
+    path: 'M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM14 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1V5zM4 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1v-4zM14 15a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1h-4a1 1 0 01-1-1v-4z',
+    gradient: 'from-amber-500 to-orange-500'
+  },
+  xyz: {
+    path: 'M4 6a2 2 0 012-2h12a2 2 0 012 2v12a2 2 0 01-2 2H6a2 2 0 01-2-2V6z',
+    gradient: 'from-sky-500 to-cyan-500'
+  }
+}
+
+/**
+ * Compute the extent to zoom to for a stacked layer
+ */
+function getLayerBounds(layer: LayerInfo, features: AOIFeature[]): L.LatLngBounds | null {
+  if (layer.source.type === 'aoi') {
+    let bounds: L.LatLngBounds | null = null
+    for (const feature of features) {
+      const featureBounds = getFeatureBounds(feature)
+      if (featureBounds) {
+        bounds = bounds ? bounds.extend(featureBounds) : featureBounds
+      }
+    }
+    return bounds
+  }
+
+  if (layer.bbox) {
+    const [west, south, east, north] = layer.bbox
+    return L.latLngBounds([south, west], [north, east])
+  }
+
+  return null
+}
+
+function Toggle({ checked, onChange, testId }: { checked: boolean; onChange: (checked: boolean) => void; testId: string }) {
   return (
-    <div className="p-4 border-b border-slate-700">
-      <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3">
-        Layers
-      </h3>
-      
-      <div className="space-y-2">
-        {/* WMS Layer Toggle */}
-        <div className="flex items-center justify-between p-3 bg-slate-700/50 rounded-lg">
-          <div className="flex items-center gap-3">
-            <div className="w-8 h-8 bg-gradient-to-br from-green-500 to-blue-500 rounded flex items-center justify-center">
-              <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945"/>
-              </svg>
-            </div>
-            <div>
-              <p className="text-sm font-medium">Base Map</p>
-              <p className="text-xs text-slate-400">OpenStreetMap</p>
-            </div>
-          </div>
-          <label className="relative inline-flex items-center cursor-pointer">
-            <input
-              type="checkbox"
-              checked={wmsVisible}
-              onChange={(e) => onWmsToggle(e.target.checked)}
-              className="sr-only peer"
-              data-testid="wms-toggle"
-            />
-            <div className="w-11 h-6 bg-slate-600 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-500" />
-          </label>
-        </div>
+    <label className="relative inline-flex items-center cursor-pointer">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="sr-only peer"
+        data-testid={testId}
+      />
+      <div className="w-11 h-6 bg-slate-600 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-500" />
+    </label>
+  )
+}
+
+function LayerItem({
+  layer,
+  description,
+  canZoom,
+  isDragging,
+  isDropTarget,
+  onUpdate,
+  onRemove,
+  onZoom,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd
+}: {
+  layer: LayerInfo
+  description: React.ReactNode
+  canZoom: boolean
+  isDragging: boolean
+  isDropTarget: boolean
+  onUpdate: (updates: Partial<LayerInfo>) => void
+  onRemove: () => void
+  onZoom: () => void
+  onDragStart: () => void
+  onDragOver: () => void
+  onDrop: () => void
+  onDragEnd: () => void
+}) {
+  const { path, gradient } = sourceIcons[layer.source.type]
+  const opacity = layer.opacity ?? 100
 
-        {/* AOI Features Toggle */}
-        <div className="flex items-center justify-between p-3 bg-slate-700/50 rounded-lg">
-          <div className="flex items-center gap-3">
-            <div className="w-8 h-8 bg-gradient-to-br from-purple-500 to-pink-500 rounded flex items-center justify-center">
-              <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7"/>
-              </svg>
-            </div>
-            <div>
-              <p className="text-sm font-medium">AOI Features</p>
-              <p className="text-xs text-slate-400" data-testid="feature-count">
-                {featureCount} feature{featureCount !== 1 ? 's' : ''}
-              </p>
-            </div>
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault()
+        onDragOver()
+      }}
+      onDrop={(e) => {
+        e.preventDefault()
+        onDrop()
+      }}
+      className={`p-3 bg-slate-700/50 rounded-lg border transition-colors ${
+        isDropTarget ? 'border-blue-500' : 'border-transparent'
+      } ${isDragging ? 'opacity-50' : ''}`}
+      data-testid={`layer-item-${layer.id}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-3 min-w-0">
+          <span
+            draggable
+            onDragStart={(e) => {
+              // Drag from the handle only so the opacity slider stays usable
+              e.dataTransfer.effectAllowed = 'move'
+              e.dataTransfer.setData('text/plain', layer.id)
+              const row = e.currentTarget.closest('[data-testid^="layer-item-"]')
+              if (row) e.dataTransfer.setDragImage(row, 0, 0)
+              onDragStart()
+            }}
+            onDragEnd={onDragEnd}
+            className="cursor-grab text-slate-500 hover:text-slate-300"
+            title="Drag to reorder"
+            aria-hidden="true"
+          >
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+              <circle cx="9" cy="6" r="1.5" /><circle cx="15" cy="6" r="1.5" />
+              <circle cx="9" cy="12" r="1.5" /><circle cx="15" cy="12" r="1.5" />
+              <circle cx="9" cy="18" r="1.5" /><circle cx="15" cy="18" r="1.5" />
+            </svg>
+          </span>
+          <div className={`w-8 h-8 flex-shrink-0 bg-gradient-to-br ${gradient} rounded flex items-center justify-center`}>
+            <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={path} />
+            </svg>
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm font-medium truncate" title={layer.name}>
+              {layer.name}
+              {layer.kind === 'base' && (
+                <span className="ml-2 px-1.5 py-0.5 bg-slate-600 rounded text-[10px] text-slate-300 uppercase">Base</span>
+              )}
+            </p>
+            <p className="text-xs text-slate-400 truncate">{description}</p>
           </div>
-          <label className="relative inline-flex items-center cursor-pointer">
-            <input
-              type="checkbox"
-              checked={aoiVisible}
-              onChange={(e) => onAoiToggle(e.target.checked)}
-              className="sr-only peer"
-              data-testid="aoi-toggle"
-            />
-            <div className="w-11 h-6 bg-slate-600 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-500" />
-          </label>
         </div>
+        <Toggle
+          checked={layer.visible}
+          onChange={(visible) => onUpdate({ visible })}
+          testId={`layer-toggle-${layer.id}`}
+        />
+      </div>
+
+      <div className="flex items-center gap-2 mt-2">
+        <input
+          type="range"
+          min="0"
+          max="100"
+          value={opacity}
+          onChange={(e) => onUpdate({ opacity: parseInt(e.target.value) })}
+          className="flex-1 h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          aria-label={`${layer.name} opacity`}
+          data-testid={`layer-opacity-${layer.id}`}
+        />
+        <span className="w-9 text-right text-xs text-slate-400" data-testid={`layer-opacity-value-${layer.id}`}>{opacity}%</span>
+        <button
+          onClick={onZoom}
+          disabled={!canZoom}
+          className="p-1 hover:bg-slate-600 disabled:opacity-30 disabled:hover:bg-transparent rounded transition-colors"
+          title="Zoom to extent"
+          aria-label={`Zoom to ${layer.name}`}
+          data-testid={`layer-zoom-${layer.id}`}
+        >
+          <svg className="w-4 h-4 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0zM10 7v3m0 0v3m0-3h3m-3 0H7" />
+          </svg>
+        </button>
+        {layer.id !== AOI_LAYER_ID && (
+          <button
+            onClick={onRemove}
+            className="p-1 hover:bg-red-500/20 rounded transition-colors"
+            title="Remove layer"
+            aria-label={`Remove ${layer.name}`}
+            data-testid={`layer-remove-${layer.id}`}
+          >
+            <svg className="w-4 h-4 text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function AddLayerForm({ onAdd, onCancel }: { onAdd: (layer: LayerInfo) => void; onCancel: () => void }) {
+  const [type, setType] = useState<'xyz' | 'wmts'>('xyz')
+  const [kind, setKind] = useState<LayerInfo['kind']>('overlay')
+  const [name, setName] = useState('')
+  const [url, setUrl] = useState('')
+  const [wmtsLayer, setWmtsLayer] = useState('')
+  const [tileMatrixSet, setTileMatrixSet] = useState('GoogleMapsCompatible')
+  const [format, setFormat] = useState('image/png')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (type === 'xyz' && !/\{z\}/.test(url)) {
+      setError('XYZ URLs need {z}, {x} and {y} placeholders')
+      return
+    }
+    if (type === 'wmts' && (!url.trim() || !wmtsLayer.trim())) {
+      setError('WMTS layers need a service URL and a layer identifier')
+      return
+    }
 
-        {/* Opacity Slider */}
-        <div className="p-3 bg-slate-700/50 rounded-lg">
-          <div className="flex items-center justify-between mb-2">
-            <span className="text-sm text-slate-300">WMS Opacity</span>
-            <span className="text-xs text-slate-400" data-testid="opacity-value">{wmsOpacity}%</span>
+    const source: LayerSource = type === 'xyz'
+      ? { type: 'xyz', url: url.trim() }
+      : {
+          type: 'wmts',
+          wmts: { url: url.trim(), layer: wmtsLayer.trim(), tileMatrixSet: tileMatrixSet.trim(), format, style: 'default' }
+        }
+
+    onAdd({
+      id: generateId(),
+      name: name.trim() || (type === 'xyz' ? 'XYZ layer' : wmtsLayer.trim()),
+      description: type === 'xyz' ? 'XYZ tiles' : `WMTS • ${wmtsLayer.trim()}`,
+      visible: true,
+      opacity: 100,
+      kind,
+      source
+    })
+  }
+
+  const inputClass = 'w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500'
+
+  return (
+    <form onSubmit={handleSubmit} className="p-3 bg-slate-700/50 rounded-lg space-y-2" data-testid="add-layer-form">
+      <div className="flex gap-2">
+        <select value={type} onChange={(e) => setType(e.target.value as 'xyz' | 'wmts')} className={inputClass} aria-label="Layer type">
+          <option value="xyz">XYZ tiles</option>
+          <option value="wmts">WMTS</option>
+        </select>
+        <select value={kind} onChange={(e) => setKind(e.target.value as LayerInfo['kind'])} className={inputClass} aria-label="Layer role">
+          <option value="overlay">Overlay</option>
+          <option value="base">Base map</option>
+        </select>
+      </div>
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className={inputClass} />
+      <input
+        value={url}
+        onChange={(e) => setUrl(e.target.value)}
+        placeholder={type === 'xyz' ? 'https://tiles.example.com/{z}/{x}/{y}.png' : 'https://example.com/wmts'}
+        className={inputClass}
+        data-testid="add-layer-url"
+      />
+      {type === 'wmts' && (
+        <>
+          <input value={wmtsLayer} onChange={(e) => setWmtsLayer(e.target.value)} placeholder="Layer identifier" className={inputClass} />
+          <div className="flex gap-2">
+            <input value={tileMatrixSet} onChange={(e) => setTileMatrixSet(e.target.value)} placeholder="Tile matrix set" className={inputClass} />
+            <select value={format} onChange={(e) => setFormat(e.target.value)} className={inputClass} aria-label="Tile format">
+              <option value="image/png">PNG</option>
+              <option value="image/jpeg">JPEG</option>
+            </select>
           </div>
-          <input
-            type="range"
-            min="0"
-            max="100"
-            value={wmsOpacity}
-            onChange={(e) => onOpacityChange(parseInt(e.target.value))}
-            className="w-full h-2 bg-slate-600 rounded-lg appearance-none cursor-pointer accent-blue-500"
-            data-testid="opacity-slider"
+        </>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex gap-2">
+        <button type="button" onClick={onCancel} className="flex-1 px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-sm text-slate-300 transition-colors">
+          Cancel
+        </button>
+        <button type="submit" className="flex-1 px-3 py-2 bg-blue-500 hover:bg-blue-600 rounded-lg text-sm font-medium transition-colors" data-testid="add-layer-submit">
+          Add Layer
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default function LayerManager({
+  layers,
+  layerActions,
+  features,
+  mapRef
+}: LayerManagerProps) {
+  const [isAdding, setIsAdding] = useState(false)
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+
+  const handleZoom = (layer: LayerInfo) => {
+    const bounds = getLayerBounds(layer, features)
+    if (mapRef && bounds) {
+      mapRef.fitBounds(bounds, { padding: [50, 50], maxZoom: 16 })
+    }
+  }
+
+  const handleDrop = (index: number) => {
+    if (draggingId) {
+      layerActions.moveLayer(draggingId, index)
+    }
+    setDraggingId(null)
+    setDropIndex(null)
+  }
+
+  return (
+    <div className="p-4 border-b border-slate-700">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+          Layers
+        </h3>
+        {!isAdding && (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="text-xs text-blue-400 hover:text-blue-300 transition-colors"
+            data-testid="add-layer-btn"
+          >
+            + Add Layer
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2" data-testid="layer-stack">
+        {isAdding && (
+          <AddLayerForm
+            onAdd={(layer) => {
+              layerActions.addLayer(layer)
+              setIsAdding(false)
+            }}
+            onCancel={() => setIsAdding(false)}
           />
-        </div>
+        )}
+
+        {layers.map((layer, index) => (
+          <LayerItem
+            key={layer.id}
+            layer={layer}
+            description={layer.source.type === 'aoi' ? (
+              <span data-testid="feature-count">
+                {features.length} feature{features.length !== 1 ? 's' : ''}
+              </span>
+            ) : layer.description}
+            canZoom={getLayerBounds(layer, features) !== null}
+            isDragging={draggingId === layer.id}
+            isDropTarget={dropIndex === index && draggingId !== layer.id}
+            onUpdate={(updates) => layerActions.updateLayer(layer.id, updates)}
+            onRemove={() => layerActions.removeLayer(layer.id)}
+            onZoom={() => handleZoom(layer)}
+            onDragStart={() => setDraggingId(layer.id)}
+            onDragOver={() => setDropIndex(index)}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => {
+              setDraggingId(null)
+              setDropIndex(null)
+            }}
+          />
+        ))}
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
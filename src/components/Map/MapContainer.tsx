@@ -1,9 +1,33 @@
-import { useEffect, useRef, useCallback, useState } from 'react'
+import { useEffect, useRef, useCallback, useMemo, useState } from 'react'
 import L from 'leaflet'
 import 'leaflet-draw'
 import MapControls from './MapControls'
-import { MAP_CONFIG, createFeatureFromLayer, formatCoordinates, calculateScaleText } from '../../utils/mapUtils'
-import type { MapContainerProps, FeatureType, AOIFeature } from '../../types'
+import MapContextMenu from './MapContextMenu'
+import CompareControls from './CompareControls'
+import SplitCompareMap from './SplitCompareMap'
+import {
+  MAP_CONFIG,
+  createFeatureFromLayer,
+  getLayerGeometry,
+  formatArea,
+  formatLength,
+  getFeatureBounds,
+  calculateScaleText
+} from '../../utils/mapUtils'
+import { createCoordinateFeature, formatCoordinate } from '../../utils/coordinates'
+import { AOI_LAYER_ID, getLayerPaneName, getPaneZIndex } from '../../utils/layerStack'
+import { createFeatureLayer, createTileLayer, setFeatureLayerSelected, watchTileErrors } from '../../utils/layerFactory'
+import { getSwipeClipRects, resolveCompareSelection } from '../../utils/compare'
+import { startShapeEditing, type ShapeEditSession } from '../../utils/shapeEditing'
+import type {
+  MapContainerProps,
+  FeatureType,
+  FeatureLayer,
+  AOIFeature,
+  CompareMode,
+  LayerInfo,
+  MapContextMenuPosition
+} from '../../types'
 
 // Fix for default marker icons in Leaflet with bundlers
 import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png'
@@ -29,22 +53,63 @@ type DrawHandler = {
   disable: () => void
 }
 
+// Layer carried by leaflet-draw's edit events
+type EditEvent = L.LeafletEvent & { layer?: L.Layer; poly?: L.Layer; propagatedFrom?: L.Layer }
+
+// Room the context menu needs, in pixels, with its address shown
+const CONTEXT_MENU_SIZE = { x: 264, y: 300 }
+
 export default function MapContainer({
   appState,
   onMapReady,
   onFeatureAdd,
+  onFeatureUpdate,
+  onSplitLine,
   onToolComplete,
+  coordinateSettings,
+  reverseGeocoder,
   showToast
 }: MapContainerProps) {
+  const mainRef = useRef<HTMLElement>(null)
   const mapContainerRef = useRef<HTMLDivElement>(null)
   const mapRef = useRef<L.Map | null>(null)
-  const wmsLayerRef = useRef<L.TileLayer | null>(null)
   const drawnItemsRef = useRef<L.FeatureGroup | null>(null)
+  const tileLayersRef = useRef(new Map<string, L.TileLayer>())
   const currentDrawHandlerRef = useRef<DrawHandler | null>(null)
+  const editSessionRef = useRef<ShapeEditSession | null>(null)
+
+  // Map event handlers are bound once, so they read props through refs
+  const featuresRef = useRef(appState.features)
+  const activeToolRef = useRef(appState.activeTool)
+  const callbacksRef = useRef({ onFeatureAdd, onFeatureUpdate, onSplitLine, onToolComplete, showToast })
+
+  useEffect(() => {
+    featuresRef.current = appState.features
+    activeToolRef.current = appState.activeTool
+    callbacksRef.current = { onFeatureAdd, onFeatureUpdate, onSplitLine, onToolComplete, showToast }
+  })
   
-  const [coordinates, setCoordinates] = useState(formatCoordinates(MAP_CONFIG.DEFAULT_CENTER[0], MAP_CONFIG.DEFAULT_CENTER[1]))
+  const [cursor, setCursor] = useState<[number, number]>(MAP_CONFIG.DEFAULT_CENTER)
   const [zoomLevel, setZoomLevel] = useState(MAP_CONFIG.DEFAULT_ZOOM)
   const [scaleText, setScaleText] = useState('100 km')
+  // AOI last changed in edit mode, with its area recomputed while dragging
+  const [editStatus, setEditStatus] = useState<{ name: string; area?: number; length?: number } | null>(null)
+  const [contextMenu, setContextMenu] = useState<MapContextMenuPosition | null>(null)
+  const [measureFrom, setMeasureFrom] = useState<[number, number] | null>(null)
+
+  // Compare mode state; the picks are resolved against the current stack on every render
+  const [compareMode, setCompareMode] = useState<CompareMode>('off')
+  const [comparePicks, setComparePicks] = useState<{ left: string | null; right: string | null }>({ left: null, right: null })
+  const [swipePosition, setSwipePosition] = useState(0.5)
+
+  const compareSelection = useMemo(
+    () => resolveCompareSelection(appState.layers, comparePicks.left, comparePicks.right),
+    [appState.layers, comparePicks]
+  )
+  const activeCompareMode: CompareMode = compareSelection ? compareMode : 'off'
+  const rightCompareLayer = compareSelection
+    ? appState.layers.find(l => l.id === compareSelection.rightId)
+    : undefined
 
   const createPopupContent = useCallback((feature: AOIFeature) => {
     const formatAreaValue = (area?: number) => {
@@ -53,15 +118,48 @@ export default function MapContainer({
       if (area < 1000000) return `${(area / 10000).toFixed(2)} ha`
       return `${(area / 1000000).toFixed(2)} km²`
     }
-
-    return `
-      <div class="text-slate-900">
-        <h4 class="font-semibold">${feature.name}</h4>
-        <p class="text-sm text-slate-600">${feature.type}</p>
-        ${feature.area ? `<p class="text-sm">Area: ${formatAreaValue(feature.area)}</p>` : ''}
-      </div>
-    `
-  }, [])
+    // Markers show their position; other shapes the centre of their bounds
+    const center = getFeatureBounds(feature)?.getCenter()
+    const position = center ? formatCoordinate(center.lat, center.lng, coordinateSettings) : null
+
+    // Built from text nodes, since names come from imported files and geocoder results
+    const popup = L.DomUtil.create('div', 'text-slate-900')
+    const addLine = (tagName: 'h4' | 'p', className: string, text: string) => {
+      L.DomUtil.create(tagName, className, popup).textContent = text
+    }
+    addLine('h4', 'font-semibold', feature.name)
+    addLine('p', 'text-sm text-slate-600', feature.type)
+    if (feature.area) addLine('p', 'text-sm', `Area: ${formatAreaValue(feature.area)}`)
+    if (feature.length) addLine('p', 'text-sm', `Length: ${formatLength(feature.length)}`)
+    if (position) addLine('p', 'text-sm font-mono', `${feature.type === 'marker' ? 'Position' : 'Center'}: ${position}`)
+    return popup
+  }, [coordinateSettings])
+
+  const closeContextMenu = useCallback(() => setContextMenu(null), [])
+
+  const copyCoordinates = (text: string) => {
+    navigator.clipboard.writeText(text).then(
+      () => showToast(`Copied ${text}`, 'success'),
+      () => showToast('Could not copy to clipboard', 'error')
+    )
+    setContextMenu(null)
+  }
+
+  const addMarkerAt = ({ lat, lng }: MapContextMenuPosition) => {
+    onFeatureAdd(createCoordinateFeature('marker', [[lat, lng]], `AOI ${appState.features.length + 1}`))
+    setContextMenu(null)
+  }
+
+  const centerAt = ({ lat, lng }: MapContextMenuPosition) => {
+    mapRef.current?.panTo([lat, lng])
+    setContextMenu(null)
+  }
+
+  const measureAt = ({ lat, lng }: MapContextMenuPosition) => {
+    onToolComplete()
+    setMeasureFrom([lat, lng])
+    setContextMenu(null)
+  }
 
   // Initialize map
   useEffect(() => {
@@ -77,26 +175,33 @@ export default function MapContainer({
       maxZoom: MAP_CONFIG.MAX_ZOOM
     })
 
-    // Add OpenStreetMap base layer
-    const osmLayer = L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
-      attribution: '© OpenStreetMap contributors',
-      maxZoom: MAP_CONFIG.MAX_ZOOM
-    }).addTo(map)
-
-    // Initialize drawn items layer
+    // Initialize drawn items layer in its own stack pane
+    map.createPane(getLayerPaneName(AOI_LAYER_ID))
     const drawnItems = new L.FeatureGroup()
-    map.addLayer(drawnItems)
 
     // Store refs
+    const tileLayers = tileLayersRef.current
     mapRef.current = map
-    wmsLayerRef.current = osmLayer
     drawnItemsRef.current = drawnItems
 
     // Event handlers
     map.on('mousemove', (e: L.LeafletMouseEvent) => {
-      setCoordinates(formatCoordinates(e.latlng.lat, e.latlng.lng))
+      setCursor([e.latlng.lat, e.latlng.lng])
     })
 
+    // Right-click opens the context menu, kept inside the map; not while drawing or editing
+    map.on('contextmenu', (e: L.LeafletMouseEvent) => {
+      if (activeToolRef.current) return
+      const size = map.getSize()
+      setContextMenu({
+        lat: e.latlng.lat,
+        lng: e.latlng.lng,
+        x: Math.max(0, Math.min(e.containerPoint.x, size.x - CONTEXT_MENU_SIZE.x)),
+        y: Math.max(0, Math.min(e.containerPoint.y, size.y - CONTEXT_MENU_SIZE.y))
+      })
+    })
+    map.on('click movestart', () => setContextMenu(null))
+
     map.on('zoomend', () => {
       const zoom = map.getZoom()
       setZoomLevel(zoom)
@@ -112,28 +217,69 @@ export default function MapContainer({
       const layer = event.layer
       const type = event.layerType as FeatureType
 
+      // A split line cuts an existing AOI instead of becoming one
+      if (activeToolRef.current === 'split') {
+        const line = (layer as L.Polyline).getLatLngs() as L.LatLng[]
+        callbacksRef.current.onSplitLine(line.map(ll => [ll.lat, ll.lng]))
+        callbacksRef.current.onToolComplete()
+        return
+      }
+
+      const featureCount = featuresRef.current.length
       const feature = createFeatureFromLayer(
         layer,
         type,
-        `AOI ${appState.features.length + 1}`,
-        appState.features.length
+        `AOI ${featureCount + 1}`,
+        featureCount
       )
 
       // Add layer to drawn items
       ;(layer as L.Layer & { featureId?: string }).featureId = feature.id
       
       if ('bindPopup' in layer) {
-        (layer as L.Layer & { bindPopup: (content: string) => void }).bindPopup(createPopupContent(feature))
+        (layer as L.Layer & { bindPopup: (content: HTMLElement) => void }).bindPopup(createPopupContent(feature))
       }
       
       drawnItems.addLayer(layer)
 
-      onFeatureAdd(feature)
-      onToolComplete()
+      callbacksRef.current.onFeatureAdd(feature)
+      callbacksRef.current.onToolComplete()
     })
 
     map.on(L.Draw.Event.DRAWSTOP, () => {
-      onToolComplete()
+      callbacksRef.current.onToolComplete()
+    })
+
+    // Show the area (or length) of the shape being edited as it changes
+    const updateEditStatus = (layer: L.Layer | undefined) => {
+      const id = (layer as FeatureLayer | undefined)?.featureId
+      const feature = featuresRef.current.find(f => f.id === id)
+      if (layer && feature) {
+        const { area, length } = getLayerGeometry(layer, feature.type)
+        setEditStatus({ name: feature.name, area, length })
+      }
+    }
+
+    map.on(L.Draw.Event.EDITSTART, () => setEditStatus(null))
+    map.on(L.Draw.Event.EDITVERTEX, (e: L.LeafletEvent) => updateEditStatus((e as EditEvent).poly))
+    map.on(`${L.Draw.Event.EDITMOVE} ${L.Draw.Event.EDITRESIZE}`, (e: L.LeafletEvent) => {
+      updateEditStatus((e as EditEvent).layer)
+    })
+    drawnItems.on('editdrag', (e: L.LeafletEvent) => updateEditStatus((e as EditEvent).propagatedFrom))
+
+    // Write edited geometries back to their features
+    map.on(L.Draw.Event.EDITED, (e: L.LeafletEvent) => {
+      const { layers } = e as L.DrawEvents.Edited
+      let count = 0
+      layers.eachLayer(layer => {
+        const feature = featuresRef.current.find(f => f.id === (layer as FeatureLayer).featureId)
+        if (!feature) return
+        callbacksRef.current.onFeatureUpdate(feature.id, getLayerGeometry(layer, feature.type))
+        count++
+      })
+      if (count > 0) {
+        callbacksRef.current.showToast(`${count} AOI${count !== 1 ? 's' : ''} updated`, 'success')
+      }
     })
 
     // Notify parent
@@ -143,6 +289,7 @@ export default function MapContainer({
     return () => {
       map.remove()
       mapRef.current = null
+      tileLayers.clear()
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [])
@@ -153,78 +300,131 @@ export default function MapContainer({
 
     // Clear existing layers
     drawnItemsRef.current.clearLayers()
+    const pane = getLayerPaneName(AOI_LAYER_ID)
 
     // Add features from state
     appState.features.forEach((feature: AOIFeature) => {
-      let layer: L.Layer | null = null
-
-      switch (feature.type) {
-        case 'polygon':
-          layer = L.polygon(feature.coordinates as [number, number][], {
-            color: feature.color,
-            fillOpacity: 0.3
-          })
-          break
-        case 'rectangle':
-          layer = L.rectangle(feature.coordinates as [number, number][], {
-            color: feature.color,
-            fillOpacity: 0.3
-          })
-          break
-        case 'circle': {
-          const coords = feature.coordinates as { center: number[]; radius: number }
-          layer = L.circle([coords.center[0], coords.center[1]], {
-            radius: coords.radius,
-            color: feature.color,
-            fillOpacity: 0.3
-          })
-          break
+      const layer = createFeatureLayer(feature, pane)
+      ;(layer as L.Layer & { featureId?: string }).featureId = feature.id
+      layer.bindPopup(createPopupContent(feature))
+      drawnItemsRef.current!.addLayer(layer)
+    })
+  }, [appState.features, createPopupContent])
+
+  // Mirror the AOI list's selection; runs after the layers above are rebuilt
+  useEffect(() => {
+    const selected = new Set(appState.selectedIds)
+    drawnItemsRef.current?.eachLayer(layer => {
+      const { featureId } = layer as FeatureLayer
+      setFeatureLayerSelected(layer, featureId !== undefined && selected.has(featureId))
+    })
+  }, [appState.features, appState.selectedIds])
+
+  // Sync the layer stack: creation, removal, visibility, order and opacity
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map) return
+
+    // While comparing, only the compared layers are shown and the AOI features are raised above them
+    const isShown = (info: LayerInfo) => {
+      if (activeCompareMode === 'off' || !compareSelection || info.source.type === 'aoi') return info.visible
+      if (info.id === compareSelection.leftId) return true
+      return activeCompareMode === 'swipe' && info.id === compareSelection.rightId
+    }
+
+    const tileLayers = tileLayersRef.current
+    const ids = new Set(appState.layers.map(l => l.id))
+
+    tileLayers.forEach((layer, id) => {
+      if (!ids.has(id)) {
+        map.removeLayer(layer)
+        tileLayers.delete(id)
+      }
+    })
+
+    appState.layers.forEach((info, index) => {
+      const paneName = getLayerPaneName(info.id)
+      const pane = map.getPane(paneName) ?? map.createPane(paneName)
+      const raised = activeCompareMode !== 'off' && info.source.type === 'aoi'
+      pane.style.zIndex = String(getPaneZIndex(raised ? -1 : index, appState.layers.length))
+      pane.style.opacity = String((info.opacity ?? 100) / 100)
+
+      let layer: L.Layer | null | undefined
+      if (info.source.type === 'aoi') {
+        layer = drawnItemsRef.current
+      } else {
+        layer = tileLayers.get(info.id)
+        if (!layer) {
+          const tileLayer = createTileLayer(info, paneName)
+          if (tileLayer) {
+            watchTileErrors(tileLayer, () => {
+              callbacksRef.current.showToast(`Failed to load imagery layer "${info.name}"`, 'error')
+            })
+            tileLayers.set(info.id, tileLayer)
+          }
+          layer = tileLayer
         }
-        case 'marker':
-          layer = L.marker(feature.coordinates as [number, number])
-          break
       }
 
-      if (layer) {
-        (layer as L.Layer & { featureId?: string }).featureId = feature.id
-        layer.bindPopup(createPopupContent(feature))
-        drawnItemsRef.current!.addLayer(layer)
+      if (!layer) return
+      if (isShown(info)) {
+        if (!map.hasLayer(layer)) map.addLayer(layer)
+      } else {
+        map.removeLayer(layer)
       }
     })
-  }, [appState.features, createPopupContent])
+  }, [appState.layers, activeCompareMode, compareSelection])
 
-  // Handle WMS visibility
+  // Clip the compared layers' panes on either side of the swipe divider
   useEffect(() => {
-    if (!wmsLayerRef.current || !mapRef.current) return
+    const map = mapRef.current
+    if (!map || activeCompareMode !== 'swipe' || !compareSelection) return
+
+    const leftPane = map.getPane(getLayerPaneName(compareSelection.leftId))
+    const rightPane = map.getPane(getLayerPaneName(compareSelection.rightId))
+    if (!leftPane || !rightPane) return
+
+    const updateClip = () => {
+      const size = map.getSize()
+      const nw = map.containerPointToLayerPoint([0, 0])
+      const se = map.containerPointToLayerPoint(size)
+      const clip = getSwipeClipRects(nw, se, size.x * swipePosition)
+      leftPane.style.clip = clip.left
+      rightPane.style.clip = clip.right
+    }
 
-    if (appState.wmsVisible) {
-      if (!mapRef.current.hasLayer(wmsLayerRef.current)) {
-        mapRef.current.addLayer(wmsLayerRef.current)
-      }
-    } else {
-      mapRef.current.removeLayer(wmsLayerRef.current)
+    updateClip()
+    map.on('move resize', updateClip)
+
+    return () => {
+      map.off('move resize', updateClip)
+      leftPane.style.clip = ''
+      rightPane.style.clip = ''
     }
-  }, [appState.wmsVisible])
+  }, [activeCompareMode, compareSelection, swipePosition])
 
-  // Handle AOI visibility
+  // The primary map shrinks to the left half in split view
   useEffect(() => {
-    if (!drawnItemsRef.current || !mapRef.current) return
+    mapRef.current?.invalidateSize()
+  }, [activeCompareMode])
 
-    if (appState.aoiVisible) {
-      if (!mapRef.current.hasLayer(drawnItemsRef.current)) {
-        mapRef.current.addLayer(drawnItemsRef.current)
-      }
+  const handleCompareSelection = (side: 'left' | 'right', id: string) => {
+    if (!compareSelection) return
+    const { leftId, rightId } = compareSelection
+
+    // Picking the layer already shown on the other side swaps them
+    if (side === 'left') {
+      setComparePicks({ left: id, right: id === rightId ? leftId : rightId })
     } else {
-      mapRef.current.removeLayer(drawnItemsRef.current)
+      setComparePicks({ left: id === leftId ? rightId : leftId, right: id })
     }
-  }, [appState.aoiVisible])
+  }
 
-  // Handle WMS opacity
-  useEffect(() => {
-    if (wmsLayerRef.current) {
-      wmsLayerRef.current.setOpacity(appState.wmsOpacity / 100)
-    }
-  }, [appState.wmsOpacity])
+  const updateSwipeFromPointer = (clientX: number) => {
+    const rect = mainRef.current?.getBoundingClientRect()
+    if (!rect || rect.width === 0) return
+    setSwipePosition(Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)))
+  }
 
   // Handle active drawing tool
   useEffect(() => {
@@ -237,8 +437,23 @@ export default function MapContainer({
       currentDrawHandlerRef.current = null
     }
 
+    // Leaving edit mode keeps the edits; the Cancel button reverts them first
+    if (editSessionRef.current) {
+      editSessionRef.current.save()
+      editSessionRef.current = null
+    }
+
     if (!appState.activeTool) return
 
+    if (appState.activeTool === 'edit') {
+      editSessionRef.current = drawnItemsRef.current && startShapeEditing(map, drawnItemsRef.current)
+      if (!editSessionRef.current) {
+        callbacksRef.current.showToast('No AOIs to edit', 'info')
+        callbacksRef.current.onToolComplete()
+      }
+      return
+    }
+
     const shapeOptions = {
       color: '#3b82f6',
       fillOpacity: 0.3
@@ -261,6 +476,14 @@ export default function MapContainer({
       case 'marker':
         handler = new L.Draw.Marker(mapAny, {}) as unknown as DrawHandler
         break
+      case 'polyline':
+        handler = new L.Draw.Polyline(mapAny, { shapeOptions: { color: '#f59e0b', weight: 3 } }) as unknown as DrawHandler
+        break
+      case 'split':
+        handler = new L.Draw.Polyline(mapAny, {
+          shapeOptions: { color: '#f97316', weight: 2, dashArray: '6, 6' }
+        }) as unknown as DrawHandler
+        break
     }
 
     if (handler) {
@@ -270,15 +493,92 @@ export default function MapContainer({
   }, [appState.activeTool])
 
   return (
-    <main className="flex-1 relative">
+    <main ref={mainRef} className="flex-1 relative overflow-hidden">
       <div 
         ref={mapContainerRef} 
-        className="absolute inset-0"
+        className={`absolute inset-y-0 left-0 ${activeCompareMode === 'split' ? 'right-1/2' : 'right-0'}`}
         data-testid="map-container"
       />
 
+      {/* Split comparison map */}
+      {activeCompareMode === 'split' && rightCompareLayer && (
+        <SplitCompareMap
+          primaryMap={mapRef.current}
+          layer={rightCompareLayer}
+          features={appState.features}
+        />
+      )}
+
+      {/* Swipe divider */}
+      {activeCompareMode === 'swipe' && (
+        <div
+          className="absolute inset-y-0 z-[900] w-4 -ml-2 cursor-ew-resize touch-none flex justify-center"
+          style={{ left: `${swipePosition * 100}%` }}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId)
+            updateSwipeFromPointer(e.clientX)
+          }}
+          onPointerMove={(e) => {
+            if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+              updateSwipeFromPointer(e.clientX)
+            }
+          }}
+          data-testid="compare-divider"
+        >
+          <div className="w-0.5 h-full bg-white shadow-lg" />
+          <div
+            role="slider"
+            tabIndex={0}
+            aria-label="Swipe position"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(swipePosition * 100)}
+            onKeyDown={(e) => {
+              if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return
+              e.preventDefault()
+              const step = e.key === 'ArrowLeft' ? -0.05 : 0.05
+              setSwipePosition(prev => Math.min(1, Math.max(0, prev + step)))
+            }}
+            className="absolute top-1/2 -translate-y-1/2 w-8 h-8 bg-white text-slate-900 rounded-full shadow-lg flex items-center justify-center focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7l-5 5 5 5M16 7l5 5-5 5" />
+            </svg>
+          </div>
+        </div>
+      )}
+
+      {/* Compare Controls */}
+      <CompareControls
+        mode={activeCompareMode}
+        layers={appState.layers}
+        selection={compareSelection}
+        onModeChange={setCompareMode}
+        onSelectionChange={handleCompareSelection}
+      />
+
       {/* Custom Map Controls */}
-      <MapControls mapRef={mapRef.current} showToast={showToast} />
+      <MapControls
+        mapRef={mapRef.current}
+        activeTool={appState.activeTool}
+        onMeasureStart={onToolComplete}
+        measureFrom={measureFrom}
+        showToast={showToast}
+      />
+
+      {contextMenu && (
+        <MapContextMenu
+          key={`${contextMenu.lat},${contextMenu.lng}`}
+          position={contextMenu}
+          coordinateSettings={coordinateSettings}
+          reverseGeocoder={reverseGeocoder}
+          onCopy={copyCoordinates}
+          onAddMarker={() => addMarkerAt(contextMenu)}
+          onCenter={() => centerAt(contextMenu)}
+          onMeasureFrom={() => measureAt(contextMenu)}
+          onClose={closeContextMenu}
+        />
+      )}
 
       {/* Scale Bar */}
       <div className="absolute bottom-4 left-4 bg-slate-800/90 px-3 py-2 rounded-lg border border-slate-700 z-[1000]">
@@ -288,13 +588,52 @@ export default function MapContainer({
         </div>
       </div>
 
+      {/* Edit Mode Indicator */}
+      {appState.activeTool === 'edit' && (
+        <div className="absolute top-4 left-4 bg-blue-500 text-white px-4 py-2 rounded-lg shadow-lg z-[1000] fade-in" data-testid="edit-indicator">
+          <div className="flex items-center gap-3">
+            <div className="w-2 h-2 bg-white rounded-full animate-pulse" />
+            <div className="text-sm">
+              <p>Editing shapes - drag vertices, click a vertex to remove it</p>
+              {editStatus && (
+                <p className="text-xs text-blue-100" data-testid="edit-area">
+                  {editStatus.name}
+                  {editStatus.area ? `: ${formatArea(editStatus.area)}` : ''}
+                  {editStatus.length ? `: ${formatLength(editStatus.length)}` : ''}
+                </p>
+              )}
+            </div>
+            <button
+              onClick={() => onToolComplete()}
+              className="px-2 py-1 bg-white text-blue-600 rounded text-xs font-medium hover:bg-blue-50 transition-colors"
+              data-testid="edit-save-btn"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => {
+                editSessionRef.current?.cancel()
+                editSessionRef.current = null
+                onToolComplete()
+              }}
+              className="px-2 py-1 bg-blue-600 hover:bg-blue-700 rounded text-xs transition-colors"
+              data-testid="edit-cancel-btn"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Drawing Mode Indicator */}
-      {appState.activeTool && (
+      {appState.activeTool && appState.activeTool !== 'edit' && (
         <div className="absolute top-4 left-4 bg-blue-500 text-white px-4 py-2 rounded-lg shadow-lg z-[1000] fade-in">
           <div className="flex items-center gap-2">
             <div className="w-2 h-2 bg-white rounded-full animate-pulse" />
             <span data-testid="drawing-indicator">
-              Drawing {appState.activeTool} - Click to add points
+              {appState.activeTool === 'split'
+                ? 'Draw a line across the AOI - Click the last point to finish'
+                : `Drawing ${appState.activeTool} - Click to add points`}
             </span>
           </div>
         </div>
@@ -305,7 +644,9 @@ export default function MapContainer({
         <div className="flex flex-col gap-1 text-xs">
           <div className="flex items-center justify-between gap-4">
             <span className="text-slate-400">Coordinates</span>
-            <span className="font-mono text-slate-300" data-testid="coordinates">{coordinates}</span>
+            <span className="font-mono text-slate-300" data-testid="coordinates">
+              {formatCoordinate(cursor[0], cursor[1], coordinateSettings)}
+            </span>
           </div>
           <div className="flex items-center justify-between gap-4">
             <span className="text-slate-400">Zoom</span>
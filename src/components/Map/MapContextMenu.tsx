@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react'
+import { formatCoordinate } from '../../utils/coordinates'
+import type { MapContextMenuProps, ReverseGeocodeResult } from '../../types'
+
+type Lookup =
+  | { status: 'loading' }
+  | { status: 'done'; result: ReverseGeocodeResult | null }
+  | { status: 'error'; message: string }
+
+export default function MapContextMenu({
+  position,
+  coordinateSettings,
+  reverseGeocoder,
+  onCopy,
+  onAddMarker,
+  onCenter,
+  onMeasureFrom,
+  onClose
+}: MapContextMenuProps) {
+  const [lookup, setLookup] = useState<Lookup | null>(null)
+  const coordinates = formatCoordinate(position.lat, position.lng, coordinateSettings)
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const handleWhatsHere = () => {
+    setLookup({ status: 'loading' })
+    reverseGeocoder.reverse(position.lat, position.lng).then(
+      result => setLookup({ status: 'done', result }),
+      (err: unknown) => setLookup({
+        status: 'error',
+        message: err instanceof Error ? err.message : 'Reverse geocoding failed'
+      })
+    )
+  }
+
+  const items = [
+    { id: 'whats-here', label: 'What\'s here?', onClick: handleWhatsHere },
+    { id: 'copy', label: 'Copy coordinates', onClick: () => onCopy(coordinates) },
+    { id: 'add-marker', label: 'Add marker here', onClick: onAddMarker },
+    { id: 'center', label: 'Center map here', onClick: onCenter },
+    { id: 'measure', label: 'Start measuring here', onClick: onMeasureFrom }
+  ]
+
+  return (
+    <div
+      role="menu"
+      className="absolute w-64 bg-slate-800 border border-slate-700 rounded-lg shadow-xl py-1 z-[1100] fade-in"
+      style={{ left: position.x, top: position.y }}
+      onContextMenu={(e) => e.preventDefault()}
+      data-testid="map-context-menu"
+    >
+      <p className="px-3 py-1.5 text-xs font-mono text-slate-400 truncate" data-testid="context-menu-coordinates">
+        {coordinates}
+      </p>
+
+      {lookup && (
+        <div className="px-3 py-1.5 border-y border-slate-700 text-xs" data-testid="context-menu-address">
+          {lookup.status === 'loading' && <p className="text-slate-400">Looking up…</p>}
+          {lookup.status === 'error' && <p className="text-red-400">{lookup.message}</p>}
+          {lookup.status === 'done' && (lookup.result ? (
+            <>
+              <p className="font-medium text-white">{lookup.result.name}</p>
+              <p className="text-slate-400">{lookup.result.displayName}</p>
+            </>
+          ) : (
+            <p className="text-slate-400">No address found here</p>
+          ))}
+        </div>
+      )}
+
+      {items.map(item => (
+        <button
+          key={item.id}
+          role="menuitem"
+          onClick={item.onClick}
+          disabled={item.id === 'whats-here' && lookup?.status === 'loading'}
+          className="w-full text-left px-3 py-1.5 text-sm text-slate-200 hover:bg-slate-700 disabled:opacity-50 transition-colors"
+          data-testid={`context-menu-${item.id}`}
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -1,9 +1,46 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect } from 'react'
 import { MAP_CONFIG } from '../../utils/mapUtils'
-import type { MapControlsProps } from '../../types'
+import { useLocalStorage } from '../../hooks/useLocalStorage'
+import { useMeasureTool } from '../../hooks/useMeasureTool'
+import type { MapControlsProps, MeasureSystem } from '../../types'
 
-export default function MapControls({ mapRef, showToast }: MapControlsProps) {
+export default function MapControls({ mapRef, activeTool, onMeasureStart, measureFrom, showToast }: MapControlsProps) {
   const [isFullscreen, setIsFullscreen] = useState(false)
+  const [isMeasuring, setIsMeasuring] = useState(false)
+  const [measureSystem, setMeasureSystem] = useLocalStorage<MeasureSystem>('measure-units', 'metric')
+  const measure = useMeasureTool(mapRef, isMeasuring, measureSystem)
+
+  // Picking a drawing tool ends measuring
+  const [prevTool, setPrevTool] = useState(activeTool)
+  if (activeTool !== prevTool) {
+    setPrevTool(activeTool)
+    if (activeTool) setIsMeasuring(false)
+  }
+
+  // Measuring started from the map's context menu begins at the clicked position
+  const [prevMeasureFrom, setPrevMeasureFrom] = useState(measureFrom)
+  if (measureFrom !== prevMeasureFrom) {
+    setPrevMeasureFrom(measureFrom)
+    if (measureFrom) {
+      setIsMeasuring(true)
+      measure.startAt(measureFrom)
+    }
+  }
+
+  const handleMeasure = useCallback(() => {
+    if (!isMeasuring) onMeasureStart()
+    setIsMeasuring(!isMeasuring)
+  }, [isMeasuring, onMeasureStart])
+
+  // Escape leaves measure mode and discards the sketch
+  useEffect(() => {
+    if (!isMeasuring) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsMeasuring(false)
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isMeasuring])
 
   const handleZoomIn = useCallback(() => {
     mapRef?.zoomIn()
@@ -46,9 +83,66 @@ export default function MapControls({ mapRef, showToast }: MapControlsProps) {
   }, [mapRef, showToast])
 
   const buttonClass = "map-control-btn w-10 h-10 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-lg flex items-center justify-center shadow-lg transition-colors"
+  const activeButtonClass = "map-control-btn w-10 h-10 bg-blue-500 hover:bg-blue-600 border border-blue-400 rounded-lg flex items-center justify-center shadow-lg transition-colors"
 
   return (
     <div className="absolute top-4 right-4 flex flex-col gap-2 z-[1000]">
+      {isMeasuring && (
+        <div
+          className="absolute right-12 top-0 w-56 bg-slate-800/95 border border-slate-600 rounded-lg shadow-lg p-3 text-xs"
+          data-testid="measure-panel"
+        >
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-semibold text-slate-200">Measure</span>
+            <div className="flex rounded overflow-hidden border border-slate-600">
+              {(['metric', 'imperial'] as MeasureSystem[]).map(system => (
+                <button
+                  key={system}
+                  onClick={() => setMeasureSystem(system)}
+                  className={`px-2 py-0.5 capitalize transition-colors ${
+                    measureSystem === system ? 'bg-blue-500 text-white' : 'text-slate-300 hover:bg-slate-700'
+                  }`}
+                  aria-pressed={measureSystem === system}
+                  data-testid={`measure-units-${system}`}
+                >
+                  {system}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {measure.pointCount === 0 ? (
+            <p className="text-slate-400">Click on the map to start; double-click to finish</p>
+          ) : (
+            <dl className="grid grid-cols-2 gap-y-1 font-mono">
+              <dt className="text-slate-400 font-sans">Segment</dt>
+              <dd className="text-right text-slate-200" data-testid="measure-segment">{measure.segmentLabel}</dd>
+              <dt className="text-slate-400 font-sans">Total</dt>
+              <dd className="text-right text-slate-200" data-testid="measure-total">{measure.totalLabel}</dd>
+              <dt className="text-slate-400 font-sans">Area</dt>
+              <dd className="text-right text-slate-200" data-testid="measure-area">{measure.areaLabel ?? '–'}</dd>
+            </dl>
+          )}
+
+          <div className="flex justify-end gap-3 mt-2">
+            <button
+              onClick={measure.clear}
+              className="text-blue-400 hover:text-blue-300 transition-colors"
+              data-testid="measure-clear"
+            >
+              Clear
+            </button>
+            <button
+              onClick={() => setIsMeasuring(false)}
+              className="text-slate-400 hover:text-white transition-colors"
+              data-testid="measure-close"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      )}
+
       <button
         className={buttonClass}
         onClick={handleZoomIn}
@@ -103,6 +197,19 @@ export default function MapControls({ mapRef, showToast }: MapControlsProps) {
         </svg>
       </button>
 
+      <button
+        className={isMeasuring ? activeButtonClass : buttonClass}
+        onClick={handleMeasure}
+        title="Measure distance and area"
+        aria-label="Measure distance and area"
+        aria-pressed={isMeasuring}
+        data-testid="measure-btn"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 17l14-14 4 4L7 21l-4-4zm4-4l2 2m1-5l2 2m1-5l2 2" />
+        </svg>
+      </button>
+
       <button
         className={buttonClass}
         onClick={handleLocate}
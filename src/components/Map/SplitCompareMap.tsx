@@ -0,0 +1,91 @@
+import { useEffect, useRef } from 'react'
+import L from 'leaflet'
+import { MAP_CONFIG } from '../../utils/mapUtils'
+import { createFeatureLayer, createTileLayer } from '../../utils/layerFactory'
+import type { LayerSource, SplitCompareMapProps } from '../../types'
+
+const COMPARE_PANE = 'compare'
+
+/**
+ * Secondary map for the split comparison view
+ * Shows a single layer under the AOI features and keeps its view in sync with the primary map
+ */
+export default function SplitCompareMap({ primaryMap, layer, features }: SplitCompareMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const mapRef = useRef<L.Map | null>(null)
+  const featureGroupRef = useRef<L.FeatureGroup | null>(null)
+  const tileLayerRef = useRef<{ source: LayerSource; layer: L.TileLayer } | null>(null)
+
+  // Initialize map and view synchronization
+  useEffect(() => {
+    if (!containerRef.current || !primaryMap) return
+
+    const map = L.map(containerRef.current, {
+      center: primaryMap.getCenter(),
+      zoom: primaryMap.getZoom(),
+      zoomControl: false,
+      attributionControl: false,
+      minZoom: MAP_CONFIG.MIN_ZOOM,
+      maxZoom: MAP_CONFIG.MAX_ZOOM
+    })
+    map.createPane(COMPARE_PANE)
+
+    const featureGroup = new L.FeatureGroup().addTo(map)
+    mapRef.current = map
+    featureGroupRef.current = featureGroup
+
+    // Guard against the two maps echoing each other's moves
+    let syncing = false
+    const follow = (source: L.Map, target: L.Map) => () => {
+      if (syncing) return
+      syncing = true
+      target.setView(source.getCenter(), source.getZoom(), { animate: false })
+      syncing = false
+    }
+    const syncSecondary = follow(primaryMap, map)
+    const syncPrimary = follow(map, primaryMap)
+
+    primaryMap.on('move', syncSecondary)
+    map.on('move', syncPrimary)
+
+    return () => {
+      primaryMap.off('move', syncSecondary)
+      map.remove()
+      mapRef.current = null
+      featureGroupRef.current = null
+      tileLayerRef.current = null
+    }
+  }, [primaryMap])
+
+  // Swap the compared layer; opacity changes only touch the pane
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map) return
+
+    map.getPane(COMPARE_PANE)!.style.opacity = String((layer.opacity ?? 100) / 100)
+    if (tileLayerRef.current?.source === layer.source) return
+
+    if (tileLayerRef.current) {
+      map.removeLayer(tileLayerRef.current.layer)
+    }
+    const tileLayer = createTileLayer(layer, COMPARE_PANE)
+    tileLayerRef.current = tileLayer ? { source: layer.source, layer: tileLayer.addTo(map) } : null
+  }, [layer, primaryMap])
+
+  // Keep AOI features drawn on top
+  useEffect(() => {
+    const featureGroup = featureGroupRef.current
+    if (!featureGroup) return
+
+    featureGroup.clearLayers()
+    features.forEach(feature => featureGroup.addLayer(createFeatureLayer(feature)))
+  }, [features, primaryMap])
+
+  return (
+    <div
+      ref={containerRef}
+      className="absolute inset-y-0 left-1/2 right-0 border-l-2 border-white"
+      data-testid="compare-split-map"
+    />
+  )
+}
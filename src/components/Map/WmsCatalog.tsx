@@ -0,0 +1,215 @@
+import { useState, useRef, useEffect } from 'react'
+import { fetchWmsCapabilities, createWmsConfig } from '../../utils/wmsCapabilities'
+import { generateId } from '../../utils/mapUtils'
+import type { WmsCatalogProps, WmsCapabilities, WmsLayerSummary } from '../../types'
+
+function formatBbox(bbox: WmsLayerSummary['bbox']): string {
+  if (!bbox) return 'Extent unknown'
+  return bbox.map(v => v.toFixed(2)).join(', ')
+}
+
+function CatalogLayerItem({
+  layer,
+  added,
+  onAdd,
+  onRemove
+}: {
+  layer: WmsLayerSummary
+  added: boolean
+  onAdd: (style: string) => void
+  onRemove: () => void
+}) {
+  const [style, setStyle] = useState(layer.styles[0]?.name ?? '')
+
+  return (
+    <div className="bg-slate-700/50 rounded-lg p-3" data-testid={`catalog-layer-${layer.name}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-white truncate" title={layer.title}>{layer.title}</p>
+          <p className="text-xs text-slate-400 font-mono truncate">{layer.name}</p>
+        </div>
+        <button
+          onClick={() => (added ? onRemove() : onAdd(style))}
+          className={`px-2 py-1 rounded text-xs font-medium transition-colors flex-shrink-0 ${
+            added
+              ? 'bg-red-500/20 hover:bg-red-500/30 text-red-400'
+              : 'bg-blue-500 hover:bg-blue-600 text-white'
+          }`}
+          data-testid={`catalog-add-${layer.name}`}
+        >
+          {added ? 'Remove' : 'Add'}
+        </button>
+      </div>
+
+      {layer.abstract && (
+        <p className="text-xs text-slate-400 mt-2 line-clamp-2" title={layer.abstract}>{layer.abstract}</p>
+      )}
+
+      <p className="text-[10px] text-slate-500 mt-2 font-mono">{formatBbox(layer.bbox)}</p>
+
+      {layer.styles.length > 1 && (
+        <select
+          value={style}
+          onChange={(e) => setStyle(e.target.value)}
+          disabled={added}
+          className="mt-2 w-full bg-slate-700 border border-slate-600 rounded px-2 py-1 text-xs focus:outline-none focus:border-blue-500"
+          aria-label={`Style for ${layer.title}`}
+        >
+          {layer.styles.map(s => (
+            <option key={s.name} value={s.name}>{s.title}</option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
+
+export default function WmsCatalog({
+  layers,
+  layerActions,
+  showToast,
+  mapRef
+}: WmsCatalogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [endpoint, setEndpoint] = useState('')
+  const [capabilities, setCapabilities] = useState<WmsCapabilities | null>(null)
+  const [loadedEndpoint, setLoadedEndpoint] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  // Cancel any pending request on unmount
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  const handleLoad = async () => {
+    if (!endpoint.trim()) return
+
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const result = await fetchWmsCapabilities(endpoint, controller.signal)
+      setCapabilities(result)
+      setLoadedEndpoint(endpoint.trim())
+      if (result.layers.length === 0) {
+        setError('The service does not advertise any named layers')
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return
+      console.error('Capabilities error:', err)
+      setCapabilities(null)
+      setError(err instanceof Error ? err.message : 'Failed to load capabilities')
+    } finally {
+      if (abortRef.current === controller) {
+        setIsLoading(false)
+      }
+    }
+  }
+
+  const findStackLayer = (layer: WmsLayerSummary) => {
+    const url = createWmsConfig(capabilities!, layer, loadedEndpoint).url
+    return layers.find(l => l.source.type === 'wms' && l.source.wms.layers === layer.name && l.source.wms.url === url)
+  }
+
+  const handleAdd = (layer: WmsLayerSummary, style: string) => {
+    if (!capabilities) return
+
+    layerActions.addLayer({
+      id: generateId(),
+      name: layer.title,
+      description: `WMS • ${layer.name}`,
+      visible: true,
+      opacity: 100,
+      kind: 'overlay',
+      source: { type: 'wms', wms: createWmsConfig(capabilities, layer, loadedEndpoint, style) },
+      bbox: layer.bbox
+    })
+
+    if (mapRef && layer.bbox) {
+      const [west, south, east, north] = layer.bbox
+      mapRef.fitBounds([[south, west], [north, east]], { padding: [20, 20] })
+    }
+    showToast(`Added layer "${layer.title}"`, 'success')
+  }
+
+  return (
+    <div className="p-4 border-b border-slate-700">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between"
+        aria-expanded={isOpen}
+        data-testid="catalog-toggle"
+      >
+        <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+          Layer Catalog
+        </h3>
+        <svg
+          className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleLoad()
+            }}
+          >
+            <input
+              type="url"
+              value={endpoint}
+              onChange={(e) => setEndpoint(e.target.value)}
+              placeholder="https://example.com/wms"
+              className="flex-1 min-w-0 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+              data-testid="catalog-url-input"
+            />
+            <button
+              type="submit"
+              disabled={isLoading || !endpoint.trim()}
+              className="px-3 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 rounded-lg text-sm font-medium transition-colors"
+              data-testid="catalog-load-btn"
+            >
+              {isLoading ? 'Loading…' : 'Load'}
+            </button>
+          </form>
+
+          {error && (
+            <p className="text-xs text-red-400" data-testid="catalog-error">{error}</p>
+          )}
+
+          {capabilities && capabilities.layers.length > 0 && (
+            <>
+              <p className="text-xs text-slate-400">
+                {capabilities.title || 'WMS'} • v{capabilities.version} • {capabilities.layers.length} layer{capabilities.layers.length !== 1 ? 's' : ''}
+              </p>
+              <div className="max-h-64 overflow-y-auto space-y-2" data-testid="catalog-layers">
+                {capabilities.layers.map(layer => {
+                  const stackLayer = findStackLayer(layer)
+                  return (
+                    <CatalogLayerItem
+                      key={layer.name}
+                      layer={layer}
+                      added={!!stackLayer}
+                      onAdd={(style) => handleAdd(layer, style)}
+                      onRemove={() => stackLayer && layerActions.removeLayer(stackLayer.id)}
+                    />
+                  )
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,44 +1,140 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import L from 'leaflet'
 import { useDebounce } from '../../hooks/useDebounce'
-import { MAP_CONFIG } from '../../utils/mapUtils'
-import type { SearchBarProps, SearchResult } from '../../types'
+import { useLocalStorage } from '../../hooks/useLocalStorage'
+import { formatCoordinates, getFeatureBounds } from '../../utils/mapUtils'
+import { createFeatureLayer } from '../../utils/layerFactory'
+import { createBoundaryFeature } from '../../utils/geocoding'
+import { createCoordinateFeature, parseCoordinateQuery } from '../../utils/coordinates'
+import { addRecentPlace, getPlaceBounds, toSavedPlace, toggleSavedPlace } from '../../utils/searchHistory'
+import type { CoordinateQuery, SavedPlace, SearchBarProps, SearchResult } from '../../types'
 
-export default function SearchBar({ mapRef }: SearchBarProps) {
+// One row of the dropdown; every kind takes part in keyboard navigation
+type SearchOption =
+  | { kind: 'coordinate'; query: CoordinateQuery }
+  | { kind: 'result'; result: SearchResult }
+  | { kind: 'saved' | 'recent'; place: SavedPlace }
+
+const LISTBOX_ID = 'search-listbox'
+const OUTLINE_STYLE: L.PathOptions = { color: '#f97316', weight: 2, dashArray: '6, 6', fillOpacity: 0.1 }
+// How long the pin or outline of a typed coordinate stays on the map
+const MARK_DURATION_MS = 10000
+// Closest zoom when flying to a place's extent, so small places keep some context
+const PLACE_MAX_ZOOM = 16
+
+const optionId = (index: number) => `search-option-${index}`
+
+function describeCoordinateQuery(coordinateQuery: CoordinateQuery): string {
+  if (coordinateQuery.kind === 'point') return formatCoordinates(...coordinateQuery.point)
+  const [west, south, east, north] = coordinateQuery.bbox
+  return `${formatCoordinates(south, west)} to ${formatCoordinates(north, east)}`
+}
+
+// Opposite corners of a typed extent as [lat, lng]
+function getBboxCorners([west, south, east, north]: [number, number, number, number]): [number, number][] {
+  return [[south, west], [north, east]]
+}
+
+export default function SearchBar({ mapRef, geocoder, onFeatureAdd }: SearchBarProps) {
   const [query, setQuery] = useState('')
   const [results, setResults] = useState<SearchResult[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const [marked, setMarked] = useState<CoordinateQuery | null>(null)
+  const [recentPlaces, setRecentPlaces] = useLocalStorage<SavedPlace[]>('search-recent', [])
+  const [savedPlaces, setSavedPlaces] = useLocalStorage<SavedPlace[]>('search-saved', [])
   const containerRef = useRef<HTMLDivElement>(null)
-  
+  // Name put in the box by choosing a place, which should not trigger another search
+  const chosenNameRef = useRef<string | null>(null)
+
   const debouncedQuery = useDebounce(query, 300)
+  // Coordinates and extents are handled here without asking the geocoder
+  const coordinateQuery = useMemo(() => parseCoordinateQuery(query), [query])
+
+  // An empty box offers saved places, then recent ones that are not also saved
+  const options = useMemo<SearchOption[]>(() => {
+    if (coordinateQuery) return [{ kind: 'coordinate', query: coordinateQuery }]
+    if (query.trim()) return results.map(result => ({ kind: 'result', result }))
+    return [
+      ...savedPlaces.map(place => ({ kind: 'saved' as const, place })),
+      ...recentPlaces.filter(p => !savedPlaces.some(s => s.id === p.id)).map(place => ({ kind: 'recent' as const, place }))
+    ]
+  }, [coordinateQuery, query, results, savedPlaces, recentPlaces])
+
+  const showList = isOpen && options.length > 0
+  const active = showList ? options[activeIndex] : undefined
+  const activeResult = active?.kind === 'result' ? active.result : null
 
-  // Fetch search results
+  // Boundary of the highlighted result, outlined while the list is open
+  const outline = useMemo(
+    () => (activeResult?.boundary ? createBoundaryFeature(activeResult) : null),
+    [activeResult]
+  )
+
+  // Fetch search results; a newer query cancels the request still in flight, and with it the spinner
   useEffect(() => {
-    if (debouncedQuery.length < 3) {
+    if (debouncedQuery.length < 3 || parseCoordinateQuery(debouncedQuery)) {
       setResults([])
-      setIsOpen(false)
+      setIsLoading(false)
+      return
+    }
+    if (debouncedQuery === chosenNameRef.current) {
+      setIsLoading(false)
       return
     }
 
+    const controller = new AbortController()
+
     const fetchResults = async () => {
       setIsLoading(true)
       try {
-        const response = await fetch(
-          `${MAP_CONFIG.NOMINATIM_URL}/search?format=json&q=${encodeURIComponent(debouncedQuery)}&limit=5`
-        )
-        const data = await response.json()
+        const data = await geocoder.search(debouncedQuery, controller.signal)
         setResults(data)
+        setActiveIndex(-1)
         setIsOpen(data.length > 0)
       } catch (error) {
+        if (controller.signal.aborted) return
         console.error('Search error:', error)
         setResults([])
       } finally {
-        setIsLoading(false)
+        if (!controller.signal.aborted) setIsLoading(false)
       }
     }
 
     fetchResults()
-  }, [debouncedQuery])
+    return () => {
+      controller.abort()
+      setIsLoading(false)
+    }
+  }, [debouncedQuery, geocoder])
+
+  // Outline the highlighted boundary on the map
+  useEffect(() => {
+    if (!mapRef || !outline) return
+    const layer = createFeatureLayer(outline) as L.Path
+    layer.setStyle(OUTLINE_STYLE)
+    layer.addTo(mapRef)
+
+    return () => {
+      layer.remove()
+    }
+  }, [mapRef, outline])
+
+  // Pin a typed position, or outline a typed extent, for a while
+  useEffect(() => {
+    if (!mapRef || !marked) return
+    const layer = marked.kind === 'point'
+      ? L.marker(marked.point)
+      : L.rectangle(getBboxCorners(marked.bbox), OUTLINE_STYLE)
+    layer.addTo(mapRef)
+    const timer = setTimeout(() => setMarked(null), MARK_DURATION_MS)
+
+    return () => {
+      clearTimeout(timer)
+      layer.remove()
+    }
+  }, [mapRef, marked])
 
   // Close on click outside
   useEffect(() => {
@@ -52,50 +148,240 @@ export default function SearchBar({ mapRef }: SearchBarProps) {
     return () => document.removeEventListener('mousedown', handleClickOutside)
   }, [])
 
-  const handleSelect = (result: SearchResult) => {
-    const lat = parseFloat(result.lat)
-    const lng = parseFloat(result.lon)
-    
+  // Show the place's whole extent when known, otherwise a street-level view of its position
+  const handleGoToPlace = (place: SavedPlace) => {
+    if (mapRef) {
+      const bounds = getPlaceBounds(place)
+      if (bounds) mapRef.flyToBounds(bounds, { padding: [40, 40], maxZoom: PLACE_MAX_ZOOM })
+      else mapRef.flyTo([place.lat, place.lng], 14)
+    }
+
+    setRecentPlaces(prev => addRecentPlace(prev, place))
+    chosenNameRef.current = place.name
+    setQuery(place.name)
+    setIsOpen(false)
+  }
+
+  const handleAddBoundary = (result: SearchResult) => {
+    const feature = createBoundaryFeature(result)
+    onFeatureAdd(feature)
+
+    const bounds = getFeatureBounds(feature)
+    if (mapRef && bounds) mapRef.fitBounds(bounds, { padding: [40, 40] })
+    setIsOpen(false)
+  }
+
+  const handleGoToCoordinate = (target: CoordinateQuery) => {
     if (mapRef) {
-      mapRef.setView([lat, lng], 14)
+      if (target.kind === 'point') mapRef.setView(target.point, 14)
+      else mapRef.fitBounds(getBboxCorners(target.bbox), { padding: [40, 40] })
     }
-    
-    setQuery(result.display_name.split(',')[0])
+    setMarked(target)
+    setIsOpen(false)
+  }
+
+  const handleAddCoordinate = (target: CoordinateQuery) => {
+    const name = describeCoordinateQuery(target)
+    const feature = target.kind === 'point'
+      ? createCoordinateFeature('marker', [target.point], name)
+      : createCoordinateFeature('rectangle', getBboxCorners(target.bbox), name)
+    onFeatureAdd(feature)
+
+    const bounds = getFeatureBounds(feature)
+    if (mapRef && bounds) mapRef.fitBounds(bounds, { padding: [40, 40], maxZoom: 14 })
+    setMarked(null)
     setIsOpen(false)
   }
 
+  const handleChoose = (option: SearchOption) => {
+    if (option.kind === 'coordinate') handleGoToCoordinate(option.query)
+    else handleGoToPlace(option.kind === 'result' ? toSavedPlace(option.result) : option.place)
+  }
+
+  const handleChange = (value: string) => {
+    chosenNameRef.current = null
+    setQuery(value)
+    setActiveIndex(-1)
+    // Saved places and typed coordinates show at once; place names wait for the geocoder
+    if (!value.trim() || parseCoordinateQuery(value)) setIsOpen(true)
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && results.length > 0) {
-      handleSelect(results[0])
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        e.preventDefault()
+        if (options.length === 0) return
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        const start = step > 0 ? 0 : options.length - 1
+        setActiveIndex(showList && activeIndex >= 0 ? (activeIndex + step + options.length) % options.length : start)
+        setIsOpen(true)
+        break
+      }
+      case 'Enter': {
+        // Without a highlighted row Enter takes the first one; saved places only once they are shown
+        const option = options[activeIndex] ?? options[0]
+        const isSuggestion = option?.kind === 'saved' || option?.kind === 'recent'
+        if (option && (showList || !isSuggestion)) {
+          e.preventDefault()
+          handleChoose(option)
+        }
+        break
+      }
+      case 'Escape':
+        setIsOpen(false)
+        setActiveIndex(-1)
+        break
+    }
+  }
+
+  const isSaved = (id: string) => savedPlaces.some(p => p.id === id)
+
+  const renderStar = (place: SavedPlace) => {
+    const saved = isSaved(place.id)
+    return (
+      <button
+        tabIndex={-1}
+        onClick={(e) => {
+          e.stopPropagation()
+          setSavedPlaces(prev => toggleSavedPlace(prev, place))
+        }}
+        className={`shrink-0 p-1 rounded transition-colors ${saved ? 'text-amber-400 hover:text-amber-300' : 'text-slate-500 hover:text-slate-300'}`}
+        aria-label={saved ? `Remove ${place.name} from saved places` : `Save ${place.name}`}
+        aria-pressed={saved}
+        data-testid="search-option-star"
+      >
+        <svg className="w-4 h-4" viewBox="0 0 24 24" fill={saved ? 'currentColor' : 'none'} stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.48 3.5a.56.56 0 011.04 0l2.13 5.11a.56.56 0 00.47.35l5.52.44c.5.04.7.66.32.99l-4.2 3.6a.56.56 0 00-.18.56l1.28 5.38a.56.56 0 01-.84.61l-4.72-2.88a.56.56 0 00-.59 0l-4.72 2.88a.56.56 0 01-.84-.6l1.28-5.39a.56.56 0 00-.18-.56l-4.2-3.6a.56.56 0 01.32-.99l5.52-.44a.56.56 0 00.47-.35L11.48 3.5z" />
+        </svg>
+      </button>
+    )
+  }
+
+  const renderOption = (option: SearchOption, index: number) => {
+    const rowProps = {
+      id: optionId(index),
+      role: 'option',
+      'aria-selected': index === activeIndex,
+      onClick: () => handleChoose(option),
+      onMouseEnter: () => setActiveIndex(index),
+      onMouseLeave: () => setActiveIndex(-1),
+      className: `search-result p-3 cursor-pointer border-b border-slate-700 last:border-b-0 flex items-center gap-3 ${
+        index === activeIndex ? 'bg-slate-700/50' : ''
+      }`
     }
-    if (e.key === 'Escape') {
-      setIsOpen(false)
+
+    if (option.kind === 'coordinate') {
+      const target = option.query
+      return (
+        <li key="coordinate" {...rowProps}>
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium text-white">
+              {target.kind === 'point' ? 'Go to coordinate' : 'Go to extent'}
+            </p>
+            <p className="text-xs font-mono text-slate-400 truncate">
+              {describeCoordinateQuery(target)}
+            </p>
+          </div>
+          <button
+            tabIndex={-1}
+            onClick={(e) => {
+              e.stopPropagation()
+              handleAddCoordinate(target)
+            }}
+            className="shrink-0 px-2 py-1 text-xs font-medium text-blue-300 bg-blue-500/15 hover:bg-blue-500/25 rounded transition-colors"
+            data-testid="search-coordinate-add"
+          >
+            {target.kind === 'point' ? 'Add marker' : 'Add rectangle'}
+          </button>
+        </li>
+      )
     }
+
+    const place = option.kind === 'result' ? toSavedPlace(option.result) : option.place
+    return (
+      <li key={`${option.kind}:${place.id}`} {...rowProps} data-testid={`search-option-${option.kind}`}>
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-medium text-white">
+            {place.name}
+          </p>
+          <p className="text-xs text-slate-400 truncate">
+            {place.displayName}
+          </p>
+        </div>
+        {option.kind === 'result' && option.result.boundary && (
+          <button
+            tabIndex={-1}
+            onClick={(e) => {
+              e.stopPropagation()
+              handleAddBoundary(option.result)
+            }}
+            className="shrink-0 px-2 py-1 text-xs font-medium text-blue-300 bg-blue-500/15 hover:bg-blue-500/25 rounded transition-colors"
+            title="Add the boundary as an AOI"
+            data-testid="search-result-add-aoi"
+          >
+            Add as AOI
+          </button>
+        )}
+        {renderStar(place)}
+      </li>
+    )
   }
 
+  // Section headings for the saved and recent lists, placed before the first row of each
+  const renderHeading = (option: SearchOption, index: number) => {
+    if (option.kind !== 'saved' && option.kind !== 'recent') return null
+    if (index > 0 && options[index - 1].kind === option.kind) return null
+    return (
+      <li key={`heading:${option.kind}`} role="presentation" className="px-3 pt-2 pb-1 flex items-center justify-between">
+        <span className="text-xs font-medium uppercase tracking-wide text-slate-500">
+          {option.kind === 'saved' ? 'Saved places' : 'Recent'}
+        </span>
+        {option.kind === 'recent' && (
+          <button
+            tabIndex={-1}
+            onClick={() => setRecentPlaces([])}
+            className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+            data-testid="search-recent-clear"
+          >
+            Clear
+          </button>
+        )}
+      </li>
+    )
+  }
+
+  const listTestId = coordinateQuery ? 'search-coordinate-result' : query.trim() ? 'search-results' : 'search-suggestions'
+
   return (
     <div className="relative w-96" ref={containerRef}>
       <div className="relative">
-        <svg 
-          className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" 
-          fill="none" 
-          stroke="currentColor" 
+        <svg
+          className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400"
+          fill="none"
+          stroke="currentColor"
           viewBox="0 0 24 24"
         >
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"/>
         </svg>
         <input
           type="text"
+          role="combobox"
           value={query}
-          onChange={(e) => setQuery(e.target.value)}
+          onChange={(e) => handleChange(e.target.value)}
           onKeyDown={handleKeyDown}
-          onFocus={() => results.length > 0 && setIsOpen(true)}
+          onFocus={() => setIsOpen(true)}
           placeholder="Search location..."
+          aria-label="Search location"
+          aria-autocomplete="list"
+          aria-expanded={showList}
+          aria-controls={LISTBOX_ID}
+          aria-activedescendant={active ? optionId(activeIndex) : undefined}
           className="w-full bg-slate-700 border border-slate-600 rounded-lg pl-10 pr-10 py-2 text-sm focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 transition-colors"
           data-testid="search-input"
         />
         {isLoading && (
-          <div className="absolute right-3 top-1/2 -translate-y-1/2">
+          <div className="absolute right-3 top-1/2 -translate-y-1/2" data-testid="search-loading">
             <svg className="animate-spin w-4 h-4 text-blue-500" fill="none" viewBox="0 0 24 24">
               <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
               <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
@@ -104,35 +390,25 @@ export default function SearchBar({ mapRef }: SearchBarProps) {
         )}
       </div>
 
-      {/* Search Results Dropdown */}
-      {isOpen && results.length > 0 && (
-        <div 
-          className="absolute top-full left-0 right-0 mt-2 bg-slate-800 border border-slate-700 rounded-lg shadow-xl overflow-hidden z-50"
-          data-testid="search-results"
+      {/* Results, a typed coordinate, or saved and recent places */}
+      {showList && (
+        <ul
+          id={LISTBOX_ID}
+          role="listbox"
+          aria-label="Search results"
+          className="absolute top-full left-0 right-0 mt-2 max-h-96 overflow-y-auto bg-slate-800 border border-slate-700 rounded-lg shadow-xl z-50"
+          data-testid={listTestId}
         >
-          {results.map((result) => (
-            <div
-              key={result.place_id}
-              onClick={() => handleSelect(result)}
-              className="search-result p-3 cursor-pointer border-b border-slate-700 last:border-b-0 hover:bg-slate-700/50"
-            >
-              <p className="text-sm font-medium text-white">
-                {result.display_name.split(',')[0]}
-              </p>
-              <p className="text-xs text-slate-400 truncate">
-                {result.display_name}
-              </p>
-            </div>
-          ))}
-        </div>
+          {options.flatMap((option, index) => [renderHeading(option, index), renderOption(option, index)])}
+        </ul>
       )}
 
       {/* No results message */}
-      {isOpen && results.length === 0 && debouncedQuery.length >= 3 && !isLoading && (
+      {isOpen && !coordinateQuery && results.length === 0 && debouncedQuery === query && query.length >= 3 && !isLoading && (
         <div className="absolute top-full left-0 right-0 mt-2 bg-slate-800 border border-slate-700 rounded-lg shadow-xl p-3 z-50">
           <p className="text-sm text-slate-400">No results found</p>
         </div>
       )}
     </div>
   )
-}
\ No newline at end of file
+}
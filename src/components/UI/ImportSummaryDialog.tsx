@@ -0,0 +1,103 @@
+import { useEffect } from 'react'
+import type { ImportReport } from '../../types'
+
+interface ImportSummaryDialogProps {
+  reports: ImportReport[]
+  onClose: () => void
+}
+
+export default function ImportSummaryDialog({ reports, onClose }: ImportSummaryDialogProps) {
+  const totalImported = reports.reduce((sum, r) => sum + r.imported, 0)
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  return (
+    <div
+      className="fixed inset-0 z-[1800] bg-black/50 flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-summary-title"
+        className="w-full max-w-lg max-h-[80vh] bg-slate-800 border border-slate-700 rounded-xl shadow-xl flex flex-col fade-in"
+        onClick={(e) => e.stopPropagation()}
+        data-testid="import-summary"
+      >
+        {/* Header */}
+        <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <div>
+            <h2 id="import-summary-title" className="font-semibold text-lg">Import Summary</h2>
+            <p className="text-xs text-slate-400 mt-0.5">
+              {totalImported} AOI{totalImported !== 1 ? 's' : ''} imported from {reports.length} file{reports.length !== 1 ? 's' : ''}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-700 rounded transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Per-file results */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {reports.map((report, i) => (
+            <div key={`${report.fileName}-${i}`}>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium text-white truncate" title={report.fileName}>{report.fileName}</p>
+                <span className="text-xs text-slate-400 flex-shrink-0">{report.imported} imported</span>
+              </div>
+
+              {report.error && (
+                <p className="text-xs text-red-400 mt-1">{report.error}</p>
+              )}
+
+              {report.issues.length > 0 && (
+                <ul className="mt-2 space-y-1" data-testid="import-issues">
+                  {report.issues.map((issue, j) => (
+                    <li key={j} className="flex items-start gap-2 text-xs">
+                      <span
+                        className={`px-1.5 py-0.5 rounded font-medium flex-shrink-0 ${
+                          issue.severity === 'error'
+                            ? 'bg-red-500/20 text-red-400'
+                            : 'bg-yellow-500/20 text-yellow-400'
+                        }`}
+                      >
+                        {issue.severity === 'error' ? 'Skipped' : 'Warning'}
+                      </span>
+                      <span className="text-slate-300">
+                        <span className="text-slate-400">#{issue.index + 1} {issue.name}:</span> {issue.message}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t border-slate-700 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-blue-500 hover:bg-blue-600 rounded-lg text-sm font-medium transition-colors"
+            data-testid="import-summary-close"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
 import type { AOIFeature } from '../../types'
-import { formatArea } from '../../utils/mapUtils'
+import { formatArea, formatLength } from '../../utils/mapUtils'
 
 interface AnalyticsViewProps {
   features: AOIFeature[]
@@ -8,14 +8,16 @@ interface AnalyticsViewProps {
 export default function AnalyticsView({ features }: AnalyticsViewProps) {
   // Calculate statistics
   const totalFeatures = features.length
-  const polygons = features.filter(f => f.type === 'polygon').length
+  const polygons = features.filter(f => f.type === 'polygon' || f.type === 'multipolygon').length
   const rectangles = features.filter(f => f.type === 'rectangle').length
   const circles = features.filter(f => f.type === 'circle').length
   const markers = features.filter(f => f.type === 'marker').length
+  const lines = features.filter(f => f.type === 'polyline').length
   
   const totalArea = features.reduce((sum, f) => sum + (f.area || 0), 0)
   const featuresWithArea = features.filter(f => f.area)
   const avgArea = featuresWithArea.length > 0 ? totalArea / featuresWithArea.length : 0
+  const totalLength = features.reduce((sum, f) => sum + (f.length || 0), 0)
 
   const stats = [
     { label: 'Total Features', value: totalFeatures, icon: 'M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7', color: 'blue' },
@@ -23,6 +25,7 @@ export default function AnalyticsView({ features }: AnalyticsViewProps) {
     { label: 'Rectangles', value: rectangles, icon: 'M4 6a2 2 0 012-2h12a2 2 0 012 2v12a2 2 0 01-2 2H6a2 2 0 01-2-2V6z', color: 'green' },
     { label: 'Circles', value: circles, icon: 'M12 12m-9 0a9 9 0 1 0 18 0a9 9 0 1 0 -18 0', color: 'yellow' },
     { label: 'Markers', value: markers, icon: 'M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z M15 11a3 3 0 11-6 0 3 3 0 016 0z', color: 'red' },
+    { label: 'Lines', value: lines, icon: 'M3 17l6-6 4 4 8-8', color: 'amber' },
   ]
 
   const colorClasses: Record<string, string> = {
@@ -31,6 +34,7 @@ export default function AnalyticsView({ features }: AnalyticsViewProps) {
     green: 'from-green-500 to-green-600',
     yellow: 'from-yellow-500 to-yellow-600',
     red: 'from-red-500 to-red-600',
+    amber: 'from-amber-500 to-amber-600',
   }
 
   return (
@@ -43,7 +47,7 @@ export default function AnalyticsView({ features }: AnalyticsViewProps) {
         </div>
 
         {/* Stats Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4 mb-8">
           {stats.map((stat, index) => (
             <div
               key={index}
@@ -63,7 +67,7 @@ export default function AnalyticsView({ features }: AnalyticsViewProps) {
         </div>
 
         {/* Area Statistics */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
             <h2 className="text-lg font-semibold mb-4">Total Area Coverage</h2>
             <p className="text-4xl font-bold text-blue-400">
@@ -79,6 +83,14 @@ export default function AnalyticsView({ features }: AnalyticsViewProps) {
             </p>
             <p className="text-slate-400 mt-2 text-sm">Average area per feature</p>
           </div>
+
+          <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
+            <h2 className="text-lg font-semibold mb-4">Total Line Length</h2>
+            <p className="text-4xl font-bold text-amber-400">
+              {formatLength(totalLength)}
+            </p>
+            <p className="text-slate-400 mt-2 text-sm">Combined length of all lines</p>
+          </div>
         </div>
 
         {/* Recent Features */}
@@ -111,7 +123,7 @@ export default function AnalyticsView({ features }: AnalyticsViewProps) {
                   </div>
                   <div className="text-right">
                     <p className="text-sm font-medium">
-                      {feature.area ? formatArea(feature.area) : 'N/A'}
+                      {feature.area ? formatArea(feature.area) : feature.length ? formatLength(feature.length) : 'N/A'}
                     </p>
                     <p className="text-xs text-slate-400">
                       {new Date(feature.createdAt).toLocaleDateString()}
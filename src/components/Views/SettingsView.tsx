@@ -1,11 +1,41 @@
 import { useState } from 'react'
-import type { ToastMessage } from '../../types'
+import { MAP_CONFIG } from '../../utils/mapUtils'
+import { COORDINATE_FORMAT_LABELS, formatCoordinate } from '../../utils/coordinates'
+import { GEOCODER_PROVIDERS } from '../../utils/geocoding'
+import { deleteFeatureDatabase } from '../../utils/featureStore'
+import AttributeSchemaEditor from '../AOI/AttributeSchemaEditor'
+import type {
+  AttributeField,
+  CoordinateDisplaySettings,
+  CoordinateFormat,
+  GeocoderProvider,
+  GeocoderSettings,
+  ToastMessage
+} from '../../types'
 
 interface SettingsViewProps {
+  // Applied as soon as it changes, like the measure units
+  coordinateSettings: CoordinateDisplaySettings
+  onCoordinateSettingsChange: (settings: CoordinateDisplaySettings) => void
+  geocoderSettings: GeocoderSettings
+  onGeocoderSettingsChange: (settings: GeocoderSettings) => void
+  attributeSchema: AttributeField[]
+  onAttributeSchemaChange: (schema: AttributeField[]) => void
+  // Coordinate, search and attribute settings are kept per project
+  projectName: string
   showToast: (message: string, type?: ToastMessage['type']) => void
 }
 
-export default function SettingsView({ showToast }: SettingsViewProps) {
+export default function SettingsView({
+  coordinateSettings,
+  onCoordinateSettingsChange,
+  geocoderSettings,
+  onGeocoderSettingsChange,
+  attributeSchema,
+  onAttributeSchemaChange,
+  projectName,
+  showToast
+}: SettingsViewProps) {
   const [settings, setSettings] = useState({
     darkMode: true,
     notifications: true,
@@ -20,14 +50,30 @@ export default function SettingsView({ showToast }: SettingsViewProps) {
     showToast('Setting updated', 'success')
   }
 
+  const handleCoordinateChange = (changes: Partial<CoordinateDisplaySettings>) => {
+    onCoordinateSettingsChange({ ...coordinateSettings, ...changes })
+    showToast('Setting updated', 'success')
+  }
+
+  // Switching provider drops the endpoint and key meant for the previous one
+  const handleProviderChange = (provider: GeocoderProvider) => {
+    onGeocoderSettingsChange({ provider, url: '', apiKey: '' })
+    showToast('Setting updated', 'success')
+  }
+
   const handleSave = () => {
     localStorage.setItem('app-settings', JSON.stringify(settings))
     showToast('Settings saved successfully', 'success')
   }
 
-  const handleClearData = () => {
+  const handleClearData = async () => {
     if (confirm('Are you sure you want to clear all data? This action cannot be undone.')) {
       localStorage.clear()
+      try {
+        await deleteFeatureDatabase()
+      } catch (error) {
+        console.error('Error deleting AOI storage:', error)
+      }
       showToast('All data cleared', 'info')
       window.location.reload()
     }
@@ -40,6 +86,9 @@ export default function SettingsView({ showToast }: SettingsViewProps) {
         <div className="mb-8">
           <h1 className="text-2xl font-bold mb-2">Settings</h1>
           <p className="text-slate-400">Manage your application preferences</p>
+          <p className="text-sm text-slate-500 mt-1" data-testid="settings-project">
+            Coordinate format, search and AOI attribute settings apply to the project <span className="text-slate-300">{projectName}</span>
+          </p>
         </div>
 
         {/* General Settings */}
@@ -122,6 +171,44 @@ export default function SettingsView({ showToast }: SettingsViewProps) {
               </label>
             </div>
 
+            <div className="p-4 flex items-center justify-between">
+              <div>
+                <p className="font-medium">Coordinate Format</p>
+                <p className="text-sm text-slate-400">
+                  Used for the cursor readout, popups and right-click copy, e.g.{' '}
+                  <span className="font-mono text-slate-300" data-testid="coordinate-format-example">
+                    {formatCoordinate(MAP_CONFIG.DEFAULT_CENTER[0], MAP_CONFIG.DEFAULT_CENTER[1], coordinateSettings)}
+                  </span>
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <select
+                  value={coordinateSettings.format}
+                  onChange={(e) => handleCoordinateChange({ format: e.target.value as CoordinateFormat })}
+                  className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                  aria-label="Coordinate format"
+                  data-testid="coordinate-format-select"
+                >
+                  {(Object.keys(COORDINATE_FORMAT_LABELS) as CoordinateFormat[]).map(format => (
+                    <option key={format} value={format}>{COORDINATE_FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+                {coordinateSettings.format === 'dd' && (
+                  <select
+                    value={coordinateSettings.precision}
+                    onChange={(e) => handleCoordinateChange({ precision: parseInt(e.target.value) })}
+                    className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                    aria-label="Decimal places"
+                    data-testid="coordinate-precision-select"
+                  >
+                    {[2, 3, 4, 5, 6, 7, 8].map(precision => (
+                      <option key={precision} value={precision}>{precision} decimals</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            </div>
+
             <div className="p-4 flex items-center justify-between">
               <div>
                 <p className="font-medium">Default Zoom Level</p>
@@ -158,6 +245,81 @@ export default function SettingsView({ showToast }: SettingsViewProps) {
           </div>
         </div>
 
+        {/* Search Settings */}
+        <div className="bg-slate-800 rounded-xl border border-slate-700 mb-6 overflow-hidden">
+          <div className="p-4 border-b border-slate-700">
+            <h2 className="text-lg font-semibold">Search</h2>
+          </div>
+
+          <div className="divide-y divide-slate-700">
+            <div className="p-4 flex items-center justify-between">
+              <div>
+                <p className="font-medium">Search Provider</p>
+                <p className="text-sm text-slate-400">
+                  {geocoderSettings.provider === 'gazetteer'
+                    ? 'Searches a built-in list of major cities without going online'
+                    : 'Geocoding service used by the location search'}
+                </p>
+              </div>
+              <select
+                value={geocoderSettings.provider}
+                onChange={(e) => handleProviderChange(e.target.value as GeocoderProvider)}
+                className="bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                aria-label="Search provider"
+                data-testid="geocoder-provider-select"
+              >
+                {(Object.keys(GEOCODER_PROVIDERS) as GeocoderProvider[]).map(provider => (
+                  <option key={provider} value={provider}>{GEOCODER_PROVIDERS[provider].label}</option>
+                ))}
+              </select>
+            </div>
+
+            {geocoderSettings.provider !== 'gazetteer' && (
+              <div className="p-4 flex items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium">Service URL</p>
+                  <p className="text-sm text-slate-400">Leave empty to use the public service</p>
+                </div>
+                <input
+                  type="url"
+                  value={geocoderSettings.url}
+                  onChange={(e) => onGeocoderSettingsChange({ ...geocoderSettings, url: e.target.value })}
+                  placeholder={GEOCODER_PROVIDERS[geocoderSettings.provider].url}
+                  className="w-72 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                  aria-label="Search service URL"
+                  data-testid="geocoder-url-input"
+                />
+              </div>
+            )}
+
+            {geocoderSettings.provider === 'pelias' && (
+              <div className="p-4 flex items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium">API Key</p>
+                  <p className="text-sm text-slate-400">Required by hosted Pelias services</p>
+                </div>
+                <input
+                  type="password"
+                  value={geocoderSettings.apiKey}
+                  onChange={(e) => onGeocoderSettingsChange({ ...geocoderSettings, apiKey: e.target.value })}
+                  className="w-72 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                  aria-label="Search API key"
+                  data-testid="geocoder-api-key-input"
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* AOI Attributes */}
+        <div className="bg-slate-800 rounded-xl border border-slate-700 mb-6 overflow-hidden">
+          <div className="p-4 border-b border-slate-700">
+            <h2 className="text-lg font-semibold">AOI Attributes</h2>
+            <p className="text-sm text-slate-400">Fields filled in for each AOI, checked when saved and exported as GeoJSON properties and CSV columns</p>
+          </div>
+          <AttributeSchemaEditor schema={attributeSchema} onChange={onAttributeSchemaChange} />
+        </div>
+
         {/* Data Management */}
         <div className="bg-slate-800 rounded-xl border border-slate-700 mb-6 overflow-hidden">
           <div className="p-4 border-b border-slate-700">
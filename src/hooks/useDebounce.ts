@@ -65,22 +65,17 @@ export function useDebouncedCallback<T extends (...args: Parameters<T>) => Retur
  */
 export function useThrottle<T>(value: T, interval: number): T {
   const [throttledValue, setThrottledValue] = useState<T>(value)
-  const lastUpdated = useRef<number>(Date.now())
+  const lastUpdated = useRef<number>(0)
 
   useEffect(() => {
-    const now = Date.now()
-    
-    if (now >= lastUpdated.current + interval) {
-      lastUpdated.current = now
+    // Fire immediately once the interval has elapsed, otherwise at its end
+    const remaining = Math.max(0, lastUpdated.current + interval - Date.now())
+    const timer = setTimeout(() => {
+      lastUpdated.current = Date.now()
       setThrottledValue(value)
-    } else {
-      const timer = setTimeout(() => {
-        lastUpdated.current = Date.now()
-        setThrottledValue(value)
-      }, interval - (now - lastUpdated.current))
+    }, remaining)
 
-      return () => clearTimeout(timer)
-    }
+    return () => clearTimeout(timer)
   }, [value, interval])
 
   return throttledValue
@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { EMPTY_HISTORY, recordChange, undoChange, redoChange } from '../utils/history'
+import { isQuotaError } from '../utils/featureStore'
+import type { AOIFeature, FeatureHistory, FeatureHistoryActions, FeatureStore, ToastMessage } from '../types'
+
+// Tells other tabs which project's stored AOIs changed
+const CHANNEL_NAME = 'aoi-features'
+
+const NO_FEATURES: AOIFeature[] = []
+
+interface HistoryState {
+  // Project the features belong to; null until the first one has been read
+  projectId: string | null
+  features: AOIFeature[]
+  history: FeatureHistory
+}
+
+/**
+ * Custom hook for the open project's persisted AOI list with a bounded undo/redo history
+ * Features and history are updated together so every mutation lands in exactly one undo step
+ * Storage problems are reported through onStorageMessage rather than interrupting editing
+ */
+export function useFeatureHistory(
+  store: FeatureStore | null,
+  projectId: string,
+  onStorageMessage: (message: string, type: ToastMessage['type']) => void
+): [AOIFeature[], FeatureHistory, FeatureHistoryActions] {
+  const [state, setState] = useState<HistoryState>({ projectId: null, features: [], history: EMPTY_HISTORY })
+  // Latest state, so that changes are worked out and saved outside the state updater
+  const stateRef = useRef(state)
+  const channelRef = useRef<BroadcastChannel | null>(null)
+  const onStorageMessageRef = useRef(onStorageMessage)
+
+  useEffect(() => {
+    onStorageMessageRef.current = onStorageMessage
+  }, [onStorageMessage])
+
+  // Read the project's stored AOIs, then follow changes made to it in other tabs
+  useEffect(() => {
+    if (!store) return
+    let cancelled = false
+    const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME)
+    channelRef.current = channel
+
+    const replace = (next: HistoryState) => {
+      stateRef.current = next
+      setState(next)
+    }
+
+    const reload = async () => {
+      const stored = await store.load(projectId)
+      if (cancelled) return
+      replace({ projectId, features: stored.features, history: stored.history })
+      if (stored.recovered > 0) {
+        onStorageMessageRef.current(
+          `${stored.recovered} damaged AOI record${stored.recovered === 1 ? ' was' : 's were'} set aside`,
+          'warning'
+        )
+      }
+    }
+
+    reload().catch((error: unknown) => {
+      if (cancelled) return
+      console.error('Error loading AOIs:', error)
+      replace({ projectId, features: [], history: EMPTY_HISTORY })
+      onStorageMessageRef.current('Stored AOIs could not be read', 'error')
+    })
+
+    if (channel) {
+      channel.onmessage = (event: MessageEvent) => {
+        if (event.data !== projectId) return
+        reload().catch(error => console.error('Error reloading AOIs changed in another tab:', error))
+      }
+    }
+
+    return () => {
+      cancelled = true
+      channel?.close()
+      channelRef.current = null
+    }
+  }, [store, projectId])
+
+  const persist = useCallback((prev: HistoryState, next: HistoryState) => {
+    if (!store || !prev.projectId) return
+    const savedProjectId = prev.projectId
+    store.save(savedProjectId, prev.features, next.features, next.history !== prev.history ? next.history : undefined)
+      .then(result => {
+        channelRef.current?.postMessage(savedProjectId)
+        if (result === 'history-dropped') {
+          onStorageMessageRef.current('Storage is nearly full, so undo history is no longer kept after closing', 'warning')
+        }
+      })
+      .catch((error: unknown) => {
+        console.error('Error saving AOIs:', error)
+        onStorageMessageRef.current(
+          isQuotaError(error)
+            ? 'Storage is full and the latest AOI changes were not saved; delete or export some AOIs'
+            : 'The latest AOI changes could not be saved',
+          'error'
+        )
+      })
+  }, [store])
+
+  // Resolve against the latest state and write only what changed
+  // Changes are ignored until the open project's AOIs have been read, since they would be overwritten
+  const update = useCallback((transition: (prev: HistoryState) => HistoryState | null) => {
+    const prev = stateRef.current
+    if (prev.projectId !== projectId) return
+    const next = transition(prev)
+    if (!next || next === prev) return
+    stateRef.current = next
+    setState(next)
+    persist(prev, next)
+  }, [projectId, persist])
+
+  const commit = useCallback((label: string, change: (features: AOIFeature[]) => AOIFeature[]) => {
+    update(prev => {
+      const features = change(prev.features)
+      return { ...prev, features, history: recordChange(prev.history, label, prev.features, features) }
+    })
+  }, [update])
+
+  const undo = useCallback(() => {
+    update(prev => {
+      const next = undoChange(prev.features, prev.history)
+      return next && { ...next, projectId: prev.projectId }
+    })
+  }, [update])
+
+  const redo = useCallback(() => {
+    update(prev => {
+      const next = redoChange(prev.features, prev.history)
+      return next && { ...next, projectId: prev.projectId }
+    })
+  }, [update])
+
+  const actions = useMemo<FeatureHistoryActions>(() => ({ commit, undo, redo }), [commit, undo, redo])
+
+  // Nothing is shown while another project's AOIs are still being read
+  const loaded = state.projectId === projectId
+  return [loaded ? state.features : NO_FEATURES, loaded ? state.history : EMPTY_HISTORY, actions]
+}
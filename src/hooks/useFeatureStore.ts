@@ -0,0 +1,47 @@
+import { useState, useEffect, useRef } from 'react'
+import { createMemoryFeatureStore, openFeatureStore } from '../utils/featureStore'
+import type { FeatureStore, ToastMessage } from '../types'
+
+/**
+ * Custom hook that opens the AOI database for as long as the app is mounted
+ * Null while opening; falls back to keeping AOIs in memory when the browser cannot store them
+ */
+export function useFeatureStore(
+  onStorageMessage: (message: string, type: ToastMessage['type']) => void
+): FeatureStore | null {
+  const [store, setStore] = useState<FeatureStore | null>(null)
+  const onStorageMessageRef = useRef(onStorageMessage)
+
+  useEffect(() => {
+    onStorageMessageRef.current = onStorageMessage
+  }, [onStorageMessage])
+
+  useEffect(() => {
+    let cancelled = false
+    let opened: FeatureStore | null = null
+
+    openFeatureStore()
+      .catch((error: unknown) => {
+        console.error('Error opening AOI storage:', error)
+        if (!cancelled) {
+          onStorageMessageRef.current('AOIs cannot be saved in this browser; export them before closing the page', 'error')
+        }
+        return createMemoryFeatureStore()
+      })
+      .then(result => {
+        if (cancelled) {
+          result.close()
+          return
+        }
+        opened = result
+        setStore(result)
+      })
+
+    return () => {
+      cancelled = true
+      opened?.close()
+    }
+  }, [])
+
+  return store
+}
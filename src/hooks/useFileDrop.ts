@@ -0,0 +1,43 @@
+import { useState, useRef } from 'react'
+import type React from 'react'
+
+/**
+ * Custom hook for dropping files onto an element
+ * Ignores in-page drags (e.g. reordering layers) that carry no files
+ */
+export function useFileDrop(onFiles: (files: File[]) => void) {
+  const [isDragging, setIsDragging] = useState(false)
+  // dragenter/dragleave also fire for every child element crossed
+  const depthRef = useRef(0)
+
+  const hasFiles = (e: React.DragEvent) => e.dataTransfer.types.includes('Files')
+
+  const handlers = {
+    onDragEnter: (e: React.DragEvent) => {
+      if (!hasFiles(e)) return
+      e.preventDefault()
+      depthRef.current += 1
+      setIsDragging(true)
+    },
+    onDragOver: (e: React.DragEvent) => {
+      if (!hasFiles(e)) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = 'copy'
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!hasFiles(e)) return
+      depthRef.current = Math.max(0, depthRef.current - 1)
+      if (depthRef.current === 0) setIsDragging(false)
+    },
+    onDrop: (e: React.DragEvent) => {
+      if (!hasFiles(e)) return
+      e.preventDefault()
+      depthRef.current = 0
+      setIsDragging(false)
+      const files = Array.from(e.dataTransfer.files)
+      if (files.length > 0) onFiles(files)
+    }
+  }
+
+  return { isDragging, handlers }
+}
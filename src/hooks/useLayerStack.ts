@@ -0,0 +1,49 @@
+import { useCallback, useMemo } from 'react'
+import { AOI_LAYER_ID, moveLayer, normalizeLayers } from '../utils/layerStack'
+import type { LayerInfo, LayerStackActions } from '../types'
+
+/**
+ * Custom hook for an ordered map layer stack, kept by whoever owns storedLayers (the open project)
+ * Layers are ordered top-most first; the AOI layer cannot be removed
+ */
+export function useLayerStack(
+  storedLayers: LayerInfo[],
+  setStoredLayers: (update: (prev: LayerInfo[]) => LayerInfo[]) => void
+): [LayerInfo[], LayerStackActions] {
+
+  const layers = useMemo(() => normalizeLayers(storedLayers), [storedLayers])
+
+  const addLayer = useCallback((layer: LayerInfo) => {
+    // New overlays go on top of the stack, new base maps above the existing base maps
+    setStoredLayers(prev => {
+      const current = normalizeLayers(prev)
+      const firstBase = current.findIndex(l => l.kind === 'base')
+      const index = layer.kind === 'base'
+        ? (firstBase === -1 ? current.length : firstBase)
+        : 0
+      const next = [...current]
+      next.splice(index, 0, layer)
+      return next
+    })
+  }, [setStoredLayers])
+
+  const removeLayer = useCallback((id: string) => {
+    if (id === AOI_LAYER_ID) return
+    setStoredLayers(prev => normalizeLayers(prev).filter(l => l.id !== id))
+  }, [setStoredLayers])
+
+  const updateLayer = useCallback((id: string, updates: Partial<LayerInfo>) => {
+    setStoredLayers(prev => normalizeLayers(prev).map(l => l.id === id ? { ...l, ...updates, id } : l))
+  }, [setStoredLayers])
+
+  const reorderLayer = useCallback((id: string, toIndex: number) => {
+    setStoredLayers(prev => moveLayer(normalizeLayers(prev), id, toIndex))
+  }, [setStoredLayers])
+
+  const actions = useMemo<LayerStackActions>(
+    () => ({ addLayer, removeLayer, updateLayer, moveLayer: reorderLayer }),
+    [addLayer, removeLayer, updateLayer, reorderLayer]
+  )
+
+  return [layers, actions]
+}
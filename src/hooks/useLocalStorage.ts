@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 
 /**
  * Custom hook for persisting state in localStorage
@@ -19,19 +19,23 @@ export function useLocalStorage<T>(
     }
   })
 
+  // Latest value, so that functional updates from a setter captured in an older render build on it
+  const latestValue = useRef(storedValue)
+
   // Memoized setter that also persists to localStorage
   const setValue = useCallback(
     (value: T | ((prev: T) => T)) => {
+      // Allow value to be a function for useState-like API
+      const valueToStore = value instanceof Function ? value(latestValue.current) : value
+      latestValue.current = valueToStore
+      setStoredValue(valueToStore)
       try {
-        // Allow value to be a function for useState-like API
-        const valueToStore = value instanceof Function ? value(storedValue) : value
-        setStoredValue(valueToStore)
         window.localStorage.setItem(key, JSON.stringify(valueToStore))
       } catch (error) {
         console.error(`Error setting localStorage key "${key}":`, error)
       }
     },
-    [key, storedValue]
+    [key]
   )
 
   // Listen for storage changes from other tabs/windows
@@ -39,7 +43,9 @@ export function useLocalStorage<T>(
     const handleStorageChange = (e: StorageEvent) => {
       if (e.key === key && e.newValue !== null) {
         try {
-          setStoredValue(JSON.parse(e.newValue))
+          const value = JSON.parse(e.newValue)
+          latestValue.current = value
+          setStoredValue(value)
         } catch (error) {
           console.error(`Error parsing storage change for "${key}":`, error)
         }
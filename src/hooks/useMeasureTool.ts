@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import L from 'leaflet'
+import { measurePath, formatDistance, formatMeasuredArea } from '../utils/measure'
+import type { MeasureSystem, PathMeasurement } from '../types'
+
+interface MeasureSketch {
+  points: [number, number][]
+  // Pointer position while the sketch is still being extended
+  cursor: [number, number] | null
+  // Double-click ends a sketch; the next click starts a new one
+  finished: boolean
+}
+
+const EMPTY_SKETCH: MeasureSketch = { points: [], cursor: null, finished: false }
+const SKETCH_COLOR = '#facc15'
+
+/**
+ * Custom hook for measuring distances and areas by clicking on the map
+ * The sketch lives only on the map: it is never stored and is discarded when measuring stops
+ */
+export function useMeasureTool(map: L.Map | null, active: boolean, system: MeasureSystem) {
+  const [sketch, setSketch] = useState<MeasureSketch>(EMPTY_SKETCH)
+
+  // Collect clicks into the sketch
+  useEffect(() => {
+    if (!map || !active) return
+
+    const toPoint = (e: L.LeafletMouseEvent): [number, number] => [e.latlng.lat, e.latlng.lng]
+    const handleClick = (e: L.LeafletMouseEvent) => {
+      const point = toPoint(e)
+      setSketch(prev => {
+        if (prev.finished) return { points: [point], cursor: null, finished: false }
+        // The clicks of a double-click land on the same spot
+        const last = prev.points[prev.points.length - 1]
+        if (last && last[0] === point[0] && last[1] === point[1]) return prev
+        return { ...prev, points: [...prev.points, point] }
+      })
+    }
+    const handleMouseMove = (e: L.LeafletMouseEvent) => {
+      setSketch(prev => prev.finished || prev.points.length === 0 ? prev : { ...prev, cursor: toPoint(e) })
+    }
+    const handleDoubleClick = () => {
+      setSketch(prev => ({ ...prev, cursor: null, finished: true }))
+    }
+
+    const container = map.getContainer()
+    const zoomOnDoubleClick = map.doubleClickZoom.enabled()
+    map.doubleClickZoom.disable()
+    container.style.cursor = 'crosshair'
+    map.on('click', handleClick)
+    map.on('mousemove', handleMouseMove)
+    map.on('dblclick', handleDoubleClick)
+
+    return () => {
+      map.off('click', handleClick)
+      map.off('mousemove', handleMouseMove)
+      map.off('dblclick', handleDoubleClick)
+      container.style.cursor = ''
+      if (zoomOnDoubleClick) map.doubleClickZoom.enable()
+      setSketch(EMPTY_SKETCH)
+    }
+  }, [map, active])
+
+  const path = useMemo(() => sketch.cursor ? [...sketch.points, sketch.cursor] : sketch.points, [sketch])
+  const measurement = useMemo<PathMeasurement>(() => measurePath(path), [path])
+
+  // Draw the sketch with running totals at each vertex
+  useEffect(() => {
+    if (!map || !active || path.length === 0) return
+
+    const group = L.layerGroup().addTo(map)
+    const latlngs = path.map(([lat, lng]) => L.latLng(lat, lng))
+    if (path.length >= 3) {
+      L.polygon(latlngs, { color: SKETCH_COLOR, weight: 0, fillOpacity: 0.15, interactive: false }).addTo(group)
+    }
+    L.polyline(latlngs, { color: SKETCH_COLOR, weight: 2, dashArray: '6, 6', interactive: false }).addTo(group)
+
+    let runningTotal = 0
+    latlngs.forEach((latlng, i) => {
+      runningTotal += i > 0 ? measurement.segments[i - 1] : 0
+      const marker = L.circleMarker(latlng, {
+        radius: i < sketch.points.length ? 4 : 2,
+        color: SKETCH_COLOR,
+        fillOpacity: 1,
+        interactive: false
+      }).addTo(group)
+      if (i > 0) {
+        marker.bindTooltip(formatDistance(runningTotal, system), {
+          permanent: true,
+          direction: 'right',
+          offset: [8, 0],
+          className: 'measure-label'
+        }).openTooltip()
+      }
+    })
+
+    return () => {
+      group.remove()
+    }
+  }, [map, active, path, measurement, sketch.points.length, system])
+
+  const clear = useCallback(() => setSketch(EMPTY_SKETCH), [])
+  const startAt = useCallback((point: [number, number]) => setSketch({ points: [point], cursor: null, finished: false }), [])
+
+  const segment = measurement.segments[measurement.segments.length - 1] ?? 0
+
+  return {
+    pointCount: sketch.points.length,
+    // Segment being drawn, or the last one once the sketch is finished
+    segmentLabel: formatDistance(segment, system),
+    totalLabel: formatDistance(measurement.total, system),
+    areaLabel: measurement.area > 0 ? formatMeasuredArea(measurement.area, system) : null,
+    clear,
+    startAt
+  }
+}
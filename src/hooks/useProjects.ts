@@ -0,0 +1,134 @@
+import { useState, useCallback, useMemo } from 'react'
+import { useLocalStorage } from './useLocalStorage'
+import {
+  copyFeatures,
+  createDefaultWorkspace,
+  createProject,
+  normalizeWorkspace,
+  uniqueProjectName
+} from '../utils/projects'
+import type { AOIFeature, FeatureStore, Project, ProjectActions, ProjectImport, ProjectState, Workspace } from '../types'
+
+// Keys each setting was kept under before it belonged to a project
+const LEGACY_LAYERS_KEY = 'map-layers'
+const LEGACY_COORDINATES_KEY = 'coordinate-format'
+const LEGACY_GEOCODER_KEY = 'geocoder'
+
+function readLegacyValue(key: string): unknown {
+  try {
+    const item = window.localStorage.getItem(key)
+    return item ? JSON.parse(item) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// The first project inherits the layers and settings in use before there were projects
+function createInitialWorkspace(): Workspace {
+  const coordinates = readLegacyValue(LEGACY_COORDINATES_KEY)
+  const geocoder = readLegacyValue(LEGACY_GEOCODER_KEY)
+  return normalizeWorkspace(
+    {
+      projects: [{
+        ...createDefaultWorkspace().projects[0],
+        layers: readLegacyValue(LEGACY_LAYERS_KEY),
+        settings: { coordinates, geocoder }
+      }]
+    },
+    createDefaultWorkspace()
+  )
+}
+
+/**
+ * Custom hook for the persisted list of projects and the one that is open
+ * Project AOIs are written through the shared feature store before a new project is opened
+ */
+export function useProjects(store: FeatureStore | null): [Project, Project[], ProjectActions] {
+  const [initialWorkspace] = useState(createInitialWorkspace)
+  const [storedWorkspace, setWorkspace] = useLocalStorage<Workspace>('projects', initialWorkspace)
+
+  const workspace = useMemo(() => normalizeWorkspace(storedWorkspace, initialWorkspace), [storedWorkspace, initialWorkspace])
+  const project = workspace.projects.find(p => p.id === workspace.activeId) ?? workspace.projects[0]
+
+  const update = useCallback((change: (workspace: Workspace) => Workspace) => {
+    setWorkspace(prev => change(normalizeWorkspace(prev, initialWorkspace)))
+  }, [setWorkspace, initialWorkspace])
+
+  // Add a project and open it
+  const addProject = useCallback((added: Project) => {
+    update(prev => ({ activeId: added.id, projects: [...prev.projects, added] }))
+  }, [update])
+
+  const requireStore = useCallback(() => {
+    if (!store) throw new Error('AOI storage is still opening, try again in a moment')
+    return store
+  }, [store])
+
+  const switchProject = useCallback((id: string) => {
+    update(prev => prev.projects.some(p => p.id === id) ? { ...prev, activeId: id } : prev)
+  }, [update])
+
+  const createNewProject = useCallback((name: string) => {
+    const created = createProject(uniqueProjectName(name, workspace.projects))
+    addProject(created)
+    return created
+  }, [workspace.projects, addProject])
+
+  const renameProject = useCallback((id: string, name: string) => {
+    update(prev => ({
+      ...prev,
+      projects: prev.projects.map(p => p.id === id ? { ...p, name: uniqueProjectName(name, prev.projects, id) } : p)
+    }))
+  }, [update])
+
+  const duplicateProject = useCallback(async (features: AOIFeature[]) => {
+    const { layers, view, settings, attributes } = project
+    const copy = createProject(
+      uniqueProjectName(`${project.name} copy`, workspace.projects),
+      { layers, view, settings, attributes }
+    )
+    await requireStore().replace(copy.id, copyFeatures(features))
+    addProject(copy)
+    return copy
+  }, [project, workspace.projects, requireStore, addProject])
+
+  // The last project cannot be deleted; deleting the open one opens its neighbour
+  const deleteProject = useCallback(async (id: string) => {
+    if (workspace.projects.length < 2) return
+    const featureStore = requireStore()
+    update(prev => {
+      const index = prev.projects.findIndex(p => p.id === id)
+      if (index === -1 || prev.projects.length < 2) return prev
+      const projects = prev.projects.filter(p => p.id !== id)
+      const activeId = prev.activeId === id ? projects[Math.max(0, index - 1)].id : prev.activeId
+      return { activeId, projects }
+    })
+    await featureStore.remove(id)
+  }, [workspace.projects.length, update, requireStore])
+
+  const importProject = useCallback(async (file: ProjectImport) => {
+    const imported = createProject(uniqueProjectName(file.name || 'Imported project', workspace.projects), file.state)
+    await requireStore().replace(imported.id, copyFeatures(file.features))
+    addProject(imported)
+    return imported
+  }, [workspace.projects, requireStore, addProject])
+
+  const updateProject = useCallback((change: (project: Project) => Partial<ProjectState>) => {
+    update(prev => ({
+      ...prev,
+      projects: prev.projects.map(p => p.id === prev.activeId ? { ...p, ...change(p) } : p)
+    }))
+  }, [update])
+
+  const actions = useMemo<ProjectActions>(() => ({
+    switchProject,
+    createProject: createNewProject,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+    importProject,
+    updateProject
+  }), [switchProject, createNewProject, renameProject, duplicateProject, deleteProject, importProject, updateProject])
+
+  return [project, workspace.projects, actions]
+}
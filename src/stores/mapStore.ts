@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { persist, devtools } from 'zustand/middleware';
-import type { Feature } from '../types';
+import type { AOIFeature as Feature } from '../types';
 
 interface MapStore {
   center: [number, number];
@@ -1,16 +1,278 @@
 import type L from 'leaflet'
 
 // Feature types for AOI
-export type FeatureType = 'polygon' | 'rectangle' | 'circle' | 'marker'
+export type FeatureType = 'polygon' | 'rectangle' | 'circle' | 'marker' | 'multipolygon' | 'polyline'
+
+// Polygons of [lat, lng] rings; each polygon's first ring is its outline, the rest are holes
+export type MultiPolygonCoordinates = number[][][][]
 
 export interface AOIFeature {
   id: string
   name: string
   type: FeatureType
-  coordinates: number[][] | { center: number[]; radius: number } | number[]
+  coordinates: number[][] | MultiPolygonCoordinates | { center: number[]; radius: number } | number[]
   area?: number
+  // Geodesic length in meters, for polylines
+  length?: number
   color: string
   createdAt: string
+  // Extra attributes carried over from imported files
+  properties?: Record<string, unknown>
+  // Free-form labels for grouping AOIs in the list
+  tags?: string[]
+}
+
+// Kinds of value a custom AOI attribute can hold
+export type AttributeType = 'text' | 'number' | 'enum' | 'date' | 'boolean'
+
+// Custom attribute defined per project; values are kept in AOIFeature.properties under its key
+export interface AttributeField {
+  // Property name in AOIFeature.properties and export columns
+  key: string
+  label: string
+  type: AttributeType
+  required: boolean
+  // Choices for enum attributes
+  options?: string[]
+  // Inclusive range for number attributes
+  min?: number
+  max?: number
+  // Regular expression text values must match in full
+  pattern?: string
+}
+
+// Comparisons offered by the AOI list's attribute filter
+export type AttributeFilterOperator = 'equals' | 'contains' | 'less' | 'greater' | 'empty' | 'not-empty'
+
+export interface AttributeFilter {
+  id: string
+  key: string
+  operator: AttributeFilterOperator
+  // Typed text; numbers, dates and booleans are compared after parsing it
+  value: string
+}
+
+// Problem found with one feature of an imported file
+export interface ImportIssue {
+  // Position of the feature in the source file
+  index: number
+  name: string
+  severity: 'error' | 'warning'
+  message: string
+}
+
+// AOIs parsed from an imported file
+export interface ImportResult {
+  features: AOIFeature[]
+  issues: ImportIssue[]
+  // Extent of the imported features as [west, south, east, north]
+  bbox: [number, number, number, number] | null
+}
+
+// Geometry operations on selected AOIs
+export type GeometryOperation = 'union' | 'intersect' | 'difference' | 'split'
+
+// Change applied to every selected AOI at once
+export type BulkEdit =
+  | { kind: 'color'; color: string }
+  | { kind: 'tag'; tag: string }
+  | { kind: 'untag'; tag: string }
+
+// Orders offered by the AOI list; 'order' is the order the AOIs were added in
+export type AOISortKey = 'order' | 'name' | 'area' | 'date'
+
+export interface AOISort {
+  key: AOISortKey
+  descending: boolean
+}
+
+// What the AOI list shows; blank values and empty lists do not filter
+export interface AOIListFilters {
+  // Matched against names, tags and attribute values
+  text: string
+  types: FeatureType[]
+  // Hectares, as typed
+  minArea: string
+  maxArea: string
+  // Creation dates as YYYY-MM-DD, both ends included
+  from: string
+  to: string
+  tag: string
+  attributes: AttributeFilter[]
+}
+
+// Units for buffer distances, named as turf names them
+export type DistanceUnit = 'meters' | 'kilometers' | 'feet' | 'miles'
+
+// Unit system for measurement readouts
+export type MeasureSystem = 'metric' | 'imperial'
+
+// Shapes that can be created from typed coordinates
+export type CoordinateShape = 'marker' | 'rectangle' | 'polygon' | 'circle'
+
+// Search box input read as a position or a [west, south, east, north] extent instead of a place name
+export type CoordinateQuery =
+  | { kind: 'point'; point: [number, number] }
+  | { kind: 'bbox'; bbox: [number, number, number, number] }
+
+// How positions are displayed and copied
+export type CoordinateFormat = 'dd' | 'dms' | 'ddm' | 'utm' | 'mgrs' | 'pluscode'
+
+export interface CoordinateDisplaySettings {
+  format: CoordinateFormat
+  // Decimal places for decimal degrees
+  precision: number
+}
+
+// UTM position; northings in the southern hemisphere include the 10,000 km false northing
+export interface UtmCoordinate {
+  zone: number
+  hemisphere: 'N' | 'S'
+  easting: number
+  northing: number
+}
+
+// Geodesic measurements of a sketched path
+export interface PathMeasurement {
+  // Length of each segment in meters
+  segments: number[]
+  total: number
+  // Area enclosed by the closed path in m², once it has 3 points
+  area: number
+}
+
+// File formats the AOI list can be exported to
+export type ExportFormat = 'geojson' | 'kml' | 'kmz' | 'shapefile' | 'wkt' | 'csv'
+
+// Rows of a CSV file, split into a header and string cells
+export interface CsvTable {
+  headers: string[]
+  rows: string[][]
+}
+
+// Which CSV columns hold the geometry and name, as column indexes (null when unmapped)
+export interface CsvColumnMapping {
+  geometry: 'latlon' | 'wkt'
+  lat: number | null
+  lon: number | null
+  wkt: number | null
+  name: number | null
+}
+
+// Outcome of importing one file, shown in the import summary
+export interface ImportReport {
+  fileName: string
+  imported: number
+  issues: ImportIssue[]
+  // Set when the whole file could not be read
+  error?: string
+}
+
+// One feature's state before and after a change; null when it did not exist
+export interface FeatureChange {
+  id: string
+  // Position in the list where the feature exists (after the change, or before it for deletions)
+  index: number
+  before: AOIFeature | null
+  after: AOIFeature | null
+}
+
+// Undoable AOI mutation, stored as the features it changed
+export interface HistoryEntry {
+  label: string
+  changes: FeatureChange[]
+  timestamp: string
+}
+
+export interface FeatureHistory {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+}
+
+// AOI list and undo history as read back from storage
+export interface StoredFeatures {
+  features: AOIFeature[]
+  history: FeatureHistory
+  // Damaged records that were set aside while loading
+  recovered: number
+}
+
+// Persistent AOI storage, kept per project; the history is passed only when it changed
+export interface FeatureStore {
+  load: (projectId: string) => Promise<StoredFeatures>
+  save: (
+    projectId: string,
+    prev: AOIFeature[],
+    next: AOIFeature[],
+    history?: FeatureHistory
+  ) => Promise<'saved' | 'history-dropped'>
+  // Replace a project's AOIs and start its undo history afresh
+  replace: (projectId: string, features: AOIFeature[]) => Promise<void>
+  // Delete a project's AOIs and undo history
+  remove: (projectId: string) => Promise<void>
+  close: () => void
+}
+
+export interface FeatureHistoryActions {
+  // Apply a mutation to the AOI list and record it as one undo step
+  commit: (label: string, update: (features: AOIFeature[]) => AOIFeature[]) => void
+  undo: () => void
+  redo: () => void
+}
+
+// Map position saved with a project
+export interface MapView {
+  center: [number, number]
+  zoom: number
+}
+
+// Settings that each project keeps for itself
+export interface ProjectSettings {
+  coordinates: CoordinateDisplaySettings
+  geocoder: GeocoderSettings
+}
+
+// Named workspace; its AOIs live in the AOI database under its id
+export interface Project {
+  id: string
+  name: string
+  createdAt: string
+  layers: LayerInfo[]
+  // Null until the map has been moved in this project
+  view: MapView | null
+  settings: ProjectSettings
+  // Custom attributes every AOI of the project can be given
+  attributes: AttributeField[]
+}
+
+// Parts of a project that change as it is worked on
+export type ProjectState = Pick<Project, 'layers' | 'view' | 'settings' | 'attributes'>
+
+// All projects and the one that is open
+export interface Workspace {
+  activeId: string
+  projects: Project[]
+}
+
+// Project read from an exported project file, before it is given an id
+export interface ProjectImport {
+  name: string
+  state: ProjectState
+  features: AOIFeature[]
+  // Features of the file that could not be read
+  skipped: number
+}
+
+export interface ProjectActions {
+  switchProject: (id: string) => void
+  createProject: (name: string) => Project
+  renameProject: (id: string, name: string) => void
+  // Copy the open project with its AOIs; the copy gets new AOI ids and no undo history
+  duplicateProject: (features: AOIFeature[]) => Promise<Project>
+  deleteProject: (id: string) => Promise<void>
+  importProject: (file: ProjectImport) => Promise<Project>
+  // Change the open project's layers, view, settings or attribute schema
+  updateProject: (update: (project: Project) => Partial<ProjectState>) => void
 }
 
 // Toast notification types
@@ -33,27 +295,108 @@ export interface Notification {
 export interface AppState {
   features: AOIFeature[]
   activeTool: string | null
-  wmsVisible: boolean
-  aoiVisible: boolean
-  wmsOpacity: number
+  layers: LayerInfo[]
   mapRef: L.Map | null
+  // AOIs selected in the list, highlighted on the map
+  selectedIds: string[]
 }
 
 // Search result from Nominatim
+// Search hit in Nominatim's shape; other geocoders' results are normalized to it
 export interface SearchResult {
-  place_id: number
+  // Unique per provider, e.g. "photon:N240109189"
+  place_id: string
   lat: string
   lon: string
   display_name: string
   type: string
+  // Outline of areas such as districts, when the geocoder returns one
+  boundary?: MultiPolygonCoordinates
+  // Extent to show the place at, as [west, south, east, north]
+  bbox?: [number, number, number, number]
+}
+
+// Search result kept in the search history or starred by the user
+export interface SavedPlace {
+  // place_id of the result it came from
+  id: string
+  name: string
+  displayName: string
+  lat: number
+  lng: number
+  bbox?: [number, number, number, number]
+}
+
+export type GeocoderProvider = 'nominatim' | 'photon' | 'pelias' | 'gazetteer'
+
+export interface GeocoderSettings {
+  provider: GeocoderProvider
+  // Service endpoint; empty for the provider's public default
+  url: string
+  apiKey: string
+}
+
+// Forward geocoding; an aborted signal rejects the pending search
+export interface Geocoder {
+  search: (query: string, signal?: AbortSignal) => Promise<SearchResult[]>
+}
+
+// Place found at a map position
+export interface ReverseGeocodeResult {
+  name: string
+  displayName: string
+}
+
+// Looks up what lies at a position; resolves to null where nothing is found
+export interface ReverseGeocoder {
+  reverse: (lat: number, lng: number) => Promise<ReverseGeocodeResult | null>
+}
+
+// WMS imagery layer configuration
+export interface WmsConfig {
+  url: string
+  layers: string
+  format: string
+  transparent: boolean
+  version: string
+  crs: 'EPSG:3857' | 'EPSG:4326'
+  styles?: string
+  attribution?: string
+}
+
+// Style advertised for a WMS layer
+export interface WmsStyle {
+  name: string
+  title: string
+}
+
+// Named layer parsed from a WMS GetCapabilities document
+export interface WmsLayerSummary {
+  name: string
+  title: string
+  abstract: string
+  // Geographic extent as [west, south, east, north] in WGS84
+  bbox: [number, number, number, number] | null
+  crs: string[]
+  styles: WmsStyle[]
+  queryable: boolean
+}
+
+// Parsed WMS GetCapabilities document
+export interface WmsCapabilities {
+  version: string
+  title: string
+  abstract: string
+  getMapUrl: string
+  formats: string[]
+  layers: WmsLayerSummary[]
 }
 
 // Map configuration
 export interface MapConfig {
   center: [number, number]
   zoom: number
-  wmsUrl: string
-  wmsLayer: string
+  wms: WmsConfig
 }
 
 // Drawing tool config
@@ -64,13 +407,49 @@ export interface DrawingTool {
   type: FeatureType
 }
 
-// Layer info
+// WMTS tile source (KVP GetTile on a Web Mercator tile matrix set)
+export interface WmtsConfig {
+  url: string
+  layer: string
+  tileMatrixSet: string
+  format: string
+  style: string
+}
+
+// Where a stacked layer gets its data from
+export type LayerSource =
+  | { type: 'xyz'; url: string; attribution?: string }
+  | { type: 'wms'; wms: WmsConfig }
+  | { type: 'wmts'; wmts: WmtsConfig }
+  | { type: 'aoi' }
+
+// Layer info for an entry in the layer stack
 export interface LayerInfo {
   id: string
   name: string
   description: string
   visible: boolean
   opacity?: number
+  kind: 'base' | 'overlay'
+  source: LayerSource
+  // Extent as [west, south, east, north] in WGS84, if known
+  bbox?: [number, number, number, number] | null
+}
+
+// Mutations supported by the layer stack
+export interface LayerStackActions {
+  addLayer: (layer: LayerInfo) => void
+  removeLayer: (id: string) => void
+  updateLayer: (id: string, updates: Partial<LayerInfo>) => void
+  moveLayer: (id: string, toIndex: number) => void
+}
+
+// Side-by-side comparison of two stacked layers
+export type CompareMode = 'off' | 'swipe' | 'split'
+
+export interface CompareSelection {
+  leftId: string
+  rightId: string
 }
 
 // Coordinates display
@@ -96,51 +475,131 @@ export interface FeatureLayer extends L.Layer {
 export interface SidebarProps {
   features: AOIFeature[]
   activeTool: string | null
-  wmsVisible: boolean
-  aoiVisible: boolean
-  wmsOpacity: number
+  layers: LayerInfo[]
+  layerActions: LayerStackActions
   onToolChange: (tool: string | null) => void
-  onWmsToggle: (visible: boolean) => void
-  onAoiToggle: (visible: boolean) => void
-  onOpacityChange: (opacity: number) => void
+  onFeatureAdd: (feature: AOIFeature) => void
   onFeatureRemove: (id: string) => void
   onFeatureUpdate: (id: string, updates: Partial<AOIFeature>) => void
+  onFeaturesRemove: (ids: string[]) => void
+  onBulkEdit: (ids: string[], edit: BulkEdit) => void
+  selectedIds: string[]
+  onSelectionChange: (ids: string[]) => void
   onClearAll: () => void
-  onExport: () => void
+  // Label of the step Undo/Redo would revert or reapply; null when unavailable
+  undoLabel: string | null
+  redoLabel: string | null
+  onUndo: () => void
+  onRedo: () => void
+  onExport: (format: ExportFormat, ids?: string[]) => void
+  onImport: (files: File[]) => void
+  onImportResult: (result: ImportResult, sourceName: string) => void
+  onGeometryOperation: (operation: GeometryOperation, ids: string[]) => void
+  onBuffer: (id: string, distance: number, unit: DistanceUnit) => void
+  showToast: (message: string, type?: ToastMessage['type']) => void
   mapRef: L.Map | null
+  attributeSchema: AttributeField[]
 }
 
 export interface MapContainerProps {
   appState: AppState
   onMapReady: (map: L.Map) => void
   onFeatureAdd: (feature: AOIFeature) => void
+  onFeatureUpdate: (id: string, updates: Partial<AOIFeature>) => void
+  // Line of [lat, lng] points drawn with the split tool
+  onSplitLine: (line: [number, number][]) => void
   onToolComplete: () => void
+  coordinateSettings: CoordinateDisplaySettings
+  reverseGeocoder: ReverseGeocoder
   showToast: (message: string, type?: ToastMessage['type']) => void
 }
 
+// Map position that was right-clicked, with its pixel offset in the map container
+export interface MapContextMenuPosition {
+  lat: number
+  lng: number
+  x: number
+  y: number
+}
+
+export interface MapContextMenuProps {
+  position: MapContextMenuPosition
+  coordinateSettings: CoordinateDisplaySettings
+  reverseGeocoder: ReverseGeocoder
+  onCopy: (text: string) => void
+  onAddMarker: () => void
+  onCenter: () => void
+  onMeasureFrom: () => void
+  onClose: () => void
+}
+
 export interface DrawingToolsProps {
   activeTool: string | null
+  featureCount: number
   onToolChange: (tool: string | null) => void
+  onFeatureAdd: (feature: AOIFeature) => void
   onClearAll: () => void
+  undoLabel: string | null
+  redoLabel: string | null
+  onUndo: () => void
+  onRedo: () => void
+  mapRef: L.Map | null
 }
 
 export interface LayerManagerProps {
-  wmsVisible: boolean
-  aoiVisible: boolean
-  wmsOpacity: number
-  featureCount: number
-  onWmsToggle: (visible: boolean) => void
-  onAoiToggle: (visible: boolean) => void
-  onOpacityChange: (opacity: number) => void
+  layers: LayerInfo[]
+  layerActions: LayerStackActions
+  features: AOIFeature[]
+  mapRef: L.Map | null
+}
+
+export interface WmsCatalogProps {
+  layers: LayerInfo[]
+  layerActions: LayerStackActions
+  showToast: (message: string, type?: ToastMessage['type']) => void
+  mapRef: L.Map | null
+}
+
+export interface CompareControlsProps {
+  mode: CompareMode
+  layers: LayerInfo[]
+  selection: CompareSelection | null
+  onModeChange: (mode: CompareMode) => void
+  onSelectionChange: (side: 'left' | 'right', id: string) => void
+}
+
+export interface SplitCompareMapProps {
+  primaryMap: L.Map | null
+  layer: LayerInfo
+  features: AOIFeature[]
 }
 
 export interface MapControlsProps {
   mapRef: L.Map | null
+  activeTool: string | null
+  // Stops any drawing tool when measuring starts
+  onMeasureStart: () => void
+  // Starts measuring from a position; a new array each time it is requested
+  measureFrom: [number, number] | null
   showToast: (message: string, type?: ToastMessage['type']) => void
 }
 
+export interface ProjectSwitcherProps {
+  project: Project
+  projects: Project[]
+  onSwitch: (id: string) => void
+  onCreate: (name: string) => void
+  onDuplicate: () => void
+  onRename: (name: string) => void
+  onDelete: () => void
+  onExport: () => void
+  onImport: (file: File) => void
+}
+
 export interface SearchBarProps {
   mapRef: L.Map | null
+  geocoder: Geocoder
+  onFeatureAdd: (feature: AOIFeature) => void
 }
 
 export interface ToastProps {
@@ -153,6 +612,85 @@ export interface AOIListProps {
   features: AOIFeature[]
   onFeatureRemove: (id: string) => void
   onFeatureUpdate: (id: string, updates: Partial<AOIFeature>) => void
-  onExport: () => void
+  onFeaturesRemove: (ids: string[]) => void
+  onBulkEdit: (ids: string[], edit: BulkEdit) => void
+  // Ids in selection order; kept by the app so the map can highlight them
+  selectedIds: string[]
+  onSelectionChange: (ids: string[]) => void
+  // Exports only the given AOIs when ids are passed
+  onExport: (format: ExportFormat, ids?: string[]) => void
+  onImport: (files: File[]) => void
+  onImportResult: (result: ImportResult, sourceName: string) => void
+  // Ids in selection order; the first one is the base for difference and the target of split
+  onGeometryOperation: (operation: GeometryOperation, ids: string[]) => void
+  onBuffer: (id: string, distance: number, unit: DistanceUnit) => void
+  showToast: (message: string, type?: ToastMessage['type']) => void
+  mapRef: L.Map | null
+  // Open project's custom attributes, edited per AOI and usable as list filters
+  attributeSchema: AttributeField[]
+}
+
+export interface AOIListFilterPanelProps {
+  filters: AOIListFilters
+  onChange: (filters: AOIListFilters) => void
+  // Tags in use, offered in the tag filter
+  tags: string[]
+  schema: AttributeField[]
+}
+
+export interface SelectionToolbarProps {
+  // In selection order
+  selected: AOIFeature[]
+  // Tags in use, suggested when tagging
+  tags: string[]
+  onClear: () => void
+  onGeometryOperation: (operation: GeometryOperation) => void
+  onBulkEdit: (edit: BulkEdit) => void
+  onDelete: () => void
+  onExport: (format: ExportFormat) => void
+  onZoom: () => void
+}
+
+export interface PropertyEditorProps {
+  feature: AOIFeature
+  schema: AttributeField[]
+  // Called with the feature's full new properties once every value is valid
+  onSave: (properties: Record<string, unknown>) => void
+  onClose: () => void
+}
+
+export interface AttributeFilterBarProps {
+  schema: AttributeField[]
+  filters: AttributeFilter[]
+  onChange: (filters: AttributeFilter[]) => void
+}
+
+export interface AttributeSchemaEditorProps {
+  schema: AttributeField[]
+  onChange: (schema: AttributeField[]) => void
+}
+
+export interface BufferPanelProps {
+  feature: AOIFeature
+  onApply: (distance: number, unit: DistanceUnit) => void
+  onClose: () => void
   mapRef: L.Map | null
+}
+
+export interface CoordinateEntryDialogProps {
+  // Used to name the AOI when no name is given
+  featureCount: number
+  onCreate: (feature: AOIFeature) => void
+  onClose: () => void
+  mapRef: L.Map | null
+}
+
+export interface TextExchangeDialogProps {
+  features: AOIFeature[]
+  // Columns added to CSV exports
+  attributeSchema: AttributeField[]
+  onImportResult: (result: ImportResult, sourceName: string) => void
+  onExport: (format: ExportFormat) => void
+  showToast: (message: string, type?: ToastMessage['type']) => void
+  onClose: () => void
 }
\ No newline at end of file
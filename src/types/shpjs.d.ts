@@ -0,0 +1,14 @@
+// Minimal typings for the parts of shpjs used by the shapefile importer
+declare module 'shpjs' {
+  interface ShapefileLayer {
+    type: 'FeatureCollection'
+    features: unknown[]
+    // Base name of the .shp (or .json) entry in the archive
+    fileName?: string
+  }
+
+  export function parseZip(
+    buffer: ArrayBuffer | Uint8Array,
+    whiteList?: string[]
+  ): Promise<ShapefileLayer | ShapefileLayer[]>
+}
@@ -0,0 +1,167 @@
+import { filterFeatures, formatAttributeValue } from './attributes'
+import type { AOIFeature, AOIListFilters, AOISort, AOISortKey, AttributeField, BulkEdit, ExportFormat } from '../types'
+
+// Formats offered in the AOI list's export menus besides GeoJSON, which has its own button
+export const EXPORT_FORMATS: { id: ExportFormat; name: string }[] = [
+  { id: 'kml', name: 'KML (Google Earth)' },
+  { id: 'kmz', name: 'KMZ (zipped KML)' },
+  { id: 'shapefile', name: 'Shapefile (zipped)' },
+  { id: 'wkt', name: 'WKT (one per line)' },
+  { id: 'csv', name: 'CSV (WKT + lat/lon)' }
+]
+
+export const EMPTY_LIST_FILTERS: AOIListFilters = {
+  text: '',
+  types: [],
+  minArea: '',
+  maxArea: '',
+  from: '',
+  to: '',
+  tag: '',
+  attributes: []
+}
+
+export const DEFAULT_SORT: AOISort = { key: 'order', descending: false }
+
+export const SORT_LABELS: Record<AOISortKey, string> = {
+  order: 'Added',
+  name: 'Name',
+  area: 'Area',
+  date: 'Created'
+}
+
+const SQ_METERS_PER_HECTARE = 10000
+
+const nameCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' })
+
+const parseHectares = (text: string) => {
+  const value = parseFloat(text)
+  return Number.isFinite(value) ? value * SQ_METERS_PER_HECTARE : null
+}
+
+/**
+ * Tidy a typed tag: trimmed, with inner whitespace collapsed; empty if nothing is left
+ */
+export function normalizeTag(text: string): string {
+  return text.trim().replace(/\s+/g, ' ')
+}
+
+/**
+ * Every tag used by the AOIs, sorted
+ */
+export function getAllTags(features: AOIFeature[]): string[] {
+  return [...new Set(features.flatMap(f => f.tags ?? []))].sort(nameCollator.compare)
+}
+
+/**
+ * Number of list filters in effect, counting only attribute filters the schema still has
+ */
+export function countActiveFilters(filters: AOIListFilters, schema: AttributeField[]): number {
+  return [
+    filters.text.trim() !== '',
+    filters.types.length > 0,
+    parseHectares(filters.minArea) !== null || parseHectares(filters.maxArea) !== null,
+    filters.from !== '' || filters.to !== '',
+    filters.tag !== ''
+  ].filter(Boolean).length + filters.attributes.filter(f => schema.some(field => field.key === f.key)).length
+}
+
+function matchesText(feature: AOIFeature, text: string, schema: AttributeField[]): boolean {
+  const query = text.trim().toLowerCase()
+  if (!query) return true
+  const values = [
+    feature.name,
+    ...(feature.tags ?? []),
+    ...schema.map(field => formatAttributeValue(field, feature.properties?.[field.key]))
+  ]
+  return values.some(value => value.toLowerCase().includes(query))
+}
+
+/**
+ * Start of a local calendar day given as YYYY-MM-DD, as date inputs report it, shifted by a number of days
+ * Returns null for anything that is not such a date
+ */
+function localDayStart(date: string, offsetDays = 0): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date)
+  if (!match) return null
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + offsetDays).getTime()
+}
+
+/**
+ * Keep the AOIs that pass every list filter; AOIs without an area fail any area bound
+ */
+export function filterAOIs(features: AOIFeature[], filters: AOIListFilters, schema: AttributeField[]): AOIFeature[] {
+  const minArea = parseHectares(filters.minArea)
+  const maxArea = parseHectares(filters.maxArea)
+  // Creation times are UTC, while the date bounds are days in the user's time zone
+  const createdFrom = localDayStart(filters.from)
+  const createdBefore = localDayStart(filters.to, 1)
+
+  const matching = features.filter(feature => {
+    if (!matchesText(feature, filters.text, schema)) return false
+    if (filters.types.length > 0 && !filters.types.includes(feature.type)) return false
+    if (minArea !== null || maxArea !== null) {
+      if (feature.area === undefined) return false
+      if (minArea !== null && feature.area < minArea) return false
+      if (maxArea !== null && feature.area > maxArea) return false
+    }
+    if (createdFrom !== null || createdBefore !== null) {
+      const created = Date.parse(feature.createdAt)
+      if (createdFrom !== null && !(created >= createdFrom)) return false
+      if (createdBefore !== null && !(created < createdBefore)) return false
+    }
+    if (filters.tag && !(feature.tags ?? []).includes(filters.tag)) return false
+    return true
+  })
+  return filterFeatures(matching, schema, filters.attributes)
+}
+
+/**
+ * Sort AOIs for the list; AOIs without an area come last when sorting by area, whichever the direction
+ */
+export function sortAOIs(features: AOIFeature[], sort: AOISort): AOIFeature[] {
+  const { key, descending } = sort
+  const direction = descending ? -1 : 1
+  if (key === 'order') return descending ? [...features].reverse() : features
+
+  return [...features].sort((a, b) => {
+    switch (key) {
+      case 'name':
+        return direction * nameCollator.compare(a.name, b.name)
+      case 'area':
+        if (a.area === undefined || b.area === undefined) return (a.area === undefined ? 1 : 0) - (b.area === undefined ? 1 : 0)
+        return direction * (a.area - b.area)
+      case 'date':
+        return direction * (Date.parse(a.createdAt) - Date.parse(b.createdAt))
+    }
+  })
+}
+
+/**
+ * Shift-click selection: add every AOI from the anchor to the clicked one, in list order
+ * Falls back to toggling the clicked AOI when the anchor is no longer in the list
+ */
+export function selectRange(listIds: string[], selectedIds: string[], anchorId: string | null, id: string): string[] {
+  const from = anchorId ? listIds.indexOf(anchorId) : -1
+  const to = listIds.indexOf(id)
+  if (from === -1 || to === -1) {
+    return selectedIds.includes(id) ? selectedIds.filter(x => x !== id) : [...selectedIds, id]
+  }
+  const range = listIds.slice(Math.min(from, to), Math.max(from, to) + 1)
+  return [...selectedIds, ...range.filter(x => !selectedIds.includes(x))]
+}
+
+/**
+ * The fields a bulk edit changes on one AOI
+ */
+export function applyBulkEdit(feature: AOIFeature, edit: BulkEdit): Partial<AOIFeature> {
+  const tags = feature.tags ?? []
+  switch (edit.kind) {
+    case 'color':
+      return { color: edit.color }
+    case 'tag':
+      return { tags: tags.includes(edit.tag) ? tags : [...tags, edit.tag] }
+    case 'untag':
+      return { tags: tags.filter(t => t !== edit.tag) }
+  }
+}
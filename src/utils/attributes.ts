@@ -0,0 +1,211 @@
+import { isRecord } from './importUtils'
+import type { AOIFeature, AttributeField, AttributeFilter, AttributeFilterOperator, AttributeType } from '../types'
+
+export const ATTRIBUTE_TYPE_LABELS: Record<AttributeType, string> = {
+  text: 'Text',
+  number: 'Number',
+  enum: 'Choice',
+  date: 'Date',
+  boolean: 'Yes/No'
+}
+
+export const FILTER_OPERATOR_LABELS: Record<AttributeFilterOperator, string> = {
+  equals: 'is',
+  contains: 'contains',
+  less: 'is below',
+  greater: 'is above',
+  empty: 'is empty',
+  'not-empty': 'is set'
+}
+
+// Comparisons that make sense for each kind of value, the default first
+export const FILTER_OPERATORS: Record<AttributeType, AttributeFilterOperator[]> = {
+  text: ['contains', 'equals', 'empty', 'not-empty'],
+  number: ['equals', 'less', 'greater', 'empty', 'not-empty'],
+  enum: ['equals', 'empty', 'not-empty'],
+  date: ['equals', 'less', 'greater', 'empty', 'not-empty'],
+  boolean: ['equals']
+}
+
+const ATTRIBUTE_TYPES = Object.keys(ATTRIBUTE_TYPE_LABELS) as AttributeType[]
+
+// Columns every exported AOI already has, which attributes must not shadow
+const RESERVED_KEYS = new Set(['id', 'name', 'type', 'area', 'length', 'createdAt', 'radius', 'color', 'tags', 'wkt', 'lat', 'lon'])
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === ''
+
+function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check for a real calendar date written as YYYY-MM-DD
+ */
+export function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+/**
+ * Derive the property key for a new attribute from its label, e.g. "Crop type" becomes crop_type
+ */
+export function toAttributeKey(label: string, schema: AttributeField[]): string {
+  const base = label.trim().toLowerCase()
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'attribute'
+  const taken = new Set(schema.map(f => f.key))
+  let key = base
+  for (let n = 2; taken.has(key) || RESERVED_KEYS.has(key); n++) key = `${base}_${n}`
+  return key
+}
+
+/**
+ * Read a stored or imported attribute schema, dropping fields that are unusable or repeat a key
+ */
+export function readAttributeSchema(value: unknown): AttributeField[] {
+  if (!Array.isArray(value)) return []
+  const keys = new Set<string>()
+  return value.flatMap((item: unknown): AttributeField[] => {
+    if (!isRecord(item) || typeof item.key !== 'string' || item.key === '' || keys.has(item.key)) return []
+    const type = item.type as AttributeType
+    if (!ATTRIBUTE_TYPES.includes(type)) return []
+    keys.add(item.key)
+
+    const field: AttributeField = {
+      key: item.key,
+      label: typeof item.label === 'string' && item.label.trim() ? item.label : item.key,
+      type,
+      required: item.required === true
+    }
+    if (type === 'enum') {
+      field.options = Array.isArray(item.options) ? item.options.filter((o): o is string => typeof o === 'string') : []
+    }
+    if (type === 'number') {
+      if (typeof item.min === 'number' && Number.isFinite(item.min)) field.min = item.min
+      if (typeof item.max === 'number' && Number.isFinite(item.max)) field.max = item.max
+    }
+    if (type === 'text' && typeof item.pattern === 'string' && item.pattern && isValidPattern(item.pattern)) {
+      field.pattern = item.pattern
+    }
+    return [field]
+  })
+}
+
+/**
+ * Check one value against its field's rules; returns the problem, or null if the value is acceptable
+ */
+export function validateAttribute(field: AttributeField, value: unknown): string | null {
+  if (isEmpty(value)) return field.required ? `${field.label} is required` : null
+
+  switch (field.type) {
+    case 'text':
+      if (typeof value !== 'string') return `${field.label} must be text`
+      if (field.pattern && isValidPattern(field.pattern) && !new RegExp(`^(?:${field.pattern})$`).test(value)) {
+        return `${field.label} does not match the expected format`
+      }
+      return null
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return `${field.label} must be a number`
+      if (field.min !== undefined && value < field.min) return `${field.label} must be at least ${field.min}`
+      if (field.max !== undefined && value > field.max) return `${field.label} must be at most ${field.max}`
+      return null
+    case 'enum':
+      return typeof value === 'string' && (field.options ?? []).includes(value)
+        ? null
+        : `${field.label} must be one of ${(field.options ?? []).join(', ')}`
+    case 'date':
+      return typeof value === 'string' && isIsoDate(value) ? null : `${field.label} must be a date (YYYY-MM-DD)`
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${field.label} must be yes or no`
+  }
+}
+
+/**
+ * Check an AOI's properties against the whole schema, keyed by attribute
+ */
+export function validateAttributes(schema: AttributeField[], properties: Record<string, unknown> = {}): Record<string, string> {
+  const errors: Record<string, string> = {}
+  schema.forEach(field => {
+    const error = validateAttribute(field, properties[field.key])
+    if (error) errors[field.key] = error
+  })
+  return errors
+}
+
+/**
+ * Turn what was typed into a form field into the value to store; blank input clears the value
+ * Numbers that do not parse are kept as NaN so validation can report them
+ */
+export function parseAttributeInput(field: AttributeField, text: string): unknown {
+  const trimmed = text.trim()
+  if (trimmed === '') return undefined
+  if (field.type === 'number') return Number(trimmed)
+  if (field.type === 'boolean') return trimmed === 'true'
+  return trimmed
+}
+
+/**
+ * Show a stored value in the AOI list
+ */
+export function formatAttributeValue(field: AttributeField, value: unknown): string {
+  if (isEmpty(value)) return ''
+  if (field.type === 'boolean') return value === true ? 'Yes' : 'No'
+  return String(value)
+}
+
+function compareValues(field: AttributeField, value: unknown, query: string): number | null {
+  if (field.type === 'number') {
+    const target = Number(query)
+    if (typeof value !== 'number' || !Number.isFinite(target)) return null
+    return Math.sign(value - target)
+  }
+  if (field.type === 'boolean') return value === (query === 'true') ? 0 : 1
+  const text = String(value).toLowerCase()
+  const target = query.toLowerCase()
+  return text < target ? -1 : text > target ? 1 : 0
+}
+
+/**
+ * Check an AOI against one filter; a filter still waiting for its value lets everything through
+ */
+export function matchesAttributeFilter(feature: AOIFeature, field: AttributeField, filter: AttributeFilter): boolean {
+  const value = feature.properties?.[field.key]
+  if (filter.operator === 'empty') return isEmpty(value)
+  if (filter.operator === 'not-empty') return !isEmpty(value)
+
+  const query = filter.value.trim()
+  if (query === '') return true
+  if (isEmpty(value)) return false
+  if (filter.operator === 'contains') return String(value).toLowerCase().includes(query.toLowerCase())
+
+  const order = compareValues(field, value, query)
+  if (order === null) return false
+  return filter.operator === 'equals' ? order === 0
+    : filter.operator === 'less' ? order < 0
+    : order > 0
+}
+
+/**
+ * Keep the AOIs that pass every filter; filters on attributes no longer in the schema are ignored
+ */
+export function filterFeatures(features: AOIFeature[], schema: AttributeField[], filters: AttributeFilter[]): AOIFeature[] {
+  const active = filters.flatMap(filter => {
+    const field = schema.find(f => f.key === filter.key)
+    return field ? [{ field, filter }] : []
+  })
+  if (active.length === 0) return features
+  return features.filter(feature => active.every(({ field, filter }) => matchesAttributeFilter(feature, field, filter)))
+}
+
+/**
+ * One export column per attribute, empty where an AOI has no value
+ */
+export function getAttributeColumns(feature: AOIFeature, schema: AttributeField[]): Record<string, unknown> {
+  return Object.fromEntries(schema.map(field => [field.key, feature.properties?.[field.key] ?? null]))
+}
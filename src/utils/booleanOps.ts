@@ -0,0 +1,115 @@
+import { buffer, difference, featureCollection, intersect, lineString, point, union } from '@turf/turf'
+import { featureToGeometry } from './geojson'
+import { DISTANCE_UNIT_LABELS, isPolygonal } from './mapUtils'
+import { createMultiPolygonFeature, createPolygonFeature, toRing, type FeatureSource } from './importUtils'
+import type { AOIFeature, DistanceUnit } from '../types'
+
+// GeoJSON polygon feature as turf's boolean operations take and return it
+type PolygonalFeature = NonNullable<ReturnType<typeof difference>>
+type PolygonalGeometry = PolygonalFeature['geometry']
+
+// Width of the cut a split line makes through a polygon, in meters
+const SPLIT_GAP = 0.01
+
+function toTurfFeature(feature: AOIFeature): PolygonalFeature {
+  if (!isPolygonal(feature)) throw new Error(`"${feature.name}" is a ${feature.type} and has no area`)
+  return { type: 'Feature', geometry: featureToGeometry(feature) as PolygonalGeometry, properties: {} }
+}
+
+function toPolygons(geometry: PolygonalGeometry): number[][][][] {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates
+  return polygons.map(rings => rings.map(toRing))
+}
+
+/**
+ * Turn a GeoJSON result into an AOI: a plain polygon when possible, otherwise a multipolygon
+ */
+function toAOIFeature(geometry: PolygonalGeometry, source: FeatureSource): AOIFeature {
+  const polygons = toPolygons(geometry)
+  if (polygons.length === 1 && polygons[0].length === 1) {
+    return createPolygonFeature(polygons[0][0] as [number, number][], source)
+  }
+  return createMultiPolygonFeature(polygons, source)
+}
+
+function requireCount(features: AOIFeature[], count: number) {
+  if (features.length < count) throw new Error(`Select at least ${count} AOIs with an area`)
+}
+
+/**
+ * Merge the selected AOIs into one
+ */
+export function unionFeatures(features: AOIFeature[]): AOIFeature {
+  requireCount(features, 2)
+  const result = union(featureCollection(features.map(toTurfFeature)))
+  if (!result) throw new Error('The union is empty')
+  return toAOIFeature(result.geometry, { name: `Union of ${features.map(f => f.name).join(', ')}`, properties: {} })
+}
+
+/**
+ * Keep only the area shared by all selected AOIs
+ */
+export function intersectFeatures(features: AOIFeature[]): AOIFeature {
+  requireCount(features, 2)
+  const result = intersect(featureCollection(features.map(toTurfFeature)))
+  if (!result) throw new Error('The selected AOIs do not overlap')
+  return toAOIFeature(result.geometry, { name: `Intersection of ${features.map(f => f.name).join(', ')}`, properties: {} })
+}
+
+/**
+ * Subtract every other AOI from the first one
+ */
+export function subtractFeatures(features: AOIFeature[]): AOIFeature {
+  requireCount(features, 2)
+  const [base, ...others] = features
+  const result = difference(featureCollection(features.map(toTurfFeature)))
+  if (!result) throw new Error(`Nothing is left of "${base.name}"`)
+  return toAOIFeature(result.geometry, {
+    name: `${base.name} minus ${others.map(f => f.name).join(', ')}`,
+    properties: {}
+  })
+}
+
+/**
+ * Cut a polygon along a line of [lat, lng] points into separate AOIs
+ * The pieces keep the original's colour, attributes, tags and creation time; throws unless the line divides the polygon
+ */
+export function splitPolygon(feature: AOIFeature, line: [number, number][]): AOIFeature[] {
+  if (line.length < 2) throw new Error('The split line needs at least 2 points')
+
+  const cut = buffer(lineString(line.map(([lat, lng]) => [lng, lat])), SPLIT_GAP, { units: 'meters' })
+  const result = cut && difference(featureCollection([toTurfFeature(feature), cut]))
+  const pieces = result ? toPolygons(result.geometry) : []
+  if (pieces.length < 2) throw new Error(`The line must cross "${feature.name}" completely`)
+
+  return pieces.map((rings, i) => ({
+    ...toAOIFeature(
+      { type: 'Polygon', coordinates: rings.map(ring => [...ring, ring[0]].map(([lat, lng]) => [lng, lat])) },
+      { name: `${feature.name} (${i + 1})`, properties: feature.properties ?? {}, color: feature.color }
+    ),
+    createdAt: feature.createdAt,
+    tags: feature.tags && [...feature.tags]
+  }))
+}
+
+/**
+ * Grow an AOI by a distance (a corridor, for lines), or shrink a polygonal one with a negative distance
+ * Distances are measured on the ground around the AOI, so the result is a geodesic buffer
+ */
+export function bufferFeature(feature: AOIFeature, distance: number, unit: DistanceUnit): AOIFeature {
+  if (!Number.isFinite(distance) || distance === 0) throw new Error('Enter a buffer distance other than 0')
+  if (distance < 0 && !isPolygonal(feature)) throw new Error('Markers and lines can only be buffered outwards')
+
+  const input = feature.type === 'marker'
+    ? point([(feature.coordinates as number[])[1], (feature.coordinates as number[])[0]])
+    : feature.type === 'polyline'
+    ? lineString((feature.coordinates as number[][]).map(([lat, lng]) => [lng, lat]))
+    : toTurfFeature(feature)
+  const result = buffer(input, distance, { units: unit, steps: 16 })
+  if (!result) throw new Error(`Nothing is left of "${feature.name}" after a ${distance} ${DISTANCE_UNIT_LABELS[unit]} buffer`)
+
+  return toAOIFeature(result.geometry, {
+    name: `${feature.name} buffer ${distance} ${DISTANCE_UNIT_LABELS[unit]}`,
+    properties: {}
+  })
+}
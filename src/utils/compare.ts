@@ -0,0 +1,54 @@
+import type { CompareSelection, LayerInfo } from '../types'
+
+interface PixelPoint {
+  x: number
+  y: number
+}
+
+/**
+ * Layers of the stack that can be compared (everything except the AOI features)
+ */
+export function getCompareCandidates(layers: LayerInfo[]): LayerInfo[] {
+  return layers.filter(l => l.source.type !== 'aoi')
+}
+
+/**
+ * Resolve the left/right layers to compare against the current stack
+ * Missing or identical picks fall back to the top-most visible layers; null if fewer than two layers exist
+ */
+export function resolveCompareSelection(
+  layers: LayerInfo[],
+  leftId: string | null,
+  rightId: string | null
+): CompareSelection | null {
+  const candidates = getCompareCandidates(layers)
+  if (candidates.length < 2) return null
+
+  const ids = candidates.map(l => l.id)
+  const byVisibility = [
+    ...candidates.filter(l => l.visible),
+    ...candidates.filter(l => !l.visible)
+  ].map(l => l.id)
+
+  const left = leftId && ids.includes(leftId) ? leftId : byVisibility[0]
+  const right = rightId && ids.includes(rightId) && rightId !== left
+    ? rightId
+    : byVisibility.find(id => id !== left)!
+
+  return { leftId: left, rightId: right }
+}
+
+/**
+ * CSS clip rectangles for the two halves of a swipe comparison
+ * nw/se are the map container corners in layer points, offsetX the divider position in container pixels
+ */
+export function getSwipeClipRects(nw: PixelPoint, se: PixelPoint, offsetX: number): { left: string; right: string } {
+  const clipX = nw.x + offsetX
+  const rect = (top: number, right: number, bottom: number, left: number) =>
+    `rect(${top}px, ${right}px, ${bottom}px, ${left}px)`
+
+  return {
+    left: rect(nw.y, clipX, se.y, nw.x),
+    right: rect(nw.y, se.x, se.y, clipX)
+  }
+}
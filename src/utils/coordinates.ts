@@ -0,0 +1,453 @@
+import { DISTANCE_UNIT_METERS, formatCoordinates, isValidCoordinate } from './mapUtils'
+import { createPointFeature, createPolygonFeature } from './importUtils'
+import type {
+  AOIFeature,
+  CoordinateDisplaySettings,
+  CoordinateFormat,
+  CoordinateQuery,
+  CoordinateShape,
+  DistanceUnit,
+  UtmCoordinate
+} from '../types'
+
+// WGS84 ellipsoid and UTM projection constants
+const A = 6378137
+const F = 1 / 298.257223563
+const E2 = F * (2 - F)
+const EP2 = E2 / (1 - E2)
+const K0 = 0.9996
+const FALSE_EASTING = 500000
+const FALSE_NORTHING_SOUTH = 10000000
+
+// Latitude bands of 8° from 80°S; X is stretched to 84°N
+const BANDS = 'CDEFGHJKLMNPQRSTUVWX'
+// MGRS 100 km square letters: columns repeat every 3 zones, rows every 2,000 km
+const COLUMN_SETS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ']
+const ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUV'
+// Open Location Code digits; each pair narrows the cell 20 times, down to 1/8000°
+const PLUS_CODE_DIGITS = '23456789CFGHJMPQRVWX'
+const PLUS_CODE_CELLS = 8000
+
+export const DEFAULT_COORDINATE_SETTINGS: CoordinateDisplaySettings = { format: 'dd', precision: 4 }
+
+export const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+  dd: 'Decimal degrees',
+  dms: 'Degrees, minutes, seconds',
+  ddm: 'Degrees, decimal minutes',
+  utm: 'UTM',
+  mgrs: 'MGRS',
+  pluscode: 'Plus Code'
+}
+
+const toRad = (deg: number) => deg * Math.PI / 180
+const toDeg = (rad: number) => rad * 180 / Math.PI
+
+function meridianArc(lat: number): number {
+  const [e4, e6] = [E2 * E2, E2 * E2 * E2]
+  return A * (
+    (1 - E2 / 4 - 3 * e4 / 64 - 5 * e6 / 256) * lat -
+    (3 * E2 / 8 + 3 * e4 / 32 + 45 * e6 / 1024) * Math.sin(2 * lat) +
+    (15 * e4 / 256 + 45 * e6 / 1024) * Math.sin(4 * lat) -
+    (35 * e6 / 3072) * Math.sin(6 * lat)
+  )
+}
+
+function getZone(lat: number, lng: number): number {
+  // Southwest Norway and Svalbard use widened zones
+  if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) return 32
+  if (lat >= 72 && lng >= 0 && lng < 42) {
+    if (lng < 9) return 31
+    if (lng < 21) return 33
+    if (lng < 33) return 35
+    return 37
+  }
+  return Math.min(Math.floor((lng + 180) / 6) + 1, 60)
+}
+
+function getBand(lat: number): string {
+  return BANDS[Math.min(Math.floor((lat + 80) / 8), BANDS.length - 1)]
+}
+
+function requireUtmLatitude(lat: number) {
+  if (lat < -80 || lat > 84) throw new Error('UTM and MGRS only cover latitudes from 80°S to 84°N')
+}
+
+/**
+ * Project a WGS84 position to UTM in its standard zone
+ */
+export function toUTM(lat: number, lng: number): UtmCoordinate {
+  requireUtmLatitude(lat)
+  const zone = getZone(lat, lng)
+  const phi = toRad(lat)
+  const lambda0 = toRad((zone - 1) * 6 - 180 + 3)
+
+  const n = A / Math.sqrt(1 - E2 * Math.sin(phi) ** 2)
+  const t = Math.tan(phi) ** 2
+  const c = EP2 * Math.cos(phi) ** 2
+  const a = Math.cos(phi) * (toRad(lng) - lambda0)
+
+  const easting = FALSE_EASTING + K0 * n * (
+    a + (1 - t + c) * a ** 3 / 6 + (5 - 18 * t + t * t + 72 * c - 58 * EP2) * a ** 5 / 120
+  )
+  const northing = K0 * (meridianArc(phi) + n * Math.tan(phi) * (
+    a * a / 2 +
+    (5 - t + 9 * c + 4 * c * c) * a ** 4 / 24 +
+    (61 - 58 * t + t * t + 600 * c - 330 * EP2) * a ** 6 / 720
+  ))
+
+  return {
+    zone,
+    hemisphere: lat < 0 ? 'S' : 'N',
+    easting,
+    northing: lat < 0 ? northing + FALSE_NORTHING_SOUTH : northing
+  }
+}
+
+/**
+ * Convert UTM coordinates back to a WGS84 [lat, lng] position
+ */
+export function fromUTM({ zone, hemisphere, easting, northing }: UtmCoordinate): [number, number] {
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2))
+  const m = (hemisphere === 'S' ? northing - FALSE_NORTHING_SOUTH : northing) / K0
+  const mu = m / (A * (1 - E2 / 4 - 3 * E2 * E2 / 64 - 5 * E2 ** 3 / 256))
+
+  const phi1 = mu +
+    (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu) +
+    (21 * e1 * e1 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu) +
+    (151 * e1 ** 3 / 96) * Math.sin(6 * mu) +
+    (1097 * e1 ** 4 / 512) * Math.sin(8 * mu)
+
+  const sin1 = Math.sin(phi1)
+  const n1 = A / Math.sqrt(1 - E2 * sin1 * sin1)
+  const t1 = Math.tan(phi1) ** 2
+  const c1 = EP2 * Math.cos(phi1) ** 2
+  const r1 = A * (1 - E2) / (1 - E2 * sin1 * sin1) ** 1.5
+  const d = (easting - FALSE_EASTING) / (n1 * K0)
+
+  const lat = phi1 - (n1 * Math.tan(phi1) / r1) * (
+    d * d / 2 -
+    (5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * EP2) * d ** 4 / 24 +
+    (61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * EP2 - 3 * c1 * c1) * d ** 6 / 720
+  )
+  const lng = (
+    d - (1 + 2 * t1 + c1) * d ** 3 / 6 +
+    (5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * EP2 + 24 * t1 * t1) * d ** 5 / 120
+  ) / Math.cos(phi1)
+
+  return [toDeg(lat), (zone - 1) * 6 - 180 + 3 + toDeg(lng)]
+}
+
+/**
+ * Format a WGS84 position as an MGRS grid reference
+ * precision is the number of digits per axis: 5 is 1 m, 1 is 10 km
+ */
+export function toMGRS(lat: number, lng: number, precision = 5): string {
+  const { zone, easting, northing } = toUTM(lat, lng)
+  const column = COLUMN_SETS[(zone - 1) % 3][Math.floor(easting / 100000) - 1]
+  const row = ROW_LETTERS[(Math.floor(northing / 100000) + (zone % 2 === 0 ? 5 : 0)) % 20]
+  // Grid references truncate rather than round, so they name the square the point lies in
+  const digits = (value: number) =>
+    String(Math.floor((value % 100000) / 10 ** (5 - precision))).padStart(precision, '0')
+  return `${zone}${getBand(lat)}${column}${row}${precision > 0 ? digits(easting) + digits(northing) : ''}`
+}
+
+/**
+ * Read an MGRS grid reference as the [lat, lng] of its southwest corner
+ */
+export function fromMGRS(text: string): [number, number] {
+  const match = /^(\d{1,2})\s*([C-HJ-NP-X])\s*([A-HJ-NP-Z])([A-HJ-NP-V])\s*(\d*)\s*(\d*)$/i.exec(text.trim())
+  if (!match) throw new Error(`"${text.trim()}" is not an MGRS grid reference`)
+
+  const zone = Number(match[1])
+  const [band, column, row] = [match[2], match[3], match[4]].map(s => s.toUpperCase())
+  const digits = match[5] + match[6]
+  if (zone < 1 || zone > 60) throw new Error('UTM zones run from 1 to 60')
+  if (digits.length % 2 !== 0 || digits.length > 10 || (match[6] && match[5].length !== match[6].length)) {
+    throw new Error('MGRS easting and northing need the same number of digits, at most 5 each')
+  }
+
+  const columnIndex = COLUMN_SETS[(zone - 1) % 3].indexOf(column)
+  if (columnIndex < 0) throw new Error(`Column letter ${column} is not used in zone ${zone}`)
+  const rowIndex = (ROW_LETTERS.indexOf(row) - (zone % 2 === 0 ? 5 : 0) + 20) % 20
+
+  const precision = digits.length / 2
+  const scale = 10 ** (5 - precision)
+  const easting = (columnIndex + 1) * 100000 + (precision ? Number(digits.slice(0, precision)) * scale : 0)
+  const northingInCycle = rowIndex * 100000 + (precision ? Number(digits.slice(precision)) * scale : 0)
+
+  // Row letters repeat every 2,000 km; pick the repetition that falls in the latitude band
+  const bandIndex = BANDS.indexOf(band)
+  const bandCenter = bandIndex === BANDS.length - 1 ? 78 : -80 + bandIndex * 8 + 4
+  const hemisphere = bandIndex >= BANDS.indexOf('N') ? 'N' : 'S'
+  let best: [number, number] | null = null
+  for (let cycle = 0; cycle < 5; cycle++) {
+    const position = fromUTM({ zone, hemisphere, easting, northing: northingInCycle + cycle * 2000000 })
+    if (!best || Math.abs(position[0] - bandCenter) < Math.abs(best[0] - bandCenter)) best = position
+  }
+  const [lat, lng] = best as [number, number]
+  // A square may straddle the band edge, so allow a degree of slack
+  if (Math.abs(lat - bandCenter) > (band === 'X' ? 7 : 5)) {
+    throw new Error(`Square ${column}${row} is not in latitude band ${band}`)
+  }
+  return [lat, lng]
+}
+
+/**
+ * Encode a position as a 10-digit Plus Code (Open Location Code), about 14 m across
+ */
+export function toPlusCode(lat: number, lng: number): string {
+  // Work in whole cells so repeated division does not drift
+  let latCells = Math.min(Math.floor((Math.max(-90, lat) + 90) * PLUS_CODE_CELLS), 180 * PLUS_CODE_CELLS - 1)
+  let lngCells = Math.floor((((lng + 180) % 360 + 360) % 360) * PLUS_CODE_CELLS)
+
+  let code = ''
+  for (let pair = 0; pair < 5; pair++) {
+    code = PLUS_CODE_DIGITS[latCells % 20] + PLUS_CODE_DIGITS[lngCells % 20] + code
+    latCells = Math.floor(latCells / 20)
+    lngCells = Math.floor(lngCells / 20)
+  }
+  return `${code.slice(0, 8)}+${code.slice(8)}`
+}
+
+/**
+ * Split an angle into whole degrees and minutes (or seconds) rounded to the given decimals,
+ * carrying over so a value never reads 60
+ */
+function toSexagesimal(value: number, parts: 2 | 3, decimals: number): number[] {
+  const scale = 10 ** decimals
+  const unit = parts === 2 ? 60 : 3600
+  let rest = Math.round(Math.abs(value) * unit * scale)
+  const degrees = Math.floor(rest / (unit * scale))
+  rest -= degrees * unit * scale
+  if (parts === 2) return [degrees, rest / scale]
+  const minutes = Math.floor(rest / (60 * scale))
+  return [degrees, minutes, (rest - minutes * 60 * scale) / scale]
+}
+
+function formatAngle(value: number, positive: string, negative: string, parts: 2 | 3): string {
+  const hemisphere = value >= 0 ? positive : negative
+  if (parts === 2) {
+    const [degrees, minutes] = toSexagesimal(value, 2, 3)
+    return `${degrees}°${minutes.toFixed(3)}'${hemisphere}`
+  }
+  const [degrees, minutes, seconds] = toSexagesimal(value, 3, 1)
+  return `${degrees}°${minutes}'${seconds.toFixed(1)}"${hemisphere}`
+}
+
+/**
+ * Format a position in the chosen display format
+ * UTM and MGRS fall back to decimal degrees near the poles, where they are undefined
+ */
+export function formatCoordinate(lat: number, lng: number, settings: CoordinateDisplaySettings): string {
+  const outsideUtm = lat < -80 || lat > 84
+
+  switch (settings.format) {
+    case 'dms':
+    case 'ddm': {
+      const parts = settings.format === 'dms' ? 3 : 2
+      return `${formatAngle(lat, 'N', 'S', parts)} ${formatAngle(lng, 'E', 'W', parts)}`
+    }
+    case 'utm': {
+      if (outsideUtm) break
+      const { zone, easting, northing } = toUTM(lat, lng)
+      return `${zone}${getBand(lat)} ${Math.floor(easting)} ${Math.floor(northing)}`
+    }
+    case 'mgrs': {
+      if (outsideUtm) break
+      const mgrs = toMGRS(lat, lng)
+      // Space out zone and band, square, easting and northing for reading
+      return mgrs.replace(/^(\d+[A-Z])([A-Z]{2})(\d{5})(\d{5})$/, '$1 $2 $3 $4')
+    }
+    case 'pluscode':
+      return toPlusCode(lat, lng)
+  }
+  return formatCoordinates(lat, lng, settings.precision)
+}
+
+type Token =
+  | { kind: 'number'; value: number; negative: boolean; mark: string | undefined }
+  | { kind: 'hemisphere'; letter: string }
+  | { kind: 'separator' }
+
+// A number with an optional degree, minute or second mark, a hemisphere letter, or a separator
+const TOKEN = /\s*(?:(-?(?:\d+(?:\.\d*)?|\.\d+))\s*(°|º|''|'|′|"|″)?|([NSEW])|([,;]))\s*/y
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  TOKEN.lastIndex = 0
+  while (TOKEN.lastIndex < text.length) {
+    const match = TOKEN.exec(text)
+    if (!match) throw new Error(`Could not read "${text.trim()}" as a coordinate`)
+    if (match[1] !== undefined) {
+      tokens.push({ kind: 'number', value: Math.abs(Number(match[1])), negative: match[1].startsWith('-'), mark: match[2] })
+    } else if (match[3]) {
+      tokens.push({ kind: 'hemisphere', letter: match[3] })
+    } else {
+      tokens.push({ kind: 'separator' })
+    }
+  }
+  return tokens
+}
+
+/**
+ * Split the tokens of a coordinate pair into its two axes
+ */
+function splitAxes(tokens: Token[]): [Token[], Token[]] {
+  const separators = tokens.filter(t => t.kind === 'separator').length
+  if (separators > 1) throw new Error('Separate latitude and longitude with a single comma')
+  if (separators === 1) {
+    const at = tokens.findIndex(t => t.kind === 'separator')
+    return [tokens.slice(0, at), tokens.slice(at + 1)]
+  }
+
+  const hemispheres = tokens.flatMap((t, i) => t.kind === 'hemisphere' ? [i] : [])
+  if (hemispheres.length > 0) {
+    // Letters lead each axis (N28 E77) or follow it (28N 77E)
+    const at = hemispheres[0] === 0 ? hemispheres[1] : hemispheres[0] + 1
+    if (at === undefined) throw new Error('Give both axes a hemisphere letter, or separate them with a comma')
+    return [tokens.slice(0, at), tokens.slice(at)]
+  }
+
+  // A marked degree value starts the second axis; without marks the numbers split evenly
+  const degrees = tokens.flatMap((t, i) => i > 0 && t.kind === 'number' && (t.mark === '°' || t.mark === 'º') ? [i] : [])
+  if (degrees.length === 1) return [tokens.slice(0, degrees[0]), tokens.slice(degrees[0])]
+  if (tokens.length % 2 === 0 && tokens.length <= 6) {
+    return [tokens.slice(0, tokens.length / 2), tokens.slice(tokens.length / 2)]
+  }
+  throw new Error('Separate latitude and longitude with a comma')
+}
+
+/**
+ * Read one axis in decimal degrees, degrees and decimal minutes, or degrees, minutes and seconds
+ */
+function readAxis(tokens: Token[]): { value: number; axis: 'lat' | 'lng' | null } {
+  const letters = tokens.filter(t => t.kind === 'hemisphere')
+  const numbers = tokens.filter(t => t.kind === 'number')
+  if (letters.length > 1) throw new Error('Each axis takes one hemisphere letter')
+  if (numbers.length === 0 || numbers.length > 3) throw new Error('Each axis needs degrees, optionally with minutes and seconds')
+  const letter = letters[0]?.letter
+
+  const marks = ['°º', '\'′', '"″\'\'']
+  const parts = [0, 0, 0]
+  numbers.forEach((n, i) => {
+    const slot = n.mark ? marks.findIndex(m => m.includes(n.mark as string)) : i
+    if (slot < i) throw new Error('Give degrees, minutes and seconds in that order')
+    if (i > 0 && n.negative) throw new Error('Only the degrees can be negative')
+    parts[slot] = n.value
+  })
+  const [, minutes, seconds] = parts
+  if (minutes >= 60 || seconds >= 60) throw new Error('Minutes and seconds must be less than 60')
+  if (numbers.length > 1 && !numbers.slice(0, -1).every(n => Number.isInteger(n.value))) {
+    throw new Error('Only the last of degrees, minutes and seconds can have decimals')
+  }
+
+  const negative = numbers[0].negative
+  if (negative && letter) throw new Error('Use either a minus sign or a hemisphere letter, not both')
+  const value = parts[0] + minutes / 60 + seconds / 3600
+  return {
+    value: negative || letter === 'S' || letter === 'W' ? -value : value,
+    axis: letter ? (letter === 'N' || letter === 'S' ? 'lat' : 'lng') : null
+  }
+}
+
+/**
+ * Read a position typed as decimal degrees, DMS, DDM, UTM or MGRS into [lat, lng]
+ * Unlabelled degree pairs are read latitude first; throws a message suitable for the user
+ */
+export function parseCoordinate(text: string): [number, number] {
+  const input = text.trim().toUpperCase()
+  if (!input) throw new Error('Enter a coordinate')
+
+  let position: [number, number]
+  const utm = /^(\d{1,2})\s*([C-HJ-NP-X])[\s,]+(\d{6}(?:\.\d+)?)\s*(?:M?E)?[\s,]+(\d+(?:\.\d+)?)\s*(?:M?N)?$/.exec(input)
+  if (utm) {
+    const zone = Number(utm[1])
+    if (zone < 1 || zone > 60) throw new Error('UTM zones run from 1 to 60')
+    const [easting, northing] = [Number(utm[3]), Number(utm[4])]
+    if (easting < 100000 || easting >= 900000) throw new Error('UTM easting must be between 100000 and 900000')
+    if (northing > FALSE_NORTHING_SOUTH) throw new Error('UTM northing must be at most 10000000')
+    position = fromUTM({ zone, hemisphere: utm[2] >= 'N' ? 'N' : 'S', easting, northing })
+  } else if (/^\d{1,2}\s*[C-HJ-NP-X]\s*[A-HJ-NP-Z][A-HJ-NP-V]/.test(input)) {
+    position = fromMGRS(input)
+  } else {
+    const [first, second] = splitAxes(tokenize(input)).map(readAxis)
+    if (first.axis && first.axis === second.axis) {
+      throw new Error('Give one latitude (N/S) and one longitude (E/W)')
+    }
+    position = first.axis === 'lng' || second.axis === 'lat'
+      ? [second.value, first.value]
+      : [first.value, second.value]
+  }
+
+  const [lat, lng] = position
+  if (!isValidCoordinate(lat, lng)) {
+    throw new Error('Latitude must be between -90 and 90 and longitude between -180 and 180')
+  }
+  return position
+}
+
+/**
+ * Read four comma-separated numbers as a bounding box in the usual west, south, east, north order
+ * The commas tell it apart from degrees and minutes split by spaces
+ */
+function parseBoundingBox(text: string): [number, number, number, number] | null {
+  const match = /^\s*(?:bbox\s*[:=]?\s*)?(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/i.exec(text)
+  if (!match) return null
+
+  const [west, south, east, north] = match.slice(1).map(Number)
+  if (!isValidCoordinate(south, west) || !isValidCoordinate(north, east)) return null
+  return west < east && south < north ? [west, south, east, north] : null
+}
+
+/**
+ * Recognise search box input that needs no geocoder: a bounding box or any position parseCoordinate reads
+ * Returns null for everything else, which is then looked up as a place name
+ */
+export function parseCoordinateQuery(text: string): CoordinateQuery | null {
+  const bbox = parseBoundingBox(text)
+  if (bbox) return { kind: 'bbox', bbox }
+
+  try {
+    return { kind: 'point', point: parseCoordinate(text) }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Build an AOI from typed positions: one for a marker, two opposite corners for a rectangle,
+ * three or more vertices for a polygon, or a center and radius for a circle
+ */
+export function createCoordinateFeature(
+  shape: CoordinateShape,
+  points: [number, number][],
+  name: string,
+  radius?: { value: number; unit: DistanceUnit }
+): AOIFeature {
+  const source = { name, properties: {} }
+
+  switch (shape) {
+    case 'marker':
+      return createPointFeature(points[0], source, () => {})
+
+    case 'circle': {
+      const meters = radius ? radius.value * DISTANCE_UNIT_METERS[radius.unit] : 0
+      if (!(meters > 0)) throw new Error('Enter a radius greater than 0')
+      return createPointFeature(points[0], { name, properties: { radius: meters } }, () => {})
+    }
+
+    case 'rectangle': {
+      const [[lat1, lng1], [lat2, lng2]] = points
+      if (lat1 === lat2 || lng1 === lng2) throw new Error('The corners must differ in both latitude and longitude')
+      const [south, north, west, east] = [Math.min(lat1, lat2), Math.max(lat1, lat2), Math.min(lng1, lng2), Math.max(lng1, lng2)]
+      return createPolygonFeature([[south, west], [north, west], [north, east], [south, east]], {
+        name,
+        properties: { type: 'rectangle' }
+      })
+    }
+
+    case 'polygon':
+      if (points.length < 3) throw new Error('A polygon needs at least 3 vertices')
+      return createPolygonFeature(points, source)
+  }
+}
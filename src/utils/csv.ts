@@ -0,0 +1,189 @@
+import { readFeatureRows, getExportProperties, type FeatureRow } from './geojson'
+import { parseWKT, featureToWKT } from './wkt'
+import type { AOIFeature, AttributeField, CsvColumnMapping, CsvTable, ImportResult } from '../types'
+
+const DELIMITERS = [',', ';', '\t']
+
+// Header names recognised when guessing the column mapping (compared lower case)
+const COLUMN_NAMES = {
+  lat: ['lat', 'latitude', 'y', 'lat_dd', 'point_y'],
+  lon: ['lon', 'lng', 'long', 'longitude', 'x', 'lon_dd', 'point_x'],
+  wkt: ['wkt', 'geometry', 'geom', 'the_geom', 'shape'],
+  name: ['name', 'title', 'label']
+}
+
+/**
+ * Pick the delimiter that occurs most often outside quotes in the header line
+ */
+function detectDelimiter(text: string): string {
+  const counts = new Map(DELIMITERS.map(d => [d, 0]))
+  let quoted = false
+  for (const char of text) {
+    if (char === '"') quoted = !quoted
+    else if (!quoted && (char === '\n' || char === '\r')) break
+    else if (!quoted && counts.has(char)) counts.set(char, counts.get(char)! + 1)
+  }
+  return DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best))
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting; comma, semicolon or tab delimited) into a header and rows
+ * Blank lines are skipped and short rows are padded to the header width
+ */
+export function parseCSV(text: string): CsvTable {
+  const source = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(source)
+  const records: string[][] = []
+  let record: string[] = []
+  let cell = ''
+  let quoted = false
+
+  const endRecord = () => {
+    record.push(cell)
+    if (record.length > 1 || record[0].trim() !== '') records.push(record)
+    record = []
+    cell = ''
+  }
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      record.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      endRecord()
+    } else {
+      cell += char
+    }
+  }
+  if (quoted) throw new Error('CSV has an unterminated quoted value')
+  if (cell !== '' || record.length > 0) endRecord()
+
+  if (records.length === 0) throw new Error('CSV file is empty')
+  const headers = records[0].map(h => h.trim())
+  const rows = records.slice(1).map(r => headers.map((_, i) => r[i] ?? ''))
+  return { headers, rows }
+}
+
+/**
+ * Guess the geometry and name columns from the header names
+ * WKT is preferred when present, since it can hold polygons as well as points
+ */
+export function guessCsvMapping(headers: string[]): CsvColumnMapping {
+  const find = (names: string[]) => {
+    const index = headers.findIndex(h => names.includes(h.trim().toLowerCase()))
+    return index >= 0 ? index : null
+  }
+
+  const mapping = {
+    lat: find(COLUMN_NAMES.lat),
+    lon: find(COLUMN_NAMES.lon),
+    wkt: find(COLUMN_NAMES.wkt),
+    name: find(COLUMN_NAMES.name)
+  }
+  const geometry = mapping.wkt === null && mapping.lat !== null && mapping.lon !== null ? 'latlon' : 'wkt'
+  return { geometry, ...mapping }
+}
+
+/**
+ * Check that the mapping names the columns its geometry mode needs
+ */
+export function isCsvMappingComplete(mapping: CsvColumnMapping): boolean {
+  return mapping.geometry === 'wkt' ? mapping.wkt !== null : mapping.lat !== null && mapping.lon !== null
+}
+
+function parseNumber(value: string, label: string): number {
+  // Accept decimal commas, common in semicolon-delimited spreadsheets
+  const number = Number(value.trim().replace(',', '.'))
+  if (value.trim() === '' || !Number.isFinite(number)) throw new Error(`Invalid ${label} "${value}"`)
+  return number
+}
+
+/**
+ * Convert CSV rows into AOI features using a column mapping
+ * Unmapped, non-empty columns are kept as attributes; a "radius" column turns lat/lon points into circles
+ */
+export function readCSV(table: CsvTable, mapping: CsvColumnMapping, existingCount = 0): ImportResult {
+  if (!isCsvMappingComplete(mapping)) {
+    throw new Error(mapping.geometry === 'wkt' ? 'Choose the WKT column' : 'Choose the latitude and longitude columns')
+  }
+  if (table.rows.length === 0) throw new Error('CSV file has no data rows')
+
+  const mapped = [mapping.lat, mapping.lon, mapping.wkt, mapping.name]
+  const rows = table.rows.map((row, i): FeatureRow => {
+    const properties: Record<string, unknown> = {}
+    table.headers.forEach((header, column) => {
+      if (!mapped.includes(column) && header && row[column].trim() !== '') properties[header] = row[column]
+    })
+    if (mapping.name !== null && row[mapping.name].trim()) properties.name = row[mapping.name].trim()
+
+    try {
+      const geometry = mapping.geometry === 'wkt'
+        ? parseWKT(row[mapping.wkt!])
+        : {
+            type: 'Point',
+            coordinates: [parseNumber(row[mapping.lon!], 'longitude'), parseNumber(row[mapping.lat!], 'latitude')]
+          }
+      return { feature: { type: 'Feature', geometry, properties } }
+    } catch (err) {
+      return { name: typeof properties.name === 'string' ? properties.name : `Row ${i + 1}`, error: (err as Error).message }
+    }
+  })
+
+  return readFeatureRows(rows, existingCount)
+}
+
+/**
+ * Parse CSV text with the guessed column mapping, as used for dropped files
+ */
+export function parseCSVFeatures(text: string, existingCount = 0): ImportResult {
+  const table = parseCSV(text)
+  const mapping = guessCsvMapping(table.headers)
+  if (!isCsvMappingComplete(mapping)) {
+    throw new Error('No WKT or latitude/longitude columns found; use the WKT/CSV dialog to map columns')
+  }
+  return readCSV(table, mapping, existingCount)
+}
+
+function escapeCell(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  const text = typeof value === 'string' ? value : typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serialize AOI features as CSV with a WKT geometry column, followed by the schema's attribute columns
+ * Markers and circles also get lat/lon columns so spreadsheets can use them directly
+ */
+export function buildCSV(features: AOIFeature[], schema: AttributeField[] = []): string {
+  const records = features.map(feature => {
+    const { name, ...properties } = getExportProperties(feature, schema)
+    const point = feature.type === 'marker'
+      ? feature.coordinates as number[]
+      : feature.type === 'circle' ? (feature.coordinates as { center: number[] }).center : null
+    return { name, wkt: featureToWKT(feature), lat: point?.[0], lon: point?.[1], ...properties }
+  })
+
+  const headers = Array.from(new Set([
+    'name', 'wkt', 'lat', 'lon',
+    ...schema.map(field => field.key),
+    ...records.flatMap(r => Object.keys(r))
+  ]))
+  const lines = [
+    headers.join(','),
+    ...records.map(record => headers.map(h => escapeCell((record as Record<string, unknown>)[h])).join(','))
+  ]
+  return lines.join('\r\n') + '\r\n'
+}
@@ -0,0 +1,455 @@
+import { FEATURE_COLORS } from './mapUtils'
+import { isRecord } from './importUtils'
+import { EMPTY_HISTORY } from './history'
+import type { AOIFeature, FeatureHistory, FeatureStore, FeatureType, StoredFeatures } from '../types'
+
+export const DB_NAME = 'aoi-creation'
+// Project that AOIs saved before there were projects belong to
+export const DEFAULT_PROJECT_ID = 'default'
+// Keys the AOI list and its undo history were kept under before IndexedDB
+export const LEGACY_FEATURES_KEY = 'aoi-features'
+export const LEGACY_HISTORY_KEY = 'aoi-history'
+
+const FEATURES_STORE = 'features'
+const PROJECT_INDEX = 'projectId'
+// Per-project values, keyed by [projectId, name]
+const META_STORE = 'meta'
+// Records that could not be read, kept aside instead of being deleted
+const QUARANTINE_STORE = 'quarantine'
+const ORDER_KEY = 'order'
+const HISTORY_KEY = 'history'
+const metaKey = (projectId: string, key: string) => [projectId, key]
+
+const FEATURE_TYPES: FeatureType[] = ['polygon', 'rectangle', 'circle', 'marker', 'multipolygon', 'polyline']
+
+// Database schema upgrades, indexed by the version they upgrade from
+const SCHEMA_UPGRADES: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  db => {
+    db.createObjectStore(FEATURES_STORE, { keyPath: 'id' })
+    db.createObjectStore(META_STORE)
+    db.createObjectStore(QUARANTINE_STORE, { autoIncrement: true })
+  },
+  // Projects: existing AOIs, their order and history move into the default project
+  (_db, tx) => {
+    const featureStore = tx.objectStore(FEATURES_STORE)
+    featureStore.createIndex(PROJECT_INDEX, 'projectId')
+    const cursorRequest = featureStore.openCursor()
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (!cursor) return
+      if (isRecord(cursor.value)) cursor.update({ ...cursor.value, projectId: DEFAULT_PROJECT_ID })
+      cursor.continue()
+    }
+
+    const metaStore = tx.objectStore(META_STORE)
+    for (const key of [ORDER_KEY, HISTORY_KEY]) {
+      const request = metaStore.get(key)
+      request.onsuccess = () => {
+        if (request.result !== undefined) metaStore.put(request.result, metaKey(DEFAULT_PROJECT_ID, key))
+        metaStore.delete(key)
+      }
+    }
+  }
+]
+const DB_VERSION = SCHEMA_UPGRADES.length
+
+// Upgrades of the stored AOIFeature shape, indexed by the version they upgrade from
+// Version 0 is the localStorage era, whose features may lack a colour or creation date
+const RECORD_MIGRATIONS: ((feature: Record<string, unknown>) => Record<string, unknown>)[] = [
+  feature => ({
+    ...feature,
+    color: typeof feature.color === 'string'
+      ? feature.color
+      : FEATURE_COLORS[feature.type as FeatureType] ?? FEATURE_COLORS.polygon,
+    createdAt: typeof feature.createdAt === 'string' ? feature.createdAt : new Date().toISOString()
+  })
+]
+export const RECORD_VERSION = RECORD_MIGRATIONS.length
+
+// One AOI as stored, tagged with its project and the version of its shape
+interface FeatureRecord {
+  id: string
+  projectId: string
+  version: number
+  feature: AOIFeature
+}
+
+// Writes needed to turn the stored list into a new version of it
+export interface FeatureWritePlan {
+  put: AOIFeature[]
+  remove: string[]
+  // New display order, or null when it is unchanged
+  order: string[] | null
+}
+
+const isPosition = (value: unknown) =>
+  Array.isArray(value) && value.length >= 2 && value.every(n => typeof n === 'number' && Number.isFinite(n))
+
+const isPath = (value: unknown) => Array.isArray(value) && value.length >= 2 && value.every(isPosition)
+
+function hasValidCoordinates(type: FeatureType, coordinates: unknown): boolean {
+  switch (type) {
+    case 'marker':
+      return isPosition(coordinates)
+    case 'circle':
+      return isRecord(coordinates) && isPosition(coordinates.center) &&
+        typeof coordinates.radius === 'number' && coordinates.radius > 0
+    case 'multipolygon':
+      return Array.isArray(coordinates) && coordinates.length > 0 &&
+        coordinates.every(rings => Array.isArray(rings) && rings.length > 0 && rings.every(isPath))
+    default:
+      return isPath(coordinates)
+  }
+}
+
+/**
+ * Check that a value has the fields every AOIFeature needs, with coordinates that fit its type
+ */
+export function isFeature(value: unknown): value is AOIFeature {
+  return isRecord(value) &&
+    typeof value.id === 'string' && value.id !== '' &&
+    typeof value.name === 'string' &&
+    typeof value.color === 'string' &&
+    typeof value.createdAt === 'string' &&
+    (value.tags === undefined || (Array.isArray(value.tags) && value.tags.every(tag => typeof tag === 'string'))) &&
+    FEATURE_TYPES.includes(value.type as FeatureType) &&
+    hasValidCoordinates(value.type as FeatureType, value.coordinates)
+}
+
+/**
+ * Bring a stored feature up to the current shape, or null if it is damaged or from a newer version of the app
+ */
+export function migrateFeature(value: unknown, version: number): AOIFeature | null {
+  if (!isRecord(value) || !Number.isInteger(version) || version < 0 || version > RECORD_VERSION) return null
+  const migrated = RECORD_MIGRATIONS.slice(version).reduce((feature, migrate) => migrate(feature), value)
+  return isFeature(migrated) ? migrated : null
+}
+
+/**
+ * Read one record of the features store
+ */
+export function readFeatureRecord(record: unknown): AOIFeature | null {
+  if (!isRecord(record) || typeof record.version !== 'number') return null
+  const feature = migrateFeature(record.feature, record.version)
+  return feature && feature.id === record.id ? feature : null
+}
+
+/**
+ * Read the AOI list from the value of the old localStorage key
+ * Unreadable entries are returned separately so they can be kept aside
+ */
+export function readLegacyFeatures(text: string): { features: AOIFeature[]; corrupt: unknown[] } {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { features: [], corrupt: [text] }
+  }
+  if (!Array.isArray(data)) return { features: [], corrupt: [data] }
+
+  const features: AOIFeature[] = []
+  const corrupt: unknown[] = []
+  data.forEach(item => {
+    const feature = migrateFeature(item, 0)
+    if (feature) features.push(feature)
+    else corrupt.push(item)
+  })
+  return { features, corrupt }
+}
+
+/**
+ * Sort features into the stored display order; any missing from it go last
+ */
+export function orderFeatures<T extends { id: string }>(features: T[], order: unknown): T[] {
+  const ids = Array.isArray(order) ? order : []
+  const rank = new Map(ids.map((id, index) => [id, index]))
+  return [...features].sort((a, b) => (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity))
+}
+
+/**
+ * Display order of the default project once AOIs from the old localStorage keys are merged into it
+ * Stored AOIs keep their place, legacy ones with a stored id replace it in place and the rest go last
+ */
+export function mergeLegacyOrder(storedIds: string[], order: unknown, legacyIds: string[]): string[] {
+  const stored = orderFeatures(storedIds.map(id => ({ id })), order).map(f => f.id)
+  const storedSet = new Set(stored)
+  return [...stored, ...legacyIds.filter(id => !storedSet.has(id))]
+}
+
+/**
+ * Work out the per-feature writes between two versions of the AOI list
+ * Features are compared by reference, since every change replaces the changed feature objects
+ */
+export function planFeatureWrites(prev: AOIFeature[], next: AOIFeature[]): FeatureWritePlan {
+  const prevById = new Map(prev.map(f => [f.id, f]))
+  const nextIds = new Set(next.map(f => f.id))
+  const sameOrder = prev.length === next.length && prev.every((f, i) => f.id === next[i].id)
+
+  return {
+    put: next.filter(f => prevById.get(f.id) !== f),
+    remove: prev.filter(f => !nextIds.has(f.id)).map(f => f.id),
+    order: sameOrder ? null : next.map(f => f.id)
+  }
+}
+
+export const isHistory = (value: unknown): value is FeatureHistory =>
+  isRecord(value) && Array.isArray(value.past) && Array.isArray(value.future)
+
+/**
+ * Tell quota errors, which the user can act on, from other storage failures
+ */
+export function isQuotaError(error: unknown): boolean {
+  return error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onabort = () => reject(tx.error ?? new Error('Storage transaction was aborted'))
+    tx.onerror = () => reject(tx.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available'))
+
+  const request = indexedDB.open(DB_NAME, DB_VERSION)
+  request.onupgradeneeded = (event) => {
+    const tx = request.transaction
+    if (!tx) return
+    for (let version = event.oldVersion; version < DB_VERSION; version++) {
+      SCHEMA_UPGRADES[version](request.result, tx)
+    }
+  }
+  return requestResult(request)
+}
+
+const toRecord = (projectId: string, feature: AOIFeature): FeatureRecord =>
+  ({ id: feature.id, projectId, version: RECORD_VERSION, feature })
+
+/**
+ * Delete a project's records other than those to keep
+ * Keeping the rewritten ones, rather than clearing first, lets the puts of the same transaction go in any order
+ */
+function deleteProjectRecords(store: IDBObjectStore, projectId: string, keep: Set<string>) {
+  const request = store.index(PROJECT_INDEX).openKeyCursor(IDBKeyRange.only(projectId))
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (!cursor) return
+    if (!keep.has(String(cursor.primaryKey))) store.delete(cursor.primaryKey)
+    cursor.continue()
+  }
+}
+
+const quarantine = (store: IDBObjectStore, value: unknown, reason: string) =>
+  store.add({ reason, value, savedAt: new Date().toISOString() })
+
+/**
+ * Merge the AOIs still under the old localStorage keys into the default project, then remove the keys
+ * Older copies of the app may keep writing there, so this runs on every load, whichever project is open
+ */
+async function importLegacyFeatures(db: IDBDatabase): Promise<number> {
+  const featuresText = window.localStorage.getItem(LEGACY_FEATURES_KEY)
+  if (featuresText === null) return 0
+
+  const { features, corrupt } = readLegacyFeatures(featuresText)
+  const historyText = window.localStorage.getItem(LEGACY_HISTORY_KEY)
+  let history: unknown = null
+  try {
+    history = historyText ? JSON.parse(historyText) : null
+  } catch {
+    // A damaged undo history is simply not carried over
+  }
+
+  const tx = db.transaction([FEATURES_STORE, META_STORE, QUARANTINE_STORE], 'readwrite')
+  const featureStore = tx.objectStore(FEATURES_STORE)
+  const metaStore = tx.objectStore(META_STORE)
+  // Requests of a transaction succeed in the order they were made, so the keys are in by the time the order is
+  const keysRequest = featureStore.index(PROJECT_INDEX).getAllKeys(DEFAULT_PROJECT_ID)
+  const orderRequest = metaStore.get(metaKey(DEFAULT_PROJECT_ID, ORDER_KEY))
+  orderRequest.onsuccess = () => {
+    const storedIds = keysRequest.result.map(String)
+    features.forEach(f => featureStore.put(toRecord(DEFAULT_PROJECT_ID, f)))
+    metaStore.put(mergeLegacyOrder(storedIds, orderRequest.result, features.map(f => f.id)), metaKey(DEFAULT_PROJECT_ID, ORDER_KEY))
+    // The old undo history only knows the legacy AOIs, so it is kept only when there were no others
+    if (storedIds.length === 0 && isHistory(history)) metaStore.put(history, metaKey(DEFAULT_PROJECT_ID, HISTORY_KEY))
+  }
+  corrupt.forEach(value => quarantine(tx.objectStore(QUARANTINE_STORE), value, 'Unreadable localStorage feature'))
+  await transactionDone(tx)
+
+  window.localStorage.removeItem(LEGACY_FEATURES_KEY)
+  window.localStorage.removeItem(LEGACY_HISTORY_KEY)
+  return corrupt.length
+}
+
+async function loadFeatures(db: IDBDatabase, projectId: string): Promise<StoredFeatures> {
+  const recoveredLegacy = await importLegacyFeatures(db)
+
+  const readTx = db.transaction([FEATURES_STORE, META_STORE], 'readonly')
+  const [records, order, history] = await Promise.all([
+    requestResult(readTx.objectStore(FEATURES_STORE).index(PROJECT_INDEX).getAll(projectId)),
+    requestResult(readTx.objectStore(META_STORE).get(metaKey(projectId, ORDER_KEY))),
+    requestResult(readTx.objectStore(META_STORE).get(metaKey(projectId, HISTORY_KEY)))
+  ])
+
+  const features: AOIFeature[] = []
+  const upgraded: AOIFeature[] = []
+  const corrupt: unknown[] = []
+  records.forEach((record: unknown) => {
+    const feature = readFeatureRecord(record)
+    if (!feature) corrupt.push(record)
+    else {
+      features.push(feature)
+      if (isRecord(record) && record.version !== RECORD_VERSION) upgraded.push(feature)
+    }
+  })
+
+  // Rewrite migrated records in the current shape and move damaged ones aside
+  if (upgraded.length > 0 || corrupt.length > 0) {
+    const repairTx = db.transaction([FEATURES_STORE, QUARANTINE_STORE], 'readwrite')
+    const featureStore = repairTx.objectStore(FEATURES_STORE)
+    upgraded.forEach(f => featureStore.put(toRecord(projectId, f)))
+    corrupt.forEach(record => {
+      if (isRecord(record) && (typeof record.id === 'string' || typeof record.id === 'number')) featureStore.delete(record.id)
+      quarantine(repairTx.objectStore(QUARANTINE_STORE), record, 'Unreadable feature record')
+    })
+    await transactionDone(repairTx)
+  }
+
+  return {
+    features: orderFeatures(features, order),
+    history: isHistory(history) ? history : EMPTY_HISTORY,
+    recovered: recoveredLegacy + corrupt.length
+  }
+}
+
+function writeFeatures(
+  db: IDBDatabase,
+  projectId: string,
+  plan: FeatureWritePlan,
+  history: FeatureHistory | null | undefined,
+  replaceAll: boolean
+): Promise<void> {
+  const tx = db.transaction([FEATURES_STORE, META_STORE], 'readwrite')
+  const featureStore = tx.objectStore(FEATURES_STORE)
+  const metaStore = tx.objectStore(META_STORE)
+
+  if (replaceAll) deleteProjectRecords(featureStore, projectId, new Set(plan.put.map(f => f.id)))
+  plan.remove.forEach(id => featureStore.delete(id))
+  plan.put.forEach(f => featureStore.put(toRecord(projectId, f)))
+  if (plan.order) metaStore.put(plan.order, metaKey(projectId, ORDER_KEY))
+  if (history === null) metaStore.delete(metaKey(projectId, HISTORY_KEY))
+  else if (history) metaStore.put(history, metaKey(projectId, HISTORY_KEY))
+  return transactionDone(tx)
+}
+
+const fullWritePlan = (features: AOIFeature[]): FeatureWritePlan =>
+  ({ put: features, remove: [], order: features.map(f => f.id) })
+
+/**
+ * Open the AOI database, creating or upgrading it as needed
+ * Writes run one at a time in the order they were made; after a failed write the project's next one rewrites every feature
+ */
+export async function openFeatureStore(): Promise<FeatureStore> {
+  const db = await openDatabase()
+  // Let other tabs upgrade or delete the database
+  db.onversionchange = () => db.close()
+
+  let queue: Promise<unknown> = Promise.resolve()
+  // Projects whose stored AOIs may no longer match what was last saved
+  const needsFullWrite = new Set<string>()
+  // Cleared once the undo history had to be given up to make room
+  let keepHistory = true
+
+  const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+    const run = queue.then(task)
+    queue = run.catch(() => undefined)
+    return run
+  }
+
+  return {
+    load: projectId => enqueue(() => loadFeatures(db, projectId)),
+
+    save: (projectId, prev, next, history) => enqueue(async () => {
+      const replaceAll = needsFullWrite.has(projectId)
+      const plan = replaceAll ? fullWritePlan(next) : planFeatureWrites(prev, next)
+      try {
+        await writeFeatures(db, projectId, plan, keepHistory ? history : undefined, replaceAll)
+        needsFullWrite.delete(projectId)
+        return 'saved'
+      } catch (error) {
+        if (!isQuotaError(error) || !keepHistory) {
+          needsFullWrite.add(projectId)
+          throw error
+        }
+      }
+
+      // The undo history is the first thing to go when space runs out
+      try {
+        await writeFeatures(db, projectId, plan, null, replaceAll)
+        needsFullWrite.delete(projectId)
+        keepHistory = false
+        return 'history-dropped'
+      } catch (error) {
+        needsFullWrite.add(projectId)
+        throw error
+      }
+    }),
+
+    replace: (projectId, features) => enqueue(async () => {
+      await writeFeatures(db, projectId, fullWritePlan(features), null, true)
+      needsFullWrite.delete(projectId)
+    }),
+
+    remove: projectId => enqueue(() => {
+      const tx = db.transaction([FEATURES_STORE, META_STORE], 'readwrite')
+      deleteProjectRecords(tx.objectStore(FEATURES_STORE), projectId, new Set())
+      tx.objectStore(META_STORE).delete(metaKey(projectId, ORDER_KEY))
+      tx.objectStore(META_STORE).delete(metaKey(projectId, HISTORY_KEY))
+      needsFullWrite.delete(projectId)
+      return transactionDone(tx)
+    }),
+
+    close: () => db.close()
+  }
+}
+
+/**
+ * Keep AOIs in memory only, for browsers where the AOI database cannot be opened
+ * Nothing survives a reload, but projects can still be switched within the session
+ */
+export function createMemoryFeatureStore(): FeatureStore {
+  const projects = new Map<string, Omit<StoredFeatures, 'recovered'>>()
+
+  return {
+    load: async projectId => ({ features: [], history: EMPTY_HISTORY, ...projects.get(projectId), recovered: 0 }),
+    save: async (projectId, _prev, next, history) => {
+      projects.set(projectId, { features: next, history: history ?? projects.get(projectId)?.history ?? EMPTY_HISTORY })
+      return 'saved'
+    },
+    replace: async (projectId, features) => {
+      projects.set(projectId, { features, history: EMPTY_HISTORY })
+    },
+    remove: async projectId => {
+      projects.delete(projectId)
+    },
+    close: () => projects.clear()
+  }
+}
+
+/**
+ * Delete the AOI database, e.g. when clearing all data
+ * Open connections close themselves when asked, so this does not wait on other tabs
+ */
+export function deleteFeatureDatabase(): Promise<void> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve()
+  return requestResult(indexedDB.deleteDatabase(DB_NAME)).then(() => undefined)
+}
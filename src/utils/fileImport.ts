@@ -0,0 +1,59 @@
+import { parseGeoJSON } from './geojson'
+import { parseKML, parseKMZ } from './kml'
+import { parseWKTFeatures } from './wkt'
+import { parseCSVFeatures } from './csv'
+import type { ImportResult } from '../types'
+
+interface FileImporter {
+  extensions: string[]
+  read: (file: File, existingCount: number) => Promise<ImportResult>
+}
+
+// Supported vector formats, matched by file extension
+const IMPORTERS: FileImporter[] = [
+  {
+    extensions: ['.geojson', '.json'],
+    read: async (file, existingCount) => parseGeoJSON(await file.text(), existingCount)
+  },
+  {
+    extensions: ['.kml'],
+    read: async (file, existingCount) => parseKML(await file.text(), existingCount)
+  },
+  {
+    extensions: ['.kmz'],
+    read: async (file, existingCount) => parseKMZ(new Uint8Array(await file.arrayBuffer()), existingCount)
+  },
+  {
+    extensions: ['.wkt'],
+    read: async (file, existingCount) => parseWKTFeatures(await file.text(), existingCount)
+  },
+  {
+    // Columns are guessed from the header; the WKT/CSV dialog allows mapping them by hand
+    extensions: ['.csv'],
+    read: async (file, existingCount) => parseCSVFeatures(await file.text(), existingCount)
+  },
+  {
+    // Zipped shapefile: .shp with its .shx, .dbf, .prj and .cpg
+    // Loaded on demand, since reprojection pulls in proj4
+    extensions: ['.zip'],
+    read: async (file, existingCount) => {
+      const { parseShapefileZip } = await import('./shapefile')
+      return parseShapefileZip(new Uint8Array(await file.arrayBuffer()), existingCount)
+    }
+  }
+]
+
+// Value for the file picker's accept attribute
+export const IMPORT_ACCEPT = IMPORTERS.flatMap(i => i.extensions).join(',')
+
+/**
+ * Read AOI features from a dropped or picked file
+ */
+export async function importFile(file: File, existingCount: number): Promise<ImportResult> {
+  const name = file.name.toLowerCase()
+  const importer = IMPORTERS.find(i => i.extensions.some(ext => name.endsWith(ext)))
+  if (!importer) {
+    throw new Error(`Unsupported file type (expected ${IMPORT_ACCEPT.replace(/,/g, ', ')})`)
+  }
+  return importer.read(file, existingCount)
+}
@@ -0,0 +1,108 @@
+import type { SearchResult } from '../types'
+
+interface GazetteerPlace {
+  name: string
+  // Region and country, most specific first
+  context: string
+  lat: number
+  lon: number
+  type: string
+}
+
+// Places known without a network connection: Indian state capitals and large cities, then world capitals
+const PLACES: GazetteerPlace[] = [
+  { name: 'New Delhi', context: 'Delhi, India', lat: 28.6139, lon: 77.209, type: 'city' },
+  { name: 'Mumbai', context: 'Maharashtra, India', lat: 19.076, lon: 72.8777, type: 'city' },
+  { name: 'Kolkata', context: 'West Bengal, India', lat: 22.5726, lon: 88.3639, type: 'city' },
+  { name: 'Chennai', context: 'Tamil Nadu, India', lat: 13.0827, lon: 80.2707, type: 'city' },
+  { name: 'Bengaluru', context: 'Karnataka, India', lat: 12.9716, lon: 77.5946, type: 'city' },
+  { name: 'Hyderabad', context: 'Telangana, India', lat: 17.385, lon: 78.4867, type: 'city' },
+  { name: 'Ahmedabad', context: 'Gujarat, India', lat: 23.0225, lon: 72.5714, type: 'city' },
+  { name: 'Pune', context: 'Maharashtra, India', lat: 18.5204, lon: 73.8567, type: 'city' },
+  { name: 'Jaipur', context: 'Rajasthan, India', lat: 26.9124, lon: 75.7873, type: 'city' },
+  { name: 'Lucknow', context: 'Uttar Pradesh, India', lat: 26.8467, lon: 80.9462, type: 'city' },
+  { name: 'Bhopal', context: 'Madhya Pradesh, India', lat: 23.2599, lon: 77.4126, type: 'city' },
+  { name: 'Patna', context: 'Bihar, India', lat: 25.5941, lon: 85.1376, type: 'city' },
+  { name: 'Bhubaneswar', context: 'Odisha, India', lat: 20.2961, lon: 85.8245, type: 'city' },
+  { name: 'Thiruvananthapuram', context: 'Kerala, India', lat: 8.5241, lon: 76.9366, type: 'city' },
+  { name: 'Chandigarh', context: 'Chandigarh, India', lat: 30.7333, lon: 76.7794, type: 'city' },
+  { name: 'Dehradun', context: 'Uttarakhand, India', lat: 30.3165, lon: 78.0322, type: 'city' },
+  { name: 'Shimla', context: 'Himachal Pradesh, India', lat: 31.1048, lon: 77.1734, type: 'city' },
+  { name: 'Srinagar', context: 'Jammu and Kashmir, India', lat: 34.0837, lon: 74.7973, type: 'city' },
+  { name: 'Guwahati', context: 'Assam, India', lat: 26.1445, lon: 91.7362, type: 'city' },
+  { name: 'Dispur', context: 'Assam, India', lat: 26.1433, lon: 91.7898, type: 'city' },
+  { name: 'Shillong', context: 'Meghalaya, India', lat: 25.5788, lon: 91.8933, type: 'city' },
+  { name: 'Imphal', context: 'Manipur, India', lat: 24.817, lon: 93.9368, type: 'city' },
+  { name: 'Aizawl', context: 'Mizoram, India', lat: 23.7271, lon: 92.7176, type: 'city' },
+  { name: 'Kohima', context: 'Nagaland, India', lat: 25.6751, lon: 94.1086, type: 'city' },
+  { name: 'Agartala', context: 'Tripura, India', lat: 23.8315, lon: 91.2868, type: 'city' },
+  { name: 'Itanagar', context: 'Arunachal Pradesh, India', lat: 27.0844, lon: 93.6053, type: 'city' },
+  { name: 'Gangtok', context: 'Sikkim, India', lat: 27.3389, lon: 88.6065, type: 'city' },
+  { name: 'Ranchi', context: 'Jharkhand, India', lat: 23.3441, lon: 85.3096, type: 'city' },
+  { name: 'Raipur', context: 'Chhattisgarh, India', lat: 21.2514, lon: 81.6296, type: 'city' },
+  { name: 'Gandhinagar', context: 'Gujarat, India', lat: 23.2156, lon: 72.6369, type: 'city' },
+  { name: 'Panaji', context: 'Goa, India', lat: 15.4909, lon: 73.8278, type: 'city' },
+  { name: 'Amaravati', context: 'Andhra Pradesh, India', lat: 16.5062, lon: 80.648, type: 'city' },
+  { name: 'Visakhapatnam', context: 'Andhra Pradesh, India', lat: 17.6868, lon: 83.2185, type: 'city' },
+  { name: 'Puducherry', context: 'Puducherry, India', lat: 11.9416, lon: 79.8083, type: 'city' },
+  { name: 'Port Blair', context: 'Andaman and Nicobar Islands, India', lat: 11.6234, lon: 92.7265, type: 'city' },
+  { name: 'Leh', context: 'Ladakh, India', lat: 34.1526, lon: 77.5771, type: 'town' },
+  { name: 'Varanasi', context: 'Uttar Pradesh, India', lat: 25.3176, lon: 82.9739, type: 'city' },
+  { name: 'Agra', context: 'Uttar Pradesh, India', lat: 27.1767, lon: 78.0081, type: 'city' },
+  { name: 'Kochi', context: 'Kerala, India', lat: 9.9312, lon: 76.2673, type: 'city' },
+  { name: 'Nagpur', context: 'Maharashtra, India', lat: 21.1458, lon: 79.0882, type: 'city' },
+  { name: 'Kathmandu', context: 'Nepal', lat: 27.7172, lon: 85.324, type: 'city' },
+  { name: 'Dhaka', context: 'Bangladesh', lat: 23.8103, lon: 90.4125, type: 'city' },
+  { name: 'Colombo', context: 'Sri Lanka', lat: 6.9271, lon: 79.8612, type: 'city' },
+  { name: 'Thimphu', context: 'Bhutan', lat: 27.4728, lon: 89.639, type: 'city' },
+  { name: 'Islamabad', context: 'Pakistan', lat: 33.6844, lon: 73.0479, type: 'city' },
+  { name: 'Beijing', context: 'China', lat: 39.9042, lon: 116.4074, type: 'city' },
+  { name: 'Tokyo', context: 'Japan', lat: 35.6762, lon: 139.6503, type: 'city' },
+  { name: 'Singapore', context: 'Singapore', lat: 1.3521, lon: 103.8198, type: 'city' },
+  { name: 'Bangkok', context: 'Thailand', lat: 13.7563, lon: 100.5018, type: 'city' },
+  { name: 'Dubai', context: 'United Arab Emirates', lat: 25.2048, lon: 55.2708, type: 'city' },
+  { name: 'Nairobi', context: 'Kenya', lat: -1.2921, lon: 36.8219, type: 'city' },
+  { name: 'Cairo', context: 'Egypt', lat: 30.0444, lon: 31.2357, type: 'city' },
+  { name: 'London', context: 'England, United Kingdom', lat: 51.5074, lon: -0.1278, type: 'city' },
+  { name: 'Paris', context: 'Île-de-France, France', lat: 48.8566, lon: 2.3522, type: 'city' },
+  { name: 'Berlin', context: 'Germany', lat: 52.52, lon: 13.405, type: 'city' },
+  { name: 'Munich', context: 'Bavaria, Germany', lat: 48.1351, lon: 11.582, type: 'city' },
+  { name: 'Moscow', context: 'Russia', lat: 55.7558, lon: 37.6173, type: 'city' },
+  { name: 'New York', context: 'New York, United States', lat: 40.7128, lon: -74.006, type: 'city' },
+  { name: 'Washington', context: 'District of Columbia, United States', lat: 38.9072, lon: -77.0369, type: 'city' },
+  { name: 'São Paulo', context: 'Brazil', lat: -23.5505, lon: -46.6333, type: 'city' },
+  { name: 'Sydney', context: 'New South Wales, Australia', lat: -33.8688, lon: 151.2093, type: 'city' }
+]
+
+/**
+ * Fold case and accents so "sao paulo" finds "São Paulo"
+ */
+function normalizeName(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim()
+}
+
+/**
+ * Search the built-in gazetteer: names starting with the query rank before names merely containing it
+ */
+export function searchGazetteer(query: string, limit = 5): SearchResult[] {
+  const q = normalizeName(query)
+  if (!q) return []
+
+  return PLACES
+    .map((place, index) => {
+      const name = normalizeName(place.name)
+      const rank = name === q ? 0 : name.startsWith(q) ? 1 : name.includes(q) ? 2
+        : normalizeName(place.context).includes(q) ? 3 : -1
+      return { place, index, rank }
+    })
+    .filter(match => match.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .slice(0, limit)
+    .map(({ place, index }) => ({
+      place_id: `gazetteer:${index}`,
+      lat: String(place.lat),
+      lon: String(place.lon),
+      display_name: `${place.name}, ${place.context}`,
+      type: place.type
+    }))
+}
@@ -0,0 +1,362 @@
+import { MAP_CONFIG } from './mapUtils'
+import { createMultiPolygonFeature, createPolygonFeature, isRecord, toRing } from './importUtils'
+import { searchGazetteer } from './gazetteer'
+import type {
+  AOIFeature,
+  MultiPolygonCoordinates,
+  ReverseGeocodeResult,
+  ReverseGeocoder,
+  Geocoder,
+  GeocoderProvider,
+  GeocoderSettings,
+  SearchResult
+} from '../types'
+
+// Positions closer than this many decimals (about 1 m) share a cache entry
+const CACHE_DECIMALS = 5
+const CACHE_SIZE = 100
+const SEARCH_LIMIT = 5
+// Nominatim's usage policy allows at most one request per second
+const NOMINATIM_INTERVAL_MS = 1000
+// Boundary simplification in degrees (about 50 m), which keeps district outlines to a few hundred vertices
+const BOUNDARY_TOLERANCE = 0.0005
+
+export const GEOCODER_PROVIDERS: Record<GeocoderProvider, { label: string; url: string }> = {
+  nominatim: { label: 'Nominatim (OpenStreetMap)', url: MAP_CONFIG.NOMINATIM_URL },
+  photon: { label: 'Photon (Komoot)', url: 'https://photon.komoot.io' },
+  pelias: { label: 'Pelias', url: 'https://api.geocode.earth/v1' },
+  gazetteer: { label: 'Offline gazetteer', url: '' }
+}
+
+export const DEFAULT_GEOCODER_SETTINGS: GeocoderSettings = {
+  provider: 'nominatim',
+  url: '',
+  apiKey: ''
+}
+
+/**
+ * Space out tasks so that they start at least intervalMs apart, in the order they were scheduled
+ * A task whose signal aborts while it waits is dropped and rejects with the abort reason
+ */
+export function createRateLimiter(intervalMs: number) {
+  let nextSlot = 0
+
+  return async function schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    signal?.throwIfAborted()
+    const now = Date.now()
+    const start = Math.max(now, nextSlot)
+    nextSlot = start + intervalMs
+
+    if (start > now) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve()
+        }, start - now)
+        const onAbort = () => {
+          clearTimeout(timer)
+          reject(signal?.reason)
+        }
+        signal?.addEventListener('abort', onAbort, { once: true })
+      })
+    }
+    return task()
+  }
+}
+
+// Shared by search and reverse lookups so both count towards the same limit
+const nominatimLimiter = createRateLimiter(NOMINATIM_INTERVAL_MS)
+
+/**
+ * Read a Nominatim /reverse response (format=jsonv2)
+ * Nominatim answers positions with nothing nearby, such as open sea, with an "error" field
+ */
+export function parseNominatimReverse(data: unknown): ReverseGeocodeResult | null {
+  if (!isRecord(data)) throw new Error('Unexpected reverse geocoding response')
+  if (typeof data.error === 'string') return null
+  if (typeof data.display_name !== 'string') throw new Error('Reverse geocoding response has no address')
+
+  const name = typeof data.name === 'string' && data.name.trim()
+    ? data.name.trim()
+    : data.display_name.split(',')[0].trim()
+  return { name, displayName: data.display_name }
+}
+
+/**
+ * Reverse geocoder backed by a Nominatim endpoint
+ */
+export function createNominatimReverseGeocoder(baseUrl = MAP_CONFIG.NOMINATIM_URL): ReverseGeocoder {
+  return {
+    reverse(lat, lng) {
+      const url = new URL(`${baseUrl.replace(/\/+$/, '')}/reverse`)
+      url.searchParams.set('format', 'jsonv2')
+      url.searchParams.set('lat', String(lat))
+      url.searchParams.set('lon', String(lng))
+      return nominatimLimiter(async () => {
+        const response = await fetch(url.toString())
+        if (!response.ok) throw new Error(`Reverse geocoding failed (HTTP ${response.status})`)
+        return parseNominatimReverse(await response.json())
+      })
+    }
+  }
+}
+
+/**
+ * Wrap a reverse geocoder so repeated lookups of the same spot are answered from memory
+ * Concurrent lookups share one request; failures are not cached so they can be retried
+ */
+export function createCachedReverseGeocoder(geocoder: ReverseGeocoder, size = CACHE_SIZE): ReverseGeocoder {
+  const cache = new Map<string, Promise<ReverseGeocodeResult | null>>()
+
+  return {
+    reverse(lat, lng) {
+      const key = `${lat.toFixed(CACHE_DECIMALS)},${lng.toFixed(CACHE_DECIMALS)}`
+      const cached = cache.get(key)
+      if (cached) {
+        // Move to the end so the least recently used entry is evicted first
+        cache.delete(key)
+        cache.set(key, cached)
+        return cached
+      }
+
+      const lookup = geocoder.reverse(lat, lng)
+      lookup.catch(() => cache.delete(key))
+      cache.set(key, lookup)
+      if (cache.size > size) cache.delete(cache.keys().next().value as string)
+      return lookup
+    }
+  }
+}
+
+/**
+ * Build a [west, south, east, north] extent from loosely typed values, or undefined if they do not form one
+ */
+function toBbox(west: unknown, south: unknown, east: unknown, north: unknown): SearchResult['bbox'] {
+  const values = [west, south, east, north].map(v => (typeof v === 'string' ? Number(v) : v))
+  if (!values.every(v => typeof v === 'number' && Number.isFinite(v))) return undefined
+  const [w, s, e, n] = values as number[]
+  return w <= e && s <= n ? [w, s, e, n] : undefined
+}
+
+/**
+ * Read a GeoJSON Polygon or MultiPolygon into [lat, lng] rings
+ * Points and lines, returned for places without an area, and malformed outlines give undefined
+ */
+function readBoundary(geometry: unknown): MultiPolygonCoordinates | undefined {
+  if (!isRecord(geometry) || !Array.isArray(geometry.coordinates)) return undefined
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates]
+    : geometry.type === 'MultiPolygon' ? geometry.coordinates
+    : []
+  if (polygons.length === 0) return undefined
+
+  try {
+    return polygons.map((rings: unknown) => {
+      if (!Array.isArray(rings) || rings.length === 0) throw new Error('Polygon has no rings')
+      return rings.map(toRing)
+    })
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Read a Nominatim /search response (format=json, optionally with polygon_geojson)
+ */
+export function normalizeNominatimResults(data: unknown): SearchResult[] {
+  if (!Array.isArray(data)) throw new Error('Unexpected search response')
+
+  return data.filter(isRecord).flatMap(item => {
+    if (typeof item.display_name !== 'string' || item.lat === undefined || item.lon === undefined) return []
+    const boundary = readBoundary(item.geojson)
+    // Nominatim orders its bounding box south, north, west, east
+    const bbox = Array.isArray(item.boundingbox)
+      ? toBbox(item.boundingbox[2], item.boundingbox[0], item.boundingbox[3], item.boundingbox[1])
+      : undefined
+    return [{
+      place_id: `nominatim:${String(item.place_id)}`,
+      lat: String(item.lat),
+      lon: String(item.lon),
+      display_name: item.display_name,
+      type: typeof item.type === 'string' ? item.type : 'place',
+      ...(boundary ? { boundary } : {}),
+      ...(bbox ? { bbox } : {})
+    }]
+  })
+}
+
+/**
+ * Create an AOI from a search result's boundary, named after the place
+ * A single outline without holes becomes a polygon; anything else is kept whole as a multipolygon
+ */
+export function createBoundaryFeature(result: SearchResult): AOIFeature {
+  const { boundary } = result
+  if (!boundary || boundary.length === 0) throw new Error('This place has no boundary')
+
+  const source = {
+    name: result.display_name.split(',')[0].trim() || result.display_name,
+    properties: { place: result.display_name }
+  }
+  return boundary.length === 1 && boundary[0].length === 1
+    ? createPolygonFeature(boundary[0][0] as [number, number][], source)
+    : createMultiPolygonFeature(boundary, source)
+}
+
+/**
+ * Read a Photon /api response, a GeoJSON FeatureCollection of points
+ * Photon returns address parts separately, so the display name is assembled from them
+ */
+export function normalizePhotonResults(data: unknown): SearchResult[] {
+  if (!isRecord(data) || !Array.isArray(data.features)) throw new Error('Unexpected search response')
+
+  return data.features.filter(isRecord).flatMap((feature, index) => {
+    const coordinates = isRecord(feature.geometry) ? feature.geometry.coordinates : undefined
+    const props = isRecord(feature.properties) ? feature.properties : {}
+    if (!Array.isArray(coordinates) || coordinates.length < 2) return []
+
+    const parts = [props.name, props.street, props.city, props.state, props.country]
+      .filter((part): part is string => typeof part === 'string' && part.trim() !== '')
+    const unique = parts.filter((part, i) => parts.indexOf(part) === i)
+    if (unique.length === 0) return []
+
+    const id = typeof props.osm_type === 'string' && props.osm_id !== undefined
+      ? `${props.osm_type}${String(props.osm_id)}`
+      : String(index)
+    // Photon's extent runs west, north, east, south
+    const bbox = Array.isArray(props.extent)
+      ? toBbox(props.extent[0], props.extent[3], props.extent[2], props.extent[1])
+      : undefined
+    return [{
+      place_id: `photon:${id}`,
+      lat: String(coordinates[1]),
+      lon: String(coordinates[0]),
+      display_name: unique.join(', '),
+      type: typeof props.osm_value === 'string' ? props.osm_value : 'place',
+      ...(bbox ? { bbox } : {})
+    }]
+  })
+}
+
+/**
+ * Read a Pelias /search response, a GeoJSON FeatureCollection with a ready-made label per feature
+ */
+export function normalizePeliasResults(data: unknown): SearchResult[] {
+  if (!isRecord(data) || !Array.isArray(data.features)) throw new Error('Unexpected search response')
+
+  return data.features.filter(isRecord).flatMap((feature, index) => {
+    const coordinates = isRecord(feature.geometry) ? feature.geometry.coordinates : undefined
+    const props = isRecord(feature.properties) ? feature.properties : {}
+    if (!Array.isArray(coordinates) || coordinates.length < 2 || typeof props.label !== 'string') return []
+
+    const bbox = Array.isArray(feature.bbox)
+      ? toBbox(feature.bbox[0], feature.bbox[1], feature.bbox[2], feature.bbox[3])
+      : undefined
+    return [{
+      place_id: `pelias:${typeof props.gid === 'string' ? props.gid : String(index)}`,
+      lat: String(coordinates[1]),
+      lon: String(coordinates[0]),
+      display_name: props.label,
+      type: typeof props.layer === 'string' ? props.layer : 'place',
+      ...(bbox ? { bbox } : {})
+    }]
+  })
+}
+
+async function fetchJson(url: URL, signal?: AbortSignal): Promise<unknown> {
+  const response = await fetch(url.toString(), { signal })
+  if (!response.ok) throw new Error(`Search failed (HTTP ${response.status})`)
+  return response.json()
+}
+
+/**
+ * Forward geocoder for the provider chosen in settings
+ */
+export function createGeocoder(settings: GeocoderSettings): Geocoder {
+  const baseUrl = (settings.url.trim() || GEOCODER_PROVIDERS[settings.provider].url).replace(/\/+$/, '')
+
+  switch (settings.provider) {
+    case 'nominatim':
+      return {
+        search(query, signal) {
+          const url = new URL(`${baseUrl}/search`)
+          url.searchParams.set('format', 'json')
+          url.searchParams.set('q', query)
+          url.searchParams.set('limit', String(SEARCH_LIMIT))
+          url.searchParams.set('polygon_geojson', '1')
+          url.searchParams.set('polygon_threshold', String(BOUNDARY_TOLERANCE))
+          return nominatimLimiter(async () => normalizeNominatimResults(await fetchJson(url, signal)), signal)
+        }
+      }
+    case 'photon':
+      return {
+        async search(query, signal) {
+          const url = new URL(`${baseUrl}/api/`)
+          url.searchParams.set('q', query)
+          url.searchParams.set('limit', String(SEARCH_LIMIT))
+          return normalizePhotonResults(await fetchJson(url, signal))
+        }
+      }
+    case 'pelias':
+      return {
+        async search(query, signal) {
+          const url = new URL(`${baseUrl}/search`)
+          url.searchParams.set('text', query)
+          url.searchParams.set('size', String(SEARCH_LIMIT))
+          if (settings.apiKey.trim()) url.searchParams.set('api_key', settings.apiKey.trim())
+          return normalizePeliasResults(await fetchJson(url, signal))
+        }
+      }
+    case 'gazetteer':
+      return {
+        async search(query, signal) {
+          signal?.throwIfAborted()
+          return searchGazetteer(query, SEARCH_LIMIT)
+        }
+      }
+  }
+}
+
+// Nearest match of a reverse search, named by the first part of its address
+function toReverseResult(results: SearchResult[]): ReverseGeocodeResult | null {
+  if (results.length === 0) return null
+  const displayName = results[0].display_name
+  return { name: displayName.split(',')[0].trim() || displayName, displayName }
+}
+
+/**
+ * Reverse geocoder for the provider chosen in settings
+ * The offline gazetteer has no reverse lookup, so it finds nothing anywhere
+ */
+export function createReverseGeocoder(settings: GeocoderSettings): ReverseGeocoder {
+  const baseUrl = (settings.url.trim() || GEOCODER_PROVIDERS[settings.provider].url).replace(/\/+$/, '')
+
+  switch (settings.provider) {
+    case 'nominatim':
+      return createNominatimReverseGeocoder(baseUrl)
+    case 'photon':
+      return {
+        async reverse(lat, lng) {
+          const url = new URL(`${baseUrl}/reverse`)
+          url.searchParams.set('lat', String(lat))
+          url.searchParams.set('lon', String(lng))
+          return toReverseResult(normalizePhotonResults(await fetchJson(url)))
+        }
+      }
+    case 'pelias':
+      return {
+        async reverse(lat, lng) {
+          const url = new URL(`${baseUrl}/reverse`)
+          url.searchParams.set('point.lat', String(lat))
+          url.searchParams.set('point.lon', String(lng))
+          url.searchParams.set('size', '1')
+          if (settings.apiKey.trim()) url.searchParams.set('api_key', settings.apiKey.trim())
+          return toReverseResult(normalizePeliasResults(await fetchJson(url)))
+        }
+      }
+    case 'gazetteer':
+      return {
+        async reverse() {
+          return null
+        }
+      }
+  }
+}
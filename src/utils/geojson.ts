@@ -0,0 +1,229 @@
+import {
+  isRecord,
+  toLatLng,
+  toRing,
+  toPath,
+  getFeatureName,
+  createPolygonalFeature,
+  createPolylineFeature,
+  createPointFeature,
+  getFeaturesExtent,
+  type FeatureSource
+} from './importUtils'
+import { getAttributeColumns } from './attributes'
+import type { AOIFeature, AttributeField, ImportIssue, ImportResult, MultiPolygonCoordinates } from '../types'
+
+interface GeoJsonGeometry {
+  type: string
+  coordinates?: unknown
+}
+
+interface GeoJsonFeature {
+  type: 'Feature'
+  geometry: GeoJsonGeometry | null
+  properties?: Record<string, unknown> | null
+}
+
+// A row of a text format (WKT line, CSV record): either a GeoJSON feature or the reason it could not be read
+export type FeatureRow = { feature: GeoJsonFeature } | { name: string; error: string }
+
+const GEOMETRY_TYPES = [
+  'Point', 'MultiPoint', 'LineString', 'MultiLineString', 'Polygon', 'MultiPolygon', 'GeometryCollection'
+]
+
+/**
+ * Collect the features of a FeatureCollection, Feature or bare geometry
+ */
+function getFeatures(data: unknown): unknown[] {
+  if (!isRecord(data)) throw new Error('File is not a GeoJSON object')
+
+  if (data.type === 'FeatureCollection') {
+    if (!Array.isArray(data.features)) throw new Error('FeatureCollection has no "features" array')
+    return data.features
+  }
+  if (data.type === 'Feature') return [data]
+  if (typeof data.type === 'string' && GEOMETRY_TYPES.includes(data.type)) {
+    return [{ type: 'Feature', geometry: data, properties: {} }]
+  }
+  throw new Error('File is not a GeoJSON FeatureCollection, Feature or geometry')
+}
+
+/**
+ * Build a GeoJSON geometry (lng/lat order) from an AOI feature
+ */
+export function featureToGeometry(f: AOIFeature) {
+  if (f.type === 'marker') {
+    const coords = f.coordinates as number[]
+    return { type: 'Point', coordinates: [coords[1], coords[0]] }
+  }
+
+  if (f.type === 'circle') {
+    // Approximate the circle with a 32-sided polygon
+    const c = f.coordinates as { center: number[]; radius: number }
+    const pts: number[][] = []
+    for (let i = 0; i <= 32; i++) {
+      const angle = (i / 32) * 2 * Math.PI
+      pts.push([
+        c.center[1] + (c.radius / (111320 * Math.cos(c.center[0] * Math.PI / 180))) * Math.sin(angle),
+        c.center[0] + (c.radius / 111320) * Math.cos(angle)
+      ])
+    }
+    return { type: 'Polygon', coordinates: [pts] }
+  }
+
+  const closeRing = (coords: number[][]) => {
+    const ring = coords.map(c => [c[1], c[0]])
+    return [...ring, ring[0]]
+  }
+
+  if (f.type === 'polyline') {
+    return { type: 'LineString', coordinates: (f.coordinates as number[][]).map(c => [c[1], c[0]]) }
+  }
+
+  if (f.type === 'multipolygon') {
+    const polygons = f.coordinates as MultiPolygonCoordinates
+    return { type: 'MultiPolygon', coordinates: polygons.map(rings => rings.map(closeRing)) }
+  }
+
+  return { type: 'Polygon', coordinates: [closeRing(f.coordinates as number[][])] }
+}
+
+/**
+ * Attributes written for an AOI feature on export, with a column for every attribute in the schema
+ * Circles keep their radius so they can be restored on import
+ */
+export function getExportProperties(f: AOIFeature, schema: AttributeField[] = []): Record<string, unknown> {
+  return {
+    ...f.properties,
+    ...getAttributeColumns(f, schema),
+    id: f.id,
+    name: f.name,
+    type: f.type,
+    area: f.area,
+    ...(f.length !== undefined ? { length: f.length } : {}),
+    createdAt: f.createdAt,
+    ...(f.tags?.length ? { tags: f.tags.join(', ') } : {}),
+    ...(f.type === 'circle' ? { radius: (f.coordinates as { radius: number }).radius } : {})
+  }
+}
+
+/**
+ * Parse GeoJSON text into AOI features
+ * Invalid or unsupported features are skipped and reported individually; throws if the file itself is unusable
+ */
+export function parseGeoJSON(text: string, existingCount = 0): ImportResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('File is not valid JSON')
+  }
+  return readGeoJSON(data, existingCount)
+}
+
+/**
+ * Convert an already parsed GeoJSON object into AOI features
+ */
+export function readGeoJSON(data: unknown, existingCount = 0): ImportResult {
+  const features: AOIFeature[] = []
+  const issues: ImportIssue[] = []
+
+  getFeatures(data).forEach((item, index) => {
+    const feature = (isRecord(item) ? item : {}) as Partial<GeoJsonFeature>
+    const properties = isRecord(feature.properties) ? feature.properties : {}
+    const name = getFeatureName(properties, `AOI ${existingCount + features.length + 1}`)
+    const report = (severity: ImportIssue['severity'], message: string) =>
+      issues.push({ index, name, severity, message })
+    const source: FeatureSource = { name, properties }
+
+    const toRings = (rings: unknown) => {
+      if (!Array.isArray(rings) || rings.length === 0) throw new Error('Polygon has no rings')
+      return rings.map(toRing)
+    }
+
+    try {
+      if (feature.type !== 'Feature') throw new Error('Entry is not a GeoJSON Feature')
+
+      const geometry = feature.geometry
+      if (!isRecord(geometry)) throw new Error('Feature has no geometry')
+
+      switch (geometry.type) {
+        case 'Polygon':
+          features.push(createPolygonalFeature([toRings(geometry.coordinates)], source))
+          break
+
+        case 'MultiPolygon': {
+          const polygons = geometry.coordinates
+          if (!Array.isArray(polygons) || polygons.length === 0) throw new Error('MultiPolygon has no polygons')
+          // All parts and holes make one AOI; invalid parts are reported and left out
+          const parts: [number, number][][][] = []
+          polygons.forEach((rings, part) => {
+            try {
+              parts.push(toRings(rings))
+            } catch (err) {
+              report('error', `Part ${part + 1}: ${(err as Error).message}`)
+            }
+          })
+          if (parts.length > 0) features.push(createPolygonalFeature(parts, source))
+          break
+        }
+
+        case 'LineString':
+          features.push(createPolylineFeature(toPath(geometry.coordinates), source))
+          break
+
+        case 'MultiLineString': {
+          const lines = geometry.coordinates
+          if (!Array.isArray(lines) || lines.length === 0) throw new Error('MultiLineString has no lines')
+          // A polyline holds one path, so each line becomes its own AOI
+          lines.forEach((line, part) => {
+            const partSource = lines.length > 1 ? { ...source, name: `${name} (${part + 1})` } : source
+            try {
+              features.push(createPolylineFeature(toPath(line), partSource))
+            } catch (err) {
+              report('error', `Part ${part + 1}: ${(err as Error).message}`)
+            }
+          })
+          break
+        }
+
+        case 'Point': {
+          const center = toLatLng(geometry.coordinates)
+          if (!center) throw new Error('Point is outside WGS84 longitude/latitude bounds')
+          features.push(createPointFeature(center, source, message => report('warning', message)))
+          break
+        }
+
+        default:
+          throw new Error(`Unsupported geometry type "${String(geometry.type)}"`)
+      }
+    } catch (err) {
+      report('error', (err as Error).message)
+    }
+  })
+
+  return { features, issues, bbox: getFeaturesExtent(features) }
+}
+
+/**
+ * Convert rows of a text format into AOI features
+ * Issues keep the row's position, including rows that already failed to parse
+ */
+export function readFeatureRows(rows: FeatureRow[], existingCount = 0): ImportResult {
+  const parsed: GeoJsonFeature[] = []
+  const rowIndexes: number[] = []
+  const failed: ImportIssue[] = []
+
+  rows.forEach((row, index) => {
+    if ('feature' in row) {
+      parsed.push(row.feature)
+      rowIndexes.push(index)
+    } else {
+      failed.push({ index, name: row.name, severity: 'error', message: row.error })
+    }
+  })
+
+  const result = readGeoJSON({ type: 'FeatureCollection', features: parsed }, existingCount)
+  const issues = [...failed, ...result.issues.map(issue => ({ ...issue, index: rowIndexes[issue.index] }))]
+  return { ...result, issues: issues.sort((a, b) => a.index - b.index) }
+}
@@ -0,0 +1,106 @@
+import type { AOIFeature, FeatureChange, FeatureHistory, HistoryEntry } from '../types'
+
+// Maximum number of undo steps kept (and persisted)
+export const HISTORY_LIMIT = 50
+
+export const EMPTY_HISTORY: FeatureHistory = { past: [], future: [] }
+
+/**
+ * List the features added, removed or changed between two versions of the AOI list
+ */
+export function diffFeatures(prev: AOIFeature[], next: AOIFeature[]): FeatureChange[] {
+  const prevById = new Map(prev.map((f, index) => [f.id, { feature: f, index }]))
+  const nextIds = new Set(next.map(f => f.id))
+  const changes: FeatureChange[] = []
+
+  prev.forEach((feature, index) => {
+    if (!nextIds.has(feature.id)) changes.push({ id: feature.id, index, before: feature, after: null })
+  })
+
+  next.forEach((feature, index) => {
+    const previous = prevById.get(feature.id)
+    if (!previous) {
+      changes.push({ id: feature.id, index, before: null, after: feature })
+    } else if (previous.feature !== feature && JSON.stringify(previous.feature) !== JSON.stringify(feature)) {
+      changes.push({ id: feature.id, index, before: previous.feature, after: feature })
+    }
+  })
+
+  return changes
+}
+
+/**
+ * Apply recorded changes forwards (redo) or backwards (undo)
+ * Removed features are reinserted at their original positions
+ */
+export function applyChanges(
+  features: AOIFeature[],
+  changes: FeatureChange[],
+  direction: 'undo' | 'redo'
+): AOIFeature[] {
+  const steps = changes.map(c => direction === 'redo'
+    ? { id: c.id, index: c.index, from: c.before, to: c.after }
+    : { id: c.id, index: c.index, from: c.after, to: c.before })
+
+  const removed = new Set(steps.filter(s => s.to === null).map(s => s.id))
+  const updated = new Map(steps.filter(s => s.from && s.to).map(s => [s.id, s.to!]))
+
+  const result = features
+    .filter(f => !removed.has(f.id))
+    .map(f => updated.get(f.id) ?? f)
+
+  steps
+    .filter(s => s.from === null && s.to !== null)
+    .sort((a, b) => a.index - b.index)
+    .forEach(s => result.splice(Math.min(s.index, result.length), 0, s.to!))
+
+  return result
+}
+
+/**
+ * Record a mutation as a new undo step; does nothing when the list did not change
+ * A new step clears the redo stack, and the oldest steps are dropped beyond the limit
+ */
+export function recordChange(
+  history: FeatureHistory,
+  label: string,
+  prev: AOIFeature[],
+  next: AOIFeature[],
+  limit = HISTORY_LIMIT
+): FeatureHistory {
+  const changes = diffFeatures(prev, next)
+  if (changes.length === 0) return history
+
+  const entry: HistoryEntry = { label, changes, timestamp: new Date().toISOString() }
+  return { past: [...history.past, entry].slice(-limit), future: [] }
+}
+
+/**
+ * Undo the latest step, or null when there is nothing to undo
+ */
+export function undoChange(
+  features: AOIFeature[],
+  history: FeatureHistory
+): { features: AOIFeature[]; history: FeatureHistory } | null {
+  const entry = history.past[history.past.length - 1]
+  if (!entry) return null
+  return {
+    features: applyChanges(features, entry.changes, 'undo'),
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] }
+  }
+}
+
+/**
+ * Redo the most recently undone step, or null when there is nothing to redo
+ */
+export function redoChange(
+  features: AOIFeature[],
+  history: FeatureHistory
+): { features: AOIFeature[]; history: FeatureHistory } | null {
+  const [entry, ...future] = history.future
+  if (!entry) return null
+  return {
+    features: applyChanges(features, entry.changes, 'redo'),
+    history: { past: [...history.past, entry], future }
+  }
+}
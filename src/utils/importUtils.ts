@@ -0,0 +1,234 @@
+import {
+  FEATURE_COLORS,
+  generateId,
+  calculatePolygonArea,
+  calculateMultiPolygonArea,
+  calculateCircleArea,
+  calculatePolylineLength,
+  isValidCoordinate
+} from './mapUtils'
+import type { AOIFeature, FeatureType, MultiPolygonCoordinates } from '../types'
+
+// Name, attributes and style of a feature read from a file, shared by all importers
+export interface FeatureSource {
+  name: string
+  properties: Record<string, unknown>
+  // Colour from the file's own styling, if any
+  color?: string
+}
+
+// Properties that map onto AOIFeature fields instead of being carried over
+const RESERVED_PROPERTIES = ['id', 'name', 'title', 'type', 'area', 'length', 'color', 'radius', 'createdAt', 'tags']
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Convert a [lng, lat] position to [lat, lng], or null if it is not a valid WGS84 position
+ */
+export function toLatLng(position: unknown): [number, number] | null {
+  if (!Array.isArray(position) || position.length < 2) return null
+  const [lng, lat] = position
+  if (typeof lat !== 'number' || typeof lng !== 'number') return null
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || !isValidCoordinate(lat, lng)) return null
+  return [lat, lng]
+}
+
+/**
+ * Convert a linear ring of [lng, lat] positions to [lat, lng] vertices without the closing position
+ */
+export function toRing(ring: unknown): [number, number][] {
+  if (!Array.isArray(ring)) throw new Error('Polygon ring is not an array of positions')
+
+  const vertices = ring.map(toLatLng)
+  if (vertices.some(v => v === null)) {
+    throw new Error('Polygon has positions outside WGS84 longitude/latitude bounds')
+  }
+
+  const points = vertices as [number, number][]
+  const [first, last] = [points[0], points[points.length - 1]]
+  if (points.length > 1 && first[0] === last[0] && first[1] === last[1]) {
+    points.pop()
+  }
+  if (points.length < 3) throw new Error('Polygon ring needs at least 3 distinct positions')
+  return points
+}
+
+/**
+ * Convert a line of [lng, lat] positions to [lat, lng] vertices
+ */
+export function toPath(line: unknown): [number, number][] {
+  if (!Array.isArray(line)) throw new Error('Line is not an array of positions')
+
+  const vertices = line.map(toLatLng)
+  if (vertices.some(v => v === null)) {
+    throw new Error('Line has positions outside WGS84 longitude/latitude bounds')
+  }
+  if (vertices.length < 2) throw new Error('Line needs at least 2 positions')
+  return vertices as [number, number][]
+}
+
+/**
+ * Read a feature name from the usual name properties
+ * Keys match case-insensitively, since DBF and CSV columns are often upper case
+ */
+export function getFeatureName(properties: Record<string, unknown>, fallback: string): string {
+  for (const key of ['name', 'title']) {
+    const match = properties[key] !== undefined
+      ? key
+      : Object.keys(properties).find(k => k.toLowerCase() === key)
+    const value = match ? properties[match] : undefined
+    if (typeof value === 'string' && value.trim()) return value.trim()
+  }
+  return fallback
+}
+
+function getFeatureColor(source: FeatureSource, type: FeatureType): string {
+  const color = source.color ?? source.properties.color
+  return typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color) ? color : FEATURE_COLORS[type]
+}
+
+function getCreatedAt(properties: Record<string, unknown>): string {
+  const value = properties.createdAt
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? value : new Date().toISOString()
+}
+
+// Tags are exported as one comma-separated value
+function getTags(properties: Record<string, unknown>): string[] | undefined {
+  const value = properties.tags
+  const tags = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value.filter(t => typeof t === 'string') : []
+  const unique = [...new Set(tags.map(tag => tag.trim()).filter(Boolean))]
+  return unique.length > 0 ? unique : undefined
+}
+
+function getExtraProperties(properties: Record<string, unknown>): Record<string, unknown> | undefined {
+  const extra = Object.fromEntries(
+    Object.entries(properties).filter(([key]) => !RESERVED_PROPERTIES.includes(key))
+  )
+  return Object.keys(extra).length > 0 ? extra : undefined
+}
+
+function getRadius(properties: Record<string, unknown>): number | null {
+  const radius = typeof properties.radius === 'string' ? Number(properties.radius) : properties.radius
+  return typeof radius === 'number' && Number.isFinite(radius) && radius > 0 ? radius : null
+}
+
+function createFeature(
+  source: FeatureSource,
+  type: FeatureType,
+  coordinates: AOIFeature['coordinates'],
+  area?: number
+): AOIFeature {
+  return {
+    id: generateId(),
+    name: source.name,
+    type,
+    coordinates,
+    area: area && area > 0 ? area : undefined,
+    color: getFeatureColor(source, type),
+    createdAt: getCreatedAt(source.properties),
+    properties: getExtraProperties(source.properties),
+    tags: getTags(source.properties)
+  }
+}
+
+/**
+ * Create an AOI from a polygon's outer ring
+ * Circles and rectangles exported by this app are restored from their "type" and "radius" properties
+ */
+export function createPolygonFeature(outer: [number, number][], source: FeatureSource): AOIFeature {
+  const { type } = source.properties
+  const radius = getRadius(source.properties)
+
+  if (type === 'circle' && radius) {
+    // Exported circles are regular polygons, so the vertex mean is the centre
+    const center = [
+      outer.reduce((sum, [lat]) => sum + lat, 0) / outer.length,
+      outer.reduce((sum, [, lng]) => sum + lng, 0) / outer.length
+    ]
+    return createFeature(source, 'circle', { center, radius }, calculateCircleArea(radius))
+  }
+
+  const featureType: FeatureType = type === 'rectangle' && outer.length === 4 ? 'rectangle' : 'polygon'
+  return createFeature(source, featureType, outer, calculatePolygonArea(outer.map(([lat, lng]) => ({ lat, lng }))))
+}
+
+/**
+ * Create an AOI that keeps every part and hole, from polygons of [lat, lng] rings
+ */
+export function createMultiPolygonFeature(polygons: MultiPolygonCoordinates, source: FeatureSource): AOIFeature {
+  return createFeature(source, 'multipolygon', polygons, calculateMultiPolygonArea(polygons))
+}
+
+/**
+ * Create an AOI from polygons of [lat, lng] rings: a plain polygon for one part without holes,
+ * otherwise a multipolygon, as are multipolygons exported by this app whatever their shape
+ */
+export function createPolygonalFeature(polygons: [number, number][][][], source: FeatureSource): AOIFeature {
+  if (polygons.length === 1 && polygons[0].length === 1 && source.properties.type !== 'multipolygon') {
+    return createPolygonFeature(polygons[0][0], source)
+  }
+  return createMultiPolygonFeature(polygons, source)
+}
+
+/**
+ * Create a polyline feature from [lat, lng] vertices, measuring its geodesic length
+ */
+export function createPolylineFeature(path: [number, number][], source: FeatureSource): AOIFeature {
+  const length = calculatePolylineLength(path.map(([lat, lng]) => ({ lat, lng })))
+  return { ...createFeature(source, 'polyline', path), length }
+}
+
+/**
+ * Create an AOI from a point; a positive "radius" property makes it a circle
+ * onWarning is called when a radius is present but unusable
+ */
+export function createPointFeature(
+  center: [number, number],
+  source: FeatureSource,
+  onWarning: (message: string) => void
+): AOIFeature {
+  const radius = getRadius(source.properties)
+  if (radius) {
+    return createFeature(source, 'circle', { center, radius }, calculateCircleArea(radius))
+  }
+
+  if (source.properties.radius != null && source.properties.radius !== '') {
+    onWarning('Ignored invalid "radius" property; imported as a marker')
+  }
+  return createFeature(source, 'marker', center)
+}
+
+/**
+ * Extent of AOI features as [west, south, east, north]
+ */
+export function getFeaturesExtent(features: AOIFeature[]): [number, number, number, number] | null {
+  let [west, south, east, north] = [Infinity, Infinity, -Infinity, -Infinity]
+
+  const extend = (lat: number, lng: number) => {
+    west = Math.min(west, lng)
+    east = Math.max(east, lng)
+    south = Math.min(south, lat)
+    north = Math.max(north, lat)
+  }
+
+  features.forEach(feature => {
+    if (feature.type === 'marker') {
+      const [lat, lng] = feature.coordinates as number[]
+      extend(lat, lng)
+    } else if (feature.type === 'circle') {
+      const { center, radius } = feature.coordinates as { center: number[]; radius: number }
+      const latOffset = radius / 111320
+      const lngOffset = radius / (111320 * Math.cos(center[0] * Math.PI / 180))
+      extend(center[0] - latOffset, center[1] - lngOffset)
+      extend(center[0] + latOffset, center[1] + lngOffset)
+    } else if (feature.type === 'multipolygon') {
+      (feature.coordinates as MultiPolygonCoordinates).forEach(rings => rings[0].forEach(([lat, lng]) => extend(lat, lng)))
+    } else {
+      (feature.coordinates as number[][]).forEach(([lat, lng]) => extend(lat, lng))
+    }
+  })
+
+  return features.length > 0 ? [west, south, east, north] : null
+}
@@ -0,0 +1,368 @@
+import { unzipSync, zipSync, strFromU8, strToU8 } from 'fflate'
+import { localName, children, child, childText, childElements, descendants, escapeXml } from './xml'
+import {
+  toLatLng,
+  toRing,
+  toPath,
+  createPolygonalFeature,
+  createPolylineFeature,
+  createPointFeature,
+  getFeaturesExtent,
+  type FeatureSource
+} from './importUtils'
+import { featureToGeometry, getExportProperties } from './geojson'
+import type { AOIFeature, ImportIssue, ImportResult } from '../types'
+
+const KML_NS = 'http://www.opengis.net/kml/2.2'
+
+// Separator between nested folder names in the "folder" property
+const FOLDER_SEPARATOR = ' / '
+
+// Exported fill opacity, matching the 0.3 used on the map
+const FILL_ALPHA = '4d'
+
+// Leaf geometries that can become AOIs
+const SUPPORTED_GEOMETRIES = ['Polygon', 'LineString', 'Point']
+const GEOMETRY_ELEMENTS = [
+  ...SUPPORTED_GEOMETRIES, 'MultiGeometry', 'LinearRing', 'Model', 'Track', 'MultiTrack'
+]
+
+/**
+ * Convert a KML colour (aabbggrr) to a CSS hex colour (#rrggbb)
+ */
+export function kmlColorToHex(color: string): string | undefined {
+  const value = color.trim().replace(/^#/, '')
+  if (!/^[0-9a-f]{8}$/i.test(value)) return undefined
+  return `#${value.slice(6, 8)}${value.slice(4, 6)}${value.slice(2, 4)}`.toLowerCase()
+}
+
+/**
+ * Convert a CSS hex colour (#rrggbb) to a KML colour with the given alpha
+ */
+export function hexToKmlColor(hex: string, alpha = 'ff'): string {
+  const value = hex.replace(/^#/, '')
+  return `${alpha}${value.slice(4, 6)}${value.slice(2, 4)}${value.slice(0, 2)}`.toLowerCase()
+}
+
+/**
+ * Colour of a Style element, preferring the outline over the fill
+ */
+function getStyleColor(style: Element | null): string | undefined {
+  if (!style) return undefined
+  for (const name of ['LineStyle', 'PolyStyle', 'IconStyle']) {
+    const color = childText(child(style, name), 'color')
+    const hex = color ? kmlColorToHex(color) : undefined
+    if (hex) return hex
+  }
+  return undefined
+}
+
+/**
+ * Shared styles of a document by id, with StyleMaps resolved to their normal style
+ */
+function collectStyles(root: Element): Map<string, string | undefined> {
+  const styles = new Map<string, string | undefined>()
+  descendants(root, 'Style').forEach(style => {
+    const id = style.getAttribute('id')
+    if (id) styles.set(id, getStyleColor(style))
+  })
+
+  descendants(root, 'StyleMap').forEach(styleMap => {
+    const id = styleMap.getAttribute('id')
+    const normal = children(styleMap, 'Pair').find(pair => childText(pair, 'key') === 'normal')
+    if (!id || !normal) return
+    const inline = child(normal, 'Style')
+    styles.set(id, inline ? getStyleColor(inline) : styles.get(childText(normal, 'styleUrl').replace(/^#/, '')))
+  })
+
+  return styles
+}
+
+/**
+ * Attributes of a Placemark from ExtendedData (Data and SchemaData) and its description
+ */
+function getPlacemarkProperties(placemark: Element, folders: string[]): Record<string, unknown> {
+  const properties: Record<string, unknown> = {}
+
+  const description = childText(placemark, 'description')
+  if (description) properties.description = description
+  if (folders.length > 0) properties.folder = folders.join(FOLDER_SEPARATOR)
+
+  const extendedData = child(placemark, 'ExtendedData')
+  if (extendedData) {
+    children(extendedData, 'Data').forEach(data => {
+      const name = data.getAttribute('name')
+      if (name) properties[name] = childText(data, 'value')
+    })
+    children(extendedData, 'SchemaData').forEach(schemaData => {
+      children(schemaData, 'SimpleData').forEach(simpleData => {
+        const name = simpleData.getAttribute('name')
+        if (name) properties[name] = simpleData.textContent?.trim() ?? ''
+      })
+    })
+  }
+
+  return properties
+}
+
+/**
+ * Parse a KML coordinates string ("lng,lat[,alt] lng,lat[,alt] ...") into [lng, lat] positions
+ */
+function parseCoordinates(text: string): number[][] {
+  return text.trim().split(/\s+/).filter(Boolean).map(tuple => tuple.split(',').map(Number))
+}
+
+/**
+ * Flatten a Placemark's geometry, expanding (nested) MultiGeometry
+ */
+function getLeafGeometries(geometry: Element): Element[] {
+  if (localName(geometry) !== 'MultiGeometry') return [geometry]
+  return childElements(geometry)
+    .filter(el => GEOMETRY_ELEMENTS.includes(localName(el)))
+    .flatMap(getLeafGeometries)
+}
+
+/**
+ * Read a Polygon's outer boundary and holes into [lat, lng] rings
+ */
+function readPolygonRings(polygon: Element): [number, number][][] {
+  const outer = child(child(polygon, 'outerBoundaryIs'), 'LinearRing')
+  if (!outer) throw new Error('Polygon has no outer boundary')
+  const holes = children(polygon, 'innerBoundaryIs').map(boundary => child(boundary, 'LinearRing'))
+  return [outer, ...holes].map(ring => {
+    if (!ring) throw new Error('Polygon hole has no LinearRing')
+    return toRing(parseCoordinates(childText(ring, 'coordinates')))
+  })
+}
+
+function parseDocument(xml: string, parser?: DOMParser): Element {
+  let doc: Document
+  try {
+    doc = (parser ?? new DOMParser()).parseFromString(xml, 'text/xml')
+  } catch {
+    throw new Error('File is not valid XML')
+  }
+
+  const root = doc.documentElement
+  if (!root || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('File is not valid XML')
+  }
+  if (localName(root) !== 'kml') {
+    throw new Error(`Not a KML document (root element <${localName(root)}>)`)
+  }
+  return root
+}
+
+/**
+ * Parse a KML document into AOI features
+ * Placemarks keep their folder path, style colour and ExtendedData; a parser can be injected for environments without a global DOMParser
+ */
+export function parseKML(xml: string, existingCount = 0, parser?: DOMParser): ImportResult {
+  const root = parseDocument(xml, parser)
+  const styles = collectStyles(root)
+
+  const features: AOIFeature[] = []
+  const issues: ImportIssue[] = []
+  let index = 0
+
+  const readPlacemark = (placemark: Element, folders: string[]) => {
+    const placemarkIndex = index++
+    const name = childText(placemark, 'name') || `AOI ${existingCount + features.length + 1}`
+    const report = (severity: ImportIssue['severity'], message: string) =>
+      issues.push({ index: placemarkIndex, name, severity, message })
+
+    const styleUrl = childText(placemark, 'styleUrl').replace(/^#/, '')
+    const source: FeatureSource = {
+      name,
+      properties: getPlacemarkProperties(placemark, folders),
+      color: getStyleColor(child(placemark, 'Style')) ?? styles.get(styleUrl)
+    }
+
+    const geometry = childElements(placemark).find(el => GEOMETRY_ELEMENTS.includes(localName(el)))
+    if (!geometry) {
+      report('error', 'Placemark has no geometry')
+      return
+    }
+
+    const leaves = getLeafGeometries(geometry)
+    const supported = leaves.filter(leaf => SUPPORTED_GEOMETRIES.includes(localName(leaf)))
+    if (supported.length === 0) {
+      const types = Array.from(new Set(leaves.map(localName)))
+      report('error', types.length > 0
+        ? `Unsupported geometry type "${types.join('", "')}"`
+        : 'MultiGeometry has no geometries')
+      return
+    }
+    if (supported.length < leaves.length) {
+      report('warning', `${leaves.length - supported.length} unsupported geometry part(s) were skipped`)
+    }
+
+    const prefix = (part: number) => supported.length > 1 ? `Part ${part + 1}: ` : ''
+    const polygons: [number, number][][][] = []
+    // Lines and points, created once the number of AOIs, and so their names, is known
+    const others: ((partSource: FeatureSource) => AOIFeature)[] = []
+    supported.forEach((leaf, part) => {
+      try {
+        if (localName(leaf) === 'Point') {
+          const center = toLatLng(parseCoordinates(childText(leaf, 'coordinates'))[0])
+          if (!center) throw new Error('Point is outside WGS84 longitude/latitude bounds')
+          others.push(partSource => createPointFeature(center, partSource, message => report('warning', prefix(part) + message)))
+        } else if (localName(leaf) === 'LineString') {
+          const path = toPath(parseCoordinates(childText(leaf, 'coordinates')))
+          others.push(partSource => createPolylineFeature(path, partSource))
+        } else {
+          polygons.push(readPolygonRings(leaf))
+        }
+      } catch (err) {
+        report('error', prefix(part) + (err as Error).message)
+      }
+    })
+
+    // The polygons of a placemark, holes included, make one AOI; each of its lines and points makes its own
+    const count = others.length + (polygons.length > 0 ? 1 : 0)
+    const numbered = (n: number) => count > 1 ? { ...source, name: `${name} (${n + 1})` } : source
+    if (polygons.length > 0) features.push(createPolygonalFeature(polygons, numbered(0)))
+    others.forEach((create, i) => features.push(create(numbered(i + (polygons.length > 0 ? 1 : 0)))))
+  }
+
+  const walk = (container: Element, folders: string[]) => {
+    childElements(container).forEach(el => {
+      switch (localName(el)) {
+        case 'Document':
+          walk(el, folders)
+          break
+        case 'Folder':
+          walk(el, [...folders, childText(el, 'name') || 'Untitled folder'])
+          break
+        case 'Placemark':
+          readPlacemark(el, folders)
+          break
+      }
+    })
+  }
+
+  walk(root, [])
+  return { features, issues, bbox: getFeaturesExtent(features) }
+}
+
+/**
+ * Parse a KMZ archive, reading its main KML document (doc.kml or the first .kml entry)
+ */
+export function parseKMZ(data: Uint8Array, existingCount = 0, parser?: DOMParser): ImportResult {
+  let entries: Record<string, Uint8Array>
+  try {
+    entries = unzipSync(data, { filter: file => file.name.toLowerCase().endsWith('.kml') })
+  } catch {
+    throw new Error('File is not a valid KMZ (zip) archive')
+  }
+
+  const names = Object.keys(entries)
+  const main = names.find(n => n.toLowerCase() === 'doc.kml') ?? names.sort()[0]
+  if (!main) throw new Error('KMZ archive contains no KML document')
+  return parseKML(strFromU8(entries[main]), existingCount, parser)
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function buildPlacemark(feature: AOIFeature, indent: string): string {
+  const geometry = featureToGeometry(feature)
+  const toTuple = (position: number[]) => `${position[0]},${position[1]}`
+
+  const toRing = (ring: number[][]) => `<LinearRing><coordinates>${ring.map(toTuple).join(' ')}</coordinates></LinearRing>`
+  const toPolygon = ([outer, ...holes]: number[][][]) => `<Polygon><outerBoundaryIs>${toRing(outer)}</outerBoundaryIs>${
+    holes.map(hole => `<innerBoundaryIs>${toRing(hole)}</innerBoundaryIs>`).join('')
+  }</Polygon>`
+
+  const geometryXml = geometry.type === 'Point'
+    ? `<Point><coordinates>${toTuple(geometry.coordinates as number[])}</coordinates></Point>`
+    : geometry.type === 'LineString'
+    ? `<LineString><coordinates>${(geometry.coordinates as number[][]).map(toTuple).join(' ')}</coordinates></LineString>`
+    : geometry.type === 'MultiPolygon'
+      ? `<MultiGeometry>${(geometry.coordinates as number[][][][]).map(toPolygon).join('')}</MultiGeometry>`
+      : toPolygon(geometry.coordinates as number[][][])
+
+  // Folder and description are written as KML structure rather than ExtendedData
+  const { description, ...properties } = getExportProperties(feature)
+  const data = Object.entries(properties)
+    .filter(([key, value]) => key !== 'folder' && value !== undefined && value !== null)
+    .map(([key, value]) =>
+      `${indent}    <Data name="${escapeXml(key)}"><value>${escapeXml(formatValue(value))}</value></Data>`
+    )
+
+  return [
+    `${indent}<Placemark>`,
+    `${indent}  <name>${escapeXml(feature.name)}</name>`,
+    ...(description !== undefined ? [`${indent}  <description>${escapeXml(formatValue(description))}</description>`] : []),
+    `${indent}  <styleUrl>#aoi-${feature.color.replace(/^#/, '').toLowerCase()}</styleUrl>`,
+    `${indent}  <ExtendedData>`,
+    ...data,
+    `${indent}  </ExtendedData>`,
+    `${indent}  ${geometryXml}`,
+    `${indent}</Placemark>`
+  ].join('\n')
+}
+
+interface FolderNode {
+  features: AOIFeature[]
+  folders: Map<string, FolderNode>
+}
+
+function buildFolder(node: FolderNode, indent: string): string[] {
+  return [
+    ...Array.from(node.folders, ([name, sub]) => [
+      `${indent}<Folder>`,
+      `${indent}  <name>${escapeXml(name)}</name>`,
+      ...buildFolder(sub, `${indent}  `),
+      `${indent}</Folder>`
+    ].join('\n')),
+    ...node.features.map(feature => buildPlacemark(feature, indent))
+  ]
+}
+
+/**
+ * Serialize AOI features as a KML document
+ * Features are grouped into folders by their "folder" property, with one shared style per colour
+ */
+export function buildKML(features: AOIFeature[], documentName = 'AOI Features'): string {
+  const root: FolderNode = { features: [], folders: new Map() }
+  features.forEach(feature => {
+    const folder = feature.properties?.folder
+    const path = typeof folder === 'string' && folder.trim() ? folder.split(FOLDER_SEPARATOR) : []
+    let node = root
+    for (const name of path) {
+      if (!node.folders.has(name)) node.folders.set(name, { features: [], folders: new Map() })
+      node = node.folders.get(name)!
+    }
+    node.features.push(feature)
+  })
+
+  const colors = Array.from(new Set(features.map(f => f.color.replace(/^#/, '').toLowerCase())))
+  const styles = colors.map(color => [
+    `    <Style id="aoi-${color}">`,
+    `      <LineStyle><color>${hexToKmlColor(color)}</color><width>2</width></LineStyle>`,
+    `      <PolyStyle><color>${hexToKmlColor(color, FILL_ALPHA)}</color></PolyStyle>`,
+    `      <IconStyle><color>${hexToKmlColor(color)}</color></IconStyle>`,
+    '    </Style>'
+  ].join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<kml xmlns="${KML_NS}">`,
+    '  <Document>',
+    `    <name>${escapeXml(documentName)}</name>`,
+    ...styles,
+    ...buildFolder(root, '    '),
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * Serialize AOI features as a KMZ archive containing doc.kml
+ */
+export function buildKMZ(features: AOIFeature[], documentName?: string): Uint8Array {
+  return zipSync({ 'doc.kml': strToU8(buildKML(features, documentName)) })
+}
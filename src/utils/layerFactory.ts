@@ -0,0 +1,98 @@
+import L from 'leaflet'
+import { MAP_CONFIG } from './mapUtils'
+import { buildWmtsTileUrl } from './layerStack'
+import type { AOIFeature, LayerInfo, WmsConfig } from '../types'
+
+/**
+ * Create a WMS tile layer from a WMS configuration
+ */
+export function createWmsLayer(config: WmsConfig, options: L.TileLayerOptions = {}): L.TileLayer.WMS {
+  return L.tileLayer.wms(config.url, {
+    layers: config.layers,
+    format: config.format,
+    transparent: config.transparent,
+    version: config.version,
+    crs: config.crs === 'EPSG:4326' ? L.CRS.EPSG4326 : L.CRS.EPSG3857,
+    styles: config.styles ?? '',
+    attribution: config.attribution,
+    maxZoom: MAP_CONFIG.MAX_ZOOM,
+    ...options
+  })
+}
+
+/**
+ * Create the Leaflet tile layer for a raster entry of the layer stack
+ * Returns null for the AOI entry, which is backed by the drawn items group
+ */
+export function createTileLayer(info: LayerInfo, pane: string): L.TileLayer | null {
+  const options: L.TileLayerOptions = { pane, maxZoom: MAP_CONFIG.MAX_ZOOM }
+
+  switch (info.source.type) {
+    case 'wms':
+      return createWmsLayer(info.source.wms, options)
+    case 'xyz':
+      return L.tileLayer(info.source.url, { ...options, attribution: info.source.attribution })
+    case 'wmts':
+      return L.tileLayer(buildWmtsTileUrl(info.source.wmts), options)
+    case 'aoi':
+      return null
+  }
+}
+
+/**
+ * Create the Leaflet vector layer for a stored AOI feature
+ * Without a pane the layer uses Leaflet's default overlay and marker panes
+ */
+export function createFeatureLayer(feature: AOIFeature, pane?: string): L.Layer {
+  const paneOptions = pane ? { pane } : {}
+  const style = { color: feature.color, fillOpacity: 0.3, ...paneOptions }
+
+  switch (feature.type) {
+    case 'polygon':
+      return L.polygon(feature.coordinates as [number, number][], style)
+    case 'multipolygon':
+      return L.polygon(feature.coordinates as [number, number][][][], style)
+    case 'rectangle':
+      return L.rectangle(feature.coordinates as [number, number][], style)
+    case 'circle': {
+      const coords = feature.coordinates as { center: number[]; radius: number }
+      return L.circle([coords.center[0], coords.center[1]], { ...style, radius: coords.radius })
+    }
+    case 'polyline':
+      return L.polyline(feature.coordinates as [number, number][], { color: feature.color, weight: 3, ...paneOptions })
+    case 'marker':
+      return L.marker(feature.coordinates as [number, number], pane ? { pane, shadowPane: pane } : {})
+  }
+}
+
+/**
+ * Report failing tiles once per load cycle instead of once per tile
+ */
+export function watchTileErrors(layer: L.TileLayer, onError: () => void): void {
+  let reported = false
+  layer.on('tileerror', () => {
+    if (reported) return
+    reported = true
+    onError()
+  })
+  layer.on('load', () => {
+    reported = false
+  })
+}
+
+/**
+ * Emphasise an AOI's layer while it is selected in the AOI list, or restore its normal look
+ */
+export function setFeatureLayerSelected(layer: L.Layer, selected: boolean): void {
+  if (layer instanceof L.Marker) {
+    layer.setZIndexOffset(selected ? 1000 : 0)
+    layer.getElement()?.classList.toggle('aoi-selected', selected)
+  } else if (layer instanceof L.Path) {
+    const filled = !(layer instanceof L.Polyline) || layer instanceof L.Polygon
+    layer.setStyle(selected
+      ? { weight: 5, dashArray: '8 4', ...(filled ? { fillOpacity: 0.5 } : {}) }
+      : { weight: 3, dashArray: undefined, ...(filled ? { fillOpacity: 0.3 } : {}) })
+    layer.getElement()?.classList.toggle('aoi-selected', selected)
+    if (selected) layer.bringToFront()
+  }
+}
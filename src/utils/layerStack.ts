@@ -0,0 +1,116 @@
+import { MAP_CONFIG, DEFAULT_MAP_CONFIG } from './mapUtils'
+import type { LayerInfo, WmtsConfig } from '../types'
+
+// The drawn AOI features always occupy exactly one entry in the stack
+export const AOI_LAYER_ID = 'aoi'
+
+// Stack panes sit between Leaflet's tilePane (200) and overlayPane (400)
+const PANE_Z_INDEX_BASE = 210
+
+/**
+ * Default layer stack, ordered top-most first
+ */
+export const DEFAULT_LAYERS: LayerInfo[] = [
+  {
+    id: AOI_LAYER_ID,
+    name: 'AOI Features',
+    description: 'Drawn areas of interest',
+    visible: true,
+    opacity: 100,
+    kind: 'overlay',
+    source: { type: 'aoi' }
+  },
+  {
+    id: 'satellite',
+    name: 'Satellite Imagery',
+    description: `WMS • ${DEFAULT_MAP_CONFIG.wms.layers}`,
+    visible: true,
+    opacity: 100,
+    kind: 'overlay',
+    source: { type: 'wms', wms: DEFAULT_MAP_CONFIG.wms }
+  },
+  {
+    id: 'osm',
+    name: 'OpenStreetMap',
+    description: 'XYZ • Street base map',
+    visible: true,
+    opacity: 100,
+    kind: 'base',
+    source: { type: 'xyz', url: MAP_CONFIG.OSM_URL, attribution: '© OpenStreetMap contributors' }
+  },
+  {
+    id: 'esri-imagery',
+    name: 'Esri World Imagery',
+    description: 'XYZ • Global satellite base map',
+    visible: false,
+    opacity: 100,
+    kind: 'base',
+    source: {
+      type: 'xyz',
+      url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+      attribution: '© Esri'
+    }
+  }
+]
+
+/**
+ * Return a copy of the stack with one layer moved to a new position
+ */
+export function moveLayer(layers: LayerInfo[], id: string, toIndex: number): LayerInfo[] {
+  const fromIndex = layers.findIndex(l => l.id === id)
+  if (fromIndex < 0) return layers
+
+  const target = Math.max(0, Math.min(layers.length - 1, toIndex))
+  if (target === fromIndex) return layers
+
+  const next = [...layers]
+  const [layer] = next.splice(fromIndex, 1)
+  next.splice(target, 0, layer)
+  return next
+}
+
+/**
+ * CSS z-index for the pane of the layer at a stack position (0 = top)
+ */
+export function getPaneZIndex(index: number, total: number): number {
+  return PANE_Z_INDEX_BASE + (total - index)
+}
+
+/**
+ * Leaflet pane name for a stacked layer
+ */
+export function getLayerPaneName(id: string): string {
+  return `stack-${id}`
+}
+
+/**
+ * Build a KVP GetTile URL template for a WMTS layer
+ * Tile matrices are assumed to follow the Web Mercator (GoogleMapsCompatible) zoom levels
+ */
+export function buildWmtsTileUrl(config: WmtsConfig): string {
+  const params = [
+    'SERVICE=WMTS',
+    'REQUEST=GetTile',
+    'VERSION=1.0.0',
+    `LAYER=${encodeURIComponent(config.layer)}`,
+    `STYLE=${encodeURIComponent(config.style || 'default')}`,
+    `TILEMATRIXSET=${encodeURIComponent(config.tileMatrixSet)}`,
+    `FORMAT=${encodeURIComponent(config.format)}`,
+    'TILEMATRIX={z}',
+    'TILEROW={y}',
+    'TILECOL={x}'
+  ]
+  const base = config.url.replace(/[?&]+$/, '')
+  return `${base}${base.includes('?') ? '&' : '?'}${params.join('&')}`
+}
+
+/**
+ * Restore a persisted stack, keeping the AOI entry present exactly once
+ */
+export function normalizeLayers(layers: LayerInfo[] | null | undefined): LayerInfo[] {
+  if (!Array.isArray(layers) || layers.length === 0) return DEFAULT_LAYERS
+
+  const valid = layers.filter(l => l && typeof l.id === 'string' && l.source)
+  const hasAoi = valid.some(l => l.id === AOI_LAYER_ID)
+  return hasAoi ? valid : [DEFAULT_LAYERS[0], ...valid]
+}
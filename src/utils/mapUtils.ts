@@ -1,4 +1,4 @@
-import type { AOIFeature, FeatureType } from '../types'
+import type { AOIFeature, DistanceUnit, FeatureType, MapConfig, MultiPolygonCoordinates } from '../types'
 
 // Map configuration constants
 export const MAP_CONFIG = {
@@ -8,17 +8,39 @@ export const MAP_CONFIG = {
   MAX_ZOOM: 19,
   WMS_URL: 'https://bhuvan-vec2.nrsc.gov.in/bhuvan/wms',
   WMS_LAYER: 'india3',
+  WMS_FORMAT: 'image/png',
+  WMS_TRANSPARENT: true,
+  WMS_VERSION: '1.1.1',
+  WMS_CRS: 'EPSG:3857' as const,
+  WMS_ATTRIBUTION: '© NRSC Bhuvan',
   NOMINATIM_URL: 'https://nominatim.openstreetmap.org',
   // Fallback tile layer (OpenStreetMap)
   OSM_URL: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png'
 }
 
+// Default map view and satellite imagery source
+export const DEFAULT_MAP_CONFIG: MapConfig = {
+  center: MAP_CONFIG.DEFAULT_CENTER,
+  zoom: MAP_CONFIG.DEFAULT_ZOOM,
+  wms: {
+    url: MAP_CONFIG.WMS_URL,
+    layers: MAP_CONFIG.WMS_LAYER,
+    format: MAP_CONFIG.WMS_FORMAT,
+    transparent: MAP_CONFIG.WMS_TRANSPARENT,
+    version: MAP_CONFIG.WMS_VERSION,
+    crs: MAP_CONFIG.WMS_CRS,
+    attribution: MAP_CONFIG.WMS_ATTRIBUTION
+  }
+}
+
 // Feature colors for different types
 export const FEATURE_COLORS: Record<FeatureType, string> = {
   polygon: '#3b82f6',
   rectangle: '#10b981',
   circle: '#8b5cf6',
-  marker: '#ef4444'
+  marker: '#ef4444',
+  multipolygon: '#0ea5e9',
+  polyline: '#f59e0b'
 }
 
 /**
@@ -28,6 +50,22 @@ export function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2)
 }
 
+// Short labels for distance units
+export const DISTANCE_UNIT_LABELS: Record<DistanceUnit, string> = {
+  meters: 'm',
+  kilometers: 'km',
+  feet: 'ft',
+  miles: 'mi'
+}
+
+// Length of each distance unit in meters
+export const DISTANCE_UNIT_METERS: Record<DistanceUnit, number> = {
+  meters: 1,
+  kilometers: 1000,
+  feet: 0.3048,
+  miles: 1609.344
+}
+
 /**
  * Format area value with appropriate units
  */
@@ -41,11 +79,36 @@ export function formatArea(sqMeters: number): string {
   }
 }
 
+/**
+ * Format a length in meters with appropriate units
+ */
+export function formatLength(meters: number): string {
+  return meters < 1000 ? `${meters.toFixed(0)} m` : `${(meters / 1000).toFixed(2)} km`
+}
+
+/**
+ * Calculate the geodesic length of a line using the haversine formula
+ */
+export function calculatePolylineLength(latlngs: Pick<L.LatLng, 'lat' | 'lng'>[]): number {
+  const EARTH_RADIUS = 6371008.8 // mean radius, meters
+  const toRad = (deg: number) => deg * Math.PI / 180
+
+  let total = 0
+  for (let i = 1; i < latlngs.length; i++) {
+    const [p1, p2] = [latlngs[i - 1], latlngs[i]]
+    const dLat = toRad(p2.lat - p1.lat)
+    const dLng = toRad(p2.lng - p1.lng)
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(p1.lat)) * Math.cos(toRad(p2.lat)) * Math.sin(dLng / 2) ** 2
+    total += 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)))
+  }
+  return total
+}
+
 /**
  * Calculate the geodesic area of a polygon
  * Uses the Shoelace formula adapted for geodesic calculations
  */
-export function calculatePolygonArea(latlngs: L.LatLng[]): number {
+export function calculatePolygonArea(latlngs: Pick<L.LatLng, 'lat' | 'lng'>[]): number {
   if (!latlngs || latlngs.length < 3) return 0
 
   const EARTH_RADIUS = 6378137 // meters
@@ -64,6 +127,35 @@ export function calculatePolygonArea(latlngs: L.LatLng[]): number {
   return Math.abs(total * EARTH_RADIUS * EARTH_RADIUS / 2)
 }
 
+/**
+ * Calculate the geodesic area of polygons with holes (outlines minus holes)
+ */
+export function calculateMultiPolygonArea(polygons: MultiPolygonCoordinates): number {
+  return polygons.reduce((total, rings) => total + rings.reduce((sum, ring, i) => {
+    const area = calculatePolygonArea(ring.map(([lat, lng]) => ({ lat, lng })))
+    return i === 0 ? sum + area : sum - area
+  }, 0), 0)
+}
+
+/**
+ * Normalize Leaflet polygon latlngs (a ring, rings, or polygons of rings) to multipolygon coordinates
+ */
+export function toMultiPolygonCoordinates(latlngs: unknown[]): MultiPolygonCoordinates {
+  const isPoint = (value: unknown) => typeof value === 'object' && value !== null && 'lat' in value
+  const toRing = (ring: unknown[]) => (ring as L.LatLng[]).map(ll => [ll.lat, ll.lng])
+
+  if (isPoint(latlngs[0])) return [[toRing(latlngs)]]
+  if (isPoint((latlngs[0] as unknown[])[0])) return [(latlngs as unknown[][]).map(toRing)]
+  return (latlngs as unknown[][][]).map(rings => rings.map(toRing))
+}
+
+/**
+ * Whether a feature has an area that boolean operations can work on (markers and polylines do not)
+ */
+export function isPolygonal(feature: AOIFeature): boolean {
+  return feature.type !== 'marker' && feature.type !== 'polyline'
+}
+
 /**
  * Calculate circle area
  */
@@ -87,12 +179,12 @@ export function calculateScaleText(zoom: number, lat: number): string {
 }
 
 /**
- * Format coordinates for display
+ * Format coordinates for display in decimal degrees
  */
-export function formatCoordinates(lat: number, lng: number): string {
+export function formatCoordinates(lat: number, lng: number, precision = 4): string {
   const latDir = lat >= 0 ? 'N' : 'S'
   const lngDir = lng >= 0 ? 'E' : 'W'
-  return `${Math.abs(lat).toFixed(4)}°${latDir}, ${Math.abs(lng).toFixed(4)}°${lngDir}`
+  return `${Math.abs(lat).toFixed(precision)}°${latDir}, ${Math.abs(lng).toFixed(precision)}°${lngDir}`
 }
 
 /**
@@ -103,18 +195,23 @@ export function isValidCoordinate(lat: number, lng: number): boolean {
 }
 
 /**
- * Create a feature object from a Leaflet layer
+ * Read the coordinates and area (or length, for polylines) of a drawn or edited Leaflet layer
  */
-export function createFeatureFromLayer(
+export function getLayerGeometry(
   layer: L.Layer,
-  type: FeatureType,
-  name: string,
-  existingFeatureCount: number
-): AOIFeature {
+  type: FeatureType
+): Pick<AOIFeature, 'coordinates' | 'area' | 'length'> {
   let coordinates: AOIFeature['coordinates']
   let area = 0
 
-  if (type === 'polygon' || type === 'rectangle') {
+  if (type === 'polyline') {
+    const latlngs = (layer as L.Polyline).getLatLngs() as L.LatLng[]
+    return { coordinates: latlngs.map(ll => [ll.lat, ll.lng]), length: calculatePolylineLength(latlngs) }
+  } else if (type === 'multipolygon') {
+    const polygons = toMultiPolygonCoordinates((layer as L.Polygon).getLatLngs())
+    coordinates = polygons
+    area = calculateMultiPolygonArea(polygons)
+  } else if (type === 'polygon' || type === 'rectangle') {
     const polygonLayer = layer as L.Polygon
     const latlngs = polygonLayer.getLatLngs()[0] as L.LatLng[]
     coordinates = latlngs.map(ll => [ll.lat, ll.lng])
@@ -132,12 +229,23 @@ export function createFeatureFromLayer(
     coordinates = [pos.lat, pos.lng]
   }
 
+  return { coordinates, area: area > 0 ? area : undefined }
+}
+
+/**
+ * Create a feature object from a Leaflet layer
+ */
+export function createFeatureFromLayer(
+  layer: L.Layer,
+  type: FeatureType,
+  name: string,
+  existingFeatureCount: number
+): AOIFeature {
   return {
     id: generateId(),
     name: name || `AOI ${existingFeatureCount + 1}`,
     type,
-    coordinates,
-    area: area > 0 ? area : undefined,
+    ...getLayerGeometry(layer, type),
     color: FEATURE_COLORS[type],
     createdAt: new Date().toISOString()
   }
@@ -151,7 +259,9 @@ export function getFeatureTypeIcon(type: FeatureType): string {
     polygon: 'M4 5a1 1 0 011-1h4a1 1 0 011 1v4a1 1 0 01-1 1H5a1 1 0 01-1-1V5z',
     rectangle: 'M4 6a2 2 0 012-2h12a2 2 0 012 2v12a2 2 0 01-2 2H6a2 2 0 01-2-2V6z',
     circle: 'M12 12m-9 0a9 9 0 1 0 18 0a9 9 0 1 0 -18 0',
-    marker: 'M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z M15 11a3 3 0 11-6 0 3 3 0 016 0z'
+    marker: 'M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z M15 11a3 3 0 11-6 0 3 3 0 016 0z',
+    multipolygon: 'M3 7l6-4 6 4v6l-6 4-6-4V7zm12 4l6-2v8l-6 4',
+    polyline: 'M3 17l6-6 4 4 8-8'
   }
   return icons[type]
 }
@@ -179,7 +289,13 @@ export function getFeatureBounds(feature: AOIFeature): L.LatLngBounds | null {
     ])
   }
 
-  // Polygon or Rectangle
+  if (feature.type === 'multipolygon') {
+    // Holes lie inside their outlines, so the outlines give the bounds
+    const outlines = (feature.coordinates as MultiPolygonCoordinates).flatMap(rings => rings[0])
+    return L.latLngBounds(outlines.map(c => [c[0], c[1]] as [number, number]))
+  }
+
+  // Polygon, rectangle or polyline
   const coords = feature.coordinates as number[][]
   return L.latLngBounds(coords.map(c => [c[0], c[1]] as [number, number]))
 }
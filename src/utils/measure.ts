@@ -0,0 +1,41 @@
+import { calculatePolygonArea, calculatePolylineLength, formatArea, formatLength } from './mapUtils'
+import type { MeasureSystem, PathMeasurement } from '../types'
+
+const METERS_PER_FOOT = 0.3048
+const METERS_PER_MILE = 1609.344
+const SQ_METERS_PER_ACRE = 4046.8564224
+
+/**
+ * Measure the segments, total length and enclosed area of a path of [lat, lng] points
+ */
+export function measurePath(points: [number, number][]): PathMeasurement {
+  const latlngs = points.map(([lat, lng]) => ({ lat, lng }))
+  const segments = latlngs.slice(1).map((point, i) => calculatePolylineLength([latlngs[i], point]))
+  return {
+    segments,
+    total: segments.reduce((sum, length) => sum + length, 0),
+    area: points.length >= 3 ? calculatePolygonArea(latlngs) : 0
+  }
+}
+
+/**
+ * Format a distance in meters as m/km or ft/mi
+ */
+export function formatDistance(meters: number, system: MeasureSystem): string {
+  if (system === 'metric') return formatLength(meters)
+
+  const miles = meters / METERS_PER_MILE
+  return miles < 0.1 ? `${(meters / METERS_PER_FOOT).toFixed(0)} ft` : `${miles.toFixed(2)} mi`
+}
+
+/**
+ * Format an area in m² as m²/ha/km² or ft²/ac/mi²
+ */
+export function formatMeasuredArea(sqMeters: number, system: MeasureSystem): string {
+  if (system === 'metric') return formatArea(sqMeters)
+
+  const acres = sqMeters / SQ_METERS_PER_ACRE
+  if (acres < 1) return `${(sqMeters / METERS_PER_FOOT ** 2).toFixed(0)} ft²`
+  if (acres < 640) return `${acres.toFixed(2)} ac`
+  return `${(sqMeters / METERS_PER_MILE ** 2).toFixed(2)} mi²`
+}
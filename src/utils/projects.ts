@@ -0,0 +1,178 @@
+import { generateId } from './mapUtils'
+import { isRecord } from './importUtils'
+import { DEFAULT_LAYERS, normalizeLayers } from './layerStack'
+import { DEFAULT_COORDINATE_SETTINGS } from './coordinates'
+import { DEFAULT_GEOCODER_SETTINGS } from './geocoding'
+import { DEFAULT_PROJECT_ID, RECORD_VERSION, migrateFeature } from './featureStore'
+import { readAttributeSchema } from './attributes'
+import type { AOIFeature, LayerInfo, MapView, Project, ProjectImport, ProjectSettings, ProjectState, Workspace } from '../types'
+
+// Marks an exported project file; the version says which feature records it holds
+export const PROJECT_FILE_TYPE = 'aoi-project'
+export const PROJECT_FILE_EXTENSION = '.aoiproject.json'
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  coordinates: DEFAULT_COORDINATE_SETTINGS,
+  geocoder: DEFAULT_GEOCODER_SETTINGS
+}
+
+/**
+ * New project with the default layers and settings, no saved view and no custom attributes
+ */
+export function createProject(name: string, state: Partial<ProjectState> = {}, id = generateId()): Project {
+  return {
+    id,
+    name,
+    createdAt: new Date().toISOString(),
+    layers: DEFAULT_LAYERS,
+    view: null,
+    settings: DEFAULT_PROJECT_SETTINGS,
+    attributes: [],
+    ...state
+  }
+}
+
+/**
+ * Workspace of the single project that holds everything made before projects existed
+ */
+export function createDefaultWorkspace(state: Partial<ProjectState> = {}): Workspace {
+  return { activeId: DEFAULT_PROJECT_ID, projects: [createProject('My project', state, DEFAULT_PROJECT_ID)] }
+}
+
+/**
+ * Give a name a numbered suffix if another project already uses it
+ */
+export function uniqueProjectName(name: string, projects: Project[], exceptId?: string): string {
+  const base = name.trim() || 'Untitled project'
+  const taken = new Set(projects.filter(p => p.id !== exceptId).map(p => p.name.toLowerCase()))
+  if (!taken.has(base.toLowerCase())) return base
+
+  let n = 2
+  while (taken.has(`${base} (${n})`.toLowerCase())) n++
+  return `${base} (${n})`
+}
+
+function readView(value: unknown): MapView | null {
+  if (!isRecord(value) || !Array.isArray(value.center) || typeof value.zoom !== 'number') return null
+  const [lat, lng] = value.center
+  if (typeof lat !== 'number' || typeof lng !== 'number' || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null
+  return { center: [lat, lng], zoom: value.zoom }
+}
+
+function readSettings(value: unknown): ProjectSettings {
+  const settings = isRecord(value) ? value : {}
+  return {
+    coordinates: { ...DEFAULT_PROJECT_SETTINGS.coordinates, ...(isRecord(settings.coordinates) ? settings.coordinates : {}) },
+    geocoder: { ...DEFAULT_PROJECT_SETTINGS.geocoder, ...(isRecord(settings.geocoder) ? settings.geocoder : {}) }
+  }
+}
+
+/**
+ * Read a project's layers, view, settings and attribute schema, filling in defaults for anything missing
+ */
+export function readProjectState(value: unknown): ProjectState {
+  const project = isRecord(value) ? value : {}
+  return {
+    layers: normalizeLayers(Array.isArray(project.layers) ? project.layers as LayerInfo[] : null),
+    view: readView(project.view),
+    settings: readSettings(project.settings),
+    attributes: readAttributeSchema(project.attributes)
+  }
+}
+
+const isProject = (value: unknown): value is Project =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.createdAt === 'string' &&
+  Array.isArray(value.layers) &&
+  (value.view === null || readView(value.view) !== null) &&
+  isRecord(value.settings) && isRecord(value.settings.coordinates) && isRecord(value.settings.geocoder) &&
+  Array.isArray(value.attributes)
+
+function readProject(value: unknown): Project | null {
+  if (isProject(value)) return value
+  if (!isRecord(value) || typeof value.id !== 'string' || typeof value.name !== 'string') return null
+  return {
+    id: value.id,
+    name: value.name,
+    createdAt: typeof value.createdAt === 'string' ? value.createdAt : new Date().toISOString(),
+    ...readProjectState(value)
+  }
+}
+
+/**
+ * Check a stored workspace, repairing or dropping unreadable projects; falls back to the given workspace if none are left
+ * A workspace that needs no repair is returned as is, so unchanged projects keep their identity
+ */
+export function normalizeWorkspace(value: unknown, fallback: Workspace): Workspace {
+  if (!isRecord(value) || !Array.isArray(value.projects)) return fallback
+
+  const stored: unknown[] = value.projects
+  const projects = stored.map(readProject).filter((p): p is Project => p !== null)
+  if (projects.length === 0) return fallback
+
+  const activeId = projects.some(p => p.id === value.activeId) ? value.activeId as string : projects[0].id
+  const unchanged = activeId === value.activeId && projects.length === stored.length &&
+    projects.every((p, i) => p === stored[i])
+  return unchanged ? value as unknown as Workspace : { activeId, projects }
+}
+
+/**
+ * Copy AOIs under new ids, so the copies can be stored alongside the originals
+ */
+export function copyFeatures(features: AOIFeature[]): AOIFeature[] {
+  return features.map(f => ({ ...f, id: generateId() }))
+}
+
+/**
+ * Serialize a project and its AOIs as one file; the undo history is not included
+ */
+export function buildProjectFile(project: Project, features: AOIFeature[]): string {
+  const { name, layers, view, settings, attributes } = project
+  return JSON.stringify({
+    type: PROJECT_FILE_TYPE,
+    version: RECORD_VERSION,
+    exportedAt: new Date().toISOString(),
+    project: { name, layers, view, settings, attributes },
+    features
+  }, null, 2)
+}
+
+/**
+ * Read an exported project file; features that fail validation are counted rather than failing the import
+ */
+export function parseProjectFile(text: string): ProjectImport {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Project file is not valid JSON')
+  }
+  if (!isRecord(data) || data.type !== PROJECT_FILE_TYPE || !isRecord(data.project)) {
+    throw new Error('Not an AOI project file')
+  }
+  if (typeof data.version !== 'number' || data.version > RECORD_VERSION) {
+    throw new Error('Project file was made by a newer version of the app')
+  }
+
+  const features: AOIFeature[] = []
+  let skipped = 0
+  const items = Array.isArray(data.features) ? data.features : []
+  items.forEach(item => {
+    const feature = migrateFeature(item, data.version as number)
+    if (feature) features.push(feature)
+    else skipped++
+  })
+
+  const name = typeof data.project.name === 'string' ? data.project.name : ''
+  return { name, state: readProjectState(data.project), features, skipped }
+}
+
+/**
+ * File name for an exported project
+ */
+export function getProjectFileName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+  return `${slug || 'project'}${PROJECT_FILE_EXTENSION}`
+}
@@ -0,0 +1,43 @@
+import type { SavedPlace, SearchResult } from '../types'
+
+export const RECENT_PLACES_LIMIT = 8
+
+/**
+ * Keep what is needed to return to a search result later
+ */
+export function toSavedPlace(result: SearchResult): SavedPlace {
+  const name = result.display_name.split(',')[0].trim() || result.display_name
+  return {
+    id: result.place_id,
+    name,
+    displayName: result.display_name,
+    lat: parseFloat(result.lat),
+    lng: parseFloat(result.lon),
+    ...(result.bbox ? { bbox: result.bbox } : {})
+  }
+}
+
+/**
+ * Put a place at the top of the recent list, dropping an earlier visit and the oldest entries beyond the limit
+ */
+export function addRecentPlace(recent: SavedPlace[], place: SavedPlace, limit = RECENT_PLACES_LIMIT): SavedPlace[] {
+  return [place, ...recent.filter(p => p.id !== place.id)].slice(0, limit)
+}
+
+/**
+ * Star a place, or unstar it if it is already saved; newly saved places come first
+ */
+export function toggleSavedPlace(saved: SavedPlace[], place: SavedPlace): SavedPlace[] {
+  return saved.some(p => p.id === place.id)
+    ? saved.filter(p => p.id !== place.id)
+    : [place, ...saved]
+}
+
+/**
+ * Corners of the extent to show a place at as [[south, west], [north, east]], or null for a bare point
+ */
+export function getPlaceBounds(place: SavedPlace): [[number, number], [number, number]] | null {
+  if (!place.bbox) return null
+  const [west, south, east, north] = place.bbox
+  return [[south, west], [north, east]]
+}
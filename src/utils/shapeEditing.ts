@@ -0,0 +1,109 @@
+import L from 'leaflet'
+import 'leaflet-draw'
+
+// Active edit session over the AOI layers
+export interface ShapeEditSession {
+  // Keep the edits; fires draw:edited with the changed layers
+  save: () => void
+  // Restore every layer to its state before editing
+  cancel: () => void
+}
+
+// Vertex editing handler leaflet-draw attaches to polylines and polygons
+type EditablePolygon = L.Polygon & { edited?: boolean; editing?: { updateMarkers: () => void } }
+
+const MOVE_ICON = L.divIcon({
+  className: 'leaflet-div-icon leaflet-editing-icon leaflet-edit-move',
+  iconSize: new L.Point(12, 12)
+})
+
+function shiftLatLngs(latlngs: L.LatLng[] | L.LatLng[][], dLat: number, dLng: number): L.LatLng[] | L.LatLng[][] {
+  return latlngs.map(ll => Array.isArray(ll)
+    ? shiftLatLngs(ll, dLat, dLng) as L.LatLng[]
+    : L.latLng(ll.lat + dLat, ll.lng + dLng)) as L.LatLng[] | L.LatLng[][]
+}
+
+/**
+ * Add a handle that drags a whole polygon
+ * leaflet-draw only offers move handles for rectangles and circles
+ */
+function createMoveHandle(map: L.Map, polygon: EditablePolygon): L.Marker {
+  const handle = L.marker(polygon.getBounds().getCenter(), { draggable: true, icon: MOVE_ICON, zIndexOffset: 1000 })
+  let start = handle.getLatLng()
+  let original = polygon.getLatLngs() as L.LatLng[][]
+
+  handle.on('dragstart', () => {
+    start = handle.getLatLng()
+    original = polygon.getLatLngs() as L.LatLng[][]
+  })
+  handle.on('drag', () => {
+    const position = handle.getLatLng()
+    polygon.setLatLngs(shiftLatLngs(original, position.lat - start.lat, position.lng - start.lng))
+  })
+  handle.on('dragend', () => {
+    polygon.editing?.updateMarkers()
+    polygon.edited = true
+    map.fire(L.Draw.Event.EDITMOVE, { layer: polygon })
+  })
+
+  return handle.addTo(map)
+}
+
+function isFreePolygon(layer: L.Layer): layer is EditablePolygon {
+  return layer instanceof L.Polygon && !(layer instanceof L.Rectangle)
+}
+
+/**
+ * Start editing every layer of the group with leaflet-draw's edit handler
+ * Returns null when the group has no layers to edit
+ */
+export function startShapeEditing(map: L.Map, group: L.FeatureGroup): ShapeEditSession | null {
+  if (group.getLayers().length === 0) return null
+
+  const handler = new L.EditToolbar.Edit(map as L.DrawMap, {
+    featureGroup: group,
+    // Keep each AOI's colour while highlighting it as editable
+    selectedPathOptions: { dashArray: '10, 10', fill: true, fillOpacity: 0.1, maintainColor: true } as L.PathOptions
+  })
+  handler.enable()
+
+  const handles = new Map<L.Layer, L.Marker>()
+  const addHandle = (layer: L.Layer) => {
+    if (isFreePolygon(layer)) handles.set(layer, createMoveHandle(map, layer))
+  }
+  const removeHandle = (layer: L.Layer) => {
+    handles.get(layer)?.remove()
+    handles.delete(layer)
+  }
+  const recenterHandle = (e: L.LeafletEvent) => {
+    const poly = (e as L.LeafletEvent & { poly?: L.Polygon }).poly
+    if (poly) handles.get(poly)?.setLatLng(poly.getBounds().getCenter())
+  }
+  const onLayerAdd = (e: L.LeafletEvent) => addHandle((e as L.LayerEvent).layer)
+  const onLayerRemove = (e: L.LeafletEvent) => removeHandle((e as L.LayerEvent).layer)
+
+  group.eachLayer(addHandle)
+  group.on('layeradd', onLayerAdd)
+  group.on('layerremove', onLayerRemove)
+  map.on(L.Draw.Event.EDITVERTEX, recenterHandle)
+
+  const stop = () => {
+    group.off('layeradd', onLayerAdd)
+    group.off('layerremove', onLayerRemove)
+    map.off(L.Draw.Event.EDITVERTEX, recenterHandle)
+    handles.forEach(handle => handle.remove())
+    handles.clear()
+    handler.disable()
+  }
+
+  return {
+    save: () => {
+      handler.save()
+      stop()
+    },
+    cancel: () => {
+      handler.revertLayers()
+      stop()
+    }
+  }
+}
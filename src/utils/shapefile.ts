@@ -0,0 +1,322 @@
+import { parseZip } from 'shpjs'
+import { zipSync, strToU8 } from 'fflate'
+import { readGeoJSON, featureToGeometry, getExportProperties } from './geojson'
+import { getFeaturesExtent } from './importUtils'
+import type { AOIFeature, ImportIssue, ImportResult } from '../types'
+
+const SHAPE_POINT = 1
+const SHAPE_POLYLINE = 3
+const SHAPE_POLYGON = 5
+
+// Shapefiles exported by the app are always WGS84 longitude/latitude
+const WGS84_PRJ = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]'
+
+// DBF limits: 10 character field names, 254 byte character fields
+const MAX_FIELD_NAME = 10
+const MAX_CHAR_LENGTH = 254
+
+interface DbfField {
+  name: string
+  key: string
+  type: 'C' | 'N' | 'L'
+  length: number
+  decimals: number
+}
+
+interface ShapeRecord {
+  // Rings or lines of [x, y] positions; a single position for points
+  parts: number[][][]
+  properties: Record<string, unknown>
+}
+
+/**
+ * Read AOI features from a zipped shapefile (.shp with .dbf, .prj and .cpg)
+ * Geometries are reprojected to WGS84 according to the .prj; every layer in the archive is imported
+ */
+export async function parseShapefileZip(data: Uint8Array, existingCount = 0): Promise<ImportResult> {
+  let parsed: Awaited<ReturnType<typeof parseZip>>
+  try {
+    parsed = await parseZip(data)
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    if (/no layers/i.test(message)) throw new Error('Zip archive contains no shapefile (.shp)')
+    throw new Error(`Could not read shapefile: ${message}`)
+  }
+
+  const layers = Array.isArray(parsed) ? parsed : [parsed]
+  const features: AOIFeature[] = []
+  const issues: ImportIssue[] = []
+  let offset = 0
+
+  layers.forEach(layer => {
+    const result = readGeoJSON(layer, existingCount + features.length)
+    const prefix = layers.length > 1 && layer.fileName ? `${layer.fileName}: ` : ''
+
+    features.push(...result.features)
+    issues.push(...result.issues.map(issue => ({
+      ...issue,
+      index: issue.index + offset,
+      message: prefix + issue.message
+    })))
+    offset += layer.features.length
+  })
+
+  return { features, issues, bbox: getFeaturesExtent(features) }
+}
+
+/**
+ * Truncate a string to a maximum number of UTF-8 bytes without splitting characters
+ */
+function truncateBytes(text: string, maxBytes: number): Uint8Array {
+  let bytes = strToU8(text)
+  let end = text.length
+  while (bytes.length > maxBytes) {
+    end -= 1
+    bytes = strToU8(text.slice(0, end))
+  }
+  return bytes
+}
+
+function formatNumber(value: number, decimals: number): string {
+  return decimals > 0 ? value.toFixed(decimals) : String(Math.round(value))
+}
+
+/**
+ * Derive DBF columns from the records' properties
+ * Names are shortened to 10 ASCII characters and de-duplicated case-insensitively
+ */
+function getDbfFields(records: ShapeRecord[]): DbfField[] {
+  const keys = Array.from(new Set(records.flatMap(r => Object.keys(r.properties))))
+  const used = new Set<string>()
+
+  return keys.map(key => {
+    const values = records.map(r => r.properties[key]).filter(v => v !== undefined && v !== null)
+
+    const base = key.replace(/[^A-Za-z0-9_]/g, '_').slice(0, MAX_FIELD_NAME) || 'FIELD'
+    let name = base
+    for (let i = 1; used.has(name.toUpperCase()); i++) {
+      const suffix = String(i)
+      name = base.slice(0, MAX_FIELD_NAME - suffix.length) + suffix
+    }
+    used.add(name.toUpperCase())
+
+    if (values.length > 0 && values.every(v => typeof v === 'boolean')) {
+      return { name, key, type: 'L', length: 1, decimals: 0 }
+    }
+
+    if (values.length > 0 && values.every(v => typeof v === 'number' && Number.isFinite(v))) {
+      const decimals = Math.min(8, Math.max(0, ...values.map(v => (String(v).split('.')[1] ?? '').length)))
+      const length = Math.min(19, Math.max(1, ...values.map(v => formatNumber(v as number, decimals).length)))
+      return { name, key, type: 'N', length, decimals }
+    }
+
+    const length = Math.min(MAX_CHAR_LENGTH, Math.max(1, ...values.map(v => strToU8(formatValue(v)).length)))
+    return { name, key, type: 'C', length, decimals: 0 }
+  })
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+/**
+ * Build a dBASE III table for the records' properties
+ */
+function buildDbf(records: ShapeRecord[]): Uint8Array {
+  const fields = getDbfFields(records)
+  const headerLength = 32 + fields.length * 32 + 1
+  const recordLength = 1 + fields.reduce((sum, f) => sum + f.length, 0)
+  const buffer = new Uint8Array(headerLength + records.length * recordLength + 1)
+  const view = new DataView(buffer.buffer)
+
+  const now = new Date()
+  view.setUint8(0, 0x03)
+  view.setUint8(1, now.getFullYear() - 1900)
+  view.setUint8(2, now.getMonth() + 1)
+  view.setUint8(3, now.getDate())
+  view.setUint32(4, records.length, true)
+  view.setUint16(8, headerLength, true)
+  view.setUint16(10, recordLength, true)
+
+  fields.forEach((field, i) => {
+    const offset = 32 + i * 32
+    buffer.set(strToU8(field.name), offset)
+    view.setUint8(offset + 11, field.type.charCodeAt(0))
+    view.setUint8(offset + 16, field.length)
+    view.setUint8(offset + 17, field.decimals)
+  })
+  view.setUint8(headerLength - 1, 0x0d)
+
+  records.forEach((record, r) => {
+    let offset = headerLength + r * recordLength
+    // Deletion flag (space = active), then space-padded values
+    buffer.fill(0x20, offset, offset + recordLength)
+    offset += 1
+
+    fields.forEach(field => {
+      const value = record.properties[field.key]
+      if (value !== undefined && value !== null) {
+        if (field.type === 'N') {
+          const text = strToU8(formatNumber(value as number, field.decimals))
+          buffer.set(text, offset + field.length - text.length)
+        } else if (field.type === 'L') {
+          buffer.set(strToU8(value ? 'T' : 'F'), offset)
+        } else {
+          buffer.set(truncateBytes(formatValue(value), field.length), offset)
+        }
+      }
+      offset += field.length
+    })
+  })
+
+  buffer[buffer.length - 1] = 0x1a
+  return buffer
+}
+
+/**
+ * Extent of [x, y] positions as [xmin, ymin, xmax, ymax]
+ * Folded in one pass, since spreading a large export's vertices into Math.min overflows the call stack
+ */
+function getBounds(points: number[][]): [number, number, number, number] {
+  const bounds: [number, number, number, number] = [Infinity, Infinity, -Infinity, -Infinity]
+  for (const [x, y] of points) {
+    if (x < bounds[0]) bounds[0] = x
+    if (y < bounds[1]) bounds[1] = y
+    if (x > bounds[2]) bounds[2] = x
+    if (y > bounds[3]) bounds[3] = y
+  }
+  return bounds
+}
+
+/**
+ * Build the .shp and .shx files for point, polyline or polygon records
+ */
+function buildShp(records: ShapeRecord[], shapeType: number): { shp: Uint8Array; shx: Uint8Array } {
+  const contents = records.map(record => {
+    const points = record.parts.flat()
+    if (shapeType === SHAPE_POINT) {
+      const content = new DataView(new ArrayBuffer(20))
+      content.setInt32(0, SHAPE_POINT, true)
+      content.setFloat64(4, points[0][0], true)
+      content.setFloat64(12, points[0][1], true)
+      return content
+    }
+
+    const content = new DataView(new ArrayBuffer(44 + record.parts.length * 4 + points.length * 16))
+    // Polylines share the polygon record layout, with lines as parts
+    content.setInt32(0, shapeType, true)
+    getBounds(points).forEach((value, i) => content.setFloat64(4 + i * 8, value, true))
+    content.setInt32(36, record.parts.length, true)
+    content.setInt32(40, points.length, true)
+
+    let start = 0
+    record.parts.forEach((part, i) => {
+      content.setInt32(44 + i * 4, start, true)
+      start += part.length
+    })
+    const pointsOffset = 44 + record.parts.length * 4
+    points.forEach(([x, y], i) => {
+      content.setFloat64(pointsOffset + i * 16, x, true)
+      content.setFloat64(pointsOffset + i * 16 + 8, y, true)
+    })
+    return content
+  })
+
+  const shpLength = 100 + contents.reduce((sum, c) => sum + 8 + c.byteLength, 0)
+  const shxLength = 100 + records.length * 8
+  const shp = new Uint8Array(shpLength)
+  const shx = new Uint8Array(shxLength)
+  const shpView = new DataView(shp.buffer)
+  const shxView = new DataView(shx.buffer)
+
+  // Both files share the same header apart from the file length (in 16-bit words)
+  const allPoints = records.flatMap(r => r.parts.flat())
+  const bounds = getBounds(allPoints)
+  const header = (view: DataView, length: number) => {
+    view.setInt32(0, 9994)
+    view.setInt32(24, length / 2)
+    view.setInt32(28, 1000, true)
+    view.setInt32(32, shapeType, true)
+    if (allPoints.length > 0) {
+      bounds.forEach((value, i) => view.setFloat64(36 + i * 8, value, true))
+    }
+  }
+  header(shpView, shpLength)
+  header(shxView, shxLength)
+
+  let offset = 100
+  contents.forEach((content, i) => {
+    shxView.setInt32(100 + i * 8, offset / 2)
+    shxView.setInt32(100 + i * 8 + 4, content.byteLength / 2)
+
+    shpView.setInt32(offset, i + 1)
+    shpView.setInt32(offset + 4, content.byteLength / 2)
+    shp.set(new Uint8Array(content.buffer), offset + 8)
+    offset += 8 + content.byteLength
+  })
+
+  return { shp, shx }
+}
+
+/**
+ * Close a ring and orient it clockwise (outer rings) or counter-clockwise (holes), as shapefiles require
+ */
+function orientRing(ring: number[][], clockwise: boolean): number[][] {
+  const closed = ring.length > 0 && (ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1])
+    ? [...ring, ring[0]]
+    : [...ring]
+
+  let signedArea = 0
+  for (let i = 0; i < closed.length - 1; i++) {
+    signedArea += (closed[i + 1][0] - closed[i][0]) * (closed[i + 1][1] + closed[i][1])
+  }
+  // A positive sum of (x2 - x1)(y2 + y1) means the ring is clockwise
+  return (signedArea >= 0) === clockwise ? closed : closed.reverse()
+}
+
+/**
+ * Serialize AOI features as a zipped shapefile set
+ * Polygons (with their holes), rectangles and circles go to aoi-polygons.*, polylines to aoi-lines.*, markers to aoi-points.*;
+ * attributes are written to the .dbf
+ */
+export function buildShapefileZip(features: AOIFeature[]): Uint8Array {
+  const polygons: ShapeRecord[] = []
+  const lines: ShapeRecord[] = []
+  const points: ShapeRecord[] = []
+
+  features.forEach(feature => {
+    const geometry = featureToGeometry(feature)
+    const properties = getExportProperties(feature)
+    if (geometry.type === 'Point') {
+      points.push({ parts: [[geometry.coordinates as number[]]], properties })
+    } else if (geometry.type === 'LineString') {
+      lines.push({ parts: [geometry.coordinates as number[][]], properties })
+    } else {
+      const rings = geometry.type === 'MultiPolygon'
+        ? (geometry.coordinates as number[][][][]).flat()
+        : geometry.coordinates as number[][][]
+      // Each polygon's first ring is its outline; the rest are holes
+      const outlines = new Set(geometry.type === 'MultiPolygon'
+        ? (geometry.coordinates as number[][][][]).map(polygon => polygon[0])
+        : [rings[0]])
+      polygons.push({ parts: rings.map(ring => orientRing(ring, outlines.has(ring))), properties })
+    }
+  })
+
+  const files: Record<string, Uint8Array> = {}
+  const addLayer = (name: string, records: ShapeRecord[], shapeType: number) => {
+    if (records.length === 0) return
+    const { shp, shx } = buildShp(records, shapeType)
+    files[`${name}.shp`] = shp
+    files[`${name}.shx`] = shx
+    files[`${name}.dbf`] = buildDbf(records)
+    files[`${name}.prj`] = strToU8(WGS84_PRJ)
+    files[`${name}.cpg`] = strToU8('UTF-8')
+  }
+
+  addLayer('aoi-polygons', polygons, SHAPE_POLYGON)
+  addLayer('aoi-lines', lines, SHAPE_POLYLINE)
+  addLayer('aoi-points', points, SHAPE_POINT)
+  return zipSync(files)
+}
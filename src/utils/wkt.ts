@@ -0,0 +1,160 @@
+import { readFeatureRows, featureToGeometry, type FeatureRow } from './geojson'
+import type { AOIFeature, ImportResult } from '../types'
+
+// Nested coordinate lists as they appear between WKT parentheses
+type CoordinateTree = number[] | CoordinateTree[]
+
+export interface WktGeometry {
+  type: 'Point' | 'LineString' | 'MultiLineString' | 'Polygon' | 'MultiPolygon'
+  coordinates: CoordinateTree
+}
+
+// Nesting depth of each supported type's coordinate lists
+const GEOMETRY_DEPTHS: Record<string, { type: WktGeometry['type']; depth: number }> = {
+  POINT: { type: 'Point', depth: 2 },
+  LINESTRING: { type: 'LineString', depth: 2 },
+  MULTILINESTRING: { type: 'MultiLineString', depth: 3 },
+  POLYGON: { type: 'Polygon', depth: 3 },
+  MULTIPOLYGON: { type: 'MultiPolygon', depth: 4 }
+}
+
+const TOKEN = /\s*(\(|\)|,|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?|[A-Za-z]+)/y
+
+function tokenize(text: string): string[] {
+  const tokens: string[] = []
+  TOKEN.lastIndex = 0
+  while (TOKEN.lastIndex < text.length) {
+    const start = TOKEN.lastIndex
+    const match = TOKEN.exec(text)
+    if (!match) {
+      if (text.slice(start).trim() === '') break
+      throw new Error(`Unexpected character "${text.slice(start).trim()[0]}" in WKT`)
+    }
+    tokens.push(match[1])
+  }
+  return tokens
+}
+
+function depthOf(tree: CoordinateTree): number {
+  return typeof tree[0] === 'number' ? 1 : 1 + depthOf(tree[0] as CoordinateTree)
+}
+
+/**
+ * Parse a WKT (or EWKT with SRID 4326) POINT, (MULTI)LINESTRING or (MULTI)POLYGON into GeoJSON-style coordinates
+ */
+export function parseWKT(text: string): WktGeometry {
+  let wkt = text.trim()
+
+  const srid = /^SRID=(\d+);/i.exec(wkt)
+  if (srid) {
+    if (srid[1] !== '4326') throw new Error(`Only WGS84 coordinates are supported (found SRID ${srid[1]})`)
+    wkt = wkt.slice(srid[0].length)
+  }
+
+  const tokens = tokenize(wkt)
+  let pos = 0
+  const next = () => tokens[pos]
+  const expect = (token: string) => {
+    if (tokens[pos] !== token) throw new Error(`Expected "${token}" in WKT`)
+    pos++
+  }
+
+  const keyword = (next() ?? '').toUpperCase()
+  if (!/^[A-Z]+$/.test(keyword)) throw new Error('WKT must start with a geometry type')
+  pos++
+  // Dimension markers (Z, M, ZM) are accepted; extra ordinates are ignored
+  if (['Z', 'M', 'ZM'].includes((next() ?? '').toUpperCase())) pos++
+
+  const spec = GEOMETRY_DEPTHS[keyword]
+  if (!spec) throw new Error(`Unsupported WKT geometry type "${keyword}"`)
+  if ((next() ?? '').toUpperCase() === 'EMPTY') throw new Error(`${keyword} is empty`)
+
+  const parseGroup = (): CoordinateTree => {
+    expect('(')
+    const items: CoordinateTree[] = []
+    for (;;) {
+      if (next() === '(') {
+        items.push(parseGroup())
+      } else {
+        const position: number[] = []
+        while (next() !== undefined && next() !== ',' && next() !== ')') {
+          const value = Number(next())
+          if (!Number.isFinite(value)) throw new Error(`Invalid coordinate "${next()}" in WKT`)
+          position.push(value)
+          pos++
+        }
+        if (position.length < 2) throw new Error('WKT positions need an x and a y coordinate')
+        items.push(position.slice(0, 2))
+      }
+      if (next() === ',') {
+        pos++
+        continue
+      }
+      expect(')')
+      return items as CoordinateTree
+    }
+  }
+
+  const tree = parseGroup()
+  if (pos < tokens.length) throw new Error('Unexpected text after WKT geometry')
+  if (depthOf(tree) !== spec.depth) throw new Error(`Malformed ${keyword} coordinates`)
+
+  return { type: spec.type, coordinates: spec.type === 'Point' ? (tree as number[][])[0] : tree }
+}
+
+/**
+ * Whether text starts with a WKT geometry keyword, used to tell pasted WKT from CSV
+ */
+export function looksLikeWKT(text: string): boolean {
+  return /^\s*(SRID=\d+;\s*)?(POINT|LINESTRING|POLYGON|MULTIPOINT|MULTILINESTRING|MULTIPOLYGON|GEOMETRYCOLLECTION)\b/i.test(text)
+}
+
+function formatPosition(position: number[]): string {
+  return `${position[0]} ${position[1]}`
+}
+
+/**
+ * Serialize an AOI feature as WKT (circles as their 32-sided polygon, multipolygons with their holes)
+ */
+export function featureToWKT(feature: AOIFeature): string {
+  const geometry = featureToGeometry(feature)
+  if (geometry.type === 'Point') {
+    return `POINT (${formatPosition(geometry.coordinates as number[])})`
+  }
+  if (geometry.type === 'LineString') {
+    return `LINESTRING (${(geometry.coordinates as number[][]).map(formatPosition).join(', ')})`
+  }
+  const formatRings = (rings: number[][][]) => `(${rings.map(ring => `(${ring.map(formatPosition).join(', ')})`).join(', ')})`
+  if (geometry.type === 'MultiPolygon') {
+    return `MULTIPOLYGON (${(geometry.coordinates as number[][][][]).map(formatRings).join(', ')})`
+  }
+  return `POLYGON ${formatRings(geometry.coordinates as number[][][])}`
+}
+
+/**
+ * Parse a WKT file with one geometry per line into AOI features
+ * Lines that fail to parse are reported individually
+ */
+export function parseWKTFeatures(text: string, existingCount = 0): ImportResult {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: line.trim(), number: i + 1 }))
+    .filter(({ line }) => line !== '')
+    .map(({ line, number }): FeatureRow => {
+      try {
+        return { feature: { type: 'Feature', geometry: parseWKT(line), properties: {} } }
+      } catch (err) {
+        return { name: `Line ${number}`, error: (err as Error).message }
+      }
+    })
+
+  if (rows.length === 0) throw new Error('File contains no WKT geometries')
+  return readFeatureRows(rows, existingCount)
+}
+
+/**
+ * Serialize AOI features as WKT, one geometry per line
+ */
+export function buildWKT(features: AOIFeature[]): string {
+  return features.map(featureToWKT).join('\n') + '\n'
+}
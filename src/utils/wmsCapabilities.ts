@@ -0,0 +1,199 @@
+import { localName, children, child, childText } from './xml'
+import type { WmsCapabilities, WmsConfig, WmsLayerSummary, WmsStyle } from '../types'
+
+const XLINK_NS = 'http://www.w3.org/1999/xlink'
+
+// Inherited properties passed down the layer tree (WMS spec 7.2.4.8)
+interface LayerContext {
+  bbox: WmsLayerSummary['bbox']
+  crs: string[]
+  styles: WmsStyle[]
+}
+
+function parseNumbers(values: (string | null)[]): [number, number, number, number] | null {
+  const nums = values.map(v => (v === null || v === '' ? NaN : Number(v)))
+  return nums.every(n => Number.isFinite(n)) ? (nums as [number, number, number, number]) : null
+}
+
+/**
+ * Read the WGS84 extent of a layer as [west, south, east, north]
+ */
+function parseBoundingBox(layer: Element, version: string): WmsLayerSummary['bbox'] {
+  // WMS 1.3.0
+  const geographic = child(layer, 'EX_GeographicBoundingBox')
+  if (geographic) {
+    return parseNumbers([
+      childText(geographic, 'westBoundLongitude'),
+      childText(geographic, 'southBoundLatitude'),
+      childText(geographic, 'eastBoundLongitude'),
+      childText(geographic, 'northBoundLatitude')
+    ])
+  }
+
+  // WMS 1.1.x
+  const latLon = child(layer, 'LatLonBoundingBox')
+  if (latLon) {
+    return parseNumbers(['minx', 'miny', 'maxx', 'maxy'].map(a => latLon.getAttribute(a)))
+  }
+
+  // Fall back to a geographic BoundingBox, minding the 1.3.0 EPSG:4326 axis order
+  for (const bbox of children(layer, 'BoundingBox')) {
+    const crs = bbox.getAttribute('CRS') || bbox.getAttribute('SRS')
+    const values = parseNumbers(['minx', 'miny', 'maxx', 'maxy'].map(a => bbox.getAttribute(a)))
+    if (!values) continue
+    if (crs === 'CRS:84' || (crs === 'EPSG:4326' && !version.startsWith('1.3'))) {
+      return values
+    }
+    if (crs === 'EPSG:4326') {
+      return [values[1], values[0], values[3], values[2]]
+    }
+  }
+
+  return null
+}
+
+function parseStyles(layer: Element): WmsStyle[] {
+  return children(layer, 'Style')
+    .map(style => ({
+      name: childText(style, 'Name'),
+      title: childText(style, 'Title') || childText(style, 'Name')
+    }))
+    .filter(style => style.name !== '')
+}
+
+function parseCrs(layer: Element): string[] {
+  return [...children(layer, 'CRS'), ...children(layer, 'SRS')]
+    .flatMap(el => (el.textContent ?? '').trim().split(/\s+/))
+    .filter(Boolean)
+}
+
+function collectLayers(layer: Element, version: string, parent: LayerContext, out: WmsLayerSummary[]): void {
+  const ownStyles = parseStyles(layer)
+  const context: LayerContext = {
+    bbox: parseBoundingBox(layer, version) ?? parent.bbox,
+    crs: Array.from(new Set([...parent.crs, ...parseCrs(layer)])),
+    styles: [
+      ...parent.styles.filter(s => !ownStyles.some(o => o.name === s.name)),
+      ...ownStyles
+    ]
+  }
+
+  const name = childText(layer, 'Name')
+  if (name) {
+    out.push({
+      name,
+      title: childText(layer, 'Title') || name,
+      abstract: childText(layer, 'Abstract'),
+      bbox: context.bbox,
+      crs: context.crs,
+      styles: context.styles,
+      queryable: layer.getAttribute('queryable') === '1'
+    })
+  }
+
+  children(layer, 'Layer').forEach(sub => collectLayers(sub, version, context, out))
+}
+
+/**
+ * Parse a WMS GetCapabilities document (versions 1.1.x and 1.3.0)
+ * A parser can be injected for environments without a global DOMParser
+ */
+export function parseWmsCapabilities(xml: string, parser?: DOMParser): WmsCapabilities {
+  let doc: Document
+  try {
+    doc = (parser ?? new DOMParser()).parseFromString(xml, 'text/xml')
+  } catch {
+    throw new Error('Capabilities document is not valid XML')
+  }
+
+  const root = doc.documentElement
+  if (!root || doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Capabilities document is not valid XML')
+  }
+
+  const rootName = localName(root)
+  if (rootName === 'ServiceExceptionReport' || rootName === 'ExceptionReport') {
+    const message = root.textContent?.trim().replace(/\s+/g, ' ')
+    throw new Error(`WMS service exception: ${message || 'unknown error'}`)
+  }
+  if (rootName !== 'WMS_Capabilities' && rootName !== 'WMT_MS_Capabilities') {
+    throw new Error(`Not a WMS capabilities document (root element <${rootName}>)`)
+  }
+
+  const version = root.getAttribute('version') || '1.3.0'
+  const service = child(root, 'Service')
+  const capability = child(root, 'Capability')
+  const getMap = child(child(capability, 'Request'), 'GetMap')
+  const onlineResource = child(child(child(child(getMap, 'DCPType'), 'HTTP'), 'Get'), 'OnlineResource')
+
+  const layers: WmsLayerSummary[] = []
+  children(capability ?? root, 'Layer').forEach(layer =>
+    collectLayers(layer, version, { bbox: null, crs: [], styles: [] }, layers)
+  )
+
+  return {
+    version,
+    title: childText(service, 'Title'),
+    abstract: childText(service, 'Abstract'),
+    getMapUrl: onlineResource?.getAttributeNS(XLINK_NS, 'href') || onlineResource?.getAttribute('xlink:href') || '',
+    formats: getMap ? children(getMap, 'Format').map(f => (f.textContent ?? '').trim()) : [],
+    layers
+  }
+}
+
+/**
+ * Build a GetCapabilities request URL from a user-supplied WMS endpoint
+ */
+export function buildCapabilitiesUrl(endpoint: string): string {
+  const url = new URL(endpoint.trim())
+  for (const key of Array.from(url.searchParams.keys())) {
+    if (['service', 'request', 'version'].includes(key.toLowerCase())) {
+      url.searchParams.delete(key)
+    }
+  }
+  url.searchParams.set('SERVICE', 'WMS')
+  url.searchParams.set('REQUEST', 'GetCapabilities')
+  return url.toString()
+}
+
+/**
+ * Fetch and parse the capabilities of a WMS endpoint
+ */
+export async function fetchWmsCapabilities(endpoint: string, signal?: AbortSignal): Promise<WmsCapabilities> {
+  const response = await fetch(buildCapabilitiesUrl(endpoint), { signal })
+  if (!response.ok) {
+    throw new Error(`Capabilities request failed (HTTP ${response.status})`)
+  }
+  return parseWmsCapabilities(await response.text())
+}
+
+/**
+ * Derive the GetMap configuration for a catalog layer
+ */
+export function createWmsConfig(
+  capabilities: WmsCapabilities,
+  layer: WmsLayerSummary,
+  endpoint: string,
+  style = ''
+): WmsConfig {
+  const format = ['image/png', 'image/jpeg'].find(f => capabilities.formats.includes(f))
+    ?? capabilities.formats.find(f => f.startsWith('image/'))
+    ?? 'image/png'
+
+  const supports4326Only = !layer.crs.includes('EPSG:3857') &&
+    (layer.crs.includes('EPSG:4326') || layer.crs.includes('CRS:84'))
+
+  // The advertised GetMap URL usually ends in '?', which Leaflet appends its own query to
+  const baseUrl = (capabilities.getMapUrl || endpoint).replace(/[?&]+$/, '')
+
+  return {
+    url: baseUrl,
+    layers: layer.name,
+    format,
+    transparent: format !== 'image/jpeg',
+    version: capabilities.version,
+    crs: supports4326Only ? 'EPSG:4326' : 'EPSG:3857',
+    styles: style,
+    attribution: capabilities.title || undefined
+  }
+}
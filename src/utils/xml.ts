@@ -0,0 +1,65 @@
+/**
+ * Namespace-agnostic helpers for reading XML documents (WMS capabilities, KML)
+ */
+
+export function localName(node: Node): string {
+  const name = (node as Element).localName || node.nodeName
+  const idx = name.indexOf(':')
+  return idx >= 0 ? name.slice(idx + 1) : name
+}
+
+/**
+ * Direct child elements of a node with the given local name
+ */
+export function children(parent: Element, name: string): Element[] {
+  const result: Element[] = []
+  for (let i = 0; i < parent.childNodes.length; i++) {
+    const node = parent.childNodes[i]
+    if (node.nodeType === 1 && localName(node) === name) {
+      result.push(node as Element)
+    }
+  }
+  return result
+}
+
+export function child(parent: Element | null | undefined, name: string): Element | null {
+  return parent ? children(parent, name)[0] ?? null : null
+}
+
+export function childText(parent: Element | null | undefined, name: string): string {
+  return child(parent, name)?.textContent?.trim() ?? ''
+}
+
+/**
+ * All child elements of a node, regardless of name
+ */
+export function childElements(parent: Element): Element[] {
+  const result: Element[] = []
+  for (let i = 0; i < parent.childNodes.length; i++) {
+    const node = parent.childNodes[i]
+    if (node.nodeType === 1) result.push(node as Element)
+  }
+  return result
+}
+
+/**
+ * Descendant elements of a node with the given local name, in document order
+ */
+export function descendants(parent: Element, name: string): Element[] {
+  return childElements(parent).flatMap(el => [
+    ...(localName(el) === name ? [el] : []),
+    ...descendants(el, name)
+  ])
+}
+
+/**
+ * Escape text for use in XML content and attribute values
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
@@ -0,0 +1,82 @@
+import { test, expect } from '@playwright/test'
+
+const square = (lat: number) => [[lat, 73.8], [lat + 0.01, 73.8], [lat + 0.01, 73.81], [lat, 73.81]]
+
+test.describe('AOI list', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/')
+    await page.waitForSelector('[data-testid="map-container"]')
+    // Four AOIs under the pre-IndexedDB key, moved into a fresh default project on reload
+    await page.evaluate((features) => new Promise<void>((resolve, reject) => {
+      localStorage.removeItem('projects')
+      localStorage.setItem('aoi-features', JSON.stringify(features))
+      const request = indexedDB.deleteDatabase('aoi-creation')
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    }), [
+      { id: 'farm', name: 'Farm 10', type: 'polygon', coordinates: square(18.5), area: 120000, createdAt: '2024-03-02T08:00:00.000Z' },
+      { id: 'pump', name: 'Pump', type: 'marker', coordinates: [18.52, 73.85], createdAt: '2024-06-15T08:00:00.000Z' },
+      { id: 'plot', name: 'Farm 9', type: 'polygon', coordinates: square(18.6), area: 8000, createdAt: '2024-05-01T08:00:00.000Z' },
+      { id: 'well', name: 'Well', type: 'marker', coordinates: [18.55, 73.9], createdAt: '2024-05-20T08:00:00.000Z' }
+    ])
+    await page.reload()
+    await page.waitForSelector('[data-testid="map-container"]')
+  })
+
+  test('should search, filter and sort the list', async ({ page }) => {
+    const items = page.locator('[data-testid^="aoi-item-"]')
+
+    await page.locator('[data-testid="aoi-search"]').fill('farm')
+    await expect(items).toHaveCount(2)
+    await expect(page.locator('[data-testid="aoi-filter-count"]')).toHaveText('2 of 4 shown')
+
+    // Names with numbers sort naturally
+    await page.locator('[data-testid="aoi-sort"]').selectOption('name')
+    await expect(items.first()).toHaveAttribute('data-testid', 'aoi-item-plot')
+    await page.locator('[data-testid="aoi-sort-direction"]').click()
+    await expect(items.first()).toHaveAttribute('data-testid', 'aoi-item-farm')
+
+    await page.locator('[data-testid="aoi-search"]').fill('')
+    await page.locator('[data-testid="aoi-filter-btn"]').click()
+    await page.locator('[data-testid="filter-type-marker"]').click()
+    await expect(items).toHaveCount(2)
+    await page.locator('[data-testid="filter-from"]').fill('2024-06-01')
+    await expect(items).toHaveCount(1)
+    await expect(page.locator('[data-testid="aoi-item-pump"]')).toBeVisible()
+
+    await page.locator('[data-testid="aoi-filter-clear"]').click()
+    await page.locator('[data-testid="filter-min-area"]').fill('1')
+    await expect(items).toHaveCount(1)
+    await expect(page.locator('[data-testid="aoi-item-farm"]')).toBeVisible()
+  })
+
+  test('should shift-click a range and act on the selection', async ({ page }) => {
+    await page.locator('[data-testid="aoi-select-farm"]').click()
+    await page.locator('[data-testid="aoi-select-plot"]').click({ modifiers: ['Shift'] })
+    await expect(page.locator('[data-testid="selection-count"]')).toHaveText('3 selected')
+    await expect(page.locator('[data-testid="aoi-select-pump"]')).toBeChecked()
+
+    // The selection is highlighted on the map
+    await expect(page.locator('path.aoi-selected')).toHaveCount(2)
+    await expect(page.locator('.leaflet-marker-icon.aoi-selected')).toHaveCount(1)
+
+    await page.locator('[data-testid="bulk-tag"]').click()
+    await page.locator('[data-testid="bulk-tag-input"]').fill('phase 1')
+    await page.locator('[data-testid="bulk-tag-add"]').click()
+    await expect(page.locator('[data-testid="aoi-tags-farm"]')).toHaveText('phase 1')
+    await expect(page.locator('[data-testid="aoi-tags-well"]')).toHaveCount(0)
+
+    const downloadPromise = page.waitForEvent('download')
+    await page.locator('[data-testid="bulk-export"]').click()
+    await page.locator('[data-testid="bulk-export-wkt"]').click()
+    const download = await downloadPromise
+    expect(download.suggestedFilename()).toBe('aoi-features.wkt')
+
+    await page.locator('[data-testid="bulk-delete"]').click()
+    await expect(page.locator('[data-testid^="aoi-item-"]')).toHaveCount(1)
+    await expect(page.locator('[data-testid="selection-toolbar"]')).toBeHidden()
+
+    await page.keyboard.press('Control+z')
+    await expect(page.locator('[data-testid^="aoi-item-"]')).toHaveCount(4)
+  })
+})
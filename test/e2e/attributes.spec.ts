@@ -0,0 +1,84 @@
+import { test, expect, type Page } from '@playwright/test'
+import { readFileSync } from 'node:fs'
+
+const openSettings = async (page: Page) => {
+  await page.getByRole('button', { name: 'Settings' }).click()
+  await expect(page.locator('[data-testid="attribute-schema"]')).toBeVisible()
+}
+
+const addAttribute = async (page: Page, label: string, type: string) => {
+  await page.locator('[data-testid="attribute-label-input"]').fill(label)
+  await page.locator('[data-testid="attribute-type-select"]').selectOption(type)
+  await page.locator('[data-testid="attribute-add-btn"]').click()
+}
+
+test.describe('AOI attributes', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/')
+    await page.waitForSelector('[data-testid="map-container"]')
+    // Two AOIs under the pre-IndexedDB key, moved into a fresh default project on reload
+    await page.evaluate(() => new Promise<void>((resolve, reject) => {
+      localStorage.removeItem('projects')
+      localStorage.setItem('aoi-features', JSON.stringify([
+        { id: 'north', name: 'North plot', type: 'marker', coordinates: [18.55, 73.85] },
+        { id: 'south', name: 'South plot', type: 'marker', coordinates: [18.45, 73.85] }
+      ]))
+      const request = indexedDB.deleteDatabase('aoi-creation')
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    }))
+    await page.reload()
+    await page.waitForSelector('[data-testid="map-container"]')
+  })
+
+  test('should edit, validate and filter AOIs by their attributes', async ({ page }) => {
+    await openSettings(page)
+    await addAttribute(page, 'Owner', 'text')
+    await page.locator('[data-testid="attribute-required-owner"]').check()
+    await addAttribute(page, 'Plots', 'number')
+    await page.locator('[data-testid="attribute-min-plots"]').fill('0')
+    await page.locator('[data-testid="attribute-min-plots"]').blur()
+    await page.getByRole('button', { name: 'Map' }).click()
+    await page.waitForSelector('[data-testid="map-container"]')
+
+    // Selecting one AOI opens its attributes; invalid values are not saved
+    await page.locator('[data-testid="aoi-select-north"]').check()
+    await expect(page.locator('[data-testid="property-editor"]')).toBeVisible()
+    await page.locator('[data-testid="property-input-plots"]').fill('-2')
+    await page.locator('[data-testid="property-save"]').click()
+    await expect(page.locator('[data-testid="property-error-owner"]')).toHaveText('Owner is required')
+    await expect(page.locator('[data-testid="property-error-plots"]')).toHaveText('Plots must be at least 0')
+
+    await page.locator('[data-testid="property-input-owner"]').fill('Ravi')
+    await page.locator('[data-testid="property-input-plots"]').fill('12')
+    await page.locator('[data-testid="property-save"]').click()
+    await expect(page.locator('[data-testid="aoi-attributes-north"]')).toHaveText('Owner: Ravi • Plots: 12')
+    await page.locator('[data-testid="aoi-select-north"]').uncheck()
+    await expect(page.locator('[data-testid="property-editor"]')).toHaveCount(0)
+
+    // Only AOIs with an owner remain once filtered
+    await page.locator('[data-testid="aoi-filter-btn"]').click()
+    await page.locator('[data-testid="attribute-filter-add"]').click()
+    await page.locator('[data-testid^="attribute-filter-operator-"]').selectOption('not-empty')
+    await expect(page.locator('[data-testid="aoi-filter-count"]')).toHaveText('1 of 2 shown')
+    await expect(page.locator('[data-testid="aoi-item-north"]')).toBeVisible()
+    await expect(page.locator('[data-testid="aoi-item-south"]')).toHaveCount(0)
+
+    await page.locator('[data-testid="aoi-filter-clear"]').click()
+    await expect(page.locator('[data-testid="aoi-item-south"]')).toBeVisible()
+  })
+
+  test('should export attribute columns', async ({ page }) => {
+    await openSettings(page)
+    await addAttribute(page, 'Owner', 'text')
+    await page.getByRole('button', { name: 'Map' }).click()
+    await page.waitForSelector('[data-testid="map-container"]')
+
+    const downloadPromise = page.waitForEvent('download')
+    await page.locator('[data-testid="export-menu-btn"]').click()
+    await page.locator('[data-testid="export-csv"]').click()
+    const download = await downloadPromise
+    const csv = readFileSync(await download.path(), 'utf8')
+    expect(csv.split('\r\n')[0]).toBe('name,wkt,lat,lon,owner,id,type,area,createdAt')
+  })
+})
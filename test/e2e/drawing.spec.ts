@@ -7,10 +7,12 @@ test.describe('Drawing Tools', () => {
     await page.waitForSelector('[data-testid="map-container"]')
     await page.waitForTimeout(2000)
     
-    // Clear any existing features from localStorage
-    await page.evaluate(() => {
-      localStorage.removeItem('aoi-features')
-    })
+    // Start from an empty AOI database; the app closes its connection when asked
+    await page.evaluate(() => new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase('aoi-creation')
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    }))
     await page.reload()
     await page.waitForSelector('[data-testid="map-container"]')
     await page.waitForTimeout(1000)
@@ -21,6 +23,7 @@ test.describe('Drawing Tools', () => {
     await expect(page.locator('[data-testid="draw-polygon-btn"]')).toBeVisible()
     await expect(page.locator('[data-testid="draw-rectangle-btn"]')).toBeVisible()
     await expect(page.locator('[data-testid="draw-circle-btn"]')).toBeVisible()
+    await expect(page.locator('[data-testid="draw-polyline-btn"]')).toBeVisible()
     await expect(page.locator('[data-testid="draw-marker-btn"]')).toBeVisible()
   })
 
@@ -56,12 +59,148 @@ test.describe('Drawing Tools', () => {
     // Switch to circle
     await page.locator('[data-testid="draw-circle-btn"]').click()
     await expect(page.locator('[data-testid="drawing-indicator"]')).toContainText('circle')
+
+    // Switch to line
+    await page.locator('[data-testid="draw-polyline-btn"]').click()
+    await expect(page.locator('[data-testid="drawing-indicator"]')).toContainText('polyline')
     
     // Switch to marker
     await page.locator('[data-testid="draw-marker-btn"]').click()
     await expect(page.locator('[data-testid="drawing-indicator"]')).toContainText('marker')
   })
 
+  test('should enter and leave shape edit mode', async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.setItem('aoi-features', JSON.stringify([{
+        id: 'edit-test',
+        name: 'Field',
+        type: 'polygon',
+        coordinates: [[20, 78], [20, 79], [21, 79]],
+        area: 1,
+        color: '#3b82f6',
+        createdAt: new Date().toISOString()
+      }]))
+    })
+    await page.reload()
+    await page.waitForSelector('[data-testid="map-container"]')
+
+    const editBtn = page.locator('[data-testid="edit-shapes-btn"]')
+    await editBtn.click()
+    await expect(page.locator('[data-testid="edit-indicator"]')).toBeVisible()
+    await expect(editBtn).toHaveText('Done')
+
+    // Cancelling leaves the AOI untouched
+    await page.locator('[data-testid="edit-cancel-btn"]').click()
+    await expect(page.locator('[data-testid="edit-indicator"]')).not.toBeVisible()
+    await expect(page.locator('[data-testid="aoi-item-edit-test"]')).toBeVisible()
+  })
+
+  test('should undo and redo clear all', async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.setItem('aoi-features', JSON.stringify([{
+        id: 'undo-test',
+        name: 'Well',
+        type: 'marker',
+        coordinates: [20, 78],
+        color: '#ef4444',
+        createdAt: new Date().toISOString()
+      }]))
+    })
+    await page.reload()
+    await page.waitForSelector('[data-testid="map-container"]')
+
+    await expect(page.locator('[data-testid="undo-btn"]')).toBeDisabled()
+    page.once('dialog', dialog => dialog.accept())
+    await page.locator('[data-testid="clear-all-btn"]').click()
+    await expect(page.locator('[data-testid="aoi-list"]')).toContainText('No areas defined yet')
+
+    await page.locator('[data-testid="undo-btn"]').click()
+    await expect(page.locator('[data-testid="aoi-item-undo-test"]')).toBeVisible()
+
+    // Redo with the keyboard shortcut, then check the history survives a reload
+    await page.keyboard.press('Control+Shift+Z')
+    await expect(page.locator('[data-testid="aoi-list"]')).toContainText('No areas defined yet')
+    await page.reload()
+    await page.waitForSelector('[data-testid="map-container"]')
+    await page.keyboard.press('Control+Z')
+    await expect(page.locator('[data-testid="aoi-item-undo-test"]')).toBeVisible()
+  })
+
+  test('should union selected AOIs and undo it', async ({ page }) => {
+    await page.evaluate(() => {
+      const square = (id: string, lat: number, lng: number) => ({
+        id,
+        name: id,
+        type: 'polygon',
+        coordinates: [[lat, lng], [lat, lng + 1], [lat + 1, lng + 1], [lat + 1, lng]],
+        color: '#3b82f6',
+        createdAt: new Date().toISOString()
+      })
+      localStorage.setItem('aoi-features', JSON.stringify([square('A', 20, 78), square('B', 20.5, 78.5)]))
+    })
+    await page.reload()
+    await page.waitForSelector('[data-testid="map-container"]')
+
+    await page.locator('[data-testid="aoi-select-A"]').check()
+    await expect(page.locator('[data-testid="geometry-union"]')).toBeDisabled()
+    await expect(page.locator('[data-testid="geometry-split"]')).toBeEnabled()
+    await page.locator('[data-testid="aoi-select-B"]').check()
+    await expect(page.locator('[data-testid="selection-count"]')).toHaveText('2 selected')
+
+    await page.locator('[data-testid="geometry-union"]').click()
+    await expect(page.locator('[data-testid="aoi-list"]')).toContainText('Union of A, B')
+    await expect(page.locator('[data-testid="selection-toolbar"]')).toBeHidden()
+
+    await page.locator('[data-testid="undo-btn"]').click()
+    await expect(page.locator('[data-testid="aoi-list"]')).not.toContainText('Union of A, B')
+  })
+
+  test('should preview and create a buffer around a marker', async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.setItem('aoi-features', JSON.stringify([{
+        id: 'well',
+        name: 'Well',
+        type: 'marker',
+        coordinates: [20, 78],
+        color: '#ef4444',
+        createdAt: new Date().toISOString()
+      }]))
+    })
+    await page.reload()
+    await page.waitForSelector('[data-testid="map-container"]')
+
+    await page.locator('[data-testid="buffer-btn-well"]').click()
+    await page.locator('[data-testid="buffer-distance"]').fill('-1')
+    await expect(page.locator('[data-testid="buffer-error"]')).toBeVisible()
+    await expect(page.locator('[data-testid="buffer-apply"]')).toBeDisabled()
+
+    await page.locator('[data-testid="buffer-distance"]').fill('2')
+    await expect(page.locator('[data-testid="buffer-area"]')).toContainText('km²')
+    await page.locator('[data-testid="buffer-apply"]').click()
+    await expect(page.locator('[data-testid="aoi-list"]')).toContainText('Well buffer 2 km')
+    await expect(page.locator('[data-testid="buffer-panel"]')).toBeHidden()
+  })
+
+  test('should create a rectangle from typed coordinates', async ({ page }) => {
+    await page.locator('[data-testid="coordinate-entry-btn"]').click()
+    await expect(page.locator('[data-testid="coordinate-dialog"]')).toBeVisible()
+
+    await page.locator('[data-testid="coordinate-shape-rectangle"]').check()
+    await page.locator('[data-testid="coordinate-name"]').fill('Typed block')
+    await page.locator('[data-testid="coordinate-input-0"]').fill('28°36\'N 77°12\'E')
+    await page.locator('[data-testid="coordinate-input-1"]').fill('95, 77.3')
+    await expect(page.locator('[data-testid="coordinate-error"]')).toContainText('Corner 2')
+    await expect(page.locator('[data-testid="coordinate-add"]')).toBeDisabled()
+
+    await page.locator('[data-testid="coordinate-input-1"]').fill('43RGM2500070000')
+    await expect(page.locator('[data-testid="coordinate-summary"]')).toBeVisible()
+    await page.locator('[data-testid="coordinate-add"]').click()
+
+    await expect(page.locator('[data-testid="coordinate-dialog"]')).toBeHidden()
+    await expect(page.locator('[data-testid="aoi-list"]')).toContainText('Typed block')
+    await expect(page.locator('[data-testid="feature-count"]')).toHaveText('1 feature')
+  })
+
   test('should show empty state when no features exist', async ({ page }) => {
     const aoiList = page.locator('[data-testid="aoi-list"]')
     await expect(aoiList).toContainText('No areas defined yet')
@@ -85,7 +224,7 @@ test.describe('Drawing Tools', () => {
   })
 
   test('should toggle AOI layer visibility', async ({ page }) => {
-    const aoiToggle = page.locator('[data-testid="aoi-toggle"]')
+    const aoiToggle = page.locator('[data-testid="layer-toggle-aoi"]')
     
     // Initially should be checked
     await expect(aoiToggle).toBeChecked()
@@ -98,4 +237,39 @@ test.describe('Drawing Tools', () => {
     await aoiToggle.click()
     await expect(aoiToggle).toBeChecked()
   })
-})
\ No newline at end of file
+  test('should show AOI names in popups as text', async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.setItem('aoi-features', JSON.stringify([
+        { id: 'imported', name: '<img src=x onerror="window.popupInjected=true">', type: 'marker', coordinates: [20.5937, 78.9629] }
+      ]))
+    })
+    await page.reload()
+    await page.waitForSelector('[data-testid="map-container"]')
+
+    await page.locator('.leaflet-marker-icon').first().click()
+    await expect(page.locator('.leaflet-popup-content h4')).toHaveText('<img src=x onerror="window.popupInjected=true">')
+    expect(await page.evaluate(() => (window as Window & { popupInjected?: boolean }).popupInjected)).toBeUndefined()
+  })
+
+  test('should move AOIs from localStorage into IndexedDB and set damaged ones aside', async ({ page }) => {
+    await page.evaluate(() => {
+      localStorage.setItem('aoi-features', JSON.stringify([
+        { id: 'legacy-ok', name: 'Legacy pin', type: 'marker', coordinates: [20, 78] },
+        { id: 'legacy-bad', name: 'Broken', type: 'polygon', coordinates: 'oops' }
+      ]))
+    })
+    await page.reload()
+    await page.waitForSelector('[data-testid="map-container"]')
+
+    await expect(page.locator('[data-testid="aoi-item-legacy-ok"]')).toBeVisible()
+    await expect(page.getByText('1 damaged AOI record was set aside')).toBeVisible()
+    expect(await page.evaluate(() => localStorage.getItem('aoi-features'))).toBeNull()
+
+    // Later changes are kept in IndexedDB across reloads
+    page.once('dialog', dialog => dialog.accept())
+    await page.locator('[data-testid="clear-all-btn"]').click()
+    await page.reload()
+    await page.waitForSelector('[data-testid="map-container"]')
+    await expect(page.locator('[data-testid="aoi-list"]')).toContainText('No areas defined yet')
+  })
+})
@@ -60,6 +60,25 @@ test.describe('Map Functionality', () => {
     expect(zoomLevel).toBe('5')
   })
 
+  test('should measure without creating AOIs', async ({ page }) => {
+    await page.locator('[data-testid="measure-btn"]').click()
+    await expect(page.locator('[data-testid="measure-panel"]')).toBeVisible()
+
+    const map = page.locator('[data-testid="map-container"]')
+    await map.click({ position: { x: 300, y: 300 } })
+    await map.click({ position: { x: 400, y: 300 } })
+    await map.dblclick({ position: { x: 400, y: 400 } })
+    await expect(page.locator('[data-testid="measure-total"]')).toContainText('km')
+    await expect(page.locator('[data-testid="measure-area"]')).toContainText('km²')
+
+    await page.locator('[data-testid="measure-units-imperial"]').click()
+    await expect(page.locator('[data-testid="measure-total"]')).toContainText('mi')
+
+    await page.keyboard.press('Escape')
+    await expect(page.locator('[data-testid="measure-panel"]')).toBeHidden()
+    await expect(page.locator('[data-testid="feature-count"]')).toHaveText('0 features')
+  })
+
   test('should display coordinates on mouse move', async ({ page }) => {
     const coordinatesDisplay = page.locator('[data-testid="coordinates"]')
     await expect(coordinatesDisplay).toBeVisible()
@@ -69,8 +88,47 @@ test.describe('Map Functionality', () => {
     expect(initialCoords).toMatch(/\d+\.\d+°[NS], \d+\.\d+°[EW]/)
   })
 
-  test('should toggle WMS layer visibility', async ({ page }) => {
-    const wmsToggle = page.locator('[data-testid="wms-toggle"]')
+  test('should open a context menu on right-click', async ({ page }) => {
+    // Answer reverse geocoding locally instead of calling Nominatim
+    await page.route('**/reverse?**', route => route.fulfill({ path: 'test/fixtures/geocoding/nominatim-reverse.json' }))
+    const map = page.locator('[data-testid="map-container"]')
+
+    await map.click({ button: 'right', position: { x: 300, y: 300 } })
+    const menu = page.locator('[data-testid="map-context-menu"]')
+    await expect(menu).toBeVisible()
+    await expect(page.locator('[data-testid="context-menu-coordinates"]')).toHaveText(/\d+\.\d+°[NS], \d+\.\d+°[EW]/)
+
+    await page.locator('[data-testid="context-menu-whats-here"]').click()
+    await expect(page.locator('[data-testid="context-menu-address"]')).toContainText('India Gate')
+
+    await page.locator('[data-testid="context-menu-add-marker"]').click()
+    await expect(menu).toBeHidden()
+    await expect(page.locator('[data-testid="aoi-list"]')).toContainText('AOI')
+
+    await map.click({ button: 'right', position: { x: 300, y: 300 } })
+    await page.keyboard.press('Escape')
+    await expect(menu).toBeHidden()
+    await page.evaluate(() => indexedDB.deleteDatabase('aoi-creation'))
+  })
+
+  test('should show coordinates in the format chosen in settings', async ({ page }) => {
+    await page.getByRole('button', { name: 'Settings' }).click()
+    await page.locator('[data-testid="coordinate-format-select"]').selectOption('mgrs')
+    await expect(page.locator('[data-testid="coordinate-format-example"]')).toHaveText(/^\d{1,2}[C-X] [A-Z]{2} \d{5} \d{5}$/)
+
+    await page.getByRole('button', { name: 'Map' }).click()
+    await page.waitForSelector('[data-testid="map-container"]')
+    await expect(page.locator('[data-testid="coordinates"]')).toHaveText(/^\d{1,2}[C-X] [A-Z]{2} \d{5} \d{5}$/)
+
+    // The choice is kept across reloads
+    await page.reload()
+    await page.waitForSelector('[data-testid="map-container"]')
+    await expect(page.locator('[data-testid="coordinates"]')).toHaveText(/^\d{1,2}[C-X] [A-Z]{2} \d{5} \d{5}$/)
+    await page.evaluate(() => localStorage.removeItem('projects'))
+  })
+
+  test('should toggle satellite layer visibility in the stack', async ({ page }) => {
+    const wmsToggle = page.locator('[data-testid="layer-toggle-satellite"]')
     
     // Initially should be checked
     await expect(wmsToggle).toBeChecked()
@@ -84,9 +142,9 @@ test.describe('Map Functionality', () => {
     await expect(wmsToggle).toBeChecked()
   })
 
-  test('should change WMS opacity', async ({ page }) => {
-    const opacitySlider = page.locator('[data-testid="opacity-slider"]')
-    const opacityValue = page.locator('[data-testid="opacity-value"]')
+  test('should change satellite layer opacity', async ({ page }) => {
+    const opacitySlider = page.locator('[data-testid="layer-opacity-satellite"]')
+    const opacityValue = page.locator('[data-testid="layer-opacity-value-satellite"]')
     
     // Initial opacity should be 100%
     await expect(opacityValue).toHaveText('100%')
@@ -0,0 +1,129 @@
+import { test, expect, type Page } from '@playwright/test'
+
+// AOIs left under the pre-IndexedDB key are merged into the default project when the page loads
+const seedFeature = async (page: Page, id: string, name: string) => {
+  await page.evaluate(([id, name]) => {
+    localStorage.setItem('aoi-features', JSON.stringify([{ id, name, type: 'marker', coordinates: [20, 78] }]))
+  }, [id, name])
+  await page.reload()
+  await page.waitForSelector('[data-testid="map-container"]')
+}
+
+const openMenu = async (page: Page) => {
+  await page.locator('[data-testid="project-switcher"]').click()
+  await expect(page.locator('[data-testid="project-menu"]')).toBeVisible()
+}
+
+const addMarker = async (page: Page, name: string) => {
+  await page.locator('[data-testid="coordinate-entry-btn"]').click()
+  await page.locator('[data-testid="coordinate-name"]').fill(name)
+  await page.locator('[data-testid="coordinate-input-0"]').fill('18.52, 73.85')
+  await page.locator('[data-testid="coordinate-add"]').click()
+  await expect(page.locator('[data-testid="aoi-list"]')).toContainText(name)
+}
+
+const createProject = async (page: Page, name: string) => {
+  await openMenu(page)
+  await page.locator('[data-testid="project-new"]').click()
+  await page.locator('[data-testid="project-name-input"]').fill(name)
+  await page.locator('[data-testid="project-name-input"]').press('Enter')
+  await expect(page.locator('[data-testid="project-name"]')).toHaveText(name)
+}
+
+test.describe('Projects', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/')
+    await page.waitForSelector('[data-testid="map-container"]')
+    await page.evaluate(() => new Promise<void>((resolve, reject) => {
+      localStorage.removeItem('projects')
+      const request = indexedDB.deleteDatabase('aoi-creation')
+      request.onsuccess = () => resolve()
+      request.onerror = () => reject(request.error)
+    }))
+    await page.reload()
+    await page.waitForSelector('[data-testid="map-container"]')
+  })
+
+  test('should keep AOIs apart between projects', async ({ page }) => {
+    await expect(page.locator('[data-testid="project-name"]')).toHaveText('My project')
+    await seedFeature(page, 'first-pin', 'First client pin')
+
+    await createProject(page, 'Client B')
+    await expect(page.locator('[data-testid="aoi-list"]')).toContainText('No areas defined yet')
+    await addMarker(page, 'Second client pin')
+    await expect(page.locator('[data-testid="aoi-item-first-pin"]')).toHaveCount(0)
+
+    await openMenu(page)
+    await page.locator('[data-testid="project-option-default"]').click()
+    await expect(page.locator('[data-testid="aoi-item-first-pin"]')).toBeVisible()
+    await expect(page.locator('[data-testid="aoi-list"]')).not.toContainText('Second client pin')
+  })
+
+  test('should merge legacy AOIs into the default project while another is open', async ({ page }) => {
+    await seedFeature(page, 'first-pin', 'First client pin')
+    await createProject(page, 'Client B')
+    await addMarker(page, 'Second client pin')
+
+    // Loading Client B with the old key set leaves its AOIs alone
+    await seedFeature(page, 'legacy-pin', 'Legacy pin')
+    await expect(page.locator('[data-testid="project-name"]')).toHaveText('Client B')
+    await expect(page.locator('[data-testid="aoi-list"]')).toContainText('Second client pin')
+    await expect(page.locator('[data-testid="aoi-item-legacy-pin"]')).toHaveCount(0)
+
+    await openMenu(page)
+    await page.locator('[data-testid="project-option-default"]').click()
+    await expect(page.locator('[data-testid="aoi-item-first-pin"]')).toBeVisible()
+    await expect(page.locator('[data-testid="aoi-item-legacy-pin"]')).toBeVisible()
+  })
+
+  test('should rename, duplicate and delete projects', async ({ page }) => {
+    await seedFeature(page, 'pin', 'Site pin')
+
+    await openMenu(page)
+    await page.locator('[data-testid="project-rename"]').click()
+    await page.locator('[data-testid="project-name-input"]').fill('Harbour survey')
+    await page.locator('[data-testid="project-name-save"]').click()
+    await expect(page.locator('[data-testid="project-name"]')).toHaveText('Harbour survey')
+
+    // The copy opens with the same AOIs under new ids
+    await openMenu(page)
+    await page.locator('[data-testid="project-duplicate"]').click()
+    await expect(page.locator('[data-testid="project-name"]')).toHaveText('Harbour survey copy')
+    await expect(page.locator('[data-testid="aoi-list"]')).toContainText('Site pin')
+    await expect(page.locator('[data-testid="aoi-item-pin"]')).toHaveCount(0)
+
+    page.once('dialog', dialog => dialog.accept())
+    await openMenu(page)
+    await page.locator('[data-testid="project-delete"]').click()
+    await expect(page.locator('[data-testid="project-name"]')).toHaveText('Harbour survey')
+    await expect(page.locator('[data-testid="aoi-item-pin"]')).toBeVisible()
+
+    // The only project left cannot be deleted
+    await openMenu(page)
+    await expect(page.locator('[data-testid="project-delete"]')).toBeDisabled()
+  })
+
+  test('should import and export a whole project', async ({ page }) => {
+    await openMenu(page)
+    await page.locator('[data-testid="project-import-input"]').setInputFiles('test/fixtures/projects/pune-survey.aoiproject.json')
+
+    await expect(page.locator('[data-testid="project-name"]')).toHaveText('Pune survey')
+    await expect(page.getByText('1 unreadable AOI was skipped')).toBeVisible()
+    await expect(page.locator('[data-testid="aoi-list"]')).toContainText('Shaniwar Wada')
+    await expect(page.locator('[data-testid="aoi-list"]')).toContainText('Pune Junction')
+    await expect(page.locator('[data-testid="zoom-level"]')).toHaveText('12')
+
+    // Settings come with the project
+    await page.getByRole('button', { name: 'Settings' }).click()
+    await expect(page.locator('[data-testid="settings-project"]')).toContainText('Pune survey')
+    await expect(page.locator('[data-testid="coordinate-format-select"]')).toHaveValue('utm')
+    await page.getByRole('button', { name: 'Map' }).click()
+    await page.waitForSelector('[data-testid="map-container"]')
+
+    const downloadPromise = page.waitForEvent('download')
+    await openMenu(page)
+    await page.locator('[data-testid="project-export"]').click()
+    const download = await downloadPromise
+    expect(download.suggestedFilename()).toBe('pune-survey.aoiproject.json')
+  })
+})
@@ -24,6 +24,17 @@ test.describe('Search Functionality', () => {
     await expect(page.locator('[data-testid="search-results"]')).not.toBeVisible()
   })
 
+  test('should stop the spinner when the query is shortened during a search', async ({ page }) => {
+    // Leave geocoder requests pending so the search is still running when the query changes
+    await page.route('**/nominatim.openstreetmap.org/**', () => {})
+    const searchInput = page.locator('[data-testid="search-input"]')
+
+    await searchInput.fill('Berlin')
+    await expect(page.locator('[data-testid="search-loading"]')).toBeVisible()
+    await searchInput.fill('Be')
+    await expect(page.locator('[data-testid="search-loading"]')).toBeHidden()
+  })
+
   test('should show search results for valid query', async ({ page }) => {
     const searchInput = page.locator('[data-testid="search-input"]')
     
@@ -77,4 +88,104 @@ test.describe('Search Functionality', () => {
     await searchInput.fill('')
     await expect(searchInput).toHaveValue('')
   })
-})
\ No newline at end of file
+
+  test('should search offline with the gazetteer provider', async ({ page }) => {
+    await page.getByRole('button', { name: 'Settings' }).click()
+    await page.locator('[data-testid="geocoder-provider-select"]').selectOption('gazetteer')
+    await expect(page.locator('[data-testid="geocoder-url-input"]')).not.toBeVisible()
+    await page.getByRole('button', { name: 'Map View' }).click()
+
+    await page.locator('[data-testid="search-input"]').fill('sao paulo')
+    const results = page.locator('[data-testid="search-results"]')
+    await expect(results).toContainText('São Paulo, Brazil')
+  })
+  test('should add a boundary search result as an AOI', async ({ page }) => {
+    // Answer the search locally instead of calling Nominatim
+    await page.route('**/search?**', route => route.fulfill({ path: 'test/fixtures/geocoding/nominatim-boundary.json' }))
+
+    await page.locator('[data-testid="search-input"]').fill('Pune district')
+    const results = page.locator('[data-testid="search-results"]')
+    await expect(results).toContainText('Pune District, Maharashtra, India')
+
+    // Only the result with an outline offers to become an AOI
+    const addButtons = page.locator('[data-testid="search-result-add-aoi"]')
+    await expect(addButtons).toHaveCount(1)
+    await addButtons.click()
+
+    await expect(results).not.toBeVisible()
+    await expect(page.locator('[data-testid="aoi-list"]')).toContainText('Pune District')
+    await expect(page.locator('[data-testid="feature-count"]')).toHaveText('1 feature')
+  })
+  test('should handle typed coordinates without calling the geocoder', async ({ page }) => {
+    let geocoderCalls = 0
+    await page.route('**/search?**', route => {
+      geocoderCalls++
+      return route.fulfill({ json: [] })
+    })
+
+    const searchInput = page.locator('[data-testid="search-input"]')
+    await searchInput.fill('18.52, 73.85')
+    const result = page.locator('[data-testid="search-coordinate-result"]')
+    await expect(result).toContainText('18.5200°N, 73.8500°E')
+
+    await page.locator('[data-testid="search-coordinate-add"]').click()
+    await expect(page.locator('[data-testid="feature-count"]')).toHaveText('1 feature')
+
+    // A comma-separated extent offers a rectangle
+    await searchInput.fill('73.7, 18.4, 74.0, 18.7')
+    await expect(page.locator('[data-testid="search-coordinate-add"]')).toHaveText('Add rectangle')
+    await page.waitForTimeout(500)
+    expect(geocoderCalls).toBe(0)
+  })
+  test('should navigate results with the keyboard', async ({ page }) => {
+    await page.route('**/search?**', route => route.fulfill({ path: 'test/fixtures/geocoding/nominatim-search.json' }))
+
+    const searchInput = page.getByRole('combobox', { name: 'Search location' })
+    await searchInput.fill('Berlin')
+    await expect(page.getByRole('listbox')).toBeVisible()
+    await expect(searchInput).toHaveAttribute('aria-expanded', 'true')
+
+    await searchInput.press('ArrowDown')
+    await searchInput.press('ArrowDown')
+    const options = page.getByRole('option')
+    await expect(options.nth(1)).toHaveAttribute('aria-selected', 'true')
+    await expect(searchInput).toHaveAttribute('aria-activedescendant', 'search-option-1')
+
+    // Moving past the last result wraps to the first
+    await searchInput.press('ArrowDown')
+    await expect(options.nth(0)).toHaveAttribute('aria-selected', 'true')
+
+    await searchInput.press('Enter')
+    await expect(page.getByRole('listbox')).not.toBeVisible()
+    await expect(searchInput).toHaveValue('Berlin')
+  })
+
+  test('should offer saved and recent places when the box is empty', async ({ page }) => {
+    await page.route('**/search?**', route => route.fulfill({ path: 'test/fixtures/geocoding/nominatim-search.json' }))
+
+    const searchInput = page.locator('[data-testid="search-input"]')
+    await searchInput.fill('Berlin')
+    const results = page.locator('[data-testid="search-results"]')
+    await expect(results).toBeVisible()
+
+    // Star the second result, then visit the first
+    await results.locator('[data-testid="search-option-star"]').nth(1).click()
+    await results.locator('[data-testid="search-option-result"]').first().click()
+
+    await searchInput.fill('')
+    const suggestions = page.locator('[data-testid="search-suggestions"]')
+    await expect(suggestions).toContainText('Saved places')
+    await expect(suggestions.locator('[data-testid="search-option-saved"]')).toContainText('New Hampshire')
+    await expect(suggestions.locator('[data-testid="search-option-recent"]')).toContainText('Berlin, Deutschland')
+
+    // Both lists survive a reload
+    await page.reload()
+    await page.waitForSelector('[data-testid="map-container"]')
+    await searchInput.focus()
+    await expect(suggestions.locator('[data-testid="search-option-saved"]')).toHaveCount(1)
+    await expect(suggestions.locator('[data-testid="search-option-recent"]')).toHaveCount(1)
+
+    await suggestions.locator('[data-testid="search-recent-clear"]').click()
+    await expect(suggestions.locator('[data-testid="search-option-recent"]')).toHaveCount(0)
+  })
+})
@@ -0,0 +1,141 @@
+import { test, expect } from '@playwright/test'
+import {
+  EMPTY_LIST_FILTERS,
+  applyBulkEdit,
+  countActiveFilters,
+  filterAOIs,
+  getAllTags,
+  normalizeTag,
+  selectRange,
+  sortAOIs
+} from '../../src/utils/aoiList'
+import { getExportProperties, parseGeoJSON, featureToGeometry } from '../../src/utils/geojson'
+import type { AOIFeature, AOIListFilters, AttributeField } from '../../src/types'
+
+const aoi = (id: string, name: string, fields: Partial<AOIFeature> = {}): AOIFeature => ({
+  id,
+  name,
+  type: 'polygon',
+  coordinates: [[18.5, 73.8], [18.6, 73.8], [18.6, 73.9]],
+  color: '#3b82f6',
+  createdAt: '2024-05-01T10:00:00.000Z',
+  ...fields
+})
+
+const features = [
+  aoi('farm', 'Farm 10', { area: 250000, tags: ['survey', 'phase 1'], createdAt: '2024-03-02T08:00:00.000Z' }),
+  aoi('pump', 'Pump', { type: 'marker', coordinates: [18.5, 73.8], createdAt: '2024-06-15T08:00:00.000Z' }),
+  aoi('plot', 'Farm 9', { area: 8000, tags: ['survey'], properties: { owner: 'Meena' } }),
+  aoi('road', 'Access road', { type: 'polyline', length: 1200, createdAt: '2024-05-20T08:00:00.000Z' })
+]
+
+const schema: AttributeField[] = [{ key: 'owner', label: 'Owner', type: 'text', required: false }]
+
+const ids = (list: AOIFeature[]) => list.map(f => f.id)
+const filtered = (changes: Partial<AOIListFilters>) => ids(filterAOIs(features, { ...EMPTY_LIST_FILTERS, ...changes }, schema))
+
+test.describe('AOI list filters', () => {
+  test('should search names, tags and attribute values', () => {
+    expect(filtered({ text: 'farm' })).toEqual(['farm', 'plot'])
+    expect(filtered({ text: 'PHASE' })).toEqual(['farm'])
+    expect(filtered({ text: 'meena' })).toEqual(['plot'])
+    expect(filtered({ text: '  ' })).toEqual(['farm', 'pump', 'plot', 'road'])
+  })
+
+  test('should filter by type, area, creation date and tag', () => {
+    expect(filtered({ types: ['marker', 'polyline'] })).toEqual(['pump', 'road'])
+    // Hectares; AOIs without an area never pass an area bound
+    expect(filtered({ minArea: '1' })).toEqual(['farm'])
+    expect(filtered({ maxArea: '1' })).toEqual(['plot'])
+    expect(filtered({ minArea: 'abc' })).toEqual(['farm', 'pump', 'plot', 'road'])
+    expect(filtered({ from: '2024-05-01', to: '2024-05-20' })).toEqual(['plot', 'road'])
+    expect(filtered({ tag: 'survey', text: '10' })).toEqual(['farm'])
+    expect(filtered({ attributes: [{ id: 'f', key: 'owner', operator: 'not-empty', value: '' }] })).toEqual(['plot'])
+  })
+
+  test('should compare creation times with date bounds in the local time zone', () => {
+    const timeZone = process.env.TZ
+    const late = [aoi('late', 'Late', { createdAt: '2024-05-01T20:00:00.000Z' })]
+    const between = (from: string, to: string) => ids(filterAOIs(late, { ...EMPTY_LIST_FILTERS, from, to }, schema))
+
+    try {
+      // 20:00 UTC is already the next morning in India (UTC+5:30)
+      process.env.TZ = 'Asia/Kolkata'
+      expect(between('2024-05-02', '2024-05-02')).toEqual(['late'])
+      expect(between('', '2024-05-01')).toEqual([])
+      // and still the same afternoon in New York (UTC-4 in May)
+      process.env.TZ = 'America/New_York'
+      expect(between('2024-05-01', '2024-05-01')).toEqual(['late'])
+      expect(between('2024-05-02', '')).toEqual([])
+    } finally {
+      if (timeZone === undefined) delete process.env.TZ
+      else process.env.TZ = timeZone
+    }
+  })
+
+  test('should count the filters in effect', () => {
+    expect(countActiveFilters(EMPTY_LIST_FILTERS, schema)).toBe(0)
+    expect(countActiveFilters({
+      ...EMPTY_LIST_FILTERS,
+      text: 'farm',
+      minArea: '2',
+      maxArea: '5',
+      attributes: [
+        { id: 'a', key: 'owner', operator: 'empty', value: '' },
+        { id: 'b', key: 'removed', operator: 'empty', value: '' }
+      ]
+    }, schema)).toBe(3)
+  })
+})
+
+test.describe('AOI list sorting', () => {
+  test('should sort names with numbers in natural order', () => {
+    expect(ids(sortAOIs(features, { key: 'name', descending: false }))).toEqual(['road', 'plot', 'farm', 'pump'])
+    expect(ids(sortAOIs(features, { key: 'order', descending: true }))).toEqual(['road', 'plot', 'pump', 'farm'])
+    expect(sortAOIs(features, { key: 'order', descending: false })).toBe(features)
+  })
+
+  test('should keep AOIs without an area last', () => {
+    expect(ids(sortAOIs(features, { key: 'area', descending: false }))).toEqual(['plot', 'farm', 'pump', 'road'])
+    expect(ids(sortAOIs(features, { key: 'area', descending: true }))).toEqual(['farm', 'plot', 'pump', 'road'])
+  })
+
+  test('should sort by creation time', () => {
+    expect(ids(sortAOIs(features, { key: 'date', descending: true }))).toEqual(['pump', 'road', 'plot', 'farm'])
+  })
+})
+
+test.describe('AOI list selection and bulk edits', () => {
+  const list = ['a', 'b', 'c', 'd', 'e']
+
+  test('should select the range from the anchor, in list order', () => {
+    expect(selectRange(list, ['b'], 'b', 'd')).toEqual(['b', 'c', 'd'])
+    expect(selectRange(list, ['e', 'd'], 'd', 'b')).toEqual(['e', 'd', 'b', 'c'])
+    // Without an anchor in the list, shift-click just toggles
+    expect(selectRange(list, ['a'], 'gone', 'c')).toEqual(['a', 'c'])
+    expect(selectRange(list, ['a', 'c'], null, 'c')).toEqual(['a'])
+  })
+
+  test('should add and remove tags without duplicates', () => {
+    expect(applyBulkEdit(features[0], { kind: 'tag', tag: 'survey' })).toEqual({ tags: ['survey', 'phase 1'] })
+    expect(applyBulkEdit(features[1], { kind: 'tag', tag: 'wells' })).toEqual({ tags: ['wells'] })
+    expect(applyBulkEdit(features[0], { kind: 'untag', tag: 'survey' })).toEqual({ tags: ['phase 1'] })
+    expect(applyBulkEdit(features[0], { kind: 'color', color: '#ec4899' })).toEqual({ color: '#ec4899' })
+  })
+
+  test('should list tags in use and tidy typed ones', () => {
+    expect(getAllTags(features)).toEqual(['phase 1', 'survey'])
+    expect(normalizeTag('  phase   2 ')).toBe('phase 2')
+  })
+
+  test('should export tags and read them back', () => {
+    const geojson = JSON.stringify({
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', properties: getExportProperties(features[0]), geometry: featureToGeometry(features[0]) }]
+    })
+    expect(getExportProperties(features[0]).tags).toBe('survey, phase 1')
+    const [restored] = parseGeoJSON(geojson).features
+    expect(restored.tags).toEqual(['survey', 'phase 1'])
+    expect(restored.properties).toBeUndefined()
+  })
+})
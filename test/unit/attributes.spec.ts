@@ -0,0 +1,135 @@
+import { test, expect } from '@playwright/test'
+import {
+  filterFeatures,
+  formatAttributeValue,
+  getAttributeColumns,
+  isIsoDate,
+  parseAttributeInput,
+  readAttributeSchema,
+  toAttributeKey,
+  validateAttribute,
+  validateAttributes
+} from '../../src/utils/attributes'
+import { getExportProperties } from '../../src/utils/geojson'
+import type { AOIFeature, AttributeField, AttributeFilter } from '../../src/types'
+
+const schema: AttributeField[] = [
+  { key: 'owner', label: 'Owner', type: 'text', required: true, pattern: '[A-Z][a-z]+' },
+  { key: 'plots', label: 'Plots', type: 'number', required: false, min: 0, max: 50 },
+  { key: 'status', label: 'Status', type: 'enum', required: false, options: ['planned', 'surveyed'] },
+  { key: 'visited', label: 'Visited', type: 'date', required: false },
+  { key: 'irrigated', label: 'Irrigated', type: 'boolean', required: false }
+]
+
+const feature = (id: string, properties?: Record<string, unknown>): AOIFeature => ({
+  id,
+  name: id,
+  type: 'marker',
+  coordinates: [18.52, 73.85],
+  color: '#ef4444',
+  createdAt: '2024-05-01T10:00:00.000Z',
+  properties
+})
+
+const features = [
+  feature('a', { owner: 'Ravi', plots: 12, status: 'surveyed', visited: '2024-03-01', irrigated: true }),
+  feature('b', { owner: 'Meena', plots: 3, status: 'planned', irrigated: false }),
+  feature('c')
+]
+
+const filter = (key: string, operator: AttributeFilter['operator'], value = ''): AttributeFilter =>
+  ({ id: `${key}-${operator}`, key, operator, value })
+
+test.describe('Attribute schema', () => {
+  test('should derive unique keys from labels', () => {
+    expect(toAttributeKey('Crop type', schema)).toBe('crop_type')
+    expect(toAttributeKey('Propriétaire', schema)).toBe('proprietaire')
+    expect(toAttributeKey(' Owner ', schema)).toBe('owner_2')
+    // Built-in export columns are never shadowed
+    expect(toAttributeKey('Name', schema)).toBe('name_2')
+    expect(toAttributeKey('???', schema)).toBe('attribute')
+  })
+
+  test('should read stored schemas and drop unusable fields', () => {
+    expect(readAttributeSchema(schema)).toEqual(schema)
+    expect(readAttributeSchema([
+      { key: 'depth', type: 'number', min: 'deep', max: 10 },
+      { key: 'depth', label: 'Again', type: 'text' },
+      { key: 'code', label: 'Code', type: 'text', pattern: '([' },
+      { key: 'size', label: 'Size', type: 'area' },
+      { label: 'No key', type: 'text' },
+      'garbage'
+    ])).toEqual([
+      { key: 'depth', label: 'depth', type: 'number', required: false, max: 10 },
+      { key: 'code', label: 'Code', type: 'text', required: false }
+    ])
+    expect(readAttributeSchema(undefined)).toEqual([])
+  })
+})
+
+test.describe('Attribute validation', () => {
+  test('should check values against each type and rule', () => {
+    const [owner, plots, status, visited, irrigated] = schema
+
+    expect(validateAttribute(owner, undefined)).toBe('Owner is required')
+    expect(validateAttribute(owner, 'ravi')).toBe('Owner does not match the expected format')
+    expect(validateAttribute(owner, 'Ravi')).toBeNull()
+    expect(validateAttribute(plots, undefined)).toBeNull()
+    expect(validateAttribute(plots, NaN)).toBe('Plots must be a number')
+    expect(validateAttribute(plots, -1)).toBe('Plots must be at least 0')
+    expect(validateAttribute(plots, 51)).toBe('Plots must be at most 50')
+    expect(validateAttribute(status, 'abandoned')).toBe('Status must be one of planned, surveyed')
+    expect(validateAttribute(visited, '2024-02-30')).toBe('Visited must be a date (YYYY-MM-DD)')
+    expect(validateAttribute(irrigated, 'yes')).toBe('Irrigated must be yes or no')
+  })
+
+  test('should report every invalid attribute of an AOI', () => {
+    expect(validateAttributes(schema, features[0].properties)).toEqual({})
+    expect(validateAttributes(schema, { plots: 80, status: 'done' })).toEqual({
+      owner: 'Owner is required',
+      plots: 'Plots must be at most 50',
+      status: 'Status must be one of planned, surveyed'
+    })
+  })
+
+  test('should parse form input into stored values', () => {
+    expect(parseAttributeInput(schema[1], ' 12.5 ')).toBe(12.5)
+    expect(parseAttributeInput(schema[1], 'twelve')).toBeNaN()
+    expect(parseAttributeInput(schema[0], '  ')).toBeUndefined()
+    expect(isIsoDate('2024-02-29')).toBe(true)
+    expect(isIsoDate('2023-02-29')).toBe(false)
+    expect(formatAttributeValue(schema[4], false)).toBe('No')
+    expect(formatAttributeValue(schema[1], undefined)).toBe('')
+  })
+})
+
+test.describe('Attribute filters', () => {
+  const ids = (filters: AttributeFilter[]) => filterFeatures(features, schema, filters).map(f => f.id)
+
+  test('should compare values by their type', () => {
+    expect(ids([filter('owner', 'contains', 'EE')])).toEqual(['b'])
+    expect(ids([filter('plots', 'greater', '5')])).toEqual(['a'])
+    expect(ids([filter('plots', 'less', '5')])).toEqual(['b'])
+    expect(ids([filter('visited', 'less', '2024-06-01')])).toEqual(['a'])
+    expect(ids([filter('status', 'equals', 'planned')])).toEqual(['b'])
+    expect(ids([filter('irrigated', 'equals', 'false')])).toEqual(['b'])
+  })
+
+  test('should combine filters and handle missing values', () => {
+    expect(ids([filter('visited', 'empty')])).toEqual(['b', 'c'])
+    expect(ids([filter('owner', 'not-empty'), filter('plots', 'greater', '1')])).toEqual(['a', 'b'])
+    // Filters still waiting for a value, or on removed attributes, let everything through
+    expect(ids([filter('owner', 'equals', '')])).toEqual(['a', 'b', 'c'])
+    expect(ids([filter('removed', 'equals', 'x')])).toEqual(['a', 'b', 'c'])
+  })
+})
+
+test.describe('Attribute export', () => {
+  test('should add a column for every attribute', () => {
+    expect(getAttributeColumns(features[1], schema)).toEqual({
+      owner: 'Meena', plots: 3, status: 'planned', visited: null, irrigated: false
+    })
+    const properties = getExportProperties(feature('d', { owner: 'Asha', source: 'survey.kml' }), schema.slice(0, 2))
+    expect(properties).toMatchObject({ owner: 'Asha', plots: null, source: 'survey.kml', id: 'd', name: 'd' })
+  })
+})
@@ -0,0 +1,98 @@
+import { test, expect } from '@playwright/test'
+import { unionFeatures, intersectFeatures, subtractFeatures, splitPolygon, bufferFeature } from '../../src/utils/booleanOps'
+import { calculatePolygonArea } from '../../src/utils/mapUtils'
+import type { AOIFeature } from '../../src/types'
+
+// Axis-aligned square of [lat, lng] vertices with its south-west corner at (lat, lng)
+const square = (name: string, lat: number, lng: number, size: number): AOIFeature => {
+  const coordinates = [[lat, lng], [lat, lng + size], [lat + size, lng + size], [lat + size, lng]]
+  return {
+    id: name,
+    name,
+    type: 'polygon',
+    coordinates,
+    area: calculatePolygonArea(coordinates.map(([la, ln]) => ({ lat: la, lng: ln }))),
+    color: '#3b82f6',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    properties: { owner: 'County' }
+  }
+}
+
+const a = square('A', 28, 77, 0.02)
+const b = square('B', 28.01, 77.01, 0.02)
+const quarter = a.area! / 4
+
+test.describe('Boolean operations', () => {
+  test('should union overlapping AOIs into one polygon', () => {
+    const result = unionFeatures([a, b])
+
+    expect(result).toMatchObject({ name: 'Union of A, B', type: 'polygon' })
+    expect(result.area).toBeCloseTo(a.area! + b.area! - quarter, -3)
+  })
+
+  test('should keep disjoint parts of a union as a multipolygon', () => {
+    const result = unionFeatures([a, square('C', 29, 78, 0.02)])
+
+    expect(result.type).toBe('multipolygon')
+    expect((result.coordinates as number[][][][]).length).toBe(2)
+  })
+
+  test('should intersect AOIs and reject disjoint ones', () => {
+    const result = intersectFeatures([a, b])
+
+    expect(result.type).toBe('polygon')
+    expect(result.area).toBeCloseTo(quarter, -3)
+    expect(() => intersectFeatures([a, square('C', 29, 78, 0.02)])).toThrow('do not overlap')
+  })
+
+  test('should subtract later AOIs from the first, leaving holes', () => {
+    const notched = subtractFeatures([a, b])
+    expect(notched).toMatchObject({ name: 'A minus B', type: 'polygon' })
+    expect(notched.area).toBeCloseTo(a.area! - quarter, -3)
+
+    const holed = subtractFeatures([a, square('Inner', 28.005, 77.005, 0.01)])
+    expect(holed.type).toBe('multipolygon')
+    expect((holed.coordinates as number[][][][])[0]).toHaveLength(2)
+    expect(holed.area).toBeCloseTo(a.area! - quarter, -3)
+  })
+
+  test('should split a polygon along a line into pieces that keep its attributes', () => {
+    const pieces = splitPolygon({ ...a, tags: ['survey', 'north'] }, [[27.99, 77.01], [28.03, 77.01]])
+
+    expect(pieces.map(p => p.name)).toEqual(['A (1)', 'A (2)'])
+    expect(pieces.every(p => p.type === 'polygon' && p.properties?.owner === 'County')).toBe(true)
+    pieces.forEach(piece => {
+      expect(piece.tags).toEqual(['survey', 'north'])
+      expect(piece.createdAt).toBe(a.createdAt)
+    })
+    expect(pieces[0].area! + pieces[1].area!).toBeCloseTo(a.area!, -3)
+    expect(() => splitPolygon(a, [[27.99, 77.01], [28.01, 77.01]])).toThrow('must cross')
+  })
+
+  test('should buffer a marker into a circle of the given radius', () => {
+    const marker: AOIFeature = { ...a, id: 'M', name: 'Well', type: 'marker', coordinates: [60, 10] }
+    const result = bufferFeature(marker, 2, 'kilometers')
+
+    expect(result).toMatchObject({ name: 'Well buffer 2 km', type: 'polygon' })
+    // 64-sided polygon inscribed in the 2 km circle
+    expect(result.area! / (Math.PI * 2000 * 2000)).toBeCloseTo(1, 2)
+    expect(() => bufferFeature(marker, -1, 'meters')).toThrow('only be buffered outwards')
+  })
+
+  test('should shrink polygons with a negative buffer', () => {
+    const side = 0.02 * 111320
+    const shrunk = bufferFeature(a, -100, 'meters')
+
+    expect(shrunk.name).toBe('A buffer -100 m')
+    expect(shrunk.area! / a.area!).toBeCloseTo(((side - 200) / side) ** 2, 1)
+    expect(bufferFeature(a, 1, 'miles').area!).toBeGreaterThan(a.area!)
+    expect(() => bufferFeature(a, -2, 'kilometers')).toThrow('Nothing is left of "A"')
+  })
+
+  test('should refuse markers and single selections', () => {
+    const marker: AOIFeature = { ...a, id: 'M', name: 'M', type: 'marker', coordinates: [28, 77] }
+
+    expect(() => unionFeatures([a])).toThrow('Select at least 2')
+    expect(() => intersectFeatures([a, marker])).toThrow('is a marker')
+  })
+})
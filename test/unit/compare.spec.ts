@@ -0,0 +1,33 @@
+import { test, expect } from '@playwright/test'
+import { DEFAULT_LAYERS } from '../../src/utils/layerStack'
+import { getCompareCandidates, resolveCompareSelection, getSwipeClipRects } from '../../src/utils/compare'
+
+test.describe('Layer comparison', () => {
+  test('should offer every stacked layer except the AOI features', () => {
+    expect(getCompareCandidates(DEFAULT_LAYERS).map(l => l.id)).toEqual(['satellite', 'osm', 'esri-imagery'])
+  })
+
+  test('should default to the two top-most visible layers', () => {
+    expect(resolveCompareSelection(DEFAULT_LAYERS, null, null)).toEqual({ leftId: 'satellite', rightId: 'osm' })
+  })
+
+  test('should keep valid picks and replace stale or duplicate ones', () => {
+    expect(resolveCompareSelection(DEFAULT_LAYERS, 'esri-imagery', 'satellite'))
+      .toEqual({ leftId: 'esri-imagery', rightId: 'satellite' })
+    expect(resolveCompareSelection(DEFAULT_LAYERS, 'removed', 'esri-imagery'))
+      .toEqual({ leftId: 'satellite', rightId: 'esri-imagery' })
+    expect(resolveCompareSelection(DEFAULT_LAYERS, 'osm', 'osm'))
+      .toEqual({ leftId: 'osm', rightId: 'satellite' })
+  })
+
+  test('should not compare with fewer than two layers', () => {
+    expect(resolveCompareSelection(DEFAULT_LAYERS.slice(0, 2), null, null)).toBeNull()
+  })
+
+  test('should split the map at the divider in layer coordinates', () => {
+    const clip = getSwipeClipRects({ x: -100, y: -50 }, { x: 700, y: 550 }, 300)
+
+    expect(clip.left).toBe('rect(-50px, 200px, 550px, -100px)')
+    expect(clip.right).toBe('rect(-50px, 700px, 550px, 200px)')
+  })
+})
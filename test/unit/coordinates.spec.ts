@@ -0,0 +1,177 @@
+import { test, expect } from '@playwright/test'
+import {
+  toUTM,
+  fromUTM,
+  toMGRS,
+  fromMGRS,
+  toPlusCode,
+  formatCoordinate,
+  parseCoordinate,
+  parseCoordinateQuery,
+  createCoordinateFeature
+} from '../../src/utils/coordinates'
+import type { CoordinateFormat } from '../../src/types'
+
+test.describe('Coordinate conversion', () => {
+  test('should project to UTM in both hemispheres', () => {
+    const delhi = toUTM(28.6139, 77.209)
+    expect(delhi.zone).toBe(43)
+    expect(delhi.hemisphere).toBe('N')
+    expect(delhi.easting).toBeCloseTo(715980.29, 1)
+    expect(delhi.northing).toBeCloseTo(3167204.82, 1)
+
+    const sydney = toUTM(-33.8688, 151.2093)
+    expect(sydney).toMatchObject({ zone: 56, hemisphere: 'S' })
+    expect(sydney.easting).toBeCloseTo(334368.63, 1)
+    expect(sydney.northing).toBeCloseTo(6250948.35, 1)
+
+    const [lat, lng] = fromUTM(sydney)
+    expect(lat).toBeCloseTo(-33.8688, 8)
+    expect(lng).toBeCloseTo(151.2093, 8)
+  })
+
+  test('should use the widened zones around Norway and Svalbard', () => {
+    expect(toUTM(60.39, 5.32).zone).toBe(32)
+    expect(toUTM(78.22, 15.65).zone).toBe(33)
+    expect(() => toUTM(85, 0)).toThrow('80°S to 84°N')
+  })
+
+  test('should format and read MGRS grid references', () => {
+    expect(toMGRS(28.6139, 77.209)).toBe('43RGM1598067204')
+    expect(toMGRS(60.39, 5.32)).toBe('32VKN9723000510')
+    expect(toMGRS(-54.8, -68.3, 3)).toBe('19FEV450272')
+
+    // The southwest corner of the 1 m square
+    const [lat, lng] = fromMGRS('43R GM 15980 67204')
+    expect(lat).toBeCloseTo(28.6139, 4)
+    expect(lng).toBeCloseTo(77.209, 4)
+    expect(fromMGRS('19FEV4500027239')[0]).toBeCloseTo(-54.8, 4)
+
+    expect(() => fromMGRS('43RGM123')).toThrow('same number of digits')
+    expect(() => fromMGRS('43RSM1234')).toThrow('not used in zone 43')
+  })
+})
+
+test.describe('Coordinate formatting', () => {
+  test('should encode Plus Codes', () => {
+    // Reference values from the Open Location Code test data
+    expect(toPlusCode(47.36559, 8.524997)).toBe('8FVC9G8F+6X')
+    expect(toPlusCode(20.3701135, 2.78223535156)).toBe('7FG49QCJ+2V')
+    expect(toPlusCode(90, 180)).toBe('C2X2X2X2+X2')
+  })
+
+  test('should format positions in every display format', () => {
+    const format = (f: CoordinateFormat, precision = 4) =>
+      formatCoordinate(28.6139, 77.209, { format: f, precision })
+
+    expect(format('dd')).toBe('28.6139°N, 77.2090°E')
+    expect(format('dd', 6)).toBe('28.613900°N, 77.209000°E')
+    expect(format('dms')).toBe('28°36\'50.0"N 77°12\'32.4"E')
+    expect(format('ddm')).toBe('28°36.834\'N 77°12.540\'E')
+    expect(format('utm')).toBe('43R 715980 3167204')
+    expect(format('mgrs')).toBe('43R GM 15980 67204')
+    expect(format('pluscode')).toBe('7JWVJ675+HJ')
+  })
+
+  test('should carry rounded seconds and fall back near the poles', () => {
+    expect(formatCoordinate(-33.99999999, 151, { format: 'dms', precision: 4 })).toBe('34°0\'0.0"S 151°0\'0.0"E')
+    expect(formatCoordinate(85, 10, { format: 'mgrs', precision: 2 })).toBe('85.00°N, 10.00°E')
+  })
+
+  test('should read back what it formats', () => {
+    for (const f of ['dd', 'dms', 'ddm', 'utm', 'mgrs'] as const) {
+      const [lat, lng] = parseCoordinate(formatCoordinate(-22.9068, -43.1729, { format: f, precision: 6 }))
+      expect(lat).toBeCloseTo(-22.9068, 4)
+      expect(lng).toBeCloseTo(-43.1729, 4)
+    }
+  })
+})
+
+test.describe('Coordinate parsing', () => {
+  test('should read decimal degrees latitude first unless labelled', () => {
+    expect(parseCoordinate('28.6139, 77.2090')).toEqual([28.6139, 77.209])
+    expect(parseCoordinate('-33.8688 151.2093')).toEqual([-33.8688, 151.2093])
+    expect(parseCoordinate('151.2093E 33.8688S')).toEqual([-33.8688, 151.2093])
+    expect(parseCoordinate('N 28.5 W 77.25')).toEqual([28.5, -77.25])
+  })
+
+  test('should read DMS and degrees with decimal minutes', () => {
+    const [lat, lng] = parseCoordinate('28°36\'50"N 77°12\'32"E')
+    expect(lat).toBeCloseTo(28 + 36 / 60 + 50 / 3600, 10)
+    expect(lng).toBeCloseTo(77 + 12 / 60 + 32 / 3600, 10)
+
+    expect(parseCoordinate('28 30 00 S, 77 15 00 W')).toEqual([-28.5, -77.25])
+    expect(parseCoordinate('12°30\' 45°15\'')).toEqual([12.5, 45.25])
+    expect(parseCoordinate('N 28 36.6 E 77 12.3')[0]).toBeCloseTo(28.61, 10)
+  })
+
+  test('should read UTM with a latitude band and MGRS', () => {
+    const [lat, lng] = parseCoordinate('43R 715980.29 3167204.82')
+    expect(lat).toBeCloseTo(28.6139, 6)
+    expect(lng).toBeCloseTo(77.209, 6)
+
+    // Band C is south of the equator
+    expect(parseCoordinate('19F 545000 3927239')[0]).toBeCloseTo(-54.8, 4)
+    expect(parseCoordinate('43rgm1598067204')[1]).toBeCloseTo(77.209, 4)
+  })
+
+  test('should reject invalid input with a reason', () => {
+    expect(() => parseCoordinate('')).toThrow('Enter a coordinate')
+    expect(() => parseCoordinate('91, 0')).toThrow('Latitude must be between -90 and 90')
+    expect(() => parseCoordinate('10, 181')).toThrow('longitude between -180 and 180')
+    expect(() => parseCoordinate('28.5N 77.1N')).toThrow('one latitude (N/S) and one longitude (E/W)')
+    expect(() => parseCoordinate('28 60 0 77 0 0')).toThrow('less than 60')
+    expect(() => parseCoordinate('-28.5S 77E')).toThrow('minus sign or a hemisphere letter')
+    expect(() => parseCoordinate('Delhi')).toThrow('Could not read')
+    expect(() => parseCoordinate('61N 500000 100000')).toThrow('UTM zones run from 1 to 60')
+  })
+})
+
+test.describe('Coordinates typed into search', () => {
+  test('should recognise positions in any supported notation', () => {
+    expect(parseCoordinateQuery('18.52, 73.85')).toEqual({ kind: 'point', point: [18.52, 73.85] })
+    expect(parseCoordinateQuery('18°31\'N 73°51\'E')?.kind).toBe('point')
+    expect(parseCoordinateQuery('43R GM 15980 67204')?.kind).toBe('point')
+  })
+
+  test('should read comma-separated west, south, east, north as an extent', () => {
+    expect(parseCoordinateQuery('73.7, 18.4, 74.0, 18.7')).toEqual({ kind: 'bbox', bbox: [73.7, 18.4, 74, 18.7] })
+    expect(parseCoordinateQuery('bbox=-0.5,51.3,0.3,51.7')).toEqual({ kind: 'bbox', bbox: [-0.5, 51.3, 0.3, 51.7] })
+    // Without commas four numbers are degrees and minutes
+    expect(parseCoordinateQuery('18 30 73 50')).toEqual({ kind: 'point', point: [18.5, 73 + 50 / 60] })
+    // Swapped corners are not an extent
+    expect(parseCoordinateQuery('74.0, 18.4, 73.7, 18.7')).toBeNull()
+  })
+
+  test('should leave place names to the geocoder', () => {
+    expect(parseCoordinateQuery('Pune district')).toBeNull()
+    expect(parseCoordinateQuery('91, 0')).toBeNull()
+    expect(parseCoordinateQuery('')).toBeNull()
+  })
+})
+
+test.describe('AOIs from coordinates', () => {
+  test('should build a rectangle from any two opposite corners', () => {
+    const feature = createCoordinateFeature('rectangle', [[28.7, 77.3], [28.5, 77.1]], 'Block')
+    expect(feature.type).toBe('rectangle')
+    expect(feature.name).toBe('Block')
+    expect(feature.coordinates).toEqual([[28.5, 77.1], [28.7, 77.1], [28.7, 77.3], [28.5, 77.3]])
+    expect(feature.area).toBeGreaterThan(0)
+
+    expect(() => createCoordinateFeature('rectangle', [[28.5, 77.1], [28.5, 77.3]], 'Flat')).toThrow('differ')
+  })
+
+  test('should build circles, polygons and markers', () => {
+    const circle = createCoordinateFeature('circle', [[28.6, 77.2]], 'Ring', { value: 2, unit: 'kilometers' })
+    expect(circle.coordinates).toEqual({ center: [28.6, 77.2], radius: 2000 })
+    expect(circle.area).toBeCloseTo(Math.PI * 2000 * 2000, 0)
+    expect(circle.properties).toBeUndefined()
+    expect(() => createCoordinateFeature('circle', [[28.6, 77.2]], 'Dot', { value: 0, unit: 'meters' })).toThrow('radius')
+
+    const polygon = createCoordinateFeature('polygon', [[0, 0], [0, 1], [1, 1]], 'Triangle')
+    expect(polygon.type).toBe('polygon')
+    expect(() => createCoordinateFeature('polygon', [[0, 0], [0, 1]], 'Line')).toThrow('at least 3 vertices')
+
+    expect(createCoordinateFeature('marker', [[28.6, 77.2]], 'Pin')).toMatchObject({ type: 'marker', coordinates: [28.6, 77.2] })
+  })
+})
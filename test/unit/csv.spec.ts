@@ -0,0 +1,127 @@
+import { test, expect } from '@playwright/test'
+import { readFileSync } from 'node:fs'
+import { parseCSV, guessCsvMapping, readCSV, parseCSVFeatures, buildCSV } from '../../src/utils/csv'
+import { calculateMultiPolygonArea } from '../../src/utils/mapUtils'
+import type { AOIFeature, MultiPolygonCoordinates } from '../../src/types'
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`../fixtures/csv/${name}`, import.meta.url), 'utf-8')
+
+// Two parts, the first with a hole, as left by subtracting one AOI from another
+const parcel: AOIFeature = {
+  id: 'mp1',
+  name: 'Parcel',
+  type: 'multipolygon',
+  coordinates: [
+    [[[28, 77], [28, 78], [29, 78], [29, 77]], [[28.4, 77.4], [28.4, 77.6], [28.6, 77.6], [28.6, 77.4]]],
+    [[[28, 79], [28, 80], [29, 80]]]
+  ],
+  area: 0,
+  color: '#0ea5e9',
+  createdAt: '2024-05-01T10:00:00.000Z'
+}
+parcel.area = calculateMultiPolygonArea(parcel.coordinates as MultiPolygonCoordinates)
+
+test.describe('CSV import', () => {
+  test('should parse quoted cells and detect the delimiter', () => {
+    const table = parseCSV(fixture('sites-latlon.csv'))
+
+    expect(table.headers).toEqual(['Site', 'Latitude', 'Longitude', 'Owner', 'radius'])
+    expect(table.rows).toHaveLength(4)
+    expect(table.rows[0]).toEqual(['Well; north', '17,4', '78,5', 'Co-op "A"', ''])
+  })
+
+  test('should guess geometry and name columns from the header', () => {
+    expect(guessCsvMapping(['Site', 'Latitude', 'Longitude'])).toEqual({
+      geometry: 'latlon', lat: 1, lon: 2, wkt: null, name: null
+    })
+    expect(guessCsvMapping(['id', 'label', 'geom', 'lat', 'lon'])).toEqual({
+      geometry: 'wkt', lat: 3, lon: 4, wkt: 2, name: 1
+    })
+  })
+
+  test('should import lat/lon rows with a mapped name column', () => {
+    const table = parseCSV(fixture('sites-latlon.csv'))
+    const { features, issues } = readCSV(table, { ...guessCsvMapping(table.headers), name: 0 })
+
+    expect(features.map(f => [f.name, f.type])).toEqual([['Well; north', 'marker'], ['Tank', 'circle']])
+    // Decimal commas are accepted
+    expect(features[0].coordinates).toEqual([17.4, 78.5])
+    expect(features[0].properties).toEqual({ Owner: 'Co-op "A"' })
+    expect(features[1].coordinates).toEqual({ center: [13.1, 80.2], radius: 500 })
+
+    expect(issues.map(i => [i.index, i.name, i.message])).toEqual([
+      [2, 'Broken', 'Invalid latitude "abc"'],
+      [3, 'Off map', 'Point is outside WGS84 longitude/latitude bounds']
+    ])
+  })
+
+  test('should import WKT columns with the guessed mapping', () => {
+    const { features, issues } = parseCSVFeatures(fixture('parcels-wkt.csv'))
+
+    expect(features.map(f => [f.name, f.type])).toEqual([['North field', 'polygon'], ['Pump', 'marker']])
+    expect(features[0].properties).toEqual({ crop: 'wheat' })
+    expect(features[1].properties).toBeUndefined()
+    expect(issues).toEqual([{ index: 2, name: 'Bad', severity: 'error', message: 'POLYGON is empty' }])
+  })
+
+  test('should reject files without recognisable geometry columns', () => {
+    expect(() => parseCSVFeatures('a,b\n1,2\n')).toThrow('No WKT or latitude/longitude columns found')
+  })
+
+  test('should round-trip exported features including circles', () => {
+    const table = parseCSV(fixture('sites-latlon.csv'))
+    const { features } = readCSV(table, { ...guessCsvMapping(table.headers), name: 0 })
+    const csv = buildCSV(features)
+
+    expect(csv.split('\r\n')[0]).toBe('name,wkt,lat,lon,Owner,id,type,area,createdAt,radius')
+    const restored = parseCSVFeatures(csv).features
+    expect(restored.map(f => [f.name, f.type, f.properties])).toEqual([
+      ['Well; north', 'marker', { Owner: 'Co-op "A"' }],
+      ['Tank', 'circle', { Owner: 'Municipal' }]
+    ])
+    expect((restored[1].coordinates as { radius: number }).radius).toBe(500)
+  })
+
+  test('should round-trip holed multipolygons as one AOI', () => {
+    const { features, issues } = parseCSVFeatures(buildCSV([parcel]))
+
+    expect(issues).toEqual([])
+    expect(features).toHaveLength(1)
+    expect(features[0]).toMatchObject({ name: 'Parcel', type: 'multipolygon', coordinates: parcel.coordinates })
+    expect(features[0].area).toBeCloseTo(parcel.area!, 3)
+  })
+
+  test('should round-trip polylines through the WKT column', () => {
+    const line: AOIFeature = {
+      id: 'l1',
+      name: 'Pipeline',
+      type: 'polyline',
+      coordinates: [[18.5, 73.8], [18.6, 73.9]],
+      length: 15000,
+      color: '#f59e0b',
+      createdAt: '2024-05-01T10:00:00.000Z'
+    }
+    const { features, issues } = parseCSVFeatures(buildCSV([line]))
+
+    expect(issues).toEqual([])
+    expect(features[0]).toMatchObject({ name: 'Pipeline', type: 'polyline', coordinates: line.coordinates })
+  })
+
+  test('should add a column for every schema attribute, empty where unset', () => {
+    const createdAt = '2024-05-01T10:00:00.000Z'
+    const features: AOIFeature[] = [
+      { id: 'a', name: 'Plot', type: 'marker', coordinates: [18.5, 73.8], color: '#ef4444', createdAt, properties: { owner: 'Ravi', note: 'x' } },
+      { id: 'b', name: 'Well', type: 'marker', coordinates: [18.6, 73.9], color: '#ef4444', createdAt }
+    ]
+    const csv = buildCSV(features, [
+      { key: 'owner', label: 'Owner', type: 'text', required: true },
+      { key: 'surveyed', label: 'Surveyed', type: 'boolean', required: false }
+    ])
+
+    const [header, first, second] = csv.split('\r\n')
+    expect(header).toBe('name,wkt,lat,lon,owner,surveyed,note,id,type,area,createdAt')
+    expect(first).toBe('Plot,POINT (73.8 18.5),18.5,73.8,Ravi,,x,a,marker,,2024-05-01T10:00:00.000Z')
+    expect(second).toBe('Well,POINT (73.9 18.6),18.6,73.9,,,,b,marker,,2024-05-01T10:00:00.000Z')
+  })
+})
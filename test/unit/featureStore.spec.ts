@@ -0,0 +1,107 @@
+import { test, expect } from '@playwright/test'
+import {
+  RECORD_VERSION,
+  createMemoryFeatureStore,
+  isFeature,
+  isQuotaError,
+  mergeLegacyOrder,
+  migrateFeature,
+  orderFeatures,
+  planFeatureWrites,
+  readFeatureRecord,
+  readLegacyFeatures
+} from '../../src/utils/featureStore'
+import type { AOIFeature } from '../../src/types'
+
+const marker = (id: string, name = id): AOIFeature => ({
+  id,
+  name,
+  type: 'marker',
+  coordinates: [20, 78],
+  color: '#ef4444',
+  createdAt: '2024-05-01T10:00:00.000Z'
+})
+
+test.describe('Feature records', () => {
+  test('should check coordinates against the feature type', () => {
+    expect(isFeature(marker('a'))).toBe(true)
+    expect(isFeature({ ...marker('a'), type: 'circle' })).toBe(false)
+    expect(isFeature({ ...marker('a'), type: 'circle', coordinates: { center: [20, 78], radius: 50 } })).toBe(true)
+    expect(isFeature({ ...marker('a'), type: 'polygon', coordinates: [[20, 78], [21, 78], [21, 'x']] })).toBe(false)
+    expect(isFeature({ ...marker('a'), type: 'multipolygon', coordinates: [[[[0, 0], [0, 1], [1, 1]]]] })).toBe(true)
+    expect(isFeature({ ...marker('a'), id: '' })).toBe(false)
+    expect(isFeature({ ...marker('a'), tags: ['flood', 'phase 1'] })).toBe(true)
+    expect(isFeature({ ...marker('a'), tags: 'flood' })).toBe(false)
+    expect(isFeature(null)).toBe(false)
+  })
+
+  test('should migrate localStorage-era features and refuse newer ones', () => {
+    const legacy = { id: 'old', name: 'Old', type: 'rectangle', coordinates: [[0, 0], [0, 1], [1, 1], [1, 0]] }
+    const migrated = migrateFeature(legacy, 0)
+    expect(migrated?.color).toBe('#10b981')
+    expect(Number.isNaN(Date.parse(migrated?.createdAt ?? ''))).toBe(false)
+
+    expect(migrateFeature(marker('a'), RECORD_VERSION)).toEqual(marker('a'))
+    expect(migrateFeature(marker('a'), RECORD_VERSION + 1)).toBeNull()
+  })
+
+  test('should reject records whose key does not match their feature', () => {
+    expect(readFeatureRecord({ id: 'a', version: RECORD_VERSION, feature: marker('a') })).toEqual(marker('a'))
+    expect(readFeatureRecord({ id: 'b', version: RECORD_VERSION, feature: marker('a') })).toBeNull()
+    expect(readFeatureRecord({ id: 'a', feature: marker('a') })).toBeNull()
+    expect(readFeatureRecord('garbage')).toBeNull()
+  })
+
+  test('should keep readable legacy features and set the rest aside', () => {
+    const { features, corrupt } = readLegacyFeatures(JSON.stringify([marker('a'), { id: 'b', type: 'marker' }, 42]))
+    expect(features.map(f => f.id)).toEqual(['a'])
+    expect(corrupt).toEqual([{ id: 'b', type: 'marker' }, 42])
+
+    expect(readLegacyFeatures('[{"id":')).toEqual({ features: [], corrupt: ['[{"id":'] })
+    expect(readLegacyFeatures('{"id":"a"}')).toEqual({ features: [], corrupt: [{ id: 'a' }] })
+  })
+})
+
+test.describe('Feature writes', () => {
+  test('should write only the features that changed', () => {
+    const [a, b, c] = [marker('a'), marker('b'), marker('c')]
+    const renamed = { ...b, name: 'Renamed' }
+
+    expect(planFeatureWrites([a, b, c], [a, renamed, c])).toEqual({ put: [renamed], remove: [], order: null })
+    expect(planFeatureWrites([a, b, c], [a, c])).toEqual({ put: [], remove: ['b'], order: ['a', 'c'] })
+    expect(planFeatureWrites([a, c], [a, b, c])).toEqual({ put: [b], remove: [], order: ['a', 'b', 'c'] })
+    expect(planFeatureWrites([a, b], [a, b])).toEqual({ put: [], remove: [], order: null })
+  })
+
+  test('should restore the stored order and append unlisted features', () => {
+    const [a, b, c] = [marker('a'), marker('b'), marker('c')]
+    expect(orderFeatures([a, b, c], ['c', 'a']).map(f => f.id)).toEqual(['c', 'a', 'b'])
+    expect(orderFeatures([b, a], undefined).map(f => f.id)).toEqual(['b', 'a'])
+  })
+
+  test('should merge legacy AOIs into the stored order', () => {
+    expect(mergeLegacyOrder(['a', 'b', 'c'], ['c', 'a'], ['x', 'b'])).toEqual(['c', 'a', 'b', 'x'])
+    expect(mergeLegacyOrder([], undefined, ['x', 'y'])).toEqual(['x', 'y'])
+    expect(mergeLegacyOrder(['a'], ['a'], [])).toEqual(['a'])
+  })
+
+  test('should recognise quota errors', () => {
+    expect(isQuotaError(new DOMException('Full', 'QuotaExceededError'))).toBe(true)
+    expect(isQuotaError(new DOMException('Closed', 'InvalidStateError'))).toBe(false)
+    expect(isQuotaError(new Error('QuotaExceededError'))).toBe(false)
+  })
+})
+
+test.describe('In-memory feature store', () => {
+  test('should keep each project\'s AOIs apart', async () => {
+    const store = createMemoryFeatureStore()
+    await store.save('a', [], [marker('1')])
+    await store.replace('b', [marker('2'), marker('3')])
+
+    expect((await store.load('a')).features.map(f => f.id)).toEqual(['1'])
+    expect((await store.load('b')).features.map(f => f.id)).toEqual(['2', '3'])
+
+    await store.remove('a')
+    expect(await store.load('a')).toEqual({ features: [], history: { past: [], future: [] }, recovered: 0 })
+  })
+})
@@ -0,0 +1,204 @@
+import { test, expect } from '@playwright/test'
+import { readFileSync } from 'node:fs'
+import {
+  parseNominatimReverse,
+  createBoundaryFeature,
+  createCachedReverseGeocoder,
+  createGeocoder,
+  createReverseGeocoder,
+  createRateLimiter,
+  normalizeNominatimResults,
+  normalizePeliasResults,
+  normalizePhotonResults
+} from '../../src/utils/geocoding'
+import { searchGazetteer } from '../../src/utils/gazetteer'
+import type { ReverseGeocoder } from '../../src/types'
+
+const fixture = (name: string): unknown =>
+  JSON.parse(readFileSync(new URL(`../fixtures/geocoding/${name}`, import.meta.url), 'utf-8'))
+
+// Local stand-in for a geocoding service that records the positions it was asked about
+function createStubGeocoder(fail = false) {
+  const calls: [number, number][] = []
+  const geocoder: ReverseGeocoder = {
+    reverse: async (lat, lng) => {
+      calls.push([lat, lng])
+      if (fail) throw new Error('Service unavailable')
+      return { name: `Place ${calls.length}`, displayName: `Place ${calls.length}, Somewhere` }
+    }
+  }
+  return { geocoder, calls }
+}
+
+test.describe('Reverse geocoding', () => {
+  test('should read a Nominatim reverse response', () => {
+    expect(parseNominatimReverse(fixture('nominatim-reverse.json'))).toEqual({
+      name: 'India Gate',
+      displayName: 'India Gate, Kartavya Path, Chanakya Puri Tehsil, New Delhi, Delhi, 110001, India'
+    })
+  })
+
+  test('should fall back to the first part of the address for unnamed places', () => {
+    const result = parseNominatimReverse({ name: '', display_name: '12, Janpath, New Delhi, India' })
+    expect(result?.name).toBe('12')
+  })
+
+  test('should treat "Unable to geocode" as nothing found and reject other responses', () => {
+    expect(parseNominatimReverse({ error: 'Unable to geocode' })).toBeNull()
+    expect(() => parseNominatimReverse([])).toThrow('Unexpected reverse geocoding response')
+    expect(() => parseNominatimReverse({ place_id: 1 })).toThrow('no address')
+  })
+
+  test('should answer repeated lookups of the same spot from the cache', async () => {
+    const { geocoder, calls } = createStubGeocoder()
+    const cached = createCachedReverseGeocoder(geocoder)
+
+    const [first, concurrent] = await Promise.all([cached.reverse(28.6129, 77.2295), cached.reverse(28.6129, 77.2295)])
+    expect(first).toEqual(concurrent)
+    // Sub-meter differences share the entry
+    expect(await cached.reverse(28.612900001, 77.229500001)).toEqual(first)
+    expect(calls).toHaveLength(1)
+
+    await cached.reverse(28.7, 77.1)
+    expect(calls).toHaveLength(2)
+  })
+
+  test('should evict the least recently used entry and retry failures', async () => {
+    const { geocoder, calls } = createStubGeocoder()
+    const cached = createCachedReverseGeocoder(geocoder, 2)
+    await cached.reverse(1, 1)
+    await cached.reverse(2, 2)
+    await cached.reverse(1, 1)
+    await cached.reverse(3, 3)
+    await cached.reverse(1, 1)
+    expect(calls).toEqual([[1, 1], [2, 2], [3, 3]])
+
+    const failing = createStubGeocoder(true)
+    const retrying = createCachedReverseGeocoder(failing.geocoder)
+    await expect(retrying.reverse(1, 1)).rejects.toThrow('Service unavailable')
+    await expect(retrying.reverse(1, 1)).rejects.toThrow('Service unavailable')
+    expect(failing.calls).toHaveLength(2)
+  })
+
+  test('should look up places with the provider and endpoint from settings', async () => {
+    const requested: string[] = []
+    const originalFetch = globalThis.fetch
+    globalThis.fetch = async input => {
+      requested.push(String(input))
+      const label = 'Janpath, New Delhi, India'
+      return Response.json({
+        features: [{ geometry: { coordinates: [77.2195, 28.6225] }, properties: { name: 'Janpath', city: 'New Delhi', country: 'India', label } }]
+      })
+    }
+
+    try {
+      const photon = createReverseGeocoder({ provider: 'photon', url: 'https://photon.example.org/', apiKey: '' })
+      const pelias = createReverseGeocoder({ provider: 'pelias', url: '', apiKey: 'key' })
+      const gazetteer = createReverseGeocoder({ provider: 'gazetteer', url: '', apiKey: '' })
+
+      const expected = { name: 'Janpath', displayName: 'Janpath, New Delhi, India' }
+      expect(await photon.reverse(28.6225, 77.2195)).toEqual(expected)
+      expect(await pelias.reverse(28.6225, 77.2195)).toEqual(expected)
+      expect(await gazetteer.reverse(28.6225, 77.2195)).toBeNull()
+      expect(requested).toEqual([
+        'https://photon.example.org/reverse?lat=28.6225&lon=77.2195',
+        'https://api.geocode.earth/v1/reverse?point.lat=28.6225&point.lon=77.2195&size=1&api_key=key'
+      ])
+    } finally {
+      globalThis.fetch = originalFetch
+    }
+  })
+})
+
+test.describe('Forward geocoding', () => {
+  test('should normalize Nominatim, Photon and Pelias results to one shape', () => {
+    // Each service orders its extent differently; all end up as west, south, east, north
+    expect(normalizeNominatimResults(fixture('nominatim-search.json'))[0]).toEqual({
+      place_id: 'nominatim:240109189',
+      lat: '52.5173885',
+      lon: '13.3951309',
+      display_name: 'Berlin, Deutschland',
+      type: 'administrative',
+      bbox: [13.088345, 52.3382448, 13.7611609, 52.6755087]
+    })
+
+    // Features without a name are dropped; repeated address parts are collapsed
+    const photon = normalizePhotonResults(fixture('photon-search.json'))
+    expect(photon).toHaveLength(2)
+    expect(photon[0]).toEqual({
+      place_id: 'photon:R62422',
+      lat: '52.5170365',
+      lon: '13.3888599',
+      display_name: 'Berlin, Deutschland',
+      type: 'city',
+      bbox: [13.088345, 52.3382448, 13.7611609, 52.6755087]
+    })
+    expect(photon[1].bbox).toBeUndefined()
+    expect(photon[1].display_name).toBe('Berlin Hauptbahnhof, Europaplatz, Berlin, Deutschland')
+
+    expect(normalizePeliasResults(fixture('pelias-search.json'))[1]).toEqual({
+      place_id: 'pelias:whosonfirst:locality:85951525',
+      lat: '43.968',
+      lon: '-89.004',
+      display_name: 'Berlin, WI, USA',
+      type: 'locality',
+      bbox: [-89.0226, 43.9537, -88.9784, 43.9854]
+    })
+
+    expect(() => normalizeNominatimResults({})).toThrow('Unexpected search response')
+    expect(() => normalizePhotonResults([])).toThrow('Unexpected search response')
+  })
+
+  test('should read boundaries and turn them into AOIs', () => {
+    const [district, station] = normalizeNominatimResults(fixture('nominatim-boundary.json'))
+    expect(station.boundary).toBeUndefined()
+    expect(() => createBoundaryFeature(station)).toThrow('no boundary')
+
+    // Both parts are kept, in [lat, lng] order without the closing vertex
+    expect(district.boundary).toHaveLength(2)
+    expect(district.boundary?.[1][0]).toEqual([[18.1003, 74.8512], [18.1121, 74.893], [18.0712, 74.8804]])
+
+    const feature = createBoundaryFeature(district)
+    expect(feature).toMatchObject({
+      name: 'Pune District',
+      type: 'multipolygon',
+      properties: { place: 'Pune District, Maharashtra, India' }
+    })
+
+    // A single outline without holes is a plain polygon; the exclave adds its own area
+    const single = createBoundaryFeature({ ...district, boundary: district.boundary?.slice(0, 1) })
+    expect(single.type).toBe('polygon')
+    expect(single.area).toBeGreaterThan(1e10)
+    expect(feature.area).toBeGreaterThan(single.area ?? 0)
+  })
+
+  test('should search the offline gazetteer ignoring case and accents', async () => {
+    expect(searchGazetteer('sao paulo')[0].display_name).toBe('São Paulo, Brazil')
+    // Name matches come before places that only mention the query in their region
+    expect(searchGazetteer('delhi').map(r => r.display_name)).toEqual(['New Delhi, Delhi, India'])
+    expect(searchGazetteer('bang').map(r => r.display_name)).toEqual(['Bangkok, Thailand', 'Dhaka, Bangladesh'])
+    expect(searchGazetteer('  ')).toEqual([])
+
+    const geocoder = createGeocoder({ provider: 'gazetteer', url: '', apiKey: '' })
+    expect((await geocoder.search('Mumbai'))[0]).toMatchObject({ place_id: 'gazetteer:1', lat: '19.076', lon: '72.8777' })
+    await expect(geocoder.search('Mumbai', AbortSignal.abort())).rejects.toThrow()
+  })
+
+  test('should space out rate-limited tasks and drop cancelled ones', async () => {
+    const schedule = createRateLimiter(50)
+    const started: number[] = []
+    const task = async () => { started.push(Date.now()) }
+
+    const controller = new AbortController()
+    const first = schedule(task)
+    const cancelled = schedule(task, controller.signal)
+    const third = schedule(task)
+    controller.abort()
+
+    await expect(cancelled).rejects.toThrow()
+    await Promise.all([first, third])
+    expect(started).toHaveLength(2)
+    // The cancelled task keeps its slot, so the third waits two intervals
+    expect(started[1] - started[0]).toBeGreaterThanOrEqual(90)
+  })
+})
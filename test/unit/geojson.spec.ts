@@ -0,0 +1,172 @@
+import { test, expect } from '@playwright/test'
+import { readFileSync } from 'node:fs'
+import { parseGeoJSON, featureToGeometry, getExportProperties } from '../../src/utils/geojson'
+import { calculateMultiPolygonArea } from '../../src/utils/mapUtils'
+import type { AOIFeature, MultiPolygonCoordinates } from '../../src/types'
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`../fixtures/geojson/${name}`, import.meta.url), 'utf-8')
+
+// Two parts, the first with a hole, as left by subtracting one AOI from another
+const parcel: AOIFeature = {
+  id: 'mp1',
+  name: 'Parcel',
+  type: 'multipolygon',
+  coordinates: [
+    [[[28, 77], [28, 78], [29, 78], [29, 77]], [[28.4, 77.4], [28.4, 77.6], [28.6, 77.6], [28.6, 77.4]]],
+    [[[28, 79], [28, 80], [29, 80]]]
+  ],
+  area: 0,
+  color: '#0ea5e9',
+  createdAt: '2024-05-01T10:00:00.000Z'
+}
+parcel.area = calculateMultiPolygonArea(parcel.coordinates as MultiPolygonCoordinates)
+
+test.describe('GeoJSON import', () => {
+  test('should map supported geometries to AOI features', () => {
+    const { features } = parseGeoJSON(fixture('mixed.geojson'))
+
+    expect(features.map(f => [f.name, f.type])).toEqual([
+      ['Farm plot', 'polygon'],
+      ['Islands', 'multipolygon'],
+      ['Well', 'marker'],
+      ['Buffer zone', 'circle'],
+      ['Road', 'polyline'],
+      ['Courtyard', 'multipolygon']
+    ])
+
+    const [plot, islands, well, zone, road, courtyard] = features
+    // Positions are flipped to [lat, lng] and the closing vertex is dropped
+    expect(plot.coordinates).toEqual([[28.6, 77.1], [28.6, 77.2], [28.7, 77.2], [28.7, 77.1]])
+    expect(plot.area).toBeGreaterThan(0)
+    expect(well.coordinates).toEqual([17.4, 78.5])
+    expect(zone.coordinates).toEqual({ center: [13.1, 80.2], radius: 500 })
+    expect(zone.area).toBeCloseTo(Math.PI * 500 * 500)
+    expect(road.coordinates).toEqual([[28, 77], [28.5, 77.5]])
+    expect(road.length).toBeGreaterThan(0)
+    // Parts and holes stay together in one AOI
+    expect((islands.coordinates as number[][][][]).map(rings => rings.length)).toEqual([1, 1])
+    expect((courtyard.coordinates as number[][][][]).map(rings => rings.length)).toEqual([2])
+  })
+
+  test('should preserve names, colours and extra properties', () => {
+    const [plot, islands] = parseGeoJSON(fixture('mixed.geojson')).features
+
+    expect(plot.color).toBe('#f59e0b')
+    expect(plot.properties).toEqual({ owner: 'Cooperative 12' })
+    expect(islands.properties).toBeUndefined()
+  })
+
+  test('should report invalid and unsupported features individually', () => {
+    const { issues } = parseGeoJSON(fixture('mixed.geojson'))
+
+    expect(issues.map(i => [i.index, i.name, i.severity])).toEqual([
+      [5, 'Bad ring', 'error'],
+      [6, 'Swapped axes', 'error'],
+      [8, 'AOI 7', 'error']
+    ])
+    expect(issues[2].message).toBe('Feature has no geometry')
+
+    const collection = { type: 'GeometryCollection', geometries: [] }
+    expect(parseGeoJSON(JSON.stringify(collection)).issues[0].message).toBe('Unsupported geometry type "GeometryCollection"')
+  })
+
+  test('should compute the extent of the imported features', () => {
+    const { bbox } = parseGeoJSON(fixture('mixed.geojson'))
+
+    expect(bbox).not.toBeNull()
+    const [west, south, east, north] = bbox!
+    expect(west).toBe(72.8)
+    expect(south).toBeLessThan(13.1)
+    expect(east).toBe(85.1)
+    expect(north).toBe(28.7)
+  })
+
+  test('should accept a bare Feature or geometry', () => {
+    const point = { type: 'Point', coordinates: [77, 28] }
+
+    expect(parseGeoJSON(JSON.stringify(point), 3).features[0]).toMatchObject({ name: 'AOI 4', type: 'marker' })
+    expect(parseGeoJSON(JSON.stringify({ type: 'Feature', properties: { title: 'Site' }, geometry: point })).features[0].name)
+      .toBe('Site')
+  })
+
+  test('should round-trip rectangles exported by the app', () => {
+    const exported = {
+      type: 'Feature',
+      properties: { id: 'abc', name: 'Block', type: 'rectangle', area: 1, createdAt: '2024-01-01T00:00:00.000Z' },
+      geometry: { type: 'Polygon', coordinates: [[[77, 28], [78, 28], [78, 29], [77, 29], [77, 28]]] }
+    }
+    const [feature] = parseGeoJSON(JSON.stringify(exported)).features
+
+    expect(feature.type).toBe('rectangle')
+    expect(feature.createdAt).toBe('2024-01-01T00:00:00.000Z')
+    expect(feature.id).not.toBe('abc')
+    expect(feature.properties).toBeUndefined()
+  })
+
+  test('should keep holes of multipolygons exported by the app', () => {
+    const exported = {
+      type: 'Feature',
+      properties: { name: 'Parcel', type: 'multipolygon' },
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: [
+          [[[77, 28], [78, 28], [78, 29], [77, 29], [77, 28]], [[77.4, 28.4], [77.6, 28.4], [77.6, 28.6], [77.4, 28.4]]],
+          [[[79, 28], [80, 28], [80, 29], [79, 28]]]
+        ]
+      }
+    }
+    const { features, issues } = parseGeoJSON(JSON.stringify(exported))
+
+    expect(issues).toEqual([])
+    expect(features).toHaveLength(1)
+    expect(features[0].type).toBe('multipolygon')
+    expect((features[0].coordinates as number[][][][]).map(rings => rings.length)).toEqual([2, 1])
+  })
+
+  test('should round-trip holed multipolygons, with or without the app\'s properties', () => {
+    const geometry = featureToGeometry(parcel)
+    const exported = [
+      { type: 'Feature', properties: getExportProperties(parcel), geometry },
+      { type: 'Feature', properties: { name: 'Parcel' }, geometry }
+    ]
+    const { features, issues } = parseGeoJSON(JSON.stringify({ type: 'FeatureCollection', features: exported }))
+
+    expect(issues).toEqual([])
+    features.forEach(feature => {
+      expect(feature).toMatchObject({ type: 'multipolygon', coordinates: parcel.coordinates })
+      expect(feature.area).toBeCloseTo(parcel.area!, 3)
+    })
+  })
+
+  test('should restore lines exported by the app with their geodesic length', () => {
+    const exported = {
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: { name: 'Pipeline', type: 'polyline', length: 1 }, geometry: { type: 'LineString', coordinates: [[0, 0], [1, 0]] } },
+        { type: 'Feature', properties: { name: 'Short', type: 'polyline' }, geometry: { type: 'LineString', coordinates: [[0, 0]] } }
+      ]
+    }
+    const { features, issues } = parseGeoJSON(JSON.stringify(exported))
+
+    expect(features).toHaveLength(1)
+    expect(features[0]).toMatchObject({ name: 'Pipeline', type: 'polyline', coordinates: [[0, 0], [0, 1]] })
+    // One degree along the equator on the mean Earth radius
+    expect(features[0].length).toBeCloseTo(111195, 0)
+    expect(features[0].properties).toBeUndefined()
+    expect(issues).toEqual([{ index: 1, name: 'Short', severity: 'error', message: 'Line needs at least 2 positions' }])
+  })
+
+  test('should split multilinestrings into one polyline per line', () => {
+    const lines = { type: 'MultiLineString', coordinates: [[[0, 0], [1, 0]], [[2, 0]], [[3, 0], [4, 0]]] }
+    const { features, issues } = parseGeoJSON(JSON.stringify({ type: 'Feature', properties: { name: 'Canals' }, geometry: lines }))
+
+    expect(features.map(f => [f.name, f.type])).toEqual([['Canals (1)', 'polyline'], ['Canals (3)', 'polyline']])
+    expect(issues).toEqual([{ index: 0, name: 'Canals', severity: 'error', message: 'Part 2: Line needs at least 2 positions' }])
+  })
+
+  test('should reject files that are not GeoJSON', () => {
+    expect(() => parseGeoJSON('not json')).toThrow('File is not valid JSON')
+    expect(() => parseGeoJSON('{"type":"Topology"}')).toThrow('not a GeoJSON')
+  })
+})
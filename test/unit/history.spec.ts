@@ -0,0 +1,72 @@
+import { test, expect } from '@playwright/test'
+import { EMPTY_HISTORY, diffFeatures, applyChanges, recordChange, undoChange, redoChange } from '../../src/utils/history'
+import type { AOIFeature } from '../../src/types'
+
+const feature = (id: string, name = id): AOIFeature => ({
+  id,
+  name,
+  type: 'marker',
+  coordinates: [20, 78],
+  color: '#ef4444',
+  createdAt: '2024-01-01T00:00:00.000Z'
+})
+
+const [a, b, c] = [feature('a'), feature('b'), feature('c')]
+
+test.describe('AOI history', () => {
+  test('should diff additions, deletions and updates', () => {
+    const renamed = { ...b, name: 'Renamed' }
+    const changes = diffFeatures([a, b, c], [renamed, c, feature('d')])
+
+    expect(changes.map(ch => [ch.id, ch.index, ch.before?.name ?? null, ch.after?.name ?? null])).toEqual([
+      ['a', 0, 'a', null],
+      ['b', 0, 'b', 'Renamed'],
+      ['d', 2, null, 'd']
+    ])
+    expect(diffFeatures([a, b], [a, { ...b }])).toEqual([])
+  })
+
+  test('should undo and redo changes back to the exact lists', () => {
+    const prev = [a, b, c]
+    const next = [{ ...a, name: 'A2' }, feature('e'), c]
+    const changes = diffFeatures(prev, next)
+
+    expect(applyChanges(next, changes, 'undo')).toEqual(prev)
+    expect(applyChanges(prev, changes, 'redo')).toEqual(next)
+  })
+
+  test('should restore deleted features at their original positions', () => {
+    const cleared = recordChange(EMPTY_HISTORY, 'Clear all', [a, b, c], [])
+    const undone = undoChange([], cleared)
+
+    expect(undone?.features.map(f => f.id)).toEqual(['a', 'b', 'c'])
+    expect(undone?.history.future.map(e => e.label)).toEqual(['Clear all'])
+
+    const redone = redoChange(undone!.features, undone!.history)
+    expect(redone?.features).toEqual([])
+    expect(redone?.history.past.map(e => e.label)).toEqual(['Clear all'])
+  })
+
+  test('should clear the redo stack and bound the undo stack', () => {
+    let history = recordChange(EMPTY_HISTORY, 'Create a', [], [a])
+    history = undoChange([a], history)!.history
+    expect(history.future).toHaveLength(1)
+
+    history = recordChange(history, 'Create b', [], [b])
+    expect(history.future).toEqual([])
+
+    let features: AOIFeature[] = []
+    for (let i = 0; i < 5; i++) {
+      const next = [...features, feature(`f${i}`)]
+      history = recordChange(history, `Create f${i}`, features, next, 3)
+      features = next
+    }
+    expect(history.past.map(e => e.label)).toEqual(['Create f2', 'Create f3', 'Create f4'])
+  })
+
+  test('should ignore mutations that change nothing', () => {
+    expect(recordChange(EMPTY_HISTORY, 'Rename a', [a], [a])).toBe(EMPTY_HISTORY)
+    expect(undoChange([a], EMPTY_HISTORY)).toBeNull()
+    expect(redoChange([a], EMPTY_HISTORY)).toBeNull()
+  })
+})
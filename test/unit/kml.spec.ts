@@ -0,0 +1,197 @@
+import { test, expect } from '@playwright/test'
+import { readFileSync } from 'node:fs'
+import { DOMParser } from '@xmldom/xmldom'
+import { parseKML, parseKMZ, buildKML, buildKMZ, kmlColorToHex, hexToKmlColor } from '../../src/utils/kml'
+import { calculateMultiPolygonArea } from '../../src/utils/mapUtils'
+import type { AOIFeature, MultiPolygonCoordinates } from '../../src/types'
+
+const fixturePath = (name: string) => new URL(`../fixtures/kml/${name}`, import.meta.url)
+
+// xmldom stands in for the browser DOMParser
+const parser = new DOMParser() as unknown as globalThis.DOMParser
+
+// Two parts, the first with a hole, as left by subtracting one AOI from another
+const parcel: AOIFeature = {
+  id: 'mp1',
+  name: 'Parcel',
+  type: 'multipolygon',
+  coordinates: [
+    [[[28, 77], [28, 78], [29, 78], [29, 77]], [[28.4, 77.4], [28.4, 77.6], [28.6, 77.6], [28.6, 77.4]]],
+    [[[28, 79], [28, 80], [29, 80]]]
+  ],
+  area: 0,
+  color: '#0ea5e9',
+  createdAt: '2024-05-01T10:00:00.000Z'
+}
+parcel.area = calculateMultiPolygonArea(parcel.coordinates as MultiPolygonCoordinates)
+
+// Compare features without their generated ids and timestamps
+const comparable = (features: AOIFeature[]) =>
+  features.map(({ name, type, coordinates, color, properties }) => ({ name, type, coordinates, color, properties }))
+
+test.describe('KML import', () => {
+  const result = parseKML(readFileSync(fixturePath('google-earth.kml'), 'utf-8'), 0, parser)
+
+  test('should read Placemarks with Polygon, LineString, Point and MultiGeometry', () => {
+    expect(result.features.map(f => [f.name, f.type])).toEqual([
+      ['Field A', 'polygon'],
+      ['Canal works (1)', 'polygon'],
+      ['Canal works (2)', 'marker'],
+      ['Canal works (3)', 'polyline'],
+      ['Warehouse', 'marker'],
+      ['Pond', 'multipolygon'],
+      ['Highway', 'polyline']
+    ])
+    expect(result.features[0].coordinates).toEqual([[30.9, 75.8], [30.9, 75.82], [30.92, 75.82], [30.92, 75.8]])
+    expect(result.features[4].coordinates).toEqual([30.73, 76.78])
+    // Holes are kept
+    expect((result.features[5].coordinates as number[][][][]).map(rings => rings.length)).toEqual([2])
+    // Lines from any source become polylines with their geodesic length
+    expect(result.features[6].coordinates).toEqual([[30, 76], [29, 77]])
+    expect(result.features[6].length).toBeGreaterThan(0)
+  })
+
+  test('should map folders, descriptions and ExtendedData to properties', () => {
+    const [field, canal] = result.features
+
+    expect(field.properties).toEqual({
+      folder: 'Punjab / Ludhiana',
+      description: 'Wheat, rabi season',
+      owner: 'R. Singh',
+      survey_no: '112/4'
+    })
+    expect(canal.properties).toEqual({ folder: 'Punjab' })
+  })
+
+  test('should map line and fill colours through shared, mapped and inline styles', () => {
+    const [field, canal, , canalLine, warehouse, pond, highway] = result.features
+
+    // StyleMap resolved to its normal style, line colour preferred
+    expect(field.color).toBe('#ff0000')
+    // Fill colour used when there is no line colour
+    expect(canal.color).toBe('#00ff00')
+    expect(canalLine.color).toBe('#00ff00')
+    // Inline icon style
+    expect(warehouse.color).toBe('#0000ff')
+    // Unstyled placemarks fall back to the AOI type colour
+    expect(pond.color).toBe('#0ea5e9')
+    expect(highway.color).toBe('#f59e0b')
+  })
+
+  test('should report skipped geometries per Placemark', () => {
+    expect(result.issues.map(i => [i.index, i.name, i.severity, i.message])).toEqual([
+      [5, 'Empty', 'error', 'Placemark has no geometry']
+    ])
+
+    const track = `<kml xmlns="http://www.opengis.net/kml/2.2"><Document>
+      <Placemark><name>Drive</name><Track/></Placemark>
+      <Placemark><name>Survey</name><MultiGeometry>
+        <LineString><coordinates>75.7,30.8 75.75,30.85</coordinates></LineString>
+        <LineString><coordinates>75.7,30.8</coordinates></LineString>
+        <Model/>
+      </MultiGeometry></Placemark>
+    </Document></kml>`
+    const { features, issues } = parseKML(track, 0, parser)
+    expect(features.map(f => [f.name, f.type])).toEqual([['Survey', 'polyline']])
+    expect(issues.map(i => [i.index, i.name, i.severity, i.message])).toEqual([
+      [0, 'Drive', 'error', 'Unsupported geometry type "Track"'],
+      [1, 'Survey', 'warning', '1 unsupported geometry part(s) were skipped'],
+      [1, 'Survey', 'error', 'Part 2: Line needs at least 2 positions']
+    ])
+  })
+
+  test('should read the same features from the zipped KMZ', () => {
+    const kmz = parseKMZ(new Uint8Array(readFileSync(fixturePath('google-earth.kmz'))), 0, parser)
+
+    expect(comparable(kmz.features)).toEqual(comparable(result.features))
+    expect(kmz.issues).toEqual(result.issues)
+  })
+
+  test('should reject documents that are not KML', () => {
+    expect(() => parseKML('<gpx></gpx>', 0, parser)).toThrow('Not a KML document (root element <gpx>)')
+    expect(() => parseKMZ(new Uint8Array([1, 2, 3]), 0, parser)).toThrow('not a valid KMZ')
+  })
+})
+
+test.describe('KML export', () => {
+  const sample = parseKML(readFileSync(fixturePath('google-earth.kml'), 'utf-8'), 0, parser).features
+
+  test('should round-trip the sample file through KML', () => {
+    const roundTrip = parseKML(buildKML(sample), 0, parser)
+
+    expect(roundTrip.issues).toEqual([])
+    expect(comparable(roundTrip.features)).toEqual(comparable(sample))
+    expect(roundTrip.features.map(f => f.createdAt)).toEqual(sample.map(f => f.createdAt))
+  })
+
+  test('should round-trip the sample file through KMZ', () => {
+    const roundTrip = parseKMZ(buildKMZ(sample), 0, parser)
+
+    expect(comparable(roundTrip.features)).toEqual(comparable(sample))
+  })
+
+  test('should restore circles and rectangles drawn in the app', () => {
+    const drawn: AOIFeature[] = [
+      {
+        id: 'c1',
+        name: 'Site <A> & B',
+        type: 'circle',
+        coordinates: { center: [28.6, 77.2], radius: 750 },
+        area: Math.PI * 750 * 750,
+        color: '#8b5cf6',
+        createdAt: '2024-05-01T10:00:00.000Z'
+      },
+      {
+        id: 'r1',
+        name: 'Block',
+        type: 'rectangle',
+        coordinates: [[28, 77], [28, 78], [29, 78], [29, 77]],
+        color: '#10b981',
+        createdAt: '2024-05-01T10:00:00.000Z'
+      }
+    ]
+
+    const [circle, rectangle] = parseKML(buildKML(drawn), 0, parser).features
+
+    expect(circle.name).toBe('Site <A> & B')
+    expect(circle.type).toBe('circle')
+    const { center, radius } = circle.coordinates as { center: number[]; radius: number }
+    expect(radius).toBe(750)
+    expect(center[0]).toBeCloseTo(28.6, 9)
+    expect(center[1]).toBeCloseTo(77.2, 9)
+    expect(rectangle).toMatchObject({ type: 'rectangle', coordinates: drawn[1].coordinates, color: '#10b981' })
+  })
+
+  test('should round-trip holed multipolygons as one AOI', () => {
+    const { features, issues } = parseKML(buildKML([parcel]), 0, parser)
+
+    expect(issues).toEqual([])
+    expect(features).toHaveLength(1)
+    expect(features[0]).toMatchObject({ name: 'Parcel', type: 'multipolygon', coordinates: parcel.coordinates })
+    expect(features[0].area).toBeCloseTo(parcel.area!, 3)
+  })
+
+  test('should restore lines drawn in the app', () => {
+    const line: AOIFeature = {
+      id: 'l1',
+      name: 'Canal',
+      type: 'polyline',
+      coordinates: [[28, 77], [28.5, 77.5], [29, 77.2]],
+      length: 120000,
+      color: '#f59e0b',
+      createdAt: '2024-05-01T10:00:00.000Z'
+    }
+    const kml = buildKML([line])
+
+    expect(kml).toContain('<LineString><coordinates>77,28 77.5,28.5 77.2,29</coordinates></LineString>')
+    const [restored] = parseKML(kml, 0, parser).features
+    expect(restored).toMatchObject({ name: 'Canal', type: 'polyline', coordinates: line.coordinates, color: '#f59e0b' })
+    expect(restored.length).toBeGreaterThan(0)
+  })
+
+  test('should convert between KML and CSS colours', () => {
+    expect(kmlColorToHex('7f0000ff')).toBe('#ff0000')
+    expect(kmlColorToHex('red')).toBeUndefined()
+    expect(hexToKmlColor('#3B82F6', '4d')).toBe('4df6823b')
+  })
+})
@@ -0,0 +1,57 @@
+import { test, expect } from '@playwright/test'
+import {
+  AOI_LAYER_ID,
+  DEFAULT_LAYERS,
+  moveLayer,
+  getPaneZIndex,
+  buildWmtsTileUrl,
+  normalizeLayers
+} from '../../src/utils/layerStack'
+
+const ids = (layers: { id: string }[]) => layers.map(l => l.id)
+
+test.describe('Layer stack', () => {
+  test('should move a layer to a new position without mutating the input', () => {
+    const moved = moveLayer(DEFAULT_LAYERS, 'osm', 0)
+
+    expect(ids(moved)).toEqual(['osm', AOI_LAYER_ID, 'satellite', 'esri-imagery'])
+    expect(ids(DEFAULT_LAYERS)).toEqual([AOI_LAYER_ID, 'satellite', 'osm', 'esri-imagery'])
+  })
+
+  test('should clamp the target index and ignore unknown ids', () => {
+    expect(ids(moveLayer(DEFAULT_LAYERS, AOI_LAYER_ID, 99))).toEqual(['satellite', 'osm', 'esri-imagery', AOI_LAYER_ID])
+    expect(moveLayer(DEFAULT_LAYERS, 'missing', 0)).toBe(DEFAULT_LAYERS)
+  })
+
+  test('should stack panes so the first layer is drawn on top', () => {
+    const zIndices = DEFAULT_LAYERS.map((_, i) => getPaneZIndex(i, DEFAULT_LAYERS.length))
+
+    expect(zIndices).toEqual([...zIndices].sort((a, b) => b - a))
+    // Stay between Leaflet's tile pane and overlay pane
+    expect(Math.min(...zIndices)).toBeGreaterThan(200)
+    expect(Math.max(...zIndices)).toBeLessThan(400)
+  })
+
+  test('should build a KVP GetTile template for WMTS layers', () => {
+    const url = buildWmtsTileUrl({
+      url: 'https://tiles.example.com/wmts?',
+      layer: 'ortho',
+      tileMatrixSet: 'GoogleMapsCompatible',
+      format: 'image/jpeg',
+      style: ''
+    })
+
+    expect(url).toBe(
+      'https://tiles.example.com/wmts?SERVICE=WMTS&REQUEST=GetTile&VERSION=1.0.0&LAYER=ortho&STYLE=default' +
+      '&TILEMATRIXSET=GoogleMapsCompatible&FORMAT=image%2Fjpeg&TILEMATRIX={z}&TILEROW={y}&TILECOL={x}'
+    )
+  })
+
+  test('should restore the AOI entry in persisted stacks', () => {
+    const stored = DEFAULT_LAYERS.filter(l => l.id !== AOI_LAYER_ID)
+
+    expect(ids(normalizeLayers(stored))[0]).toBe(AOI_LAYER_ID)
+    expect(normalizeLayers([])).toBe(DEFAULT_LAYERS)
+    expect(normalizeLayers(null)).toBe(DEFAULT_LAYERS)
+  })
+})
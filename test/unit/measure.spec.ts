@@ -0,0 +1,33 @@
+import { test, expect } from '@playwright/test'
+import { measurePath, formatDistance, formatMeasuredArea } from '../../src/utils/measure'
+
+test.describe('Measure tool', () => {
+  test('should measure segments and the running total geodesically', () => {
+    const { segments, total, area } = measurePath([[0, 0], [0, 1], [1, 1]])
+
+    // One degree of longitude on the equator, then one degree of latitude
+    expect(segments[0]).toBeCloseTo(111195, 0)
+    expect(segments[1]).toBeCloseTo(111195, 0)
+    expect(total).toBeCloseTo(segments[0] + segments[1], 6)
+    expect(area).toBeGreaterThan(6e9)
+  })
+
+  test('should only report an area once the path has three points', () => {
+    expect(measurePath([])).toEqual({ segments: [], total: 0, area: 0 })
+    expect(measurePath([[28, 77], [28.1, 77]]).area).toBe(0)
+  })
+
+  test('should format distances in metric and imperial units', () => {
+    expect(formatDistance(850, 'metric')).toBe('850 m')
+    expect(formatDistance(2500, 'metric')).toBe('2.50 km')
+    expect(formatDistance(100, 'imperial')).toBe('328 ft')
+    expect(formatDistance(1609.344 * 3, 'imperial')).toBe('3.00 mi')
+  })
+
+  test('should format areas in metric and imperial units', () => {
+    expect(formatMeasuredArea(25000, 'metric')).toBe('2.50 ha')
+    expect(formatMeasuredArea(100, 'imperial')).toBe('1076 ft²')
+    expect(formatMeasuredArea(4046.8564224 * 10, 'imperial')).toBe('10.00 ac')
+    expect(formatMeasuredArea(1609.344 ** 2 * 2, 'imperial')).toBe('2.00 mi²')
+  })
+})
@@ -0,0 +1,118 @@
+import { test, expect } from '@playwright/test'
+import { readFileSync } from 'node:fs'
+import {
+  DEFAULT_PROJECT_SETTINGS,
+  buildProjectFile,
+  copyFeatures,
+  createDefaultWorkspace,
+  createProject,
+  getProjectFileName,
+  normalizeWorkspace,
+  parseProjectFile,
+  uniqueProjectName
+} from '../../src/utils/projects'
+import { DEFAULT_LAYERS } from '../../src/utils/layerStack'
+import type { AOIFeature } from '../../src/types'
+
+const fixture = (name: string) => readFileSync(new URL(`../fixtures/projects/${name}`, import.meta.url), 'utf8')
+
+const marker: AOIFeature = {
+  id: 'm1',
+  name: 'Pin',
+  type: 'marker',
+  coordinates: [18.52, 73.85],
+  color: '#ef4444',
+  createdAt: '2024-05-01T10:00:00.000Z'
+}
+
+test.describe('Projects', () => {
+  test('should number names already taken by another project', () => {
+    const projects = [createProject('Survey'), createProject('Survey (2)'), createProject('Flood map')]
+
+    expect(uniqueProjectName('Harbour', projects)).toBe('Harbour')
+    expect(uniqueProjectName('survey', projects)).toBe('survey (3)')
+    expect(uniqueProjectName('  ', projects)).toBe('Untitled project')
+    // Renaming a project to its own name is not a clash
+    expect(uniqueProjectName('Flood map', projects, projects[2].id)).toBe('Flood map')
+  })
+
+  test('should keep a valid workspace as it is', () => {
+    const workspace = createDefaultWorkspace()
+    const normalized = normalizeWorkspace(workspace, createDefaultWorkspace())
+
+    expect(normalized).toBe(workspace)
+    expect(normalized.projects[0].layers).toBe(DEFAULT_LAYERS)
+  })
+
+  test('should repair stored projects and drop unreadable ones', () => {
+    const fallback = createDefaultWorkspace()
+    const normalized = normalizeWorkspace({
+      activeId: 'gone',
+      projects: [
+        { id: 'a', name: 'Survey', view: { center: [200, 0], zoom: 4 }, settings: { coordinates: { format: 'utm' } } },
+        { name: 'No id' },
+        'garbage'
+      ]
+    }, fallback)
+
+    expect(normalized.activeId).toBe('a')
+    expect(normalized.projects).toHaveLength(1)
+    expect(normalized.projects[0].layers).toEqual(DEFAULT_LAYERS)
+    expect(normalized.projects[0].view).toBeNull()
+    expect(normalized.projects[0].settings.coordinates).toEqual({ format: 'utm', precision: 4 })
+    expect(normalized.projects[0].settings.geocoder).toEqual(DEFAULT_PROJECT_SETTINGS.geocoder)
+
+    expect(normalizeWorkspace({ activeId: 'a', projects: [] }, fallback)).toBe(fallback)
+    expect(normalizeWorkspace(null, fallback)).toBe(fallback)
+  })
+
+  test('should copy AOIs under new ids', () => {
+    const [copy] = copyFeatures([marker])
+    expect(copy.id).not.toBe(marker.id)
+    expect({ ...copy, id: marker.id }).toEqual(marker)
+  })
+})
+
+test.describe('Project files', () => {
+  test('should read a project file and skip damaged AOIs', () => {
+    const file = parseProjectFile(fixture('pune-survey.aoiproject.json'))
+
+    expect(file.name).toBe('Pune survey')
+    expect(file.features.map(f => f.name)).toEqual(['Shaniwar Wada', 'Pune Junction'])
+    expect(file.skipped).toBe(1)
+    expect(file.state.view).toEqual({ center: [18.52, 73.85], zoom: 12 })
+    expect(file.state.settings.coordinates.format).toBe('utm')
+    expect(file.state.settings.geocoder.provider).toBe('gazetteer')
+    expect(file.state.layers.map(l => l.id)).toEqual(['aoi', 'osm'])
+  })
+
+  test('should read back what it writes', () => {
+    const project = createProject('Flood map', {
+      view: { center: [51.45, 7.01], zoom: 9 },
+      attributes: [{ key: 'depth', label: 'Depth', type: 'number', required: true, min: 0 }]
+    })
+    const file = parseProjectFile(buildProjectFile(project, [marker]))
+
+    expect(file.name).toBe('Flood map')
+    expect(file.features).toEqual([marker])
+    expect(file.skipped).toBe(0)
+    expect(file.state).toEqual({
+      layers: project.layers,
+      view: project.view,
+      settings: project.settings,
+      attributes: project.attributes
+    })
+  })
+
+  test('should refuse files that are not projects', () => {
+    expect(() => parseProjectFile('{"type":"FeatureCollection","features":[]}')).toThrow('Not an AOI project file')
+    expect(() => parseProjectFile('not json')).toThrow('Project file is not valid JSON')
+    expect(() => parseProjectFile(JSON.stringify({ type: 'aoi-project', version: 99, project: { name: 'x' } })))
+      .toThrow('Project file was made by a newer version of the app')
+  })
+
+  test('should name exported files after the project', () => {
+    expect(getProjectFileName('Pune Survey – 2024')).toBe('pune-survey-2024.aoiproject.json')
+    expect(getProjectFileName('!!!')).toBe('project.aoiproject.json')
+  })
+})
@@ -0,0 +1,47 @@
+import { test, expect } from '@playwright/test'
+import { addRecentPlace, getPlaceBounds, toSavedPlace, toggleSavedPlace } from '../../src/utils/searchHistory'
+import type { SavedPlace } from '../../src/types'
+
+const place = (id: string): SavedPlace => ({ id, name: id, displayName: `${id}, Somewhere`, lat: 0, lng: 0 })
+
+test.describe('Search history', () => {
+  test('should keep a search result with its extent', () => {
+    const saved = toSavedPlace({
+      place_id: 'nominatim:240109189',
+      lat: '52.5173885',
+      lon: '13.3951309',
+      display_name: 'Berlin, Deutschland',
+      type: 'administrative',
+      bbox: [13.088345, 52.3382448, 13.7611609, 52.6755087]
+    })
+    expect(saved).toEqual({
+      id: 'nominatim:240109189',
+      name: 'Berlin',
+      displayName: 'Berlin, Deutschland',
+      lat: 52.5173885,
+      lng: 13.3951309,
+      bbox: [13.088345, 52.3382448, 13.7611609, 52.6755087]
+    })
+    expect(getPlaceBounds(saved)).toEqual([[52.3382448, 13.088345], [52.6755087, 13.7611609]])
+    expect(getPlaceBounds(place('point'))).toBeNull()
+  })
+
+  test('should move revisited places to the top and cap the list', () => {
+    let recent: SavedPlace[] = []
+    for (const id of ['a', 'b', 'c']) recent = addRecentPlace(recent, place(id), 3)
+    expect(recent.map(p => p.id)).toEqual(['c', 'b', 'a'])
+
+    recent = addRecentPlace(recent, place('a'), 3)
+    expect(recent.map(p => p.id)).toEqual(['a', 'c', 'b'])
+
+    recent = addRecentPlace(recent, place('d'), 3)
+    expect(recent.map(p => p.id)).toEqual(['d', 'a', 'c'])
+  })
+
+  test('should star and unstar places', () => {
+    let saved = toggleSavedPlace([], place('a'))
+    saved = toggleSavedPlace(saved, place('b'))
+    expect(saved.map(p => p.id)).toEqual(['b', 'a'])
+    expect(toggleSavedPlace(saved, place('a')).map(p => p.id)).toEqual(['b'])
+  })
+})
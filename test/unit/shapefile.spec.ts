@@ -0,0 +1,175 @@
+import { test, expect } from '@playwright/test'
+import { readFileSync } from 'node:fs'
+import { unzipSync } from 'fflate'
+import { parseShapefileZip, buildShapefileZip } from '../../src/utils/shapefile'
+import { calculateMultiPolygonArea } from '../../src/utils/mapUtils'
+import type { AOIFeature, MultiPolygonCoordinates } from '../../src/types'
+
+const fixture = (name: string) =>
+  new Uint8Array(readFileSync(new URL(`../fixtures/shapefile/${name}`, import.meta.url)))
+
+const expectCloseTo = (actual: number[][], expected: number[][], digits = 6) => {
+  expect(actual).toHaveLength(expected.length)
+  actual.forEach((point, i) => {
+    expect(point[0]).toBeCloseTo(expected[i][0], digits)
+    expect(point[1]).toBeCloseTo(expected[i][1], digits)
+  })
+}
+
+const drawn: AOIFeature[] = [
+  {
+    id: 'p1',
+    name: 'Field A',
+    type: 'polygon',
+    coordinates: [[30.9, 75.8], [30.9, 75.82], [30.92, 75.82], [30.92, 75.8]],
+    area: 4000000,
+    color: '#3b82f6',
+    createdAt: '2024-05-01T10:00:00.000Z',
+    properties: { crop: 'Wheat', irrigated: true, yield_t: 4.25 }
+  },
+  {
+    id: 'c1',
+    name: 'Tube well buffer',
+    type: 'circle',
+    coordinates: { center: [30.95, 75.85], radius: 300 },
+    area: Math.PI * 300 * 300,
+    color: '#8b5cf6',
+    createdAt: '2024-05-01T10:00:00.000Z'
+  },
+  {
+    id: 'm1',
+    name: 'Pump house – कुआँ',
+    type: 'marker',
+    coordinates: [30.91, 75.81],
+    color: '#ef4444',
+    createdAt: '2024-05-01T10:00:00.000Z',
+    properties: { crop: 'n/a' }
+  }
+]
+
+// Two parts, the first with a hole, as left by subtracting one AOI from another
+const parcel: AOIFeature = {
+  id: 'mp1',
+  name: 'Parcel',
+  type: 'multipolygon',
+  coordinates: [
+    [[[28, 77], [28, 78], [29, 78], [29, 77]], [[28.4, 77.4], [28.4, 77.6], [28.6, 77.6], [28.6, 77.4]]],
+    [[[28, 79], [28, 80], [29, 80]]]
+  ],
+  area: 0,
+  color: '#0ea5e9',
+  createdAt: '2024-05-01T10:00:00.000Z'
+}
+parcel.area = calculateMultiPolygonArea(parcel.coordinates as MultiPolygonCoordinates)
+
+test.describe('Shapefile import', () => {
+  test('should reproject a projected shapefile to WGS84 using its .prj', async () => {
+    const { features } = await parseShapefileZip(fixture('parcels-utm43n.zip'))
+
+    expect(features.map(f => f.name)).toEqual(['Field A', 'Orchard'])
+    expectCloseTo(features[0].coordinates as number[][], [[30.9, 75.8], [30.92, 75.8], [30.92, 75.82], [30.9, 75.82]])
+    expect(features[0].area).toBeGreaterThan(0)
+  })
+
+  test('should turn DBF attributes into feature properties', async () => {
+    const { features } = await parseShapefileZip(fixture('parcels-utm43n.zip'))
+
+    expect(features[0].properties).toEqual({ NAME: 'Field A', CROP: 'Wheat', AREA_HA: 399.5 })
+    expect(features[1].properties).toEqual({ NAME: 'Orchard', CROP: 'Kinnow', AREA_HA: 12.25 })
+  })
+
+  test('should keep holes', async () => {
+    const { features, issues } = await parseShapefileZip(fixture('parcels-utm43n.zip'))
+
+    expect(issues).toEqual([])
+    expect(features[1].type).toBe('multipolygon')
+    expect((features[1].coordinates as number[][][][]).map(rings => rings.length)).toEqual([2])
+  })
+
+  test('should reject archives without a shapefile', async () => {
+    await expect(parseShapefileZip(buildShapefileZip([]))).rejects.toThrow('Zip archive contains no shapefile (.shp)')
+  })
+})
+
+test.describe('Shapefile export', () => {
+  test('should write polygons and markers as separate WGS84 shapefiles', () => {
+    const files = Object.keys(unzipSync(buildShapefileZip(drawn))).sort()
+
+    expect(files).toEqual([
+      'aoi-points.cpg', 'aoi-points.dbf', 'aoi-points.prj', 'aoi-points.shp', 'aoi-points.shx',
+      'aoi-polygons.cpg', 'aoi-polygons.dbf', 'aoi-polygons.prj', 'aoi-polygons.shp', 'aoi-polygons.shx'
+    ])
+  })
+
+  test('should round-trip geometries and attributes', async () => {
+    const { features, issues } = await parseShapefileZip(buildShapefileZip(drawn))
+    const [polygon, circle, marker] = features
+
+    expect(issues).toEqual([])
+    expect(features.map(f => [f.name, f.type])).toEqual([
+      ['Field A', 'polygon'],
+      ['Tube well buffer', 'circle'],
+      ['Pump house – कुआँ', 'marker']
+    ])
+
+    // Rings are written clockwise, so vertices may come back in reverse order
+    const ring = polygon.coordinates as number[][]
+    expectCloseTo([...ring].sort(), [...(drawn[0].coordinates as number[][])].sort(), 9)
+    expect(polygon.properties).toMatchObject({ crop: 'Wheat', irrigated: true, yield_t: 4.25 })
+    expect(polygon.createdAt).toBe('2024-05-01T10:00:00.000Z')
+
+    const { center, radius } = circle.coordinates as { center: number[]; radius: number }
+    expect(radius).toBe(300)
+    expect(center[0]).toBeCloseTo(30.95, 9)
+    expect(center[1]).toBeCloseTo(75.85, 9)
+
+    expect(marker.coordinates).toEqual([30.91, 75.81])
+    expect(marker.properties).toEqual({ crop: 'n/a' })
+  })
+
+  test('should round-trip holed multipolygons as one AOI', async () => {
+    const { features, issues } = await parseShapefileZip(buildShapefileZip([parcel]))
+
+    expect(issues).toEqual([])
+    expect(features).toHaveLength(1)
+    expect(features[0].type).toBe('multipolygon')
+    // Rings are reoriented on export, so compare their shape rather than their vertex order
+    expect((features[0].coordinates as number[][][][]).map(rings => rings.length)).toEqual([2, 1])
+    expect(features[0].area).toBeCloseTo(parcel.area!, 0)
+  })
+
+  test('should write the extent of exports too large to spread into Math.min', () => {
+    // Enough vertices to overflow the call stack if passed as arguments
+    const count = 200000
+    const ring = Array.from({ length: count }, (_, i) => {
+      const angle = (i / count) * 2 * Math.PI
+      return [30 + Math.sin(angle), 75 + Math.cos(angle)]
+    })
+    const coastline: AOIFeature = { ...drawn[0], id: 'p2', name: 'Coastline', coordinates: ring, properties: undefined }
+    const { 'aoi-polygons.shp': shp } = unzipSync(buildShapefileZip([coastline]))
+    const view = new DataView(shp.buffer, shp.byteOffset)
+
+    expect([36, 44, 52, 60].map(offset => view.getFloat64(offset, true))).toEqual([74, 29, 76, 31])
+    // The record's own box follows its 8 byte header and shape type
+    expect([112, 120, 128, 136].map(offset => view.getFloat64(offset, true))).toEqual([74, 29, 76, 31])
+  })
+
+  test('should write lines to their own PolyLine shapefile', async () => {
+    const line: AOIFeature = {
+      id: 'l1',
+      name: 'Feeder canal',
+      type: 'polyline',
+      coordinates: [[30.9, 75.8], [30.95, 75.9]],
+      length: 10000,
+      color: '#f59e0b',
+      createdAt: '2024-05-01T10:00:00.000Z'
+    }
+    const zip = buildShapefileZip([line])
+
+    expect(Object.keys(unzipSync(zip))).toContain('aoi-lines.shp')
+    const { features } = await parseShapefileZip(zip)
+    expect(features).toHaveLength(1)
+    expect(features[0]).toMatchObject({ name: 'Feeder canal', type: 'polyline' })
+    expectCloseTo(features[0].coordinates as number[][], line.coordinates as number[][], 9)
+  })
+})
@@ -0,0 +1,90 @@
+import { test, expect } from '@playwright/test'
+import { readFileSync } from 'node:fs'
+import { parseWKT, parseWKTFeatures, buildWKT } from '../../src/utils/wkt'
+import { calculateMultiPolygonArea } from '../../src/utils/mapUtils'
+import type { AOIFeature, MultiPolygonCoordinates } from '../../src/types'
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`../fixtures/wkt/${name}`, import.meta.url), 'utf-8')
+
+// Two parts, the first with a hole, as left by subtracting one AOI from another
+const parcel: AOIFeature = {
+  id: 'mp1',
+  name: 'Parcel',
+  type: 'multipolygon',
+  coordinates: [
+    [[[28, 77], [28, 78], [29, 78], [29, 77]], [[28.4, 77.4], [28.4, 77.6], [28.6, 77.6], [28.6, 77.4]]],
+    [[[28, 79], [28, 80], [29, 80]]]
+  ],
+  area: 0,
+  color: '#0ea5e9',
+  createdAt: '2024-05-01T10:00:00.000Z'
+}
+parcel.area = calculateMultiPolygonArea(parcel.coordinates as MultiPolygonCoordinates)
+
+test.describe('WKT import', () => {
+  test('should parse points, lines, polygons and multipolygons', () => {
+    expect(parseWKT('POINT (78.5 17.4)')).toEqual({ type: 'Point', coordinates: [78.5, 17.4] })
+    expect(parseWKT('polygon((0 0,1 0,1 1,0 0))')).toEqual({
+      type: 'Polygon',
+      coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]]
+    })
+    expect(parseWKT('MULTIPOLYGON (((0 0, 1 0, 1 1, 0 0)))').coordinates).toHaveLength(1)
+    expect(parseWKT('LINESTRING (0 0, 1 1)')).toEqual({ type: 'LineString', coordinates: [[0, 0], [1, 1]] })
+    expect(parseWKT('MULTILINESTRING ((0 0, 1 1), (2 2, 3 3))')).toEqual({
+      type: 'MultiLineString',
+      coordinates: [[[0, 0], [1, 1]], [[2, 2], [3, 3]]]
+    })
+    // Z values are dropped; EWKT is accepted for WGS84 only
+    expect(parseWKT('SRID=4326;POINT Z (1.5 -2e1 30)').coordinates).toEqual([1.5, -20])
+    expect(() => parseWKT('SRID=3857;POINT (0 0)')).toThrow('Only WGS84')
+  })
+
+  test('should reject malformed and unsupported geometries', () => {
+    expect(() => parseWKT('MULTIPOINT ((0 0), (1 1))')).toThrow('Unsupported WKT geometry type "MULTIPOINT"')
+    expect(() => parseWKT('MULTILINESTRING (0 0, 1 1)')).toThrow('Malformed MULTILINESTRING')
+    expect(() => parseWKT('POLYGON ((0 0, 1 0, 1 1, 0 0)')).toThrow('Expected ")"')
+    expect(() => parseWKT('POLYGON (0 0, 1 0, 1 1, 0 0)')).toThrow('Malformed POLYGON')
+    expect(() => parseWKT('POINT EMPTY')).toThrow('POINT is empty')
+    expect(() => parseWKT('POINT (1)')).toThrow('x and a y')
+  })
+
+  test('should import one AOI per line and report bad lines by line number', () => {
+    const { features, issues } = parseWKTFeatures(fixture('aois.wkt'))
+
+    expect(features.map(f => [f.name, f.type])).toEqual([
+      ['AOI 1', 'polygon'],
+      ['AOI 2', 'marker'],
+      ['AOI 3', 'multipolygon'],
+      ['AOI 4', 'marker'],
+      ['AOI 5', 'polyline'],
+      ['AOI 6', 'multipolygon']
+    ])
+    expect(features[0].coordinates).toEqual([[28.6, 77.1], [28.6, 77.2], [28.7, 77.2], [28.7, 77.1]])
+    expect(features[3].coordinates).toEqual([19.1, 72.8])
+    expect(features[4].coordinates).toEqual([[19.0, 72.8], [19.1, 72.9]])
+
+    expect(issues).toEqual([{ index: 5, name: 'Line 7', severity: 'error', message: 'Expected ")" in WKT' }])
+  })
+
+  test('should round-trip exported features', () => {
+    const { features } = parseWKTFeatures(fixture('aois.wkt'))
+    const wkt = buildWKT(features)
+
+    expect(wkt.split('\n')[0]).toBe('POLYGON ((77.1 28.6, 77.2 28.6, 77.2 28.7, 77.1 28.7, 77.1 28.6))')
+    expect(wkt.split('\n')[1]).toBe('POINT (78.5 17.4)')
+    expect(wkt.split('\n')[4]).toBe('LINESTRING (72.8 19, 72.9 19.1)')
+    expect(parseWKTFeatures(wkt).features.map(f => f.coordinates)).toEqual(features.map(f => f.coordinates))
+  })
+
+  test('should round-trip holed multipolygons as one AOI', () => {
+    const wkt = buildWKT([parcel])
+    const { features, issues } = parseWKTFeatures(wkt)
+
+    expect(wkt).toBe('MULTIPOLYGON (((77 28, 78 28, 78 29, 77 29, 77 28), (77.4 28.4, 77.6 28.4, 77.6 28.6, 77.4 28.6, 77.4 28.4)), ((79 28, 80 28, 80 29, 79 28)))\n')
+    expect(issues).toEqual([])
+    expect(features).toHaveLength(1)
+    expect(features[0]).toMatchObject({ type: 'multipolygon', coordinates: parcel.coordinates })
+    expect(features[0].area).toBeCloseTo(parcel.area!, 3)
+  })
+})
@@ -0,0 +1,92 @@
+import { test, expect } from '@playwright/test'
+import { readFileSync } from 'node:fs'
+import { DOMParser } from '@xmldom/xmldom'
+import {
+  parseWmsCapabilities,
+  buildCapabilitiesUrl,
+  createWmsConfig
+} from '../../src/utils/wmsCapabilities'
+
+const fixture = (name: string) =>
+  readFileSync(new URL(`../fixtures/wms/${name}`, import.meta.url), 'utf-8')
+
+// xmldom stands in for the browser DOMParser
+const parser = new DOMParser() as unknown as globalThis.DOMParser
+
+test.describe('WMS GetCapabilities parsing', () => {
+  test('should parse a 1.3.0 document with inherited properties', () => {
+    const caps = parseWmsCapabilities(fixture('capabilities-1.3.0.xml'), parser)
+
+    expect(caps.version).toBe('1.3.0')
+    expect(caps.title).toBe('Orthophotos NRW')
+    expect(caps.getMapUrl).toBe('https://www.wms.nrw.de/geobasis/wms_nw_dop?')
+    expect(caps.formats).toEqual(['image/jpeg', 'image/png'])
+
+    // The untitled root group has no Name and is not addable
+    expect(caps.layers.map(l => l.name)).toEqual(['nw_dop_rgb', 'nw_dop_cir'])
+
+    const [rgb, cir] = caps.layers
+    expect(rgb.title).toBe('NW DOP RGB')
+    expect(rgb.abstract).toBe('True colour orthophotos')
+    expect(rgb.queryable).toBe(true)
+    expect(rgb.bbox).toEqual([5.59, 50.32, 9.47, 52.53])
+    expect(rgb.crs).toEqual(['EPSG:25832', 'EPSG:3857'])
+    expect(rgb.styles).toEqual([{ name: 'default', title: 'Default' }])
+
+    expect(cir.bbox).toEqual([6, 51, 7, 52])
+    expect(cir.crs).toContain('EPSG:4326')
+    expect(cir.styles.map(s => s.name)).toEqual(['default', 'infrared'])
+  })
+
+  test('should parse a 1.1.1 document', () => {
+    const caps = parseWmsCapabilities(fixture('capabilities-1.1.1.xml'), parser)
+
+    expect(caps.version).toBe('1.1.1')
+    expect(caps.layers).toHaveLength(2)
+
+    const [india, lulc] = caps.layers
+    expect(india.bbox).toEqual([68.1, 6.7, 97.4, 35.5])
+    expect(india.crs).toEqual(['EPSG:4326', 'EPSG:900913'])
+    expect(india.styles.map(s => s.title)).toEqual(['Boundary outline', 'Filled'])
+    expect(lulc.bbox).toEqual([70, 8, 90, 30])
+    expect(lulc.abstract).toBe('')
+  })
+
+  test('should surface service exceptions', () => {
+    expect(() => parseWmsCapabilities(fixture('service-exception.xml'), parser))
+      .toThrow(/Unsupported service version/)
+  })
+
+  test('should reject documents that are not WMS capabilities', () => {
+    expect(() => parseWmsCapabilities('<kml></kml>', parser)).toThrow(/Not a WMS capabilities document/)
+  })
+})
+
+test.describe('WMS catalog helpers', () => {
+  test('should build a GetCapabilities URL', () => {
+    expect(buildCapabilitiesUrl('https://example.com/wms'))
+      .toBe('https://example.com/wms?SERVICE=WMS&REQUEST=GetCapabilities')
+    expect(buildCapabilitiesUrl('https://example.com/wms?map=a.map&request=GetMap&Version=1.1.1'))
+      .toBe('https://example.com/wms?map=a.map&SERVICE=WMS&REQUEST=GetCapabilities')
+  })
+
+  test('should derive a GetMap config from a catalog layer', () => {
+    const caps = parseWmsCapabilities(fixture('capabilities-1.3.0.xml'), parser)
+    const config = createWmsConfig(caps, caps.layers[1], 'https://fallback.example/wms', 'infrared')
+
+    expect(config).toMatchObject({
+      url: 'https://www.wms.nrw.de/geobasis/wms_nw_dop',
+      layers: 'nw_dop_cir',
+      format: 'image/png',
+      transparent: true,
+      version: '1.3.0',
+      crs: 'EPSG:3857',
+      styles: 'infrared'
+    })
+  })
+
+  test('should fall back to EPSG:4326 when Web Mercator is not offered', () => {
+    const caps = parseWmsCapabilities(fixture('capabilities-1.1.1.xml'), parser)
+    expect(createWmsConfig(caps, caps.layers[0], '').crs).toBe('EPSG:4326')
+  })
+})